@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }],
+  },
+  // Services run against the in-memory Firestore driver, never a real project
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  coverageDirectory: 'coverage',
+};
@@ -3,6 +3,7 @@ import { getFirestore, Firestore } from 'firebase-admin/firestore';
 import { getAuth } from 'firebase-admin/auth';
 import logger from '../utils/logger';
 import { config } from './index';
+import { createMemoryFirestore } from './memoryFirestore';
 
 let app: App;
 let db: Firestore;
@@ -13,6 +14,17 @@ let db: Firestore;
  */
 export function initializeFirebase(): void {
   try {
+    // Offline mode: in-memory stand-in, no Firebase project or network needed
+    if (config.firebase.driver === 'memory') {
+      if (!db) {
+        db = createMemoryFirestore({ dataFile: config.firebase.dataFile || undefined });
+        logger.info(
+          `🧪 Using in-memory Firestore${config.firebase.dataFile ? ` (persisted to ${config.firebase.dataFile})` : ''}`
+        );
+      }
+      return;
+    }
+
     // Check if Firebase is already initialized
     if (getApps().length > 0) {
       logger.info('✅ Firebase already initialized');
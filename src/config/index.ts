@@ -2,6 +2,20 @@ import dotenv from "dotenv";
 
 dotenv.config();
 
+/**
+ * Parse a comma-separated list of minutes; unset or invalid uses the fallback,
+ * an empty value turns the reminders off
+ */
+const parseMinutes = (value: string | undefined, fallback: number[]): number[] => {
+  if (value === undefined) return fallback;
+  if (value.trim() === "") return [];
+  const minutes = value
+    .split(",")
+    .map((item) => parseInt(item.trim(), 10))
+    .filter((item) => !isNaN(item) && item >= 0);
+  return minutes.length > 0 ? minutes : fallback;
+};
+
 export const config = {
   // Server
   env: process.env.NODE_ENV || "development",
@@ -70,6 +84,60 @@ export const config = {
     maxFetch: parseInt(process.env.EMAIL_MAX_FETCH || "50", 10),
   },
 
+  // Trash (soft-deleted records)
+  trash: {
+    // Days a deleted record stays restorable; 0 disables the purge job
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10),
+    purgeSchedule: process.env.TRASH_PURGE_SCHEDULE || "0 3 * * *", // Daily at 03:00
+  },
+
+  // Saved candidate searches
+  savedSearches: {
+    // How often due searches are picked up; each search runs at its own frequency
+    schedule: process.env.SAVED_SEARCH_SCHEDULE || "*/15 * * * *",
+  },
+
+  // Candidate spreadsheet imports
+  candidateImports: {
+    // How often unfinished imports are checked; also checked once at startup
+    staleSweepSchedule: process.env.CANDIDATE_IMPORT_SWEEP_SCHEDULE || "*/10 * * * *",
+    // Minutes without progress before a queued or running import is failed
+    staleMinutes: parseInt(process.env.CANDIDATE_IMPORT_STALE_MINUTES || "30", 10),
+  },
+
+  // Pipeline stage automations
+  stageAutomation: {
+    // How often delayed actions and after_days rules are checked
+    schedule: process.env.STAGE_AUTOMATION_SCHEDULE || "*/5 * * * *",
+  },
+
+  // Stage SLA reminders
+  stageSla: {
+    schedule: process.env.STAGE_SLA_SCHEDULE || "0 * * * *", // Hourly
+  },
+
+  // Scheduled report emails
+  reportSubscriptions: {
+    // How often due subscriptions are picked up; each is delivered at its own hour
+    schedule: process.env.REPORT_SUBSCRIPTION_SCHEDULE || "0 * * * *",
+  },
+
+  // Daily analytics snapshots
+  metricSnapshots: {
+    schedule: process.env.METRIC_SNAPSHOT_SCHEDULE || "15 0 * * *", // Daily at 00:15 UTC
+  },
+
+  // Interview reminders (offsets in minutes, comma-separated)
+  interviewReminders: {
+    schedule: process.env.INTERVIEW_REMINDER_SCHEDULE || "*/5 * * * *",
+    candidateOffsets: parseMinutes(process.env.INTERVIEW_REMINDER_CANDIDATE_OFFSETS, [1440, 60]),
+    interviewerOffsets: parseMinutes(process.env.INTERVIEW_REMINDER_INTERVIEWER_OFFSETS, [1440, 60]),
+    // After the interview is completed, while an interviewer's feedback is missing
+    feedbackOffsets: parseMinutes(process.env.INTERVIEW_FEEDBACK_REMINDER_OFFSETS, [120, 1440]),
+    // After the interview is marked as a no-show
+    noShowOffsets: parseMinutes(process.env.INTERVIEW_NO_SHOW_FOLLOWUP_OFFSETS, [30]),
+  },
+
   // Security
   jwt: {
     secret: process.env.JWT_SECRET || "your_jwt_secret_change_in_production",
@@ -102,14 +170,20 @@ export const config = {
     projectId: process.env.FIREBASE_PROJECT_ID || "",
     serviceAccountPath: process.env.FIREBASE_SERVICE_ACCOUNT_PATH || "",
     serviceAccountJson: process.env.FIREBASE_SERVICE_ACCOUNT_JSON || "",
+    // "firestore" (default) or "memory" for the offline in-memory stand-in
+    driver: (process.env.FIRESTORE_DRIVER || "firestore") as "firestore" | "memory",
+    // Optional JSON file the memory driver persists to between runs
+    dataFile: process.env.FIRESTORE_DATA_FILE || "",
   },
 
 };
 
 // Validation
 export function validateConfig() {
+  const usesFirestore = config.firebase.driver !== "memory";
+
   const required = [
-    "FIREBASE_PROJECT_ID",
+    ...(usesFirestore ? ["FIREBASE_PROJECT_ID"] : []),
     "OPENAI_API_KEY",
     "RESEND_API_KEY",
     "JWT_SECRET",
@@ -126,7 +200,11 @@ export function validateConfig() {
   }
 
   // Validate Firebase service account path or JSON
-  if (!process.env.FIREBASE_SERVICE_ACCOUNT_PATH && !process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
+  if (
+    usesFirestore &&
+    !process.env.FIREBASE_SERVICE_ACCOUNT_PATH &&
+    !process.env.FIREBASE_SERVICE_ACCOUNT_JSON
+  ) {
     throw new Error(
       "Missing required Firebase configuration: Either FIREBASE_SERVICE_ACCOUNT_PATH or FIREBASE_SERVICE_ACCOUNT_JSON must be provided"
     );
@@ -0,0 +1,884 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { Filter, Firestore, Timestamp } from 'firebase-admin/firestore';
+import logger from '../utils/logger';
+
+/**
+ * In-memory Firestore stand-in
+ *
+ * Implements the subset of the firebase-admin Firestore API used by this
+ * codebase (collections, documents, queries, count, batches, transactions and
+ * snapshot listeners) so the API, scripts and tests can run without a Firebase
+ * project or network. Optionally persists to a JSON file between runs.
+ */
+
+type DocData = Record<string, any>;
+
+interface StoredDoc {
+  data: DocData;
+  createTime: Timestamp;
+  updateTime: Timestamp;
+  version: number;
+}
+
+interface OrderBy {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+type Predicate = (doc: { id: string; data: DocData }) => boolean;
+
+type WriteOp =
+  | { type: 'set'; ref: MemoryDocumentReference; data: DocData; merge: boolean }
+  | { type: 'update'; ref: MemoryDocumentReference; data: DocData }
+  | { type: 'create'; ref: MemoryDocumentReference; data: DocData }
+  | { type: 'delete'; ref: MemoryDocumentReference };
+
+const DOCUMENT_ID = '__name__';
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+/**
+ * Error shaped like the gRPC errors thrown by the real SDK
+ */
+class MemoryFirestoreError extends Error {
+  public code: number;
+
+  constructor(code: number, status: string, message: string) {
+    super(`${code} ${status}: ${message}`);
+    this.code = code;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Value helpers
+// ---------------------------------------------------------------------------
+
+function fieldName(field: any): string {
+  return typeof field === 'string' ? field : field.toString();
+}
+
+function isPlainObject(value: any): value is DocData {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+function sentinelName(value: any): string | null {
+  if (value && typeof value === 'object' && typeof value.methodName === 'string') {
+    return value.methodName;
+  }
+  return null;
+}
+
+function cloneValue(value: any): any {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (isPlainObject(value)) {
+    const result: DocData = {};
+    Object.keys(value).forEach((key) => {
+      if (value[key] !== undefined) result[key] = cloneValue(value[key]);
+    });
+    return result;
+  }
+  return value;
+}
+
+function getPath(data: DocData | undefined, field: string): any {
+  return field.split('.').reduce<any>(
+    (current, key) => (current && typeof current === 'object' ? current[key] : undefined),
+    data
+  );
+}
+
+function setPath(data: DocData, segments: string[], value: any): void {
+  const [head, ...rest] = segments;
+  if (rest.length === 0) {
+    const resolved = resolveSentinel(data[head], value);
+    if (resolved === undefined) {
+      delete data[head];
+    } else {
+      data[head] = resolved;
+    }
+    return;
+  }
+  if (!isPlainObject(data[head])) data[head] = {};
+  setPath(data[head], rest, value);
+}
+
+/**
+ * Apply FieldValue sentinels (serverTimestamp, increment, arrayUnion, ...)
+ */
+function resolveSentinel(previous: any, value: any): any {
+  switch (sentinelName(value)) {
+    case 'FieldValue.serverTimestamp':
+      return Timestamp.now();
+    case 'FieldValue.delete':
+      return undefined;
+    case 'FieldValue.increment':
+      return (typeof previous === 'number' ? previous : 0) + value.operand;
+    case 'FieldValue.arrayUnion': {
+      const base = Array.isArray(previous) ? [...previous] : [];
+      value.elements.forEach((element: any) => {
+        if (!base.some((existing) => valuesEqual(existing, element))) {
+          base.push(cloneValue(element));
+        }
+      });
+      return base;
+    }
+    case 'FieldValue.arrayRemove':
+      return Array.isArray(previous)
+        ? previous.filter(
+            (existing) => !value.elements.some((element: any) => valuesEqual(existing, element))
+          )
+        : [];
+    default:
+      if (isPlainObject(value)) {
+        const result: DocData = {};
+        Object.keys(value).forEach((key) => {
+          const resolved = resolveSentinel(undefined, value[key]);
+          if (resolved !== undefined) result[key] = resolved;
+        });
+        return result;
+      }
+      return value === undefined ? undefined : cloneValue(value);
+  }
+}
+
+function mergeInto(target: DocData, source: DocData): DocData {
+  Object.keys(source).forEach((key) => {
+    const value = source[key];
+    if (value === undefined) return;
+    if (isPlainObject(value) && sentinelName(value) === null && isPlainObject(target[key])) {
+      mergeInto(target[key], value);
+    } else {
+      setPath(target, [key], value);
+    }
+  });
+  return target;
+}
+
+/**
+ * Type ordering used by Firestore when comparing values of different types
+ */
+function typeRank(value: any): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (value instanceof Timestamp || value instanceof Date) return 3;
+  if (typeof value === 'string') return 4;
+  if (Array.isArray(value)) return 6;
+  return 7;
+}
+
+function compareValues(a: any, b: any): number {
+  const rankDiff = typeRank(a) - typeRank(b);
+  if (rankDiff !== 0) return rankDiff;
+
+  if (a instanceof Timestamp || a instanceof Date) {
+    const aMs = a instanceof Date ? a.getTime() : a.toMillis();
+    const bMs = b instanceof Date ? b.getTime() : b.toMillis();
+    return aMs - bMs;
+  }
+  if (Array.isArray(a)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const diff = compareValues(a[i], b[i]);
+      if (diff !== 0) return diff;
+    }
+    return a.length - b.length;
+  }
+  if (typeRank(a) === 7) {
+    return JSON.stringify(a).localeCompare(JSON.stringify(b));
+  }
+  if (a === b || a === null || a === undefined) return 0;
+  return a < b ? -1 : 1;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (typeRank(a) !== typeRank(b)) return false;
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => valuesEqual(a[key], b[key]))
+    );
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]));
+  }
+  return compareValues(a, b) === 0;
+}
+
+function matchesOperator(fieldValue: any, operator: string, value: any): boolean {
+  switch (operator) {
+    case '==':
+      return fieldValue !== undefined && valuesEqual(fieldValue, value);
+    case '!=':
+      return fieldValue !== undefined && fieldValue !== null && !valuesEqual(fieldValue, value);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      if (fieldValue === undefined || typeRank(fieldValue) !== typeRank(value)) return false;
+      const diff = compareValues(fieldValue, value);
+      if (operator === '<') return diff < 0;
+      if (operator === '<=') return diff <= 0;
+      if (operator === '>') return diff > 0;
+      return diff >= 0;
+    }
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.some((item) => valuesEqual(item, value));
+    case 'array-contains-any':
+      return (
+        Array.isArray(fieldValue) &&
+        (value as any[]).some((candidate) =>
+          fieldValue.some((item) => valuesEqual(item, candidate))
+        )
+      );
+    case 'in':
+      return fieldValue !== undefined && (value as any[]).some((v) => valuesEqual(fieldValue, v));
+    case 'not-in':
+      return (
+        fieldValue !== undefined &&
+        fieldValue !== null &&
+        !(value as any[]).some((v) => valuesEqual(fieldValue, v))
+      );
+    default:
+      throw new MemoryFirestoreError(3, 'INVALID_ARGUMENT', `Unsupported operator: ${operator}`);
+  }
+}
+
+function fieldValueOf(doc: { id: string; data: DocData }, field: string): any {
+  return field === DOCUMENT_ID ? doc.id : getPath(doc.data, field);
+}
+
+function toPredicate(fieldOrFilter: any, operator?: string, value?: any): Predicate {
+  if (fieldOrFilter instanceof Filter) {
+    const filter = fieldOrFilter as any;
+    if (typeof filter._getFilters === 'function') {
+      const predicates: Predicate[] = filter._getFilters().map((f: any) => toPredicate(f));
+      return filter._getOperator() === 'OR'
+        ? (doc) => predicates.some((p) => p(doc))
+        : (doc) => predicates.every((p) => p(doc));
+    }
+    return toPredicate(filter._getField(), filter._getOperator(), filter._getValue());
+  }
+
+  const field = fieldName(fieldOrFilter);
+  return (doc) => matchesOperator(fieldValueOf(doc, field), operator!, value);
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+class MemoryDocumentSnapshot {
+  constructor(
+    public readonly ref: MemoryDocumentReference,
+    private readonly stored: StoredDoc | undefined
+  ) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  get createTime(): Timestamp | undefined {
+    return this.stored?.createTime;
+  }
+
+  get updateTime(): Timestamp | undefined {
+    return this.stored?.updateTime;
+  }
+
+  data(): DocData | undefined {
+    return this.stored ? cloneValue(this.stored.data) : undefined;
+  }
+
+  get(field: any): any {
+    return this.stored ? cloneValue(getPath(this.stored.data, fieldName(field))) : undefined;
+  }
+}
+
+class MemoryQuerySnapshot {
+  constructor(public readonly docs: MemoryDocumentSnapshot[]) {}
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  forEach(callback: (doc: MemoryDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries and references
+// ---------------------------------------------------------------------------
+
+interface QueryState {
+  predicates: Predicate[];
+  orderBy: OrderBy[];
+  limit?: number;
+  offset?: number;
+  startAfter?: any[];
+  startAt?: any[];
+}
+
+class MemoryQuery {
+  constructor(
+    public readonly firestore: MemoryFirestore,
+    protected readonly collectionPath: string,
+    protected readonly state: QueryState = { predicates: [], orderBy: [] }
+  ) {}
+
+  private with(changes: Partial<QueryState>): MemoryQuery {
+    return new MemoryQuery(this.firestore, this.collectionPath, { ...this.state, ...changes });
+  }
+
+  where(fieldOrFilter: any, operator?: string, value?: any): MemoryQuery {
+    return this.with({
+      predicates: [...this.state.predicates, toPredicate(fieldOrFilter, operator, value)],
+    });
+  }
+
+  orderBy(field: any, direction: 'asc' | 'desc' = 'asc'): MemoryQuery {
+    return this.with({
+      orderBy: [...this.state.orderBy, { field: fieldName(field), direction }],
+    });
+  }
+
+  limit(limit: number): MemoryQuery {
+    return this.with({ limit });
+  }
+
+  offset(offset: number): MemoryQuery {
+    return this.with({ offset });
+  }
+
+  startAfter(...values: any[]): MemoryQuery {
+    return this.with({ startAfter: this.cursorValues(values) });
+  }
+
+  startAt(...values: any[]): MemoryQuery {
+    return this.with({ startAt: this.cursorValues(values) });
+  }
+
+  count(): { get: () => Promise<{ data: () => { count: number } }> } {
+    return {
+      get: async () => {
+        const count = this.execute({ ...this.state, limit: undefined, offset: undefined }).length;
+        return { data: () => ({ count }) };
+      },
+    };
+  }
+
+  async get(): Promise<MemoryQuerySnapshot> {
+    return this.snapshot();
+  }
+
+  onSnapshot(
+    onNext: (snapshot: MemoryQuerySnapshot) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.firestore.listen(this.collectionPath, () => {
+      try {
+        onNext(this.snapshot());
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    });
+  }
+
+  /** @internal */
+  snapshot(): MemoryQuerySnapshot {
+    return new MemoryQuerySnapshot(
+      this.execute(this.state).map(
+        ({ id, stored }) =>
+          new MemoryDocumentSnapshot(
+            new MemoryDocumentReference(this.firestore, this.collectionPath, id),
+            stored
+          )
+      )
+    );
+  }
+
+  private cursorValues(values: any[]): any[] {
+    if (values.length === 1 && values[0] instanceof MemoryDocumentSnapshot) {
+      const snapshot = values[0] as MemoryDocumentSnapshot;
+      return [
+        ...this.state.orderBy.map(({ field }) =>
+          field === DOCUMENT_ID ? snapshot.id : snapshot.get(field)
+        ),
+        snapshot.id,
+      ];
+    }
+    return values;
+  }
+
+  private execute(state: QueryState): { id: string; stored: StoredDoc }[] {
+    const collection = this.firestore.collectionStore(this.collectionPath);
+
+    let docs = Array.from(collection.entries())
+      .map(([id, stored]) => ({ id, stored, data: stored.data }))
+      .filter((doc) => state.predicates.every((predicate) => predicate(doc)));
+
+    // Documents missing an orderBy field are excluded, as in Firestore
+    docs = docs.filter((doc) =>
+      state.orderBy.every(
+        ({ field }) => field === DOCUMENT_ID || getPath(doc.data, field) !== undefined
+      )
+    );
+
+    // Implicit document ID ordering in the direction of the last orderBy
+    const ordering: OrderBy[] = state.orderBy.some(({ field }) => field === DOCUMENT_ID)
+      ? state.orderBy
+      : [
+          ...state.orderBy,
+          {
+            field: DOCUMENT_ID,
+            direction: state.orderBy[state.orderBy.length - 1]?.direction || 'asc',
+          },
+        ];
+
+    const compareDocs = (a: { id: string; data: DocData }, b: { id: string; data: DocData }) => {
+      for (const { field, direction } of ordering) {
+        const diff = compareValues(fieldValueOf(a, field), fieldValueOf(b, field));
+        if (diff !== 0) return direction === 'desc' ? -diff : diff;
+      }
+      return 0;
+    };
+    docs.sort(compareDocs);
+
+    const cursor = state.startAfter || state.startAt;
+    if (cursor) {
+      const compareToCursor = (doc: { id: string; data: DocData }) => {
+        for (let i = 0; i < Math.min(cursor.length, ordering.length); i++) {
+          const { field, direction } = ordering[i];
+          const diff = compareValues(fieldValueOf(doc, field), cursor[i]);
+          if (diff !== 0) return direction === 'desc' ? -diff : diff;
+        }
+        return 0;
+      };
+      docs = docs.filter((doc) =>
+        state.startAfter ? compareToCursor(doc) > 0 : compareToCursor(doc) >= 0
+      );
+    }
+
+    if (state.offset) docs = docs.slice(state.offset);
+    if (state.limit !== undefined) docs = docs.slice(0, state.limit);
+
+    return docs;
+  }
+}
+
+class MemoryDocumentReference {
+  constructor(
+    public readonly firestore: MemoryFirestore,
+    private readonly collectionPath: string,
+    public readonly id: string
+  ) {}
+
+  get path(): string {
+    return `${this.collectionPath}/${this.id}`;
+  }
+
+  get parent(): MemoryCollectionReference {
+    return new MemoryCollectionReference(this.firestore, this.collectionPath);
+  }
+
+  collection(collectionPath: string): MemoryCollectionReference {
+    return new MemoryCollectionReference(this.firestore, `${this.path}/${collectionPath}`);
+  }
+
+  isEqual(other: MemoryDocumentReference): boolean {
+    return other.path === this.path;
+  }
+
+  async get(): Promise<MemoryDocumentSnapshot> {
+    return this.snapshot();
+  }
+
+  async set(data: DocData, options?: { merge?: boolean }): Promise<{ writeTime: Timestamp }> {
+    return this.firestore.commit([{ type: 'set', ref: this, data, merge: !!options?.merge }]);
+  }
+
+  async update(data: DocData): Promise<{ writeTime: Timestamp }> {
+    return this.firestore.commit([{ type: 'update', ref: this, data }]);
+  }
+
+  async create(data: DocData): Promise<{ writeTime: Timestamp }> {
+    return this.firestore.commit([{ type: 'create', ref: this, data }]);
+  }
+
+  async delete(): Promise<{ writeTime: Timestamp }> {
+    return this.firestore.commit([{ type: 'delete', ref: this }]);
+  }
+
+  onSnapshot(
+    onNext: (snapshot: MemoryDocumentSnapshot) => void,
+    onError?: (error: Error) => void
+  ): () => void {
+    return this.firestore.listen(this.collectionPath, () => {
+      try {
+        onNext(this.snapshot());
+      } catch (error) {
+        onError?.(error as Error);
+      }
+    });
+  }
+
+  /** @internal */
+  snapshot(): MemoryDocumentSnapshot {
+    return new MemoryDocumentSnapshot(
+      this,
+      this.firestore.collectionStore(this.collectionPath).get(this.id)
+    );
+  }
+
+  /** @internal */
+  stored(): StoredDoc | undefined {
+    return this.firestore.collectionStore(this.collectionPath).get(this.id);
+  }
+}
+
+class MemoryCollectionReference extends MemoryQuery {
+  constructor(firestore: MemoryFirestore, collectionPath: string) {
+    super(firestore, collectionPath);
+  }
+
+  get id(): string {
+    return this.collectionPath.split('/').pop() || this.collectionPath;
+  }
+
+  get path(): string {
+    return this.collectionPath;
+  }
+
+  doc(id?: string): MemoryDocumentReference {
+    return new MemoryDocumentReference(this.firestore, this.collectionPath, id || autoId());
+  }
+
+  async add(data: DocData): Promise<MemoryDocumentReference> {
+    const ref = this.doc();
+    await ref.create(data);
+    return ref;
+  }
+}
+
+function autoId(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  const bytes = randomBytes(20);
+  return Array.from(bytes, (byte) => chars[byte % chars.length]).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Batches and transactions
+// ---------------------------------------------------------------------------
+
+class MemoryWriteBatch {
+  protected writes: WriteOp[] = [];
+
+  constructor(protected readonly firestore: MemoryFirestore) {}
+
+  set(ref: MemoryDocumentReference, data: DocData, options?: { merge?: boolean }): this {
+    this.writes.push({ type: 'set', ref, data, merge: !!options?.merge });
+    return this;
+  }
+
+  update(ref: MemoryDocumentReference, data: DocData): this {
+    this.writes.push({ type: 'update', ref, data });
+    return this;
+  }
+
+  create(ref: MemoryDocumentReference, data: DocData): this {
+    this.writes.push({ type: 'create', ref, data });
+    return this;
+  }
+
+  delete(ref: MemoryDocumentReference): this {
+    this.writes.push({ type: 'delete', ref });
+    return this;
+  }
+
+  async commit(): Promise<{ writeTime: Timestamp }[]> {
+    const result = this.firestore.commit(this.writes);
+    return this.writes.map(() => result);
+  }
+}
+
+class MemoryTransaction extends MemoryWriteBatch {
+  /** Versions of every document read, checked again at commit time */
+  private readVersions = new Map<string, { ref: MemoryDocumentReference; version: number }>();
+
+  async get(refOrQuery: MemoryDocumentReference | MemoryQuery): Promise<any> {
+    if (this.writes.length > 0) {
+      throw new MemoryFirestoreError(
+        3,
+        'INVALID_ARGUMENT',
+        'Firestore transactions require all reads to be executed before all writes.'
+      );
+    }
+    if (refOrQuery instanceof MemoryDocumentReference) {
+      this.trackRead(refOrQuery);
+      return refOrQuery.snapshot();
+    }
+    const snapshot = refOrQuery.snapshot();
+    snapshot.docs.forEach((doc) => this.trackRead(doc.ref));
+    return snapshot;
+  }
+
+  async getAll(...refs: MemoryDocumentReference[]): Promise<MemoryDocumentSnapshot[]> {
+    return Promise.all(refs.map((ref) => this.get(ref)));
+  }
+
+  /** @internal */
+  isStale(): boolean {
+    return Array.from(this.readVersions.values()).some(
+      ({ ref, version }) => (ref.stored()?.version ?? 0) !== version
+    );
+  }
+
+  /** @internal */
+  pendingWrites(): WriteOp[] {
+    return this.writes;
+  }
+
+  private trackRead(ref: MemoryDocumentReference): void {
+    if (!this.readVersions.has(ref.path)) {
+      this.readVersions.set(ref.path, { ref, version: ref.stored()?.version ?? 0 });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Database
+// ---------------------------------------------------------------------------
+
+export interface MemoryFirestoreOptions {
+  /** Persist documents to this JSON file and load them on startup */
+  dataFile?: string;
+}
+
+export class MemoryFirestore {
+  private collections = new Map<string, Map<string, StoredDoc>>();
+  private listeners = new Map<string, Set<() => void>>();
+  private dataFile?: string;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: MemoryFirestoreOptions = {}) {
+    this.dataFile = options.dataFile ? path.resolve(options.dataFile) : undefined;
+    if (this.dataFile) {
+      this.load();
+      process.on('exit', () => this.flush());
+    }
+  }
+
+  collection(collectionPath: string): MemoryCollectionReference {
+    return new MemoryCollectionReference(this, collectionPath);
+  }
+
+  doc(documentPath: string): MemoryDocumentReference {
+    const segments = documentPath.split('/');
+    const id = segments.pop()!;
+    return new MemoryDocumentReference(this, segments.join('/'), id);
+  }
+
+  batch(): MemoryWriteBatch {
+    return new MemoryWriteBatch(this);
+  }
+
+  async getAll(...refs: MemoryDocumentReference[]): Promise<MemoryDocumentSnapshot[]> {
+    return refs.map((ref) => ref.snapshot());
+  }
+
+  /**
+   * Run a transaction with optimistic concurrency: if any document read by the
+   * transaction changed before commit, the update function is retried
+   */
+  async runTransaction<R>(updateFunction: (transaction: MemoryTransaction) => Promise<R>): Promise<R> {
+    for (let attempt = 1; attempt <= MAX_TRANSACTION_ATTEMPTS; attempt++) {
+      const transaction = new MemoryTransaction(this);
+      const result = await updateFunction(transaction);
+
+      if (!transaction.isStale()) {
+        this.commit(transaction.pendingWrites());
+        return result;
+      }
+      logger.debug(`Memory Firestore transaction contention, retrying (attempt ${attempt})`);
+    }
+    throw new MemoryFirestoreError(10, 'ABORTED', 'Too much contention on these documents.');
+  }
+
+  settings(): void {
+    // No settings apply to the in-memory store
+  }
+
+  async terminate(): Promise<void> {
+    this.flush();
+  }
+
+  /**
+   * Remove every document (useful between test cases)
+   */
+  clear(): void {
+    this.collections.clear();
+    this.scheduleSave();
+  }
+
+  /** @internal */
+  collectionStore(collectionPath: string): Map<string, StoredDoc> {
+    let collection = this.collections.get(collectionPath);
+    if (!collection) {
+      collection = new Map();
+      this.collections.set(collectionPath, collection);
+    }
+    return collection;
+  }
+
+  /** @internal */
+  listen(collectionPath: string, notify: () => void): () => void {
+    let listeners = this.listeners.get(collectionPath);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(collectionPath, listeners);
+    }
+    listeners.add(notify);
+    setImmediate(notify);
+    return () => listeners!.delete(notify);
+  }
+
+  /**
+   * Apply writes atomically - all validation happens before any document changes
+   * @internal
+   */
+  commit(writes: WriteOp[]): { writeTime: Timestamp } {
+    const writeTime = Timestamp.now();
+    const staged = new Map<string, { ref: MemoryDocumentReference; stored: StoredDoc | undefined }>();
+
+    const current = (ref: MemoryDocumentReference) =>
+      staged.has(ref.path) ? staged.get(ref.path)!.stored : ref.stored();
+
+    writes.forEach((write) => {
+      const existing = current(write.ref);
+      let data: DocData | undefined;
+
+      switch (write.type) {
+        case 'create':
+          if (existing) {
+            throw new MemoryFirestoreError(6, 'ALREADY_EXISTS', `Document already exists: ${write.ref.path}`);
+          }
+          data = mergeInto({}, write.data);
+          break;
+        case 'set':
+          data = write.merge
+            ? mergeInto(cloneValue(existing?.data || {}), write.data)
+            : mergeInto({}, write.data);
+          break;
+        case 'update':
+          if (!existing) {
+            throw new MemoryFirestoreError(5, 'NOT_FOUND', `No document to update: ${write.ref.path}`);
+          }
+          data = cloneValue(existing.data);
+          Object.keys(write.data).forEach((key) => {
+            if (write.data[key] !== undefined) setPath(data!, key.split('.'), write.data[key]);
+          });
+          break;
+        case 'delete':
+          data = undefined;
+          break;
+      }
+
+      staged.set(write.ref.path, {
+        ref: write.ref,
+        stored: data
+          ? {
+              data,
+              createTime: existing?.createTime || writeTime,
+              updateTime: writeTime,
+              version: (existing?.version || 0) + 1,
+            }
+          : undefined,
+      });
+    });
+
+    const touched = new Set<string>();
+    staged.forEach(({ ref, stored }) => {
+      const collection = this.collectionStore(ref.parent.path);
+      if (stored) {
+        collection.set(ref.id, stored);
+      } else {
+        collection.delete(ref.id);
+      }
+      touched.add(ref.parent.path);
+    });
+
+    touched.forEach((collectionPath) => {
+      this.listeners.get(collectionPath)?.forEach((notify) => setImmediate(notify));
+    });
+    this.scheduleSave();
+
+    return { writeTime };
+  }
+
+  private load(): void {
+    if (!this.dataFile || !fs.existsSync(this.dataFile)) return;
+
+    const raw = JSON.parse(fs.readFileSync(this.dataFile, 'utf8'), (_key, value) =>
+      value && Array.isArray(value.__ts) ? new Timestamp(value.__ts[0], value.__ts[1]) : value
+    );
+
+    Object.entries(raw as Record<string, Record<string, StoredDoc>>).forEach(
+      ([collectionPath, docs]) => {
+        this.collections.set(collectionPath, new Map(Object.entries(docs)));
+      }
+    );
+    logger.info(`📂 Loaded in-memory Firestore data from ${this.dataFile}`);
+  }
+
+  private scheduleSave(): void {
+    if (!this.dataFile || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), 250);
+    this.saveTimer.unref();
+  }
+
+  private flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dataFile) return;
+
+    const output: Record<string, Record<string, StoredDoc>> = {};
+    this.collections.forEach((docs, collectionPath) => {
+      if (docs.size > 0) output[collectionPath] = Object.fromEntries(docs);
+    });
+
+    fs.mkdirSync(path.dirname(this.dataFile), { recursive: true });
+    fs.writeFileSync(
+      this.dataFile,
+      JSON.stringify(output, function (this: any, key: string, value: any) {
+        const original = this[key];
+        return original instanceof Timestamp
+          ? { __ts: [original.seconds, original.nanoseconds] }
+          : value;
+      })
+    );
+  }
+}
+
+/**
+ * Create an in-memory database typed as a Firestore instance
+ */
+export function createMemoryFirestore(options: MemoryFirestoreOptions = {}): Firestore {
+  return new MemoryFirestore(options) as unknown as Firestore;
+}
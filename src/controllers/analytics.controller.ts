@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import { userService } from "../services/firestore";
+import { MetricSnapshotScope } from "../services/firestore/metricSnapshot.service";
+import { buildFunnelReport, FunnelFilters } from "../services/funnelAnalytics.service";
+import { getMetricTrend, toDay } from "../services/metricSnapshots.service";
+import {
+  buildLeaderboard,
+  getRecruiterMetrics,
+  RecruiterMetricKey,
+  resolveMetricsRange,
+} from "../services/recruiterMetrics.service";
+import { buildSourceReport } from "../services/sourceAttribution.service";
+import { NotFoundError } from "../utils/errors";
+import { asyncHandler, successResponse } from "../utils/helpers";
+
+/**
+ * Read the shared analytics filters from the query string
+ * A bare "to" date (YYYY-MM-DD) includes the whole day.
+ */
+const getAnalyticsFilters = (query: Request["query"]): FunnelFilters => {
+  const filters: FunnelFilters = {};
+
+  if (query.from) filters.from = new Date(query.from as string);
+  if (query.to) {
+    filters.to = new Date(query.to as string);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(query.to as string)) {
+      filters.to.setUTCHours(23, 59, 59, 999);
+    }
+  }
+  (["jobId", "clientId", "recruiterId", "source"] as const).forEach((key) => {
+    if (query[key]) filters[key] = query[key] as string;
+  });
+
+  return filters;
+};
+
+/**
+ * Get the recruitment funnel: stage conversion, drop-off, time in stage,
+ * time to hire and monthly application cohorts
+ */
+export const getFunnelAnalytics = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const report = await buildFunnelReport(getAnalyticsFilters(req.query));
+
+    successResponse(res, report, "Funnel analytics retrieved successfully");
+  }
+);
+
+/**
+ * Get applications, approvals, interviews, offers and hires per source channel
+ */
+export const getSourceReport = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { from, to, jobId, clientId } = getAnalyticsFilters(req.query);
+    const report = await buildSourceReport({ from, to, jobId, clientId });
+
+    successResponse(res, report, "Source report retrieved successfully");
+  }
+);
+
+/**
+ * Get a user's productivity and workload metrics next to the team averages
+ * Defaults to the last 30 days.
+ */
+export const getUserMetrics = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const user = await userService.findById(req.params.id);
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const { from, to } = getAnalyticsFilters(req.query);
+    const metrics = await getRecruiterMetrics(user, resolveMetricsRange({ from, to }));
+
+    successResponse(res, metrics, "User metrics retrieved successfully");
+  }
+);
+
+/**
+ * Get the team ranked by one metric (default: applications reviewed)
+ */
+export const getRecruiterLeaderboard = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { from, to } = getAnalyticsFilters(req.query);
+    const sortBy = (req.query.sortBy as RecruiterMetricKey) || "applicationsReviewed";
+    const leaderboard = await buildLeaderboard(resolveMetricsRange({ from, to }), sortBy);
+
+    successResponse(res, leaderboard, "Leaderboard retrieved successfully");
+  }
+);
+
+// Days covered by a trend when no range is given
+const DEFAULT_TREND_DAYS = 90;
+
+/**
+ * Get the daily trend of a job, client or pipeline stage (or everything) from
+ * the nightly metric snapshots: open applications, inflow, outflow and hires
+ */
+export const getMetricTrends = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { from, to = new Date() } = getAnalyticsFilters(req.query);
+    const scope = (req.query.scope as MetricSnapshotScope) || "all";
+    const scopeId = scope === "all" ? "all" : (req.query.scopeId as string);
+    const start = from || new Date(to.getTime() - DEFAULT_TREND_DAYS * 24 * 60 * 60 * 1000);
+
+    const trend = await getMetricTrend(scope, scopeId, toDay(start), toDay(to));
+
+    successResponse(res, trend, "Metric trends retrieved successfully");
+  }
+);
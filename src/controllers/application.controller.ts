@@ -1,6 +1,12 @@
 import { Request, Response } from "express";
 import { logActivity } from "../services/activity.service";
 import cloudinaryService from "../services/cloudinary.service";
+import {
+  APPLICATION_EXPORT_COLUMNS,
+  DEFAULT_APPLICATION_EXPORT_COLUMNS,
+  resolveExportColumns,
+  streamExport,
+} from "../services/export.service";
 import {
   applicationService,
   candidateService,
@@ -9,21 +15,31 @@ import {
   pipelineService,
   userService,
 } from "../services/firestore";
+import { QueryCondition } from "../services/firestore/base.service";
+import { getDailyIntake } from "../services/metricSnapshots.service";
 import openaiService from "../services/openai.service";
 import resendService from "../services/resend.service";
+import {
+  captureAttribution,
+  getAttribution,
+  resolveAttribution,
+} from "../services/sourceAttribution.service";
 import {
   ApproveApplicationInput,
   BulkUpdateStatusInput,
   CreateApplicationInput,
+  ExportApplicationsQuery,
   ListApplicationsQuery,
   UpdateApplicationInput,
 } from "../types/application.types";
+import { DashboardAnalyticsQuery } from "../types/analytics.types";
 import {
   ValidationError as CustomValidationError,
   NotFoundError,
 } from "../utils/errors";
 import {
   asyncHandler,
+  getPaginationParams,
   paginateResults,
   successResponse,
 } from "../utils/helpers";
@@ -161,6 +177,22 @@ export const createApplication = asyncHandler(
       applicationData.appliedAt = new Date();
     }
 
+    // Attribution: explicit channel, else the UTMs of the public job page, else the source
+    // Anonymous applicants only bring UTMs and the Referer; referrals, agencies
+    // and inboxes are set by the team, so nobody can claim them from outside
+    const isPublic = !req.user;
+    const captured =
+      data.source === "direct_apply" || isPublic
+        ? captureAttribution({ query: req.query, body: req.body, referer: req.get("referer") })
+        : undefined;
+    applicationData.attribution = resolveAttribution({
+      source: isPublic ? "direct_apply" : data.source,
+      sourceEmailAccountId: isPublic ? undefined : data.sourceEmailAccountId,
+      attribution: isPublic
+        ? { ...captured, ...(data.attribution?.utm && { utm: data.attribution.utm }) }
+        : { ...captured, ...data.attribution },
+    });
+
     // Calculate years of experience from parsed data
     if (
       data.parsedData?.experience &&
@@ -308,81 +340,97 @@ export const createApplication = asyncHandler(
   }
 );
 
+/**
+ * Server-side filters shared by the application list and export
+ */
+const buildApplicationListFilters = (query: ListApplicationsQuery): QueryCondition[] => {
+  const { jobId, clientId, status, source } = query;
+  const filters: QueryCondition[] = [];
+  if (jobId) {
+    filters.push({ field: "jobId", operator: "==", value: jobId });
+  }
+  if (clientId) {
+    filters.push({ field: "clientId", operator: "==", value: clientId });
+  }
+  if (status) {
+    filters.push({ field: "status", operator: "==", value: status });
+  }
+  if (source) {
+    filters.push({ field: "source", operator: "==", value: source });
+  }
+  return filters;
+};
+
+/**
+ * Substring search on applicant name and email
+ */
+const matchesApplicationSearch = (app: IApplication, search: string): boolean => {
+  const searchLower = search.toLowerCase();
+  return (
+    !!app.firstName?.toLowerCase().includes(searchLower) ||
+    !!app.lastName?.toLowerCase().includes(searchLower) ||
+    !!app.email?.toLowerCase().includes(searchLower)
+  );
+};
+
 /**
  * Get all applications with filters and pagination
  */
 export const getApplications = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const {
-      page = 1,
-      limit = 10,
-      jobId,
-      clientId,
-      status,
-      source,
+      cursor,
       search,
       sortBy = "createdAt",
       sortOrder = "desc",
     } = req.query as any as ListApplicationsQuery;
+    const { page, limit } = getPaginationParams(req.query);
 
-    // Fetch all applications (Firestore doesn't support complex queries)
-    let allApplications = await applicationService.find([]);
+    const filters = buildApplicationListFilters(req.query as any);
+
+    const orderBy = [{ field: sortBy, direction: sortOrder }];
+
+    let applications: any[];
+    let totalCount: number;
+    let nextCursor: string | null = null;
 
-    // Apply filters in memory
-    if (jobId) {
-      allApplications = allApplications.filter(
-        (app: any) => app.jobId === jobId
-      );
-    }
-    if (clientId) {
-      allApplications = allApplications.filter(
-        (app: any) => app.clientId === clientId
-      );
-    }
-    if (status) {
-      allApplications = allApplications.filter(
-        (app: any) => app.status === status
-      );
-    }
-    if (source) {
-      allApplications = allApplications.filter(
-        (app: any) => app.source === source
-      );
-    }
     if (search) {
-      const searchLower = search.toLowerCase();
-      allApplications = allApplications.filter(
-        (app: any) =>
-          app.firstName?.toLowerCase().includes(searchLower) ||
-          app.lastName?.toLowerCase().includes(searchLower) ||
-          app.email?.toLowerCase().includes(searchLower)
+      // Substring search can't be expressed as a Firestore query -
+      // scan only the subset that already matches the server-side filters
+      const matches = (await applicationService.find(filters, { orderBy })).filter(
+        (app) => matchesApplicationSearch(app, search)
       );
-    }
 
-    // Get total count after filtering
-    const totalCount = allApplications.length;
+      totalCount = matches.length;
+      const skip = (page - 1) * limit;
+      applications = matches.slice(skip, skip + limit);
+    } else {
+      const [result, total] = await Promise.all([
+        applicationService.findPage(filters, {
+          orderBy,
+          limit,
+          startAfter: cursor,
+          offset: cursor ? undefined : (page - 1) * limit,
+        }),
+        applicationService.count(filters),
+      ]);
+
+      applications = result.items;
+      totalCount = total;
+      nextCursor = result.nextCursor;
+    }
 
     // Calculate pagination
-    const pagination = paginateResults(totalCount, {
-      page,
-      limit,
-      sort: sortBy,
-      order: sortOrder,
-    });
-
-    // Sort applications
-    allApplications.sort((a: any, b: any) => {
-      const aValue = a[sortBy];
-      const bValue = b[sortBy];
-      const multiplier = sortOrder === "asc" ? 1 : -1;
-      if (aValue < bValue) return -1 * multiplier;
-      if (aValue > bValue) return 1 * multiplier;
-      return 0;
-    });
-
-    // Apply pagination
-    const skip = (page - 1) * limit;
-    const applications = allApplications.slice(skip, skip + limit);
+    const pagination = paginateResults(
+      totalCount,
+      {
+        page,
+        limit,
+        sort: sortBy,
+        order: sortOrder,
+      },
+      nextCursor
+    );
 
     // Populate reviewedBy user information
     const reviewerIds = applications
@@ -438,6 +486,41 @@ export const getApplications = asyncHandler(
   }
 );
 
+/**
+ * Export applications matching the list filters as CSV, XLSX or NDJSON
+ * Accepts the same query parameters as GET /applications plus format and columns.
+ */
+export const exportApplications = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const {
+      search,
+      format = "csv",
+      columns,
+      sortBy = "createdAt",
+      sortOrder = "desc",
+    } = req.query as any as ExportApplicationsQuery;
+
+    const exportColumns = await resolveExportColumns(
+      APPLICATION_EXPORT_COLUMNS,
+      DEFAULT_APPLICATION_EXPORT_COLUMNS,
+      columns
+    );
+
+    const exported = await streamExport({
+      res,
+      format,
+      fileName: "applications",
+      columns: exportColumns,
+      service: applicationService,
+      filters: buildApplicationListFilters(req.query as any),
+      orderBy: [{ field: sortBy, direction: sortOrder }],
+      include: search ? (app) => matchesApplicationSearch(app, search) : undefined,
+    });
+
+    logger.info(`Exported ${exported} applications as ${format}`);
+  }
+);
+
 /**
  * Get single application by ID
  */
@@ -465,7 +548,7 @@ export const getApplicationById = asyncHandler(
 export const updateApplication = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const updates: UpdateApplicationInput = req.body;
+    const { expectedRevision, ...updates }: UpdateApplicationInput = req.body;
 
     const application = await applicationService.findById(id);
 
@@ -557,7 +640,10 @@ export const updateApplication = asyncHandler(
       return;
     }
 
-    await applicationService.update(id, updateData);
+    await applicationService.update(id, updateData, {
+      expectedRevision,
+      changedBy: req.user?.id,
+    });
 
     // Fetch updated application
     const updatedApplication = await applicationService.findById(id);
@@ -633,62 +719,55 @@ export const deleteApplication = asyncHandler(
       );
     }
 
-    // Delete resume from Cloudinary if exists
-    if (application.resumeUrl) {
-      try {
-        // Extract public ID from Cloudinary URL
-        // URL format: https://res.cloudinary.com/{cloud_name}/{resource_type}/upload/{version}/{public_id}.{format}
-        const urlParts = application.resumeUrl.split("/");
-        const uploadIndex = urlParts.indexOf("upload");
-        if (uploadIndex !== -1 && urlParts.length > uploadIndex + 1) {
-          // Get everything after 'upload/' and before the file extension
-          const publicIdWithExtension = urlParts
-            .slice(uploadIndex + 2)
-            .join("/");
-          const publicId = publicIdWithExtension.split(".")[0];
-
-          await cloudinaryService.deleteFile(publicId, "raw");
-          logger.info(`Deleted resume from Cloudinary: ${publicId}`);
-        }
-      } catch (error) {
-        logger.error("Error deleting resume from Cloudinary:", error);
-        // Continue with application deletion even if Cloudinary deletion fails
-      }
-    }
+    // Files stay in Cloudinary until the trash purge so the application can be restored
+    await applicationService.softDelete(id, req.user?.id);
 
-    // Delete additional documents from Cloudinary if exists
-    if (
-      (application as any).additionalDocuments &&
-      (application as any).additionalDocuments.length > 0
-    ) {
-      for (const doc of (application as any).additionalDocuments) {
-        if (doc.url) {
-          try {
-            const urlParts = doc.url.split("/");
-            const uploadIndex = urlParts.indexOf("upload");
-            if (uploadIndex !== -1 && urlParts.length > uploadIndex + 1) {
-              const publicIdWithExtension = urlParts
-                .slice(uploadIndex + 2)
-                .join("/");
-              const publicId = publicIdWithExtension.split(".")[0];
-
-              await cloudinaryService.deleteFile(publicId, "raw");
-              logger.info(`Deleted document from Cloudinary: ${publicId}`);
-            }
-          } catch (error) {
-            logger.error("Error deleting document from Cloudinary:", error);
-            // Continue with deletion
-          }
-        }
-      }
+    logger.info(`Application moved to trash: ${application.email}`);
+
+    successResponse(res, null, "Application moved to trash");
+  }
+);
+
+/**
+ * Get soft-deleted applications (trash)
+ */
+export const getDeletedApplications = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query);
+
+    const [applications, total] = await Promise.all([
+      applicationService.findDeleted([], { limit, offset: (page - 1) * limit }),
+      applicationService.countDeleted(),
+    ]);
+
+    successResponse(res, {
+      applications,
+      pagination: paginateResults(total, { page, limit }),
+    });
+  }
+);
+
+/**
+ * Restore an application from the trash
+ */
+export const restoreApplication = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const application = await applicationService.findById(id, {
+      includeDeleted: true,
+    });
+
+    if (!application || !application.deletedAt) {
+      throw new NotFoundError("Application not found in trash");
     }
 
-    // Delete application from database
-    await applicationService.delete(id);
+    await applicationService.restore(id, req.user?.id);
+    const restoredApplication = await applicationService.findById(id);
 
-    logger.info(`Application deleted: ${application.email}`);
+    logger.info(`Application restored from trash: ${application.email}`);
 
-    successResponse(res, null, "Application deleted successfully");
+    successResponse(res, restoredApplication, "Application restored successfully");
   }
 );
 
@@ -918,11 +997,13 @@ export const approveApplication = asyncHandler(
       phone: application.phone,
       resumeUrl: application.resumeUrl,
       resumeOriginalName: application.resumeOriginalName,
+      resumeRawText: application.resumeRawText,
       currentPipelineStageId: firstStageId, // Assign to first stage, not pipeline ID
       status: "active",
       aiScore,
       notes: notes || (application as any).notes,
       source: "application",
+      attribution: getAttribution(application, "application"),
       createdBy: (req as any).user.id,
       jobApplications: [
         {
@@ -1229,81 +1310,25 @@ export const bulkDeleteApplications = asyncHandler(
       );
     }
 
-    let deletedFilesCount = 0;
-
-    // Delete files from Cloudinary for each application
-    for (const application of applications) {
-      // Delete resume from Cloudinary if exists
-      if (application.resumeUrl) {
-        try {
-          const urlParts = application.resumeUrl.split("/");
-          const uploadIndex = urlParts.indexOf("upload");
-          if (uploadIndex !== -1 && urlParts.length > uploadIndex + 1) {
-            const publicIdWithExtension = urlParts
-              .slice(uploadIndex + 2)
-              .join("/");
-            const publicId = publicIdWithExtension.split(".")[0];
-
-            await cloudinaryService.deleteFile(publicId, "raw");
-            deletedFilesCount++;
-          }
-        } catch (error) {
-          logger.error(
-            `Error deleting resume from Cloudinary for application ${application.id}:`,
-            error
-          );
-        }
-      }
-
-      // Delete additional documents from Cloudinary if exists
-      if (
-        (application as any).additionalDocuments &&
-        (application as any).additionalDocuments.length > 0
-      ) {
-        for (const doc of (application as any).additionalDocuments) {
-          if (doc.url) {
-            try {
-              const urlParts = doc.url.split("/");
-              const uploadIndex = urlParts.indexOf("upload");
-              if (uploadIndex !== -1 && urlParts.length > uploadIndex + 1) {
-                const publicIdWithExtension = urlParts
-                  .slice(uploadIndex + 2)
-                  .join("/");
-                const publicId = publicIdWithExtension.split(".")[0];
-
-                await cloudinaryService.deleteFile(publicId, "raw");
-                deletedFilesCount++;
-              }
-            } catch (error) {
-              logger.error(`Error deleting document from Cloudinary:`, error);
-            }
-          }
-        }
-      }
-    }
-
-    // Delete all applications from database
+    // Move all applications to the trash; files are removed when the trash is purged
     let deletedCount = 0;
-    for (const appId of validIds) {
+    for (const application of applications) {
       try {
-        await applicationService.delete(appId);
+        await applicationService.softDelete(application.id, req.user?.id);
         deletedCount++;
       } catch (error) {
-        logger.error(`Failed to delete application ${appId}:`, error);
+        logger.error(`Failed to delete application ${application.id}:`, error);
       }
     }
 
-    logger.info(
-      `Bulk deleted ${deletedCount} applications and ${deletedFilesCount} files from Cloudinary`
-    );
+    logger.info(`Bulk moved ${deletedCount} applications to trash`);
 
     successResponse(
       res,
       {
         deletedCount,
-        deletedFilesCount,
       },
-      `Successfully deleted ${deletedCount} applications`
+      `Successfully moved ${deletedCount} applications to trash`
     );
   }
 );
@@ -1354,72 +1379,49 @@ export const getApplicationStats = asyncHandler(
 /**
  * Get dashboard analytics for applications
  * Returns time-series data of applications by source type
+ * Past days are read from the nightly metric snapshots.
  */
 export const getDashboardAnalytics = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const { days = "90" } = req.query;
-    const daysNum = parseInt(days as string, 10);
+    const { days } = req.query as any as DashboardAnalyticsQuery;
 
-    // Calculate date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - daysNum);
+    const intake = await getDailyIntake("applications", days);
 
-    // Fetch all applications within date range
-    const allApplications = await applicationService.find([]);
-    const filteredApplications = allApplications.filter((app: any) => {
-      // Handle createdAt or appliedAt
-      const dateField = app.createdAt || app.appliedAt;
-      if (!dateField) return false;
-
-      const createdAt =
-        dateField instanceof Date ? dateField : new Date(dateField);
-      return createdAt >= startDate && createdAt <= endDate;
-    });
+    const analytics = intake.map(({ date, bySource }) => ({
+      date,
+      applications: Object.values(bySource).reduce((sum, count) => sum + count, 0),
+      directSubmissions: bySource.direct_submission || 0,
+      manualImports: bySource.manual_import || 0,
+      emailApplications: (bySource.email || 0) + (bySource.email_automation || 0),
+    }));
 
-    // Group by date and source
-    const groupedData: Map<string, any> = new Map();
-
-    filteredApplications.forEach((app: any) => {
-      const dateField = app.createdAt || app.appliedAt;
-      if (!dateField) return;
-
-      const createdAt =
-        dateField instanceof Date ? dateField : new Date(dateField);
-      const dateStr = createdAt.toISOString().split("T")[0]; // YYYY-MM-DD format
-      const source = app.source || "unknown";
-
-      if (!groupedData.has(dateStr)) {
-        groupedData.set(dateStr, {
-          date: dateStr,
-          applications: 0,
-          directSubmissions: 0,
-          manualImports: 0,
-          emailApplications: 0,
-        });
-      }
+    successResponse(
+      res,
+      analytics,
+      "Dashboard analytics retrieved successfully"
+    );
+  }
+);
 
-      const dateData = groupedData.get(dateStr);
-      dateData.applications++;
+/**
+ * Get prior versions of an application with field-level diffs, newest first
+ */
+export const getApplicationHistory = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { limit } = getPaginationParams(req.query);
 
-      if (source === "direct_submission") {
-        dateData.directSubmissions++;
-      } else if (source === "manual_import") {
-        dateData.manualImports++;
-      } else if (source === "email" || source === "email_automation") {
-        dateData.emailApplications++;
-      }
-    });
+    const application = await applicationService.findById(id);
+    if (!application) {
+      throw new NotFoundError("Application not found");
+    }
 
-    // Convert map to array and sort by date
-    const analytics = Array.from(groupedData.values()).sort((a, b) =>
-      a.date.localeCompare(b.date)
-    );
+    const versions = await applicationService.findHistory(id, { limit });
 
     successResponse(
       res,
-      analytics,
-      "Dashboard analytics retrieved successfully"
+      { revision: application.revision ?? 0, versions },
+      "Application history fetched successfully"
     );
   }
 );
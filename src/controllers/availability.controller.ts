@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { userAvailabilityService, userService } from '../services/firestore';
+import {
+  DEFAULT_WORKING_HOURS,
+  findCommonFreeSlots,
+} from '../services/interviewAvailability.service';
+import { AddTimeOffInput, UpdateAvailabilityInput } from '../types/availability.types';
+import { AuthorizationError, NotFoundError } from '../utils/errors';
+import { asyncHandler, successResponse } from '../utils/helpers';
+import logger from '../utils/logger';
+
+/**
+ * Users manage their own availability; team managers manage anyone's
+ */
+const assertCanManageAvailability = (req: Request, userId: string): void => {
+  const canManageTeam =
+    req.user?.role === 'admin' || req.user?.permissions?.canManageTeam === true;
+  if (req.user?.id !== userId && !canManageTeam) {
+    throw new AuthorizationError('You can only manage your own availability');
+  }
+};
+
+const findUserOrThrow = async (userId: string) => {
+  const user = await userService.findById(userId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user;
+};
+
+/**
+ * Get a user's working hours and time off
+ * Users who never set theirs get the default working week.
+ */
+export const getUserAvailability = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    await findUserOrThrow(id);
+
+    const availability = await userAvailabilityService.findById(id);
+
+    successResponse(
+      res,
+      availability || {
+        userId: id,
+        timezone: 'UTC',
+        workingHours: DEFAULT_WORKING_HOURS,
+        timeOff: [],
+        isDefault: true,
+      },
+      'Availability retrieved successfully'
+    );
+  }
+);
+
+/**
+ * Set a user's timezone and working hours
+ */
+export const updateUserAvailability = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { timezone, workingHours }: UpdateAvailabilityInput = req.body;
+    assertCanManageAvailability(req, id);
+    await findUserOrThrow(id);
+
+    const existing = await userAvailabilityService.findById(id);
+    if (existing) {
+      await userAvailabilityService.update(id, { timezone, workingHours, updatedBy: req.user?.id });
+    } else {
+      await userAvailabilityService.createWithId(id, {
+        userId: id,
+        timezone,
+        workingHours,
+        timeOff: [],
+        updatedBy: req.user?.id,
+      });
+    }
+
+    logger.info(`Availability updated for user ${id} by ${req.user?.email}`);
+
+    const availability = await userAvailabilityService.findById(id);
+    successResponse(res, availability, 'Availability updated successfully');
+  }
+);
+
+/**
+ * Add a time-off period to a user's availability
+ */
+export const addTimeOff = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { start, end, reason }: AddTimeOffInput = req.body;
+    assertCanManageAvailability(req, id);
+    await findUserOrThrow(id);
+
+    const timeOff = {
+      id: `timeoff_${Date.now()}`,
+      start: new Date(start),
+      end: new Date(end),
+      ...(reason && { reason }),
+    };
+
+    const existing = await userAvailabilityService.findById(id);
+    if (existing) {
+      await userAvailabilityService.update(id, {
+        timeOff: [...(existing.timeOff || []), timeOff],
+        updatedBy: req.user?.id,
+      });
+    } else {
+      await userAvailabilityService.createWithId(id, {
+        userId: id,
+        timezone: 'UTC',
+        workingHours: DEFAULT_WORKING_HOURS,
+        timeOff: [timeOff],
+        updatedBy: req.user?.id,
+      });
+    }
+
+    const availability = await userAvailabilityService.findById(id);
+    successResponse(res, availability, 'Time off added successfully', 201);
+  }
+);
+
+/**
+ * Remove a time-off period
+ */
+export const deleteTimeOff = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id, timeOffId } = req.params;
+    assertCanManageAvailability(req, id);
+
+    const existing = await userAvailabilityService.findById(id);
+    if (!existing || !(existing.timeOff || []).some((item) => item.id === timeOffId)) {
+      throw new NotFoundError('Time off not found');
+    }
+
+    await userAvailabilityService.update(id, {
+      timeOff: existing.timeOff.filter((item) => item.id !== timeOffId),
+      updatedBy: req.user?.id,
+    });
+
+    const availability = await userAvailabilityService.findById(id);
+    successResponse(res, availability, 'Time off removed successfully');
+  }
+);
+
+/**
+ * Get the slots in which all interviewers (and the candidate) are free
+ */
+export const getInterviewAvailability = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { candidateId, timezone } = req.query as Record<string, string | undefined>;
+    const interviewerIds = (req.query.interviewerIds as string)
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean);
+    const duration = parseInt(req.query.duration as string, 10);
+
+    const slots = await findCommonFreeSlots({
+      interviewerIds,
+      candidateId,
+      duration,
+      from: new Date(req.query.from as string),
+      to: new Date(req.query.to as string),
+      step: req.query.step ? parseInt(req.query.step as string, 10) : undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+      timezone,
+    });
+
+    successResponse(
+      res,
+      { interviewerIds, duration, slots },
+      'Availability retrieved successfully'
+    );
+  }
+);
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { buildUserInterviewFeed, getCalendarFeedToken } from '../services/interviewCalendar.service';
+import { NotFoundError } from '../utils/errors';
+import { asyncHandler, successResponse } from '../utils/helpers';
+import logger from '../utils/logger';
+
+const feedUrl = (req: Request, token: string) => `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`;
+
+/**
+ * Get the current user's interview feed URL, creating it on first use
+ */
+export const getCalendarFeed = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const token = await getCalendarFeedToken(req.user!.id);
+
+    successResponse(res, { url: feedUrl(req, token) }, 'Calendar feed retrieved successfully');
+  }
+);
+
+/**
+ * Replace the current user's feed URL; the old one stops working
+ */
+export const rotateCalendarFeed = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const token = await getCalendarFeedToken(req.user!.id, { rotate: true });
+
+    logger.info(`Calendar feed rotated by ${req.user?.email}`);
+
+    successResponse(res, { url: feedUrl(req, token) }, 'Calendar feed rotated successfully');
+  }
+);
+
+/**
+ * iCal feed of a user's interviews (public, authorized by the token)
+ */
+export const getInterviewFeed = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const ics = await buildUserInterviewFeed(req.params.token);
+    if (!ics) {
+      throw new NotFoundError('Calendar feed not found');
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="interviews.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(ics);
+  }
+);
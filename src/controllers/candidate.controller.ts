@@ -3,31 +3,89 @@ import { logActivity } from '../services/activity.service'
 import { sendAssignmentEmail } from '../services/email.service'
 import {
   activityLogService,
+  candidateImportService,
+  candidateMergeService,
   candidateService,
   clientService,
   jobService,
   pipelineService,
+  stageAutomationRunService,
   userService,
 } from '../services/firestore'
+import { QueryCondition } from '../services/firestore/base.service'
+import { ICandidate } from '../services/firestore/candidate.service'
+import {
+  findCandidatesByIds,
+  findMatchingCandidateIds,
+  searchCandidates as runCandidateSearch,
+} from '../services/candidateSearch.service'
+import {
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  findDuplicatePairs,
+  mergeCandidates as runCandidateMerge,
+} from '../services/candidateDedupe.service'
+import {
+  buildCustomFieldFilters,
+  getCandidateClientIds,
+  getCustomFieldDefinitions,
+  resolveCustomFields,
+} from '../services/customFields.service'
+import {
+  CANDIDATE_EXPORT_COLUMNS,
+  DEFAULT_CANDIDATE_EXPORT_COLUMNS,
+  resolveExportColumns,
+  streamExport,
+} from '../services/export.service'
+import {
+  MAX_IMPORT_ROWS,
+  assertMappingIsImportable,
+  detectColumnMapping,
+  dryRunCandidateImport,
+  importTargetFields,
+  parseColumnMapping,
+  resolveImportTarget,
+  startCandidateImport,
+} from '../services/candidateImport.service'
+import {
+  restoreCandidateCascade,
+  softDeleteCandidateCascade,
+} from '../services/trash.service'
+import { onCandidateStageChange } from '../services/stageAutomation.service'
+import { getStageTiming } from '../services/stageSla.service'
+import { resolveAttribution } from '../services/sourceAttribution.service'
+import { getDailyIntake } from '../services/metricSnapshots.service'
+import {
+  buildStageHistoryUpdate,
+  checkStageTransition,
+  findStagePipeline,
+} from '../services/stageTransition.service'
 import openaiService from '../services/openai.service'
 import {
   BulkMoveCandidatesInput,
   CreateCandidateInput,
+  ExportCandidatesQuery,
+  ImportCandidatesInput,
   ListCandidatesQuery,
+  MergeCandidatesInput,
   MoveCandidateStageInput,
   RescoreCandidateInput,
   UpdateCandidateInput,
 } from '../types/candidate.types'
+import { DashboardAnalyticsQuery } from '../types/analytics.types'
 import {
+  AuthorizationError,
+  BadRequestError,
   ValidationError as CustomValidationError,
   NotFoundError,
 } from '../utils/errors'
 import {
   asyncHandler,
+  getPaginationParams,
   paginateResults,
   successResponse,
 } from '../utils/helpers'
 import logger from '../utils/logger'
+import { readSpreadsheet } from '../utils/spreadsheet'
 
 /**
  * Create new candidate (manual entry)
@@ -57,9 +115,22 @@ export const createCandidate = asyncHandler(
       }
     }
 
+    const customFields = await resolveCustomFields(
+      'candidate',
+      data.customFields,
+      { clientIds: job.clientId ? [job.clientId] : [], isCreate: true }
+    )
+
     // Create candidate
     const candidateId = await candidateService.create({
       ...data,
+      ...(data.attribution && {
+        attribution: resolveAttribution({
+          source: data.source || 'manual',
+          attribution: data.attribution,
+        }),
+      }),
+      customFields,
       jobIds: [data.jobId], // First job
       status: data.status || 'active',
       jobApplications: [
@@ -113,137 +184,165 @@ export const createCandidate = asyncHandler(
   }
 )
 
+/**
+ * Server-side filters shared by the candidate list and export
+ */
+const buildCandidateListFilters = async (req: Request) => {
+  const { jobId, status, currentStage, minScore, maxScore } =
+    req.query as any as ListCandidatesQuery
+
+  // 🔒 RBAC: Users without canManageCandidates permission can only see candidates assigned to them
+  const userRole = (req.user as any)?.role
+  const userId = (req.user as any)?.id
+  const userPermissions = (req.user as any)?.permissions
+  const canManageAllCandidates =
+    userRole === 'admin' || userPermissions?.canManageCandidates === true
+
+  // Build server-side filters
+  const filters: QueryCondition[] = []
+
+  if (!canManageAllCandidates && userId) {
+    // assignedTo is either a user ID or a legacy populated user object
+    filters.push({
+      or: [
+        { field: 'assignedTo', operator: '==', value: userId },
+        { field: 'assignedTo.id', operator: '==', value: userId },
+        { field: 'assignedTo._id', operator: '==', value: userId },
+      ],
+    })
+    logger.info(
+      `🔒 RBAC filter applied: ${userRole} user ${userId} can only see assigned candidates`
+    )
+  }
+
+  if (jobId) {
+    filters.push({ field: 'jobIds', operator: 'array-contains', value: jobId })
+  }
+  if (status) {
+    filters.push({ field: 'status', operator: '==', value: status })
+  }
+  if (currentStage) {
+    filters.push({
+      field: 'currentPipelineStageId',
+      operator: '==',
+      value: currentStage,
+    })
+  }
+
+  // AI Score filtering
+  if (minScore !== undefined) {
+    filters.push({
+      field: 'aiScore.overallScore',
+      operator: '>=',
+      value: Number(minScore),
+    })
+  }
+  if (maxScore !== undefined) {
+    filters.push({
+      field: 'aiScore.overallScore',
+      operator: '<=',
+      value: Number(maxScore),
+    })
+  }
+
+  filters.push(...(await buildCustomFieldFilters('candidate', req.query.cf)))
+
+  return { filters, canManageAllCandidates, userId }
+}
+
+/**
+ * Candidates matching a list/export search box that also pass the filters,
+ * sorted in memory (the match set is bounded, so only those are loaded)
+ */
+const findSearchMatches = async (
+  search: string,
+  filters: QueryCondition[],
+  assignedTo: string | undefined,
+  sortBy: string,
+  sortOrder: 'asc' | 'desc'
+) => {
+  const matchingIds = await findMatchingCandidateIds(search, {
+    assignedTo,
+    lenient: true,
+  })
+  const matches: any[] = await findCandidatesByIds(matchingIds, filters)
+
+  const direction = sortOrder === 'asc' ? 1 : -1
+  return matches.sort((a, b) => {
+    const left = a[sortBy]
+    const right = b[sortBy]
+    // Missing values sort last in either direction
+    if (left == null || right == null) {
+      return left == null ? (right == null ? 0 : 1) : -1
+    }
+    return left < right ? -direction : left > right ? direction : 0
+  })
+}
+
 /**
  * Get all candidates with filters and pagination
  */
 export const getCandidates = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const {
-      page = 1,
-      limit = 10,
-      jobId,
-      status,
-      currentStage,
-      minScore,
-      maxScore,
+      cursor,
       search,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = req.query as any as ListCandidatesQuery
+    const { page, limit } = getPaginationParams(req.query)
 
-    // Fetch all candidates (Firestore doesn't support complex queries like MongoDB)
-    let allCandidates = await candidateService.find([])
+    const { filters, canManageAllCandidates, userId } =
+      await buildCandidateListFilters(req)
 
-    // 🔒 RBAC: Users without canManageCandidates permission can only see candidates assigned to them
-    const userRole = (req.user as any)?.role
-    const userId = (req.user as any)?.id
-    const userPermissions = (req.user as any)?.permissions
-    const canManageAllCandidates =
-      userRole === 'admin' || userPermissions?.canManageCandidates === true
-
-    logger.info(
-      `🔍 RBAC Check - User: ${userId}, Role: ${userRole}, canManageCandidates: ${canManageAllCandidates}, Total candidates: ${allCandidates.length}`
-    )
+    const orderBy = [{ field: sortBy, direction: sortOrder }]
 
-    if (!canManageAllCandidates && userId) {
-      const beforeFilter = allCandidates.length
+    let candidates: any[]
+    let totalCount: number
+    let nextCursor: string | null = null
 
-      // Debug: Log first few candidates' assignedTo values
-      logger.info(
-        `📊 Sample candidates assignedTo: ${JSON.stringify(
-          allCandidates.slice(0, 3).map((c: any) => ({
-            id: c.id,
-            name: `${c.firstName} ${c.lastName}`,
-            assignedTo: c.assignedTo,
-          }))
-        )}`
+    if (search) {
+      // Match against the search index, then load only the matches that
+      // also pass the server-side filters
+      const matches = await findSearchMatches(
+        search,
+        filters,
+        canManageAllCandidates ? undefined : userId,
+        sortBy,
+        sortOrder
       )
 
-      allCandidates = allCandidates.filter((c: any) => {
-        // Check if assignedTo matches the current user
-        if (typeof c.assignedTo === 'string') {
-          const matches = c.assignedTo === userId
-          if (matches)
-            logger.info(`✅ Matched by string: ${c.firstName} ${c.lastName}`)
-          return matches
-        } else if (c.assignedTo && typeof c.assignedTo === 'object') {
-          const matches =
-            c.assignedTo.id === userId || c.assignedTo._id === userId
-          if (matches)
-            logger.info(`✅ Matched by object: ${c.firstName} ${c.lastName}`)
-          return matches
-        }
-        // If no assignedTo, candidate is not visible to users without canManageCandidates permission
-        logger.info(`❌ No assignedTo: ${c.firstName} ${c.lastName}`)
-        return false
-      })
-      logger.info(
-        `🔒 RBAC filter applied: ${userRole} user ${userId} (canManageCandidates: ${canManageAllCandidates}) can see ${allCandidates.length}/${beforeFilter} candidates`
-      )
+      totalCount = matches.length
+      const skip = (page - 1) * limit
+      candidates = matches.slice(skip, skip + limit)
     } else {
-      logger.info(
-        `👑 User with canManageCandidates permission or admin - showing all ${allCandidates.length} candidates`
-      )
-    }
-
-    // Apply filters in memory
-    if (jobId) {
-      allCandidates = allCandidates.filter((c: any) => c.jobIds.includes(jobId))
-    }
-    if (status) {
-      allCandidates = allCandidates.filter((c: any) => c.status === status)
-    }
-    if (currentStage) {
-      allCandidates = allCandidates.filter(
-        (c: any) => c.currentPipelineStageId === currentStage
-      )
-    }
-
-    // AI Score filtering
-    if (minScore !== undefined || maxScore !== undefined) {
-      allCandidates = allCandidates.filter((c: any) => {
-        const score = c.aiScore?.overallScore
-        if (score === undefined) return false
-        if (minScore !== undefined && score < minScore) return false
-        if (maxScore !== undefined && score > maxScore) return false
-        return true
-      })
-    }
+      const [result, total] = await Promise.all([
+        candidateService.findPage(filters, {
+          orderBy,
+          limit,
+          startAfter: cursor,
+          // Page numbers are still supported when no cursor is given
+          offset: cursor ? undefined : (page - 1) * limit,
+        }),
+        candidateService.count(filters),
+      ])
 
-    if (search) {
-      const searchLower = search.toLowerCase()
-      allCandidates = allCandidates.filter(
-        (c: any) =>
-          c.firstName?.toLowerCase().includes(searchLower) ||
-          c.lastName?.toLowerCase().includes(searchLower) ||
-          c.email?.toLowerCase().includes(searchLower)
-      )
+      candidates = result.items
+      totalCount = total
+      nextCursor = result.nextCursor
     }
 
-    // Get total count after filtering
-    const totalCount = allCandidates.length
-
     // Calculate pagination
-    const pagination = paginateResults(totalCount, {
-      page,
-      limit,
-      sort: sortBy,
-      order: sortOrder,
-    })
-
-    // Sort candidates
-    allCandidates.sort((a: any, b: any) => {
-      const aValue = a[sortBy]
-      const bValue = b[sortBy]
-      const multiplier = sortOrder === 'asc' ? 1 : -1
-      if (aValue < bValue) return -1 * multiplier
-      if (aValue > bValue) return 1 * multiplier
-      return 0
-    })
-
-    // Apply pagination
-    const skip = (page - 1) * limit
-    const candidates = allCandidates.slice(skip, skip + limit)
+    const pagination = paginateResults(
+      totalCount,
+      {
+        page,
+        limit,
+        sort: sortBy,
+        order: sortOrder,
+      },
+      nextCursor
+    )
 
     logger.info(`Found ${candidates.length} candidates`)
 
@@ -395,6 +494,82 @@ export const getCandidates = asyncHandler(
   }
 )
 
+/**
+ * Export candidates matching the list filters as CSV, XLSX or NDJSON
+ * Accepts the same query parameters as GET /candidates plus format and columns.
+ */
+export const exportCandidates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const {
+      search,
+      format = 'csv',
+      columns,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+    } = req.query as any as ExportCandidatesQuery
+
+    const { filters, canManageAllCandidates, userId } =
+      await buildCandidateListFilters(req)
+    const exportColumns = await resolveExportColumns(
+      CANDIDATE_EXPORT_COLUMNS,
+      DEFAULT_CANDIDATE_EXPORT_COLUMNS,
+      columns,
+      'candidate'
+    )
+
+    const matches = search
+      ? await findSearchMatches(
+          search,
+          filters,
+          canManageAllCandidates ? undefined : userId,
+          sortBy,
+          sortOrder
+        )
+      : undefined
+
+    const exported = await streamExport({
+      res,
+      format,
+      fileName: 'candidates',
+      columns: exportColumns,
+      service: candidateService,
+      filters,
+      orderBy: [{ field: sortBy, direction: sortOrder }],
+      records: matches,
+    })
+
+    logger.info(`Exported ${exported} candidates as ${format}`)
+  }
+)
+
+/**
+ * Full-text search over candidates, ranked by relevance with highlighted snippets
+ * Supports AND/OR/NOT, "phrases", field prefixes (skill:react title:"staff engineer") and prefix*
+ */
+export const searchCandidates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { q } = req.query as { q: string }
+    const { page, limit } = getPaginationParams(req.query)
+
+    // 🔒 RBAC: Users without canManageCandidates permission only search their assigned candidates
+    const userId = (req.user as any)?.id
+    const canManageAllCandidates =
+      (req.user as any)?.role === 'admin' ||
+      (req.user as any)?.permissions?.canManageCandidates === true
+
+    const { hits, total } = await runCandidateSearch(q, {
+      page,
+      limit,
+      assignedTo: canManageAllCandidates ? undefined : userId,
+    })
+
+    successResponse(res, {
+      results: hits,
+      pagination: paginateResults(total, { page, limit }),
+    })
+  }
+)
+
 /**
  * Get single candidate by ID
  */
@@ -405,6 +580,12 @@ export const getCandidateById = asyncHandler(
     const candidate = await candidateService.findById(id)
 
     if (!candidate) {
+      // Merged duplicates redirect to the record they were merged into
+      const survivorId = await candidateMergeService.resolveCandidateId(id)
+      if (survivorId) {
+        res.redirect(301, `${req.baseUrl}/${survivorId}`)
+        return
+      }
       throw new NotFoundError('Candidate not found')
     }
 
@@ -451,6 +632,7 @@ export const getCandidateById = asyncHandler(
             name: stage.name,
             color: stage.color,
             order: stage.order,
+            timeInStage: getStageTiming(candidate, stage, pipeline.jobId),
           }
         }
       }
@@ -477,13 +659,77 @@ export const getCandidateById = asyncHandler(
   }
 )
 
+/**
+ * Reject a stage move the pipeline's transition rules do not allow
+ * Role violations fail with 403, anything else with a validation error.
+ */
+const assertStageTransition = async (
+  candidate: ICandidate & { id: string },
+  toStageId: string,
+  jobId: string | undefined,
+  req: Request
+): Promise<void> => {
+  const stagePipeline = await findStagePipeline(candidate, toStageId, jobId)
+  if (!stagePipeline) return
+
+  const violations = await checkStageTransition({
+    candidate,
+    pipeline: stagePipeline.pipeline,
+    fromStageId: candidate.currentPipelineStageId,
+    toStageId,
+    jobId: stagePipeline.jobId,
+    userRole: req.user?.role,
+  })
+  if (violations.length > 0) {
+    const message = violations.map(v => v.message).join('; ')
+    throw violations.some(v => v.code === 'role_required')
+      ? new AuthorizationError(message)
+      : new CustomValidationError(message)
+  }
+}
+
+/**
+ * Fields that move a candidate to a stage: the stage, when it was entered
+ * and, for a job, the stage history of that job's application
+ */
+const buildStageMoveUpdate = async (
+  candidate: ICandidate & { id: string },
+  toStageId: string,
+  jobId: string | undefined,
+  options: { changedBy: string; notes?: string }
+): Promise<{ updateData: any; fromStageName?: string; toStageName?: string }> => {
+  const updateData: any = { currentPipelineStageId: toStageId }
+  if (toStageId !== candidate.currentPipelineStageId) {
+    updateData.stageEnteredAt = new Date()
+  }
+  if (!jobId) return { updateData }
+
+  try {
+    const pipeline = await pipelineService.findByJobId(jobId)
+    const change =
+      pipeline &&
+      buildStageHistoryUpdate(candidate, pipeline, jobId, toStageId, options)
+    if (change) {
+      updateData.jobApplications = change.jobApplications
+      return {
+        updateData,
+        fromStageName: change.fromStageName,
+        toStageName: change.toStageName,
+      }
+    }
+  } catch (error) {
+    logger.warn('Failed to update stageHistory for stage move:', error)
+  }
+  return { updateData }
+}
+
 /**
  * Update candidate
  */
 export const updateCandidate = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params
-    const updates: UpdateCandidateInput = req.body
+    const { expectedRevision, ...updates }: UpdateCandidateInput = req.body
 
     const candidate = await candidateService.findById(id)
 
@@ -548,74 +794,35 @@ export const updateCandidate = asyncHandler(
       )
     }
 
-    // If currentPipelineStageId is being updated, update the SPECIFIC job's stage in jobApplications
+    // A stage change goes through the same transition rules, stage history
+    // and automations as POST /candidates/:id/move-stage
+    const fromStageId = candidate.currentPipelineStageId
+    const newStageId = (updates as any).currentPipelineStageId
+    const isStageChanged = Boolean(newStageId) && newStageId !== fromStageId
     let stageChangeMetadata: {
       fromStageName?: string
       toStageName?: string
       jobId?: string
     } = {}
-    if ((updates as any).currentPipelineStageId) {
-      const newStageId = (updates as any).currentPipelineStageId
-      const targetJobId = (req.body as any).jobId // CRITICAL: Must specify which job's stage is being updated
-
-      if (targetJobId) {
-        try {
-          // Find the pipeline for this specific job
-          const pipeline = await pipelineService.findByJobId(targetJobId)
-          if (pipeline && pipeline.stages) {
-            const newStage = pipeline.stages.find(
-              (s: any) => s.id === newStageId
-            )
-            if (newStage) {
-              // Update the SPECIFIC job application's currentStage and append stageHistory
-              const jobApplications = (candidate as any).jobApplications || []
-              const updatedJobApplications = jobApplications.map((app: any) => {
-                const appJobId = app.jobId?.id || app.jobId?._id || app.jobId
-                if (appJobId === targetJobId) {
-                  const oldStageId = app.currentStage || null
-                  const oldStage = oldStageId
-                    ? pipeline.stages.find((s: any) => s.id === oldStageId)
-                    : null
-                  const fromStageName =
-                    oldStage?.name || (oldStageId ? 'Unknown Stage' : 'None')
-                  stageChangeMetadata = {
-                    fromStageName,
-                    toStageName: newStage.name,
-                    jobId: targetJobId,
-                  }
-                  return {
-                    ...app,
-                    currentStage: newStageId,
-                    lastStatusChange: new Date(),
-                    stageHistory: [
-                      ...(app.stageHistory || []),
-                      {
-                        fromStageId: oldStageId,
-                        fromStageName,
-                        toStageId: newStageId,
-                        toStageName: newStage.name,
-                        changedAt: new Date(),
-                        changedBy: req.user?.id || 'system',
-                      },
-                    ],
-                  }
-                }
-                return app
-              })
-
-              ;(updates as any).jobApplications = updatedJobApplications
-              logger.info(
-                `Updated candidate stage to: ${newStage.name} for job ${targetJobId}`
-              )
-            }
-          }
-        } catch (error) {
-          logger.warn('Failed to update jobApplications.currentStage:', error)
-        }
-      } else {
-        logger.warn(
-          'No jobId provided for stage update - cannot update job-specific stage'
-        )
+    if (isStageChanged) {
+      const targetJobId = (req.body as any).jobId
+      await assertStageTransition(candidate, newStageId, targetJobId, req)
+
+      const move = await buildStageMoveUpdate(
+        {
+          ...candidate,
+          jobApplications:
+            (updates as any).jobApplications || (candidate as any).jobApplications,
+        },
+        newStageId,
+        targetJobId,
+        { changedBy: req.user?.id || 'system' }
+      )
+      Object.assign(updates, move.updateData)
+      stageChangeMetadata = {
+        fromStageName: move.fromStageName,
+        toStageName: move.toStageName,
+        jobId: targetJobId,
       }
     }
 
@@ -648,7 +855,8 @@ export const updateCandidate = asyncHandler(
         ;(updates as any).jobIds = [...existingJobIds, newJobId]
 
         // Add new jobApplication entry
-        const existingJobApplications = (candidate as any).jobApplications || []
+        const existingJobApplications =
+          (updates as any).jobApplications || (candidate as any).jobApplications || []
         const newJobApplication = {
           jobId: newJobId,
           status: 'active',
@@ -670,8 +878,37 @@ export const updateCandidate = asyncHandler(
       }
     }
 
-    // Update candidate
-    await candidateService.update(id, updates as any)
+    const customFields = await resolveCustomFields(
+      'candidate',
+      updates.customFields,
+      {
+        clientIds: await getCandidateClientIds(candidate.jobIds),
+        existing: candidate.customFields as any,
+      }
+    )
+    if (customFields) {
+      updates.customFields = customFields
+    } else {
+      delete updates.customFields
+    }
+
+    // Update candidate - pin the revision we read so a concurrent edit
+    // fails with 409 instead of being overwritten
+    await candidateService.update(id, updates as any, {
+      expectedRevision: expectedRevision ?? candidate.revision ?? 0,
+      changedBy: req.user?.id,
+    })
+
+    // Run the automation rules of the stages left and entered
+    if (isStageChanged) {
+      onCandidateStageChange({
+        candidateId: id,
+        jobId: stageChangeMetadata.jobId,
+        fromStageId,
+        toStageId: newStageId,
+        changedBy: req.user?.id,
+      })
+    }
 
     // Fetch updated candidate
     let updatedCandidate = await candidateService.findById(id)
@@ -897,11 +1134,59 @@ export const deleteCandidate = asyncHandler(
       )
     }
 
-    await candidateService.delete(id)
+    const cascaded = await softDeleteCandidateCascade(candidate, req.user?.id)
 
-    logger.info(`Candidate deleted: ${candidate.email}`)
+    logger.info(`Candidate moved to trash: ${candidate.email}`)
 
-    successResponse(res, null, 'Candidate deleted successfully')
+    successResponse(res, { cascaded }, 'Candidate moved to trash')
+  }
+)
+
+/**
+ * Get soft-deleted candidates (trash)
+ */
+export const getDeletedCandidates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query)
+
+    const [candidates, total] = await Promise.all([
+      candidateService.findDeleted([], { limit, offset: (page - 1) * limit }),
+      candidateService.countDeleted(),
+    ])
+
+    successResponse(res, {
+      candidates,
+      pagination: paginateResults(total, { page, limit }),
+    })
+  }
+)
+
+/**
+ * Restore a candidate from the trash, including the applications,
+ * interviews and emails that were deleted with it
+ */
+export const restoreCandidate = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params
+
+    const candidate = await candidateService.findById(id, {
+      includeDeleted: true,
+    })
+
+    if (!candidate || !candidate.deletedAt) {
+      throw new NotFoundError('Candidate not found in trash')
+    }
+
+    const cascaded = await restoreCandidateCascade(id, req.user?.id)
+    const restoredCandidate = await candidateService.findById(id)
+
+    logger.info(`Candidate restored from trash: ${candidate.email}`)
+
+    successResponse(
+      res,
+      { candidate: restoredCandidate, cascaded },
+      'Candidate restored successfully'
+    )
   }
 )
 
@@ -911,9 +1196,8 @@ export const deleteCandidate = asyncHandler(
 export const moveCandidateStage = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params
-    const { newStage, notes, jobId } = req.body as MoveCandidateStageInput & {
-      jobId?: string
-    }
+    const { newStage, notes, jobId, expectedRevision } =
+      req.body as MoveCandidateStageInput
 
     const candidate = await candidateService.findById(id)
 
@@ -921,72 +1205,44 @@ export const moveCandidateStage = asyncHandler(
       throw new NotFoundError('Candidate not found')
     }
 
-    const updateData: any = { currentPipelineStageId: newStage }
+    const fromStageId = candidate.currentPipelineStageId
+
+    // Enforce the pipeline's transition rules
+    await assertStageTransition(candidate, newStage, jobId, req)
+
+    // With a job, a stageHistory entry is appended on the matching jobApplication
+    const { updateData, fromStageName, toStageName } = await buildStageMoveUpdate(
+      candidate,
+      newStage,
+      jobId,
+      { changedBy: req.user?.id || 'system', notes }
+    )
     if (notes) {
       const existingNotes = (candidate as any).notes || ''
       updateData.notes = existingNotes ? `${existingNotes}\n\n${notes}` : notes
     }
 
-    // If a job is specified, append a stageHistory entry on the matching jobApplication
-    let fromStageName: string | undefined
-    let toStageName: string | undefined
-    if (jobId) {
-      try {
-        const pipeline = await pipelineService.findByJobId(jobId)
-        if (pipeline && pipeline.stages) {
-          const newStageObj = pipeline.stages.find(
-            (s: any) => s.id === newStage
-          )
-          if (newStageObj) {
-            toStageName = newStageObj.name
-            const jobApplications = (candidate as any).jobApplications || []
-            const updatedJobApplications = jobApplications.map((app: any) => {
-              const appJobId = app.jobId?.id || app.jobId?._id || app.jobId
-              if (appJobId === jobId) {
-                const oldStageId = app.currentStage || null
-                const oldStageObj = oldStageId
-                  ? pipeline.stages.find((s: any) => s.id === oldStageId)
-                  : null
-                fromStageName =
-                  oldStageObj?.name || (oldStageId ? 'Unknown Stage' : 'None')
-                return {
-                  ...app,
-                  currentStage: newStage,
-                  lastStatusChange: new Date(),
-                  stageHistory: [
-                    ...(app.stageHistory || []),
-                    {
-                      fromStageId: oldStageId,
-                      fromStageName,
-                      toStageId: newStage,
-                      toStageName: newStageObj.name,
-                      changedAt: new Date(),
-                      changedBy: req.user?.id || 'system',
-                      notes: notes || undefined,
-                    },
-                  ],
-                }
-              }
-              return app
-            })
-            updateData.jobApplications = updatedJobApplications
-          }
-        }
-      } catch (error) {
-        logger.warn(
-          'Failed to update stageHistory in moveCandidateStage:',
-          error
-        )
-      }
-    }
-
-    await candidateService.update(id, updateData)
+    // stageHistory is rebuilt from the copy read above, so reject the write
+    // if anyone else changed the candidate in the meantime
+    await candidateService.update(id, updateData, {
+      expectedRevision: expectedRevision ?? candidate.revision ?? 0,
+      changedBy: req.user?.id,
+    })
 
     // Fetch updated candidate
     const updatedCandidate = await candidateService.findById(id)
 
     logger.info(`Candidate ${candidate.email} moved to stage: ${newStage}`)
 
+    // Run the automation rules of the stages left and entered
+    onCandidateStageChange({
+      candidateId: id,
+      jobId: jobId || undefined,
+      fromStageId,
+      toStageId: newStage,
+      changedBy: req.user?.id,
+    })
+
     // Log activity
     if (req.user?.id && updatedCandidate) {
       logActivity({
@@ -1096,22 +1352,59 @@ export const bulkMoveCandidates = asyncHandler(
 
     // Update each candidate individually (Firestore doesn't have updateMany)
     let modifiedCount = 0
+    const failed: Array<{ candidateId: string; errors: string[] }> = []
     for (const candidateId of validIds) {
       try {
+        const candidate = await candidateService.findById(candidateId)
+        if (!candidate) {
+          failed.push({ candidateId, errors: ['Candidate not found'] })
+          continue
+        }
+        const fromStageId = candidate.currentPipelineStageId
+
+        // Enforce the pipeline's transition rules per candidate
+        const stagePipeline = await findStagePipeline(candidate, newStage)
+        if (stagePipeline) {
+          const violations = await checkStageTransition({
+            candidate,
+            pipeline: stagePipeline.pipeline,
+            fromStageId,
+            toStageId: newStage,
+            jobId: stagePipeline.jobId,
+            userRole: req.user?.role,
+          })
+          if (violations.length > 0) {
+            failed.push({ candidateId, errors: violations.map(v => v.message) })
+            continue
+          }
+        }
+
         const updateData: any = { currentPipelineStageId: newStage }
+        if (newStage !== fromStageId) {
+          updateData.stageEnteredAt = new Date()
+        }
         if (notes) {
-          const candidate = await candidateService.findById(candidateId)
-          if (candidate) {
-            const existingNotes = (candidate as any).notes || ''
-            updateData.notes = existingNotes
-              ? `${existingNotes}\n${notes}`
-              : notes
-          }
+          const existingNotes = (candidate as any).notes || ''
+          updateData.notes = existingNotes
+            ? `${existingNotes}\n${notes}`
+            : notes
         }
-        await candidateService.update(candidateId, updateData)
+        // Written against the copy read above, so concurrent edits are not overwritten
+        await candidateService.update(candidateId, updateData, {
+          changedBy: req.user?.id,
+          expectedRevision: candidate.revision ?? 0,
+        })
         modifiedCount++
-      } catch (error) {
+
+        onCandidateStageChange({
+          candidateId,
+          fromStageId,
+          toStageId: newStage,
+          changedBy: req.user?.id,
+        })
+      } catch (error: any) {
         logger.error(`Failed to update candidate ${candidateId}:`, error)
+        failed.push({ candidateId, errors: [error.message || 'Update failed'] })
       }
     }
 
@@ -1122,8 +1415,11 @@ export const bulkMoveCandidates = asyncHandler(
       {
         modifiedCount,
         newStage,
+        failed,
       },
-      `Successfully moved ${modifiedCount} candidates`
+      failed.length > 0
+        ? `Moved ${modifiedCount} candidates, ${failed.length} could not be moved`
+        : `Successfully moved ${modifiedCount} candidates`
     )
   }
 )
@@ -1407,62 +1703,21 @@ export const getTopCandidates = asyncHandler(
 /**
  * Get dashboard analytics
  * Returns candidate applications grouped by date for chart
+ * Past days are read from the nightly metric snapshots.
  */
 export const getDashboardAnalytics = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const { days = '90' } = req.query
-    const daysNum = parseInt(days as string, 10)
-
-    // Calculate date range
-    const endDate = new Date()
-    const startDate = new Date()
-    startDate.setDate(startDate.getDate() - daysNum)
+    const { days } = req.query as any as DashboardAnalyticsQuery
 
-    // Fetch all candidates within date range
-    const allCandidates = await candidateService.find([])
-    const filteredCandidates = allCandidates.filter((c: any) => {
-      const createdAt =
-        c.createdAt instanceof Date ? c.createdAt : new Date(c.createdAt)
-      return createdAt >= startDate && createdAt <= endDate
-    })
-
-    // Group by date and source
-    const groupedData: Map<string, any> = new Map()
-
-    filteredCandidates.forEach((candidate: any) => {
-      const createdAt =
-        candidate.createdAt instanceof Date
-          ? candidate.createdAt
-          : new Date(candidate.createdAt)
-      const dateStr = createdAt.toISOString().split('T')[0] // YYYY-MM-DD format
-      const source = (candidate as any).source || 'unknown'
-
-      if (!groupedData.has(dateStr)) {
-        groupedData.set(dateStr, {
-          date: dateStr,
-          applications: 0,
-          directSubmissions: 0,
-          manualImports: 0,
-          emailApplications: 0,
-        })
-      }
+    const intake = await getDailyIntake('candidates', days)
 
-      const dateData = groupedData.get(dateStr)
-      dateData.applications++
-
-      if (source === 'direct_submission') {
-        dateData.directSubmissions++
-      } else if (source === 'manual_import') {
-        dateData.manualImports++
-      } else if (source === 'email' || source === 'email_application') {
-        dateData.emailApplications++
-      }
-    })
-
-    // Convert map to array and sort by date
-    const analytics = Array.from(groupedData.values()).sort((a, b) =>
-      a.date.localeCompare(b.date)
-    )
+    const analytics = intake.map(({ date, bySource }) => ({
+      date,
+      applications: Object.values(bySource).reduce((sum, count) => sum + count, 0),
+      directSubmissions: bySource.direct_submission || 0,
+      manualImports: bySource.manual_import || 0,
+      emailApplications: (bySource.email || 0) + (bySource.email_application || 0),
+    }))
 
     successResponse(
       res,
@@ -1603,3 +1858,279 @@ export const getCandidateActivity = asyncHandler(
     successResponse(res, allEvents, 'Candidate activity fetched successfully')
   }
 )
+
+/**
+ * Get prior versions of a candidate with field-level diffs, newest first
+ */
+export const getCandidateHistory = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params
+    const { limit } = getPaginationParams(req.query)
+
+    const candidate = await candidateService.findById(id)
+    if (!candidate) {
+      throw new NotFoundError('Candidate not found')
+    }
+
+    const versions = await candidateService.findHistory(id, { limit })
+
+    successResponse(
+      res,
+      { revision: candidate.revision ?? 0, versions },
+      'Candidate history fetched successfully'
+    )
+  }
+)
+
+/**
+ * Get the stage automation execution log of a candidate, newest first
+ */
+export const getCandidateAutomationRuns = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params
+
+    const candidate = await candidateService.findById(id)
+    if (!candidate) {
+      throw new NotFoundError('Candidate not found')
+    }
+
+    const runs = await stageAutomationRunService.findByCandidateId(id)
+
+    successResponse(res, runs, 'Candidate automation runs fetched successfully')
+  }
+)
+
+/**
+ * Get the duplicate review queue: pairs of candidates that likely describe
+ * the same person, highest score first
+ */
+export const getDuplicateCandidates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query)
+    const minScore = req.query.minScore
+      ? parseFloat(req.query.minScore as string)
+      : DEFAULT_DUPLICATE_MIN_SCORE
+
+    const pairs = await findDuplicatePairs({ minScore })
+
+    const toSummary = (candidate: any) => ({
+      id: candidate.id,
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      email: candidate.email,
+      alternateEmails: candidate.alternateEmails || [],
+      phone: candidate.phone,
+      linkedinUrl: candidate.linkedinUrl,
+      currentTitle: candidate.currentTitle,
+      currentCompany: candidate.currentCompany,
+      source: candidate.source,
+      status: candidate.status,
+      applicationCount: candidate.applicationIds?.length || 0,
+      createdAt: candidate.createdAt,
+    })
+
+    const results = pairs
+      .slice((page - 1) * limit, page * limit)
+      .map(pair => ({
+        score: pair.score,
+        reasons: pair.reasons,
+        suggestedSurvivorId: pair.suggestedSurvivorId,
+        candidates: pair.candidates.map(toSummary),
+      }))
+
+    successResponse(
+      res,
+      {
+        duplicates: results,
+        pagination: paginateResults(pairs.length, { page, limit }),
+      },
+      'Duplicate candidates fetched successfully'
+    )
+  }
+)
+
+/**
+ * Merge a duplicate candidate into this one
+ */
+export const mergeCandidate = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params
+    const { duplicateId, expectedRevision } = req.body as MergeCandidatesInput
+
+    const result = await runCandidateMerge(id, duplicateId, {
+      mergedBy: req.user?.id,
+      expectedRevision,
+    })
+
+    const candidate = await candidateService.findById(id)
+
+    if (req.user?.id && candidate) {
+      logActivity({
+        userId: req.user.id,
+        action: 'candidate_merged',
+        resourceType: 'candidate',
+        resourceId: id,
+        resourceName: `${candidate.firstName} ${candidate.lastName}`,
+        metadata: {
+          mergedCandidateId: duplicateId,
+          moved: result.moved,
+        },
+      }).catch(err => logger.error('Failed to log candidate merge:', err))
+    }
+
+    logger.info(`Candidate ${duplicateId} merged into ${id}`)
+
+    successResponse(
+      res,
+      { candidate, merge: result },
+      'Candidates merged successfully'
+    )
+  }
+)
+
+/**
+ * Import candidates from a CSV or XLSX file
+ * - preview (default): detected column mapping and sample rows
+ * - dry_run: per-row validation errors and duplicate matches, nothing is written
+ * - import: starts a background import; poll GET /candidates/imports/:importId
+ */
+export const importCandidates = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { mode = 'preview', jobId, pipelineId, stageId, mapping } =
+      req.body as ImportCandidatesInput
+
+    if (!req.file) {
+      throw new BadRequestError('No file uploaded')
+    }
+
+    const data = readSpreadsheet(req.file.buffer, req.file.originalname)
+    if (data.rows.length === 0) {
+      throw new BadRequestError('The file has no data rows')
+    }
+    if (data.rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestError(
+        `The file has ${data.rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`
+      )
+    }
+
+    if (mode !== 'preview' && !jobId) {
+      throw new CustomValidationError('jobId is required to import candidates')
+    }
+    const target = jobId
+      ? await resolveImportTarget({ jobId, pipelineId, stageId })
+      : null
+
+    // Client-scoped custom fields only apply once the job is known
+    const definitions = await getCustomFieldDefinitions(
+      'candidate',
+      target?.job.clientId ? [target.job.clientId] : target ? [] : undefined
+    )
+    const columnMapping = mapping
+      ? parseColumnMapping(mapping, data.headers, definitions)
+      : detectColumnMapping(data.headers, definitions)
+
+    if (mode === 'preview' || !target) {
+      successResponse(
+        res,
+        {
+          fileName: req.file.originalname,
+          format: data.format,
+          headers: data.headers,
+          rowCount: data.rows.length,
+          mapping: columnMapping,
+          fields: importTargetFields(definitions),
+          sampleRows: data.rows.slice(0, 5),
+        },
+        'Import preview generated successfully'
+      )
+      return
+    }
+
+    assertMappingIsImportable(columnMapping)
+
+    if (mode === 'dry_run') {
+      const report = await dryRunCandidateImport(data, columnMapping, target)
+      successResponse(
+        res,
+        { mapping: columnMapping, ...report },
+        report.invalidRows > 0
+          ? `Dry run found errors in ${report.invalidRows} row(s)`
+          : 'Dry run completed without errors'
+      )
+      return
+    }
+
+    const candidateImport = await startCandidateImport({
+      fileName: req.file.originalname,
+      data,
+      mapping: columnMapping,
+      target,
+      createdBy: req.user?.id,
+    })
+
+    logger.info(
+      `Candidate import ${candidateImport.id} started: ${data.rows.length} rows for job ${target.job.title}`
+    )
+
+    successResponse(res, candidateImport, 'Candidate import started', 202)
+  }
+)
+
+/**
+ * Get candidate imports (admins see everyone's)
+ */
+export const getCandidateImports = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query)
+
+    const imports =
+      req.user?.role === 'admin'
+        ? await candidateImportService.find([], {
+            orderBy: [{ field: 'createdAt', direction: 'desc' }],
+          })
+        : await candidateImportService.findByCreator(req.user!.id)
+
+    successResponse(
+      res,
+      {
+        imports: imports
+          .slice((page - 1) * limit, page * limit)
+          .map(({ rowErrors: _rowErrors, ...candidateImport }) => candidateImport),
+        pagination: paginateResults(imports.length, { page, limit }),
+      },
+      'Candidate imports retrieved successfully'
+    )
+  }
+)
+
+/**
+ * Get candidate import progress and row errors
+ */
+export const getCandidateImportById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const candidateImport = await candidateImportService.findById(
+      req.params.importId
+    )
+    if (
+      !candidateImport ||
+      (req.user?.role !== 'admin' && candidateImport.createdBy !== req.user?.id)
+    ) {
+      throw new NotFoundError('Candidate import not found')
+    }
+
+    successResponse(
+      res,
+      {
+        ...candidateImport,
+        progress:
+          candidateImport.totalRows > 0
+            ? Math.round(
+                (candidateImport.processedRows / candidateImport.totalRows) *
+                  100
+              )
+            : 100,
+      },
+      'Candidate import retrieved successfully'
+    )
+  }
+)
@@ -4,6 +4,10 @@ import {
   clientService,
   jobService,
 } from "../services/firestore";
+import {
+  buildCustomFieldFilters,
+  resolveCustomFields,
+} from "../services/customFields.service";
 import {
   CreateClientInput,
   ListClientsQuery,
@@ -16,6 +20,7 @@ import {
 } from "../utils/errors";
 import {
   asyncHandler,
+  getPaginationParams,
   paginateResults,
   successResponse,
 } from "../utils/helpers";
@@ -113,9 +118,15 @@ export const createClient = asyncHandler(
         id: contact.id || `contact_${Date.now()}_${index}`,
       })) || [];
 
+    // Scoped custom fields can't apply yet: the client has no ID until it is created
+    const customFields = await resolveCustomFields("client", data.customFields, {
+      isCreate: true,
+    });
+
     // Create client
     const clientId = await clientService.create({
       ...data,
+      customFields,
       contacts,
       status: data.status || 'active', // Default to active if not provided
       createdBy: req.user?.id,
@@ -173,6 +184,7 @@ export const getClients = asyncHandler(
     if (industry) {
       filters.push({ field: "industry", operator: "==", value: industry });
     }
+    filters.push(...(await buildCustomFieldFilters("client", req.query.cf)));
 
     // Get all clients (Firestore doesn't support complex OR queries easily, so filter in memory)
     let clients = await clientService.find(filters);
@@ -299,9 +311,15 @@ export const updateClient = asyncHandler(
       }
     }
 
+    const customFields = await resolveCustomFields("client", updates.customFields, {
+      clientIds: [id],
+      existing: client.customFields as any,
+    });
+
     // Update client
     await clientService.update(id, {
       ...updates,
+      ...(customFields && { customFields }),
       updatedBy: req.user?.id,
       updatedAt: new Date(),
     } as any);
@@ -397,11 +415,52 @@ export const deleteClient = asyncHandler(
     }
 
     // If there are only draft, closed, or cancelled jobs without protected candidates, allow deletion
-    await clientService.delete(id);
+    await clientService.softDelete(id, req.user?.id);
+
+    logger.info(`Client moved to trash: ${client.companyName}`);
+
+    successResponse(res, null, "Client moved to trash");
+  }
+);
+
+/**
+ * Get soft-deleted clients (trash)
+ */
+export const getDeletedClients = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query);
+
+    const [clients, total] = await Promise.all([
+      clientService.findDeleted([], { limit, offset: (page - 1) * limit }),
+      clientService.countDeleted(),
+    ]);
+
+    successResponse(res, {
+      clients,
+      pagination: paginateResults(total, { page, limit }),
+    });
+  }
+);
+
+/**
+ * Restore a client from the trash
+ */
+export const restoreClient = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const client = await clientService.findById(id, { includeDeleted: true });
+
+    if (!client || !client.deletedAt) {
+      throw new NotFoundError("Client not found in trash");
+    }
+
+    await clientService.restore(id, req.user?.id);
+    const restoredClient = await clientService.findById(id);
 
-    logger.info(`Client deleted: ${client.companyName}`);
+    logger.info(`Client restored from trash: ${client.companyName}`);
 
-    successResponse(res, null, "Client deleted successfully");
+    successResponse(res, restoredClient, "Client restored successfully");
   }
 );
 
@@ -0,0 +1,150 @@
+import { Request, Response } from "express";
+import {
+  clientService,
+  customFieldDefinitionService,
+} from "../services/firestore";
+import {
+  CreateCustomFieldInput,
+  ListCustomFieldsQuery,
+  UpdateCustomFieldInput,
+} from "../types/customField.types";
+import { BadRequestError, ConflictError, NotFoundError } from "../utils/errors";
+import { asyncHandler, successResponse } from "../utils/helpers";
+import logger from "../utils/logger";
+
+const assertClientExists = async (clientId?: string | null) => {
+  if (clientId && !(await clientService.findById(clientId))) {
+    throw new NotFoundError("Client not found");
+  }
+};
+
+/**
+ * Get custom field definitions
+ * With clientId, returns the fields that apply to that client's records
+ */
+export const getCustomFields = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { entityType, clientId, includeInactive } =
+      req.query as ListCustomFieldsQuery;
+
+    let definitions = entityType
+      ? await customFieldDefinitionService.findByEntityType(entityType)
+      : await customFieldDefinitionService.find([], {
+          orderBy: [{ field: "order", direction: "asc" }],
+        });
+
+    if (includeInactive !== "true") {
+      definitions = definitions.filter((definition) => definition.isActive);
+    }
+    if (clientId) {
+      definitions = definitions.filter(
+        (definition) => !definition.clientId || definition.clientId === clientId
+      );
+    }
+
+    successResponse(res, definitions, "Custom fields retrieved successfully");
+  }
+);
+
+/**
+ * Get custom field definition by ID
+ */
+export const getCustomFieldById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const definition = await customFieldDefinitionService.findById(req.params.id);
+    if (!definition) throw new NotFoundError("Custom field not found");
+
+    successResponse(res, definition, "Custom field retrieved successfully");
+  }
+);
+
+/**
+ * Create custom field definition
+ */
+export const createCustomField = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data: CreateCustomFieldInput = req.body;
+
+    if (await customFieldDefinitionService.findByKey(data.entityType, data.key)) {
+      throw new ConflictError(
+        `A ${data.entityType} custom field with key "${data.key}" already exists`
+      );
+    }
+    await assertClientExists(data.clientId);
+
+    // New fields go last unless an order is given
+    const order =
+      data.order ??
+      (await customFieldDefinitionService.count([
+        { field: "entityType", operator: "==", value: data.entityType },
+      ]));
+
+    const definitionId = await customFieldDefinitionService.create({
+      entityType: data.entityType,
+      key: data.key,
+      label: data.label,
+      type: data.type,
+      description: data.description,
+      options: data.options ? [...new Set(data.options)] : undefined,
+      required: data.required ?? false,
+      clientId: data.clientId ?? null,
+      order,
+      isActive: true,
+      createdBy: req.user?.id,
+    });
+
+    const definition = await customFieldDefinitionService.findById(definitionId);
+
+    logger.info(`Custom field created: ${data.entityType}.${data.key}`);
+
+    successResponse(res, definition, "Custom field created successfully", 201);
+  }
+);
+
+/**
+ * Update custom field definition
+ * Values already stored are not rewritten; removing a select option only
+ * affects new input.
+ */
+export const updateCustomField = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const updates: UpdateCustomFieldInput = req.body;
+    const definition = await customFieldDefinitionService.findById(req.params.id);
+    if (!definition) throw new NotFoundError("Custom field not found");
+
+    if (
+      updates.options &&
+      definition.type !== "select" &&
+      definition.type !== "multi_select"
+    ) {
+      throw new BadRequestError("Options are only allowed on select fields");
+    }
+    await assertClientExists(updates.clientId);
+
+    await customFieldDefinitionService.update(definition.id!, {
+      ...updates,
+      ...(updates.options && { options: [...new Set(updates.options)] }),
+      updatedBy: req.user?.id,
+    });
+
+    const updated = await customFieldDefinitionService.findById(definition.id!);
+    successResponse(res, updated, "Custom field updated successfully");
+  }
+);
+
+/**
+ * Delete custom field definition
+ * Stored values stay on the records but are no longer validated, filterable or exported.
+ */
+export const deleteCustomField = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const definition = await customFieldDefinitionService.findById(req.params.id);
+    if (!definition) throw new NotFoundError("Custom field not found");
+
+    await customFieldDefinitionService.delete(definition.id!);
+
+    logger.info(`Custom field deleted: ${definition.entityType}.${definition.key}`);
+
+    successResponse(res, null, "Custom field deleted successfully");
+  }
+);
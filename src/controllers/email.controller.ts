@@ -1,10 +1,12 @@
 import { Request, Response } from "express";
 import { logActivity } from "../services/activity.service";
 import { emailService } from "../services/firestore";
+import { QueryCondition } from "../services/firestore/base.service";
 import resendService from "../services/resend.service";
 import { NotFoundError } from "../utils/errors";
 import {
   asyncHandler,
+  getPaginationParams,
   paginateResults,
   successResponse,
 } from "../utils/helpers";
@@ -16,8 +18,7 @@ import logger from "../utils/logger";
 export const getEmails = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const {
-      page = 1,
-      limit = 10,
+      cursor,
       direction,
       candidateId,
       applicationId,
@@ -27,75 +28,86 @@ export const getEmails = asyncHandler(
       sortBy = "createdAt",
       sortOrder = "desc",
     } = req.query as any;
+    const { page, limit } = getPaginationParams(req.query);
 
-    // Get all emails
-    let allEmails = await emailService.find([]);
-
-    // Apply filters
+    // Build server-side filters
+    const filters: QueryCondition[] = [];
     if (direction) {
-      allEmails = allEmails.filter((e: any) => e.direction === direction);
+      filters.push({ field: "direction", operator: "==", value: direction });
     }
     if (status) {
-      allEmails = allEmails.filter((e: any) => e.status === status);
+      filters.push({ field: "status", operator: "==", value: status });
     }
 
     // If both candidateId and jobId are provided, use OR logic
     if (candidateId && jobId) {
-      allEmails = allEmails.filter(
-        (e: any) =>
-          e.candidateId === candidateId ||
-          e.jobId === jobId ||
-          (e.candidateId === candidateId && e.jobId === jobId)
-      );
+      filters.push({
+        or: [
+          { field: "candidateId", operator: "==", value: candidateId },
+          { field: "jobId", operator: "==", value: jobId },
+        ],
+      });
     } else {
       if (candidateId) {
-        allEmails = allEmails.filter((e: any) => e.candidateId === candidateId);
+        filters.push({ field: "candidateId", operator: "==", value: candidateId });
       }
       if (jobId) {
-        allEmails = allEmails.filter((e: any) => e.jobId === jobId);
+        filters.push({ field: "jobId", operator: "==", value: jobId });
       }
     }
 
     if (applicationId) {
-      allEmails = allEmails.filter(
-        (e: any) => e.applicationId === applicationId
-      );
+      filters.push({ field: "applicationId", operator: "==", value: applicationId });
     }
 
+    const orderBy = [{ field: sortBy, direction: sortOrder === "asc" ? "asc" : "desc" } as const];
+
+    let emails: any[];
+    let totalCount: number;
+    let nextCursor: string | null = null;
+
     if (search) {
+      // Substring search can't be expressed as a Firestore query -
+      // scan only the subset that already matches the server-side filters
       const searchLower = search.toLowerCase();
-      allEmails = allEmails.filter(
+      const matches = (await emailService.find(filters, { orderBy })).filter(
         (e: any) =>
           e.from?.toLowerCase().includes(searchLower) ||
           e.to?.some((t: string) => t.toLowerCase().includes(searchLower)) ||
           e.subject?.toLowerCase().includes(searchLower) ||
           e.body?.toLowerCase().includes(searchLower)
       );
-    }
 
-    // Get total count
-    const totalCount = allEmails.length;
+      totalCount = matches.length;
+      const skip = (page - 1) * limit;
+      emails = matches.slice(skip, skip + limit);
+    } else {
+      const [result, total] = await Promise.all([
+        emailService.findPage(filters, {
+          orderBy,
+          limit,
+          startAfter: cursor,
+          offset: cursor ? undefined : (page - 1) * limit,
+        }),
+        emailService.count(filters),
+      ]);
+
+      emails = result.items;
+      totalCount = total;
+      nextCursor = result.nextCursor;
+    }
 
     // Calculate pagination
-    const pagination = paginateResults(totalCount, {
-      page,
-      limit,
-      sort: sortBy,
-      order: sortOrder,
-    });
-
-    // Sort
-    allEmails.sort((a: any, b: any) => {
-      const aVal = a[sortBy];
-      const bVal = b[sortBy];
-      if (aVal < bVal) return sortOrder === "asc" ? -1 : 1;
-      if (aVal > bVal) return sortOrder === "asc" ? 1 : -1;
-      return 0;
-    });
-
-    // Paginate
-    const skip = (page - 1) * limit;
-    const emails = allEmails.slice(skip, skip + limit);
+    const pagination = paginateResults(
+      totalCount,
+      {
+        page,
+        limit,
+        sort: sortBy,
+        order: sortOrder,
+      },
+      nextCursor
+    );
 
     successResponse(
       res,
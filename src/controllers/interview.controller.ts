@@ -1,11 +1,79 @@
 import { Request, Response } from 'express';
 import { interviewService, candidateService, jobService, clientService } from '../services/firestore';
+import { IInterview } from '../services/firestore/interview.service';
 import { asyncHandler, successResponse, paginateResults } from '../utils/helpers';
-import { NotFoundError } from '../utils/errors';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
 import logger from '../utils/logger';
 import zoomService from '../services/zoom.service';
 import emailService from '../services/email.service';
 import { logActivity } from '../services/activity.service';
+import { sendInterviewInvites } from '../services/interviewCalendar.service';
+import { syncInterviewReminders } from '../services/interviewReminders.service';
+import {
+  buildFeedbackEntry,
+  redactInterviewFeedback,
+  upsertFeedback,
+} from '../services/interviewScorecard.service';
+import {
+  findSchedulingConflicts,
+  isBlockingConflict,
+  SchedulingConflict,
+} from '../services/interviewAvailability.service';
+
+// Fields whose change means the slot has to be checked again
+const SCHEDULING_FIELDS = ['scheduledAt', 'duration', 'interviewerIds', 'candidateId'];
+
+// Fields shown in calendar invites; changing them sends an updated .ics
+const CALENDAR_FIELDS = [...SCHEDULING_FIELDS, 'title', 'type', 'location', 'meetingLink', 'meetingPassword', 'description'];
+
+/**
+ * An interview as the requesting user may see it
+ * Every response carrying an interview goes through this, so colleagues'
+ * feedback stays hidden until the user submitted their own.
+ */
+const toInterviewResponse = <T extends IInterview>(interview: T, req: Request): T =>
+  redactInterviewFeedback(interview, req.user!);
+
+/**
+ * Check an interview's slot for double-bookings and time off
+ * Blocking conflicts fail with a ConflictError unless `allowConflicts` is
+ * set; all conflicts found are returned so the response can warn about them.
+ */
+const checkSchedulingConflicts = async (
+  interview: {
+    scheduledAt?: unknown;
+    duration?: number;
+    timezone?: string;
+    interviewerIds?: unknown[];
+    candidateId?: string;
+  },
+  options: { allowConflicts?: boolean; excludeInterviewId?: string }
+): Promise<SchedulingConflict[]> => {
+  const value = interview.scheduledAt as any;
+  const scheduledAt = value ? (typeof value.toDate === 'function' ? value.toDate() : new Date(value)) : null;
+  if (!scheduledAt || isNaN(scheduledAt.getTime())) return [];
+
+  const conflicts = await findSchedulingConflicts({
+    interviewerIds: (interview.interviewerIds || [])
+      .map((interviewer: any) => (typeof interviewer === 'string' ? interviewer : interviewer?.id || interviewer?._id))
+      .filter(Boolean),
+    candidateId: interview.candidateId,
+    scheduledAt,
+    duration: interview.duration || 60,
+    timezone: interview.timezone,
+    excludeInterviewId: options.excludeInterviewId,
+  });
+
+  const blocking = conflicts.filter(isBlockingConflict);
+  if (blocking.length > 0 && !options.allowConflicts) {
+    throw new ConflictError(
+      `Scheduling conflict: ${blocking.map((conflict) => conflict.message).join('; ')}. ` +
+        'Pick another time or set allowConflicts to book anyway.'
+    );
+  }
+
+  return conflicts;
+};
 
 /**
  * Get all interviews with filters and pagination
@@ -66,7 +134,9 @@ export const getInterviews = asyncHandler(
 
     // Apply pagination
     const skip = (page - 1) * limit;
-    const interviews = allInterviews.slice(skip, skip + limit);
+    const interviews = allInterviews
+      .slice(skip, skip + limit)
+      .map((interview) => toInterviewResponse(interview, req));
 
     successResponse(
       res,
@@ -92,7 +162,7 @@ export const getInterviewById = asyncHandler(
       throw new NotFoundError('Interview not found');
     }
 
-    successResponse(res, interview, 'Interview retrieved successfully');
+    successResponse(res, toInterviewResponse(interview, req), 'Interview retrieved successfully');
   }
 );
 
@@ -101,7 +171,7 @@ export const getInterviewById = asyncHandler(
  */
 export const createInterview = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
-    const data = req.body;
+    const { allowConflicts, ...data } = req.body;
 
     // Verify candidate exists
     const candidate = await candidateService.findById(data.candidateId);
@@ -115,6 +185,9 @@ export const createInterview = asyncHandler(
       throw new NotFoundError('Job not found');
     }
 
+    // Reject double-bookings unless explicitly allowed
+    const conflicts = await checkSchedulingConflicts(data, { allowConflicts });
+
     // Create interview
     const interviewId = await interviewService.create({
       ...data,
@@ -133,7 +206,7 @@ export const createInterview = asyncHandler(
           ? interview!.scheduledAt 
           : (interview!.scheduledAt as any).toDate 
             ? (interview!.scheduledAt as any).toDate() 
-            : new Date(interview!.scheduledAt);
+            : new Date(interview!.scheduledAt!);
 
         const zoomMeeting = await zoomService.createMeeting({
           topic: `${interview!.title} - ${candidate.firstName} ${candidate.lastName}`,
@@ -159,6 +232,10 @@ export const createInterview = asyncHandler(
       }
     }
 
+    // Calendar invites to the interviewers; the candidate's goes with the notification below
+    const invite = await sendInterviewInvites(interview as any, 'scheduled', { notifyCandidate: false });
+    await syncInterviewReminders(interview as any);
+
     // Send email notification to candidate if sendEmail flag is true
     if (data.sendEmail) {
       try {
@@ -189,13 +266,14 @@ export const createInterview = asyncHandler(
           jobTitle: job.title,
           interviewTitle: interview!.title,
           interviewType: interview!.type,
-          scheduledAt: interview!.scheduledAt,
+          scheduledAt: interview!.scheduledAt!,
           duration: interview!.duration,
           meetingLink: interview!.meetingLink,
           meetingPassword: interview!.meetingPassword,
           interviewerNames: interviewerNames.length > 0 ? interviewerNames : undefined,
           isInstant: data.isInstant || false,
           companyName,
+          attachments: invite ? [invite] : undefined,
         });
 
         logger.info(`Interview notification email sent to candidate: ${candidate.email}`);
@@ -225,7 +303,12 @@ export const createInterview = asyncHandler(
       });
     }
 
-    successResponse(res, interview, 'Interview scheduled successfully', 201);
+    successResponse(
+      res,
+      conflicts.length > 0 ? { ...toInterviewResponse(interview!, req), conflicts } : toInterviewResponse(interview!, req),
+      'Interview scheduled successfully',
+      201
+    );
   }
 );
 
@@ -235,7 +318,19 @@ export const createInterview = asyncHandler(
 export const updateInterview = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const updates = req.body;
+    const { allowConflicts, ...updates } = req.body;
+
+    const existing = await interviewService.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Interview not found');
+    }
+
+    // Re-check the slot when it moves or the participants change
+    const merged = { ...existing, ...updates };
+    const conflicts =
+      SCHEDULING_FIELDS.some((field) => field in updates) && ['scheduled', 'confirmed'].includes(merged.status)
+        ? await checkSchedulingConflicts(merged, { allowConflicts, excludeInterviewId: id })
+        : [];
 
     // Add updatedBy
     updates.updatedBy = req.user?.id;
@@ -243,13 +338,26 @@ export const updateInterview = asyncHandler(
     await interviewService.update(id, updates as any);
     const interview = await interviewService.findById(id);
 
-    if (!interview) {
-      throw new NotFoundError('Interview not found');
+    // Updated (or first, or cancelling) calendar invites when what they show changed
+    if (interview && interview.status !== 'draft' && CALENDAR_FIELDS.some((field) => field in updates)) {
+      const change = interview.status === 'cancelled' ? 'cancelled' : existing.icsSequence === undefined ? 'scheduled' : 'updated';
+      await sendInterviewInvites(interview as any, change, {
+        removedInterviewerIds: existing.interviewerIds || [],
+      });
+    } else if (interview?.status === 'cancelled' && existing.status !== 'cancelled') {
+      await sendInterviewInvites(interview as any, 'cancelled');
     }
 
+    // Re-plan reminders (moved, cancelled, completed, no-show...)
+    await syncInterviewReminders(interview as any);
+
     logger.info(`Interview updated: ${id} by ${req.user?.email}`);
 
-    successResponse(res, interview, 'Interview updated successfully');
+    successResponse(
+      res,
+      conflicts.length > 0 ? { ...toInterviewResponse(interview!, req), conflicts } : toInterviewResponse(interview!, req),
+      'Interview updated successfully'
+    );
   }
 );
 
@@ -261,6 +369,11 @@ export const cancelInterview = asyncHandler(
     const { id } = req.params;
     const { reason } = req.body;
 
+    const existing = await interviewService.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Interview not found');
+    }
+
     await interviewService.update(id, {
       status: 'cancelled',
       cancelledAt: new Date(),
@@ -270,13 +383,15 @@ export const cancelInterview = asyncHandler(
 
     const interview = await interviewService.findById(id);
 
-    if (!interview) {
-      throw new NotFoundError('Interview not found');
+    // Cancel the event in everyone's calendar
+    if (existing.status !== 'cancelled') {
+      await sendInterviewInvites(interview as any, 'cancelled');
     }
+    await syncInterviewReminders(interview as any);
 
     logger.info(`Interview cancelled: ${id} by ${req.user?.email}`);
 
-    successResponse(res, interview, 'Interview cancelled successfully');
+    successResponse(res, toInterviewResponse(interview!, req), 'Interview cancelled successfully');
   }
 );
 
@@ -294,13 +409,9 @@ export const addFeedback = asyncHandler(
       throw new NotFoundError('Interview not found');
     }
 
-    // Add feedback
-    const currentFeedback = interview.feedback || [];
-    currentFeedback.push({
-      interviewerId: req.user?.id,
-      ...feedbackData,
-      submittedAt: new Date(),
-    });
+    // Add (or replace) the interviewer's scorecard, checked against the job's kit
+    const entry = await buildFeedbackEntry(interview, req.user!.id, feedbackData);
+    const currentFeedback = upsertFeedback(interview.feedback, entry);
 
     // Prepare update
     const updates: any = {
@@ -308,17 +419,25 @@ export const addFeedback = asyncHandler(
     };
 
     // If all interviewers provided feedback, mark as completed
-    if (currentFeedback.length >= (interview.interviewerIds?.length || 0)) {
+    const submittedIds = new Set(currentFeedback.map((item) => item.interviewerId));
+    if ((interview.interviewerIds || []).every((interviewerId) => submittedIds.has(interviewerId))) {
       updates.status = 'completed';
       updates.completedAt = new Date();
     }
 
-    await interviewService.update(id, updates);
+    // Revision check: feedback submitted by another panel member since the read must not be dropped
+    await interviewService.update(id, updates, {
+      expectedRevision: interview.revision ?? 0,
+      changedBy: req.user!.id,
+    });
     const updatedInterview = await interviewService.findById(id);
 
+    // Feedback nudges stop for this interviewer (and start for the rest once completed)
+    await syncInterviewReminders(updatedInterview as any);
+
     logger.info(`Feedback added to interview ${id} by ${req.user?.email}`);
 
-    successResponse(res, updatedInterview, 'Feedback added successfully');
+    successResponse(res, toInterviewResponse(updatedInterview!, req), 'Feedback added successfully');
   }
 );
 
@@ -336,6 +455,7 @@ export const deleteInterview = asyncHandler(
     }
 
     await interviewService.delete(id);
+    await syncInterviewReminders({ ...interview, deletedAt: new Date() } as any);
 
     logger.info(`Interview deleted: ${id} by ${req.user?.email}`);
 
@@ -366,7 +486,9 @@ export const getUpcomingInterviews = asyncHandler(
     );
 
     // Apply limit
-    const interviews = upcomingInterviews.slice(0, Number(limit));
+    const interviews = upcomingInterviews
+      .slice(0, Number(limit))
+      .map((interview) => toInterviewResponse(interview, req));
 
     successResponse(res, interviews, 'Upcoming interviews retrieved successfully');
   }
@@ -386,10 +508,15 @@ export const createZoomMeeting = asyncHandler(
     }
 
     if (interview.meetingLink) {
-      successResponse(res, interview, 'Interview already has a Zoom meeting');
+      successResponse(res, toInterviewResponse(interview, req), 'Interview already has a Zoom meeting');
       return;
     }
 
+    // Drafts created by stage automations have no time yet
+    if (!interview.scheduledAt) {
+      throw new BadRequestError('Schedule the interview before creating a Zoom meeting');
+    }
+
     // Get candidate and job details
     const candidate = await candidateService.findById(interview.candidateId);
     const job = await jobService.findById(interview.jobId);
@@ -422,7 +549,7 @@ export const createZoomMeeting = asyncHandler(
 
     logger.info(`Zoom meeting created for interview ${id}`);
 
-    successResponse(res, interview, 'Zoom meeting created successfully');
+    successResponse(res, toInterviewResponse(interview!, req), 'Zoom meeting created successfully');
   }
 );
 
@@ -432,11 +559,11 @@ export const createZoomMeeting = asyncHandler(
 export const completeInterview = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const { rating, feedback, recommendation, strengths, weaknesses } = req.body;
+    const { rating, feedback, recommendation, strengths, weaknesses, attributeRatings } = req.body;
 
-    // Validate required fields
-    if (!feedback || !rating) {
-      throw new Error('Feedback and rating are required');
+    // Validate required fields (the rating can come from the kit's attribute ratings)
+    if (!feedback || (!rating && !attributeRatings?.length)) {
+      throw new BadRequestError('Feedback and rating are required');
     }
 
     // Find the interview
@@ -454,28 +581,33 @@ export const completeInterview = asyncHandler(
     else if (recommendation === 'pending') mappedRecommendation = 'maybe';
     
     // Add feedback to the interview
-    const feedbackEntry = {
-      interviewerId: req.user?.id as any,
-      rating: Number(rating),
+    const feedbackEntry = await buildFeedbackEntry(interview, req.user!.id, {
+      rating: rating ? Number(rating) : undefined,
+      attributeRatings,
       strengths: strengths ? [strengths] : [],
       weaknesses: weaknesses ? [weaknesses] : [],
       comments: feedback,
       recommendation: mappedRecommendation,
-      submittedAt: new Date(),
-    };
+    });
 
-    const currentFeedback = interview.feedback || [];
-    currentFeedback.push(feedbackEntry);
+    const currentFeedback = upsertFeedback(interview.feedback, feedbackEntry);
 
     // Update interview status
-    await interviewService.update(id, {
-      status: 'completed',
-      completedAt: new Date(),
-      feedback: currentFeedback,
-    } as any);
+    await interviewService.update(
+      id,
+      {
+        status: 'completed',
+        completedAt: new Date(),
+        feedback: currentFeedback,
+      } as any,
+      { expectedRevision: interview.revision ?? 0, changedBy: req.user!.id }
+    );
 
     interview = await interviewService.findById(id);
 
+    // Nudge the interviewers whose feedback is still missing
+    await syncInterviewReminders(interview as any);
+
     logger.info(`Interview ${id} completed by ${req.user?.email} with rating ${rating} and recommendation ${recommendation}`);
 
     // Log activity for the interviewer
@@ -497,6 +629,6 @@ export const completeInterview = asyncHandler(
 
     logger.info(`Interview ${id} completed by ${req.user?.email} with rating ${rating}`);
 
-    successResponse(res, interview, 'Interview completed and review submitted successfully');
+    successResponse(res, toInterviewResponse(interview!, req), 'Interview completed and review submitted successfully');
   }
 );
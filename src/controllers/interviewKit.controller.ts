@@ -0,0 +1,163 @@
+import { Request, Response } from 'express';
+import { interviewKitService, jobService } from '../services/firestore';
+import { IInterviewKit } from '../services/firestore/interviewKit.service';
+import {
+  buildCandidateScorecard,
+  buildInterviewScorecard,
+  DEFAULT_RATING_RUBRIC,
+  findInterviewKit,
+} from '../services/interviewScorecard.service';
+import { UpsertInterviewKitInput } from '../types/interviewKit.types';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { asyncHandler, successResponse } from '../utils/helpers';
+import logger from '../utils/logger';
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60) || 'attribute';
+
+/**
+ * Give attributes and questions stable IDs and check the references between them
+ */
+const normalizeKit = (body: UpsertInterviewKitInput): Pick<IInterviewKit, 'attributes' | 'rounds' | 'rubric'> => {
+  const attributes = body.attributes.map((attribute) => ({
+    id: attribute.id || slugify(attribute.name),
+    name: attribute.name,
+    ...(attribute.description && { description: attribute.description }),
+  }));
+
+  const ids = attributes.map((attribute) => attribute.id);
+  const duplicates = ids.filter((id, index) => ids.indexOf(id) !== index);
+  if (duplicates.length > 0) {
+    throw new ValidationError(`Duplicate attributes: ${[...new Set(duplicates)].join(', ')}`);
+  }
+
+  const rounds = (body.rounds || [])
+    .map((round) => {
+      const unknown = [
+        ...(round.focusAttributeIds || []),
+        ...(round.questions || []).map((question) => question.attributeId).filter((id): id is string => !!id),
+      ].filter((id) => !ids.includes(id));
+      if (unknown.length > 0) {
+        throw new ValidationError(`Round ${round.round} refers to unknown attributes: ${[...new Set(unknown)].join(', ')}`);
+      }
+
+      return {
+        round: round.round,
+        ...(round.title && { title: round.title }),
+        focusAttributeIds: round.focusAttributeIds || [],
+        questions: (round.questions || []).map((question, index) => ({
+          id: question.id || `r${round.round}_q${index + 1}`,
+          text: question.text,
+          ...(question.attributeId && { attributeId: question.attributeId }),
+          ...(question.guidance && { guidance: question.guidance }),
+        })),
+      };
+    })
+    .sort((a, b) => a.round - b.round);
+
+  const rubric = (body.rubric && body.rubric.length > 0 ? body.rubric : DEFAULT_RATING_RUBRIC)
+    .map((level) => ({
+      score: level.score,
+      label: level.label,
+      ...(level.description && { description: level.description }),
+    }))
+    .sort((a, b) => a.score - b.score);
+
+  return { attributes, rounds, rubric };
+};
+
+/**
+ * Get a job's interview kit
+ */
+export const getInterviewKit = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const kit = await findInterviewKit(id);
+    if (!kit) {
+      throw new NotFoundError('Interview kit not found');
+    }
+
+    successResponse(res, kit, 'Interview kit retrieved successfully');
+  }
+);
+
+/**
+ * Create or replace a job's interview kit
+ * Feedback already submitted keeps its ratings; attributes removed from the
+ * kit just drop out of the scorecard aggregates.
+ */
+export const upsertInterviewKit = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const job = await jobService.findById(id);
+    if (!job) {
+      throw new NotFoundError('Job not found');
+    }
+
+    const kit = normalizeKit(req.body);
+    const existing = await interviewKitService.findById(id);
+    if (existing) {
+      await interviewKitService.update(id, { ...kit, updatedBy: req.user?.id });
+    } else {
+      await interviewKitService.createWithId(id, { jobId: id, ...kit, updatedBy: req.user?.id });
+    }
+
+    logger.info(`Interview kit ${existing ? 'updated' : 'created'} for job ${id} by ${req.user?.email}`);
+
+    successResponse(
+      res,
+      await interviewKitService.findById(id),
+      'Interview kit saved successfully',
+      existing ? 200 : 201
+    );
+  }
+);
+
+/**
+ * Delete a job's interview kit
+ */
+export const deleteInterviewKit = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    if (!(await interviewKitService.exists(id))) {
+      throw new NotFoundError('Interview kit not found');
+    }
+
+    await interviewKitService.delete(id);
+
+    logger.info(`Interview kit deleted for job ${id} by ${req.user?.email}`);
+
+    successResponse(res, { jobId: id }, 'Interview kit deleted successfully');
+  }
+);
+
+/**
+ * Get the scorecard of an interview
+ */
+export const getInterviewScorecard = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const scorecard = await buildInterviewScorecard(req.params.id, req.user!);
+
+    successResponse(res, scorecard, 'Scorecard retrieved successfully');
+  }
+);
+
+/**
+ * Get a candidate's scorecards rolled up across interview rounds
+ */
+export const getCandidateScorecard = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { jobId } = req.query as Record<string, string | undefined>;
+
+    const scorecard = await buildCandidateScorecard(req.params.id, req.user!, { jobId });
+
+    successResponse(res, scorecard, 'Candidate scorecard retrieved successfully');
+  }
+);
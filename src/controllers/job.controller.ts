@@ -1,8 +1,10 @@
 import { Request, Response } from "express";
-import { jobService, pipelineService, candidateService, applicationService, categoryService, clientService } from "../services/firestore";
+import { jobService, pipelineService, candidateService, applicationService, categoryService, clientService, IJob } from "../services/firestore";
+import { QueryCondition } from "../services/firestore/base.service";
 import {
   BulkUpdateJobStatusInput,
   CreateJobInput,
+  ExportJobsQuery,
   ListJobsQuery,
   UpdateJobInput,
 } from "../types/job.types";
@@ -12,11 +14,23 @@ import {
 } from "../utils/errors";
 import {
   asyncHandler,
+  getPaginationParams,
   paginateResults,
   successResponse,
 } from "../utils/helpers";
 import logger from "../utils/logger";
 import { logActivity } from "../services/activity.service";
+import { restoreSoftDeletedJob, softDeleteJob } from "../services/trash.service";
+import {
+  buildCustomFieldFilters,
+  resolveCustomFields,
+} from "../services/customFields.service";
+import {
+  DEFAULT_JOB_EXPORT_COLUMNS,
+  JOB_EXPORT_COLUMNS,
+  resolveExportColumns,
+  streamExport,
+} from "../services/export.service";
 
 /**
  * Sanitize job data to ensure IDs are strings, not populated objects
@@ -74,9 +88,15 @@ export const createJob = asyncHandler(
       }
     }
 
+    const customFields = await resolveCustomFields("job", sanitizedData.customFields, {
+      clientIds: [sanitizedData.clientId],
+      isCreate: true,
+    });
+
     // Create job
     const jobId = await jobService.create({
       ...sanitizedData,
+      customFields,
       createdBy: req.user?.id,
     } as any);
 
@@ -121,109 +141,132 @@ export const createJob = asyncHandler(
   }
 );
 
+/**
+ * Server-side filters shared by the job list and export
+ */
+const buildJobListFilters = async (req: Request): Promise<QueryCondition[]> => {
+  const { clientId, status, jobType, experienceLevel, locationType } =
+    req.query as any as ListJobsQuery;
+
+  const filters: QueryCondition[] = [];
+  if (clientId) {
+    filters.push({ field: "clientId", operator: "==", value: clientId });
+  }
+  if (status) {
+    filters.push({ field: "status", operator: "==", value: status });
+  }
+  if (jobType) {
+    filters.push({ field: "jobType", operator: "==", value: jobType });
+  }
+  if (experienceLevel) {
+    filters.push({ field: "experienceLevel", operator: "==", value: experienceLevel });
+  }
+  if (locationType) {
+    filters.push({ field: "locationType", operator: "==", value: locationType });
+  }
+  filters.push(...(await buildCustomFieldFilters("job", req.query.cf)));
+  return filters;
+};
+
+/**
+ * Substring search on title, description and location
+ */
+const matchesJobSearch = (job: IJob, search: string): boolean => {
+  const searchLower = search.toLowerCase();
+  return (
+    !!job.title?.toLowerCase().includes(searchLower) ||
+    !!job.description?.toLowerCase().includes(searchLower) ||
+    !!job.location?.toLowerCase().includes(searchLower)
+  );
+};
+
 /**
  * Get all jobs with filters and pagination
  */
 export const getJobs = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const {
-      page = 1,
-      limit = 10,
-      clientId,
-      status,
-      jobType,
-      experienceLevel,
-      locationType,
+      cursor,
       search,
       sortBy = "createdAt",
       sortOrder = "desc",
     } = req.query as any as ListJobsQuery;
+    const { page, limit } = getPaginationParams(req.query);
 
-    // Fetch all jobs
-    let allJobs = await jobService.find([]);
+    const filters = await buildJobListFilters(req);
+
+    const orderBy = [{ field: sortBy, direction: sortOrder }];
+
+    let jobs: any[];
+    let totalCount: number;
+    let nextCursor: string | null = null;
 
-    // Apply filters in memory
-    if (clientId) {
-      allJobs = allJobs.filter((job: any) => job.clientId === clientId);
-    }
-    if (status) {
-      allJobs = allJobs.filter((job: any) => job.status === status);
-    }
-    if (jobType) {
-      allJobs = allJobs.filter((job: any) => job.jobType === jobType);
-    }
-    if (experienceLevel) {
-      allJobs = allJobs.filter((job: any) => job.experienceLevel === experienceLevel);
-    }
-    if (locationType) {
-      allJobs = allJobs.filter((job: any) => job.locationType === locationType);
-    }
     if (search) {
-      const searchLower = search.toLowerCase();
-      allJobs = allJobs.filter((job: any) =>
-        job.title?.toLowerCase().includes(searchLower) ||
-        job.description?.toLowerCase().includes(searchLower) ||
-        job.location?.toLowerCase().includes(searchLower)
+      // Substring search can't be expressed as a Firestore query -
+      // scan only the subset that already matches the server-side filters
+      const matches = (await jobService.find(filters, { orderBy })).filter((job) =>
+        matchesJobSearch(job, search)
       );
-    }
 
-    // Get total count after filtering
-    const totalCount = allJobs.length;
+      totalCount = matches.length;
+      const skip = (page - 1) * limit;
+      jobs = matches.slice(skip, skip + limit);
+    } else {
+      const [result, total] = await Promise.all([
+        jobService.findPage(filters, {
+          orderBy,
+          limit,
+          startAfter: cursor,
+          offset: cursor ? undefined : (page - 1) * limit,
+        }),
+        jobService.count(filters),
+      ]);
+
+      jobs = result.items;
+      totalCount = total;
+      nextCursor = result.nextCursor;
+    }
 
     // Calculate pagination
-    const pagination = paginateResults(totalCount, {
-      page,
-      limit,
-      sort: sortBy,
-      order: sortOrder,
-    });
-
-    // Apply sorting
-    allJobs.sort((a: any, b: any) => {
-      const aVal = a[sortBy];
-      const bVal = b[sortBy];
-      if (aVal < bVal) return sortOrder === "asc" ? -1 : 1;
-      if (aVal > bVal) return sortOrder === "asc" ? 1 : -1;
-      return 0;
-    });
-
-    // Apply pagination
-    const skip = (page - 1) * limit;
-    const jobs = allJobs.slice(skip, skip + limit);
-
-    // Get job IDs for candidate lookup
-    const jobIds = jobs.map((j: any) => j.id);
-    
-    // Fetch ALL candidates for ALL jobs
-    const allCandidates = await candidateService.find([]);
-    
-    // Filter candidates that have any of these job IDs in their jobIds array
-    const relevantCandidates = allCandidates.filter((candidate: any) =>
-      candidate.jobIds?.some((jobId: string) => jobIds.includes(jobId))
+    const pagination = paginateResults(
+      totalCount,
+      {
+        page,
+        limit,
+        sort: sortBy,
+        order: sortOrder,
+      },
+      nextCursor
     );
-    
-    // Calculate statistics for each job in memory
+
+    // Count candidates per job on the server instead of loading every candidate
     const statsMap = new Map();
-    
-    jobIds.forEach((jobId: string) => {
-      const jobCandidates = relevantCandidates.filter((candidate: any) =>
-        candidate.jobIds?.includes(jobId)
-      );
-      
-      const total = jobCandidates.length;
-      const active = jobCandidates.filter((c: any) =>
-        ["active", "interviewing", "offered"].includes(c.status)
-      ).length;
-      const hired = jobCandidates.filter((c: any) =>
-        c.status === "hired"
-      ).length;
-      
-      statsMap.set(jobId, {
-        totalCandidates: total,
-        activeCandidates: active,
-        hiredCandidates: hired,
-      });
-    });
+    await Promise.all(
+      jobs.map(async (job: any) => {
+        const byJob: QueryCondition = {
+          field: "jobIds",
+          operator: "array-contains",
+          value: job.id,
+        };
+        const [total, active, hired] = await Promise.all([
+          candidateService.count([byJob]),
+          candidateService.count([
+            byJob,
+            { field: "status", operator: "in", value: ["active", "interviewing", "offered"] },
+          ]),
+          candidateService.count([
+            byJob,
+            { field: "status", operator: "==", value: "hired" },
+          ]),
+        ]);
+
+        statsMap.set(job.id, {
+          totalCandidates: total,
+          activeCandidates: active,
+          hiredCandidates: hired,
+        });
+      })
+    );
     
     // Add statistics to each job
     const jobsWithStats = jobs.map((job: any) => {
@@ -310,6 +353,42 @@ export const getJobs = asyncHandler(
   }
 );
 
+/**
+ * Export jobs matching the list filters as CSV, XLSX or NDJSON
+ * Accepts the same query parameters as GET /jobs plus format and columns.
+ */
+export const exportJobs = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const {
+      search,
+      format = "csv",
+      columns,
+      sortBy = "createdAt",
+      sortOrder = "desc",
+    } = req.query as any as ExportJobsQuery;
+
+    const exportColumns = await resolveExportColumns(
+      JOB_EXPORT_COLUMNS,
+      DEFAULT_JOB_EXPORT_COLUMNS,
+      columns,
+      "job"
+    );
+
+    const exported = await streamExport({
+      res,
+      format,
+      fileName: "jobs",
+      columns: exportColumns,
+      service: jobService,
+      filters: await buildJobListFilters(req),
+      orderBy: [{ field: sortBy, direction: sortOrder }],
+      include: search ? (job) => matchesJobSearch(job, search) : undefined,
+    });
+
+    logger.info(`Exported ${exported} jobs as ${format}`);
+  }
+);
+
 /**
  * Get single job by ID
  */
@@ -389,7 +468,7 @@ export const getJobById = asyncHandler(
 export const updateJob = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const updates: UpdateJobInput = req.body;
+    const { expectedRevision, ...updates }: UpdateJobInput = req.body;
     
     // Sanitize input data
     const sanitizedUpdates = sanitizeJobData(updates);
@@ -441,11 +520,28 @@ export const updateJob = asyncHandler(
       throw new NotFoundError("Job not found");
     }
 
+    // Moving the job to another client re-checks that client's required fields
+    const clientChanged =
+      !!sanitizedUpdates.clientId && sanitizedUpdates.clientId !== oldJob.clientId;
+    const customFields = await resolveCustomFields(
+      "job",
+      sanitizedUpdates.customFields ?? (clientChanged ? {} : undefined),
+      {
+        clientIds: [sanitizedUpdates.clientId || oldJob.clientId],
+        existing: oldJob.customFields as any,
+      }
+    );
+
     // Update job
-    await jobService.update(id, {
-      ...sanitizedUpdates,
-      updatedBy: req.user?.id,
-    } as any);
+    await jobService.update(
+      id,
+      {
+        ...sanitizedUpdates,
+        ...(customFields && { customFields }),
+        updatedBy: req.user?.id,
+      } as any,
+      { expectedRevision, changedBy: req.user?.id }
+    );
 
     // Get updated job
     const job = await jobService.findById(id);
@@ -575,21 +671,53 @@ export const deleteJob = asyncHandler(
       );
     }
 
-    await jobService.delete(id);
+    // Move to trash and remove jobId from client's jobIds array
+    await softDeleteJob(job, req.user?.id);
 
-    // Remove jobId from client's jobIds array
-    if (job.clientId) {
-      const client = await clientService.findById(job.clientId);
-      if (client && client.jobIds) {
-        await clientService.update(job.clientId, {
-          jobIds: client.jobIds.filter((jId: string) => jId !== id)
-        } as any);
-      }
+    logger.info(`Job moved to trash: ${job.title}`);
+
+    successResponse(res, null, "Job moved to trash");
+  }
+);
+
+/**
+ * Get soft-deleted jobs (trash)
+ */
+export const getDeletedJobs = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { page, limit } = getPaginationParams(req.query);
+
+    const [jobs, total] = await Promise.all([
+      jobService.findDeleted([], { limit, offset: (page - 1) * limit }),
+      jobService.countDeleted(),
+    ]);
+
+    successResponse(res, {
+      jobs,
+      pagination: paginateResults(total, { page, limit }),
+    });
+  }
+);
+
+/**
+ * Restore a job from the trash
+ */
+export const restoreJob = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    const job = await jobService.findById(id, { includeDeleted: true });
+
+    if (!job || !job.deletedAt) {
+      throw new NotFoundError("Job not found in trash");
     }
 
-    logger.info(`Job deleted: ${job.title}`);
+    await restoreSoftDeletedJob(job, req.user?.id);
+    const restoredJob = await jobService.findById(id);
+
+    logger.info(`Job restored from trash: ${job.title}`);
 
-    successResponse(res, null, "Job deleted successfully");
+    successResponse(res, restoredJob, "Job restored successfully");
   }
 );
 
@@ -678,3 +806,26 @@ export const getJobStats = asyncHandler(
     successResponse(res, result, "Job statistics retrieved successfully");
   }
 );
+
+/**
+ * Get prior versions of a job with field-level diffs, newest first
+ */
+export const getJobHistory = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { limit } = getPaginationParams(req.query);
+
+    const job = await jobService.findById(id);
+    if (!job) {
+      throw new NotFoundError("Job not found");
+    }
+
+    const versions = await jobService.findHistory(id, { limit });
+
+    successResponse(
+      res,
+      { revision: job.revision ?? 0, versions },
+      "Job history fetched successfully"
+    );
+  }
+);
@@ -1,11 +1,25 @@
 import { Request, Response } from "express";
 import { candidateService, jobService, pipelineService } from "../services/firestore";
+import { previewStageAutomations as buildStageAutomationPreview } from "../services/stageAutomation.service";
+import { buildPipelineSlaReport } from "../services/stageSla.service";
+import { assertValidTransitionRules } from "../services/stageTransition.service";
+import { buildPipelineBoard, moveBoardCard as moveCardOnBoard } from "../services/pipelineBoard.service";
+import {
+  applyPipelineMigration,
+  assertNoOrphanedCandidates,
+  planPipelineMigration,
+} from "../services/pipelineMigration.service";
+import { logActivity } from "../services/activity.service";
 import {
   CreatePipelineInput,
   ListPipelinesQuery,
+  MigratePipelineInput,
+  MoveBoardCardInput,
+  PreviewStageAutomationsInput,
 } from "../types/pipeline.types";
 import {
   BadRequestError,
+  ConflictError,
   ValidationError as CustomValidationError,
   NotFoundError,
 } from "../utils/errors";
@@ -35,6 +49,8 @@ export const createPipeline = asyncHandler(
       );
     }
 
+    assertValidTransitionRules(data.stages as any);
+
     // If this is set as default, unset other defaults
     if (data.isDefault) {
       await Promise.all(
@@ -227,7 +243,7 @@ export const getPipelineById = asyncHandler(
 export const updatePipeline = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const { id } = req.params;
-    const data: any = req.body;
+    const { expectedRevision, ...data }: any = req.body;
 
     const pipeline = await pipelineService.findById(id);
 
@@ -272,6 +288,10 @@ export const updatePipeline = asyncHandler(
       });
 
       data.stages = updatedStages;
+      assertValidTransitionRules(data.stages);
+
+      // Removing a stage that holds candidates needs a migration mapping
+      await assertNoOrphanedCandidates(pipeline, data.stages);
     }
 
     // Update pipeline
@@ -281,7 +301,10 @@ export const updatePipeline = asyncHandler(
       updatedAt: new Date(),
     };
 
-    await pipelineService.update(id, updateData);
+    await pipelineService.update(id, updateData, {
+      expectedRevision: expectedRevision ?? pipeline.revision ?? 0,
+      changedBy: req.user?.id,
+    });
 
     const updatedPipeline = await pipelineService.findById(id);
 
@@ -342,3 +365,260 @@ export const getDefaultPipeline = asyncHandler(
     successResponse(res, pipeline, "Default pipeline retrieved successfully");
   }
 );
+
+/**
+ * Preview what a stage's automation rules would do for a candidate
+ * Dry run: conditions are evaluated, nothing is sent or changed
+ */
+export const previewStageAutomations = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id, stageId } = req.params;
+    const { candidateId, jobId, trigger }: PreviewStageAutomationsInput = req.body;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    const stage = pipeline.stages?.find((s) => s.id === stageId);
+    if (!stage) {
+      throw new NotFoundError("Stage not found");
+    }
+
+    const candidate = await candidateService.findById(candidateId);
+    if (!candidate) {
+      throw new NotFoundError("Candidate not found");
+    }
+
+    const previewJobId = jobId || pipeline.jobId;
+    const job = previewJobId ? await jobService.findById(previewJobId) : null;
+    if (jobId && !job) {
+      throw new NotFoundError("Job not found");
+    }
+
+    const rules = await buildStageAutomationPreview({
+      pipeline,
+      stage,
+      candidate,
+      job,
+      trigger,
+    });
+
+    successResponse(
+      res,
+      { pipelineId: id, stageId, candidateId, jobId: job?.id, rules },
+      "Stage automation preview generated successfully"
+    );
+  }
+);
+
+/**
+ * Get the SLA report of a pipeline: overdue candidates per stage and owner
+ */
+export const getPipelineSla = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const ownerId = req.query.ownerId as string | undefined;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    const report = await buildPipelineSlaReport(pipeline, { ownerId });
+
+    successResponse(res, report, "Pipeline SLA report generated successfully");
+  }
+);
+
+/**
+ * Preview or apply a stage migration
+ * Moves candidates of removed or merged stages according to the mapping and
+ * records a stage history entry for each of them.
+ */
+export const migratePipeline = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { mapping, stages, dryRun, expectedRevision }: MigratePipelineInput = req.body;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    if (expectedRevision !== undefined && expectedRevision !== (pipeline.revision ?? 0)) {
+      throw new ConflictError(
+        `Pipeline was modified by someone else (expected revision ${expectedRevision}, current revision ${pipeline.revision ?? 0}). Reload and try again.`
+      );
+    }
+
+    if (stages) {
+      assertValidTransitionRules(stages as any);
+    }
+
+    const plan = await planPipelineMigration(pipeline, { mapping, stages: stages as any });
+
+    if (dryRun) {
+      successResponse(res, { dryRun: true, ...plan }, "Pipeline migration preview generated");
+      return;
+    }
+
+    const result = await applyPipelineMigration(pipeline, plan, { changedBy: req.user?.id });
+
+    logger.info(
+      `Pipeline ${id} migrated: ${result.movedCount} candidates moved, ${result.failed.length} failed`
+    );
+
+    if (req.user?.id) {
+      logActivity({
+        userId: req.user.id,
+        action: "pipeline_migrated",
+        resourceType: "pipeline",
+        resourceId: id,
+        resourceName: pipeline.name,
+        metadata: {
+          removedStages: plan.removedStages.map((stage) => stage.name),
+          movedCount: result.movedCount,
+          failedCount: result.failed.length,
+        },
+      }).catch((err) => logger.error("Failed to log activity:", err));
+    }
+
+    const updatedPipeline = await pipelineService.findById(id);
+
+    successResponse(
+      res,
+      { dryRun: false, ...plan, ...result, pipeline: updatedPipeline },
+      result.failed.length > 0
+        ? `Pipeline migrated, ${result.movedCount} candidates moved, ${result.failed.length} failed; migrate again with the same mapping to move them`
+        : `Pipeline migrated, ${result.movedCount} candidates moved`
+    );
+  }
+);
+
+/**
+ * Get prior versions of a pipeline with field-level diffs
+ */
+export const getPipelineHistory = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    const versions = await pipelineService.findHistory(id, { limit });
+
+    successResponse(
+      res,
+      { revision: pipeline.revision ?? 0, versions },
+      "Pipeline history fetched successfully"
+    );
+  }
+);
+
+/**
+ * Get the kanban board of a pipeline
+ * Every stage with its candidate count and a page of cards in board order.
+ * Users without canManageCandidates only see candidates assigned to them.
+ */
+export const getPipelineBoard = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const stageId = req.query.stageId as string | undefined;
+    const page = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    const jobId = (req.query.jobId as string | undefined) || pipeline.jobId;
+    if (jobId && !(await jobService.exists(jobId))) {
+      throw new NotFoundError("Job not found");
+    }
+
+    const canManageAllCandidates =
+      req.user?.role === "admin" || req.user?.permissions?.canManageCandidates === true;
+
+    const board = await buildPipelineBoard(pipeline, {
+      jobId,
+      page,
+      limit,
+      stageId,
+      assignedTo: canManageAllCandidates ? undefined : req.user?.id,
+    });
+
+    successResponse(res, board, "Pipeline board fetched successfully");
+  }
+);
+
+/**
+ * Move a card on the pipeline board to another stage and/or position
+ * Stage changes are checked against the stage transition rules.
+ */
+export const moveBoardCard = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { candidateId, toStageId, beforeCandidateId, expectedRevision }: MoveBoardCardInput =
+      req.body;
+
+    const pipeline = await pipelineService.findById(id);
+    if (!pipeline) {
+      throw new NotFoundError("Pipeline not found");
+    }
+
+    const candidate = await candidateService.findById(candidateId);
+    if (!candidate) {
+      throw new NotFoundError("Candidate not found");
+    }
+
+    const jobId = req.body.jobId || pipeline.jobId;
+    const fromStageId = candidate.currentPipelineStageId;
+
+    const result = await moveCardOnBoard({
+      pipeline,
+      candidate,
+      jobId,
+      toStageId,
+      beforeCandidateId,
+      expectedRevision,
+      user: req.user ? { id: req.user.id, role: req.user.role } : undefined,
+    });
+
+    if (result.stageChanged && req.user?.id) {
+      const stageName = (stageId?: string) =>
+        pipeline.stages.find((stage) => stage.id === stageId)?.name;
+      logActivity({
+        userId: req.user.id,
+        action: "candidate_stage_changed",
+        resourceType: "candidate",
+        resourceId: candidateId,
+        resourceName: `${candidate.firstName} ${candidate.lastName}`.trim(),
+        metadata: {
+          pipelineId: id,
+          jobId,
+          fromStageId,
+          fromStageName: stageName(fromStageId),
+          toStageId,
+          toStageName: stageName(toStageId),
+          source: "board",
+        },
+      }).catch((err) => logger.error("Failed to log activity:", err));
+    }
+
+    successResponse(
+      res,
+      {
+        candidate: result.candidate,
+        stageId: toStageId,
+        stageOrder: result.stageOrder,
+        position: result.stageOrder.indexOf(candidateId),
+      },
+      result.stageChanged ? "Candidate moved successfully" : "Card reordered successfully"
+    );
+  }
+);
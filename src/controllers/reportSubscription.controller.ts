@@ -0,0 +1,168 @@
+import { Request, Response } from "express";
+import { reportDeliveryService, reportSubscriptionService } from "../services/firestore";
+import {
+  deliverReportSubscription,
+  findDisallowedRecipients,
+  nextDeliveryAt,
+} from "../services/reportSubscriptions.service";
+import {
+  CreateReportSubscriptionInput,
+  UpdateReportSubscriptionInput,
+} from "../types/reportSubscription.types";
+import { NotFoundError, ValidationError } from "../utils/errors";
+import { asyncHandler, successResponse } from "../utils/helpers";
+import logger from "../utils/logger";
+
+// Default delivery hour (UTC) and weekday of new subscriptions
+const DEFAULT_HOUR = 7;
+const DEFAULT_DAY_OF_WEEK = 1; // Monday
+
+/**
+ * Report subscriptions are private to their owner
+ */
+const findOwnSubscriptionOrThrow = async (req: Request) => {
+  const subscription = await reportSubscriptionService.findById(req.params.id);
+  if (!subscription || subscription.ownerId !== req.user?.id) {
+    throw new NotFoundError("Report subscription not found");
+  }
+  return subscription;
+};
+
+/**
+ * Reports only go to active users of the org, unless an admin subscribes
+ */
+const assertAllowedRecipients = async (req: Request, recipients: string[] = []) => {
+  const disallowed = await findDisallowedRecipients(recipients, req.user!);
+  if (disallowed.length > 0) {
+    throw new ValidationError(`Recipients must be active users: ${disallowed.join(", ")}`);
+  }
+};
+
+/**
+ * Create report subscription
+ */
+export const createReportSubscription = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data: CreateReportSubscriptionInput = req.body;
+    await assertAllowedRecipients(req, data.recipients);
+    const schedule = {
+      frequency: data.frequency ?? "weekly",
+      hour: data.hour ?? DEFAULT_HOUR,
+      ...(data.dayOfWeek !== undefined && { dayOfWeek: data.dayOfWeek }),
+      ...(data.dayOfMonth !== undefined && { dayOfMonth: data.dayOfMonth }),
+    };
+    if (schedule.frequency === "weekly" && data.dayOfWeek === undefined) {
+      Object.assign(schedule, { dayOfWeek: DEFAULT_DAY_OF_WEEK });
+    }
+
+    const subscriptionId = await reportSubscriptionService.create({
+      name: data.name.trim(),
+      ownerId: req.user!.id,
+      report: data.report,
+      ...(data.filters && { filters: data.filters }),
+      ...schedule,
+      recipients: data.recipients ?? [],
+      isActive: true,
+      lastSentAt: null,
+      nextRunAt: nextDeliveryAt(schedule),
+    });
+
+    logger.info(`Report subscription created: ${data.name} (${data.report}, ${schedule.frequency})`);
+
+    const subscription = await reportSubscriptionService.findById(subscriptionId);
+    successResponse(res, subscription, "Report subscription created successfully", 201);
+  }
+);
+
+/**
+ * Get the current user's report subscriptions
+ */
+export const getReportSubscriptions = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const subscriptions = await reportSubscriptionService.findByOwnerId(req.user!.id);
+
+    successResponse(res, subscriptions, "Report subscriptions retrieved successfully");
+  }
+);
+
+/**
+ * Get report subscription by ID
+ */
+export const getReportSubscriptionById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findOwnSubscriptionOrThrow(req);
+
+    successResponse(res, subscription, "Report subscription retrieved successfully");
+  }
+);
+
+/**
+ * Update report subscription
+ * Schedule changes and resuming a paused subscription reschedule the next delivery.
+ */
+export const updateReportSubscription = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const updates: UpdateReportSubscriptionInput = req.body;
+    const subscription = await findOwnSubscriptionOrThrow(req);
+    await assertAllowedRecipients(req, updates.recipients);
+
+    const merged = { ...subscription, ...updates };
+    if (merged.frequency === "weekly" && merged.dayOfWeek === undefined) {
+      merged.dayOfWeek = DEFAULT_DAY_OF_WEEK;
+    }
+
+    await reportSubscriptionService.update(subscription.id, {
+      ...updates,
+      ...(updates.name && { name: updates.name.trim() }),
+      ...(merged.dayOfWeek !== undefined && { dayOfWeek: merged.dayOfWeek }),
+      nextRunAt: merged.isActive ? nextDeliveryAt(merged) : null,
+    });
+
+    const updated = await reportSubscriptionService.findById(subscription.id);
+    successResponse(res, updated, "Report subscription updated successfully");
+  }
+);
+
+/**
+ * Delete report subscription
+ */
+export const deleteReportSubscription = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findOwnSubscriptionOrThrow(req);
+
+    await reportSubscriptionService.delete(subscription.id);
+
+    successResponse(res, null, "Report subscription deleted successfully");
+  }
+);
+
+/**
+ * Send a subscription's report now, without moving its schedule
+ */
+export const sendReportSubscriptionNow = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findOwnSubscriptionOrThrow(req);
+
+    const delivery = await deliverReportSubscription(subscription, { trigger: "manual" });
+
+    successResponse(
+      res,
+      delivery,
+      delivery.status === "sent" ? "Report sent successfully" : "Report could not be sent"
+    );
+  }
+);
+
+/**
+ * Get the delivery history of a subscription
+ */
+export const getReportSubscriptionDeliveries = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const subscription = await findOwnSubscriptionOrThrow(req);
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    const deliveries = await reportDeliveryService.findBySubscriptionId(subscription.id, limit);
+
+    successResponse(res, deliveries, "Report deliveries retrieved successfully");
+  }
+);
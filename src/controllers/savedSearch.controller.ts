@@ -0,0 +1,147 @@
+import { Request, Response } from "express";
+import { savedSearchService } from "../services/firestore";
+import {
+  nextRunAt,
+  runSavedSearch,
+} from "../services/savedSearchAlerts.service";
+import {
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+} from "../types/savedSearch.types";
+import { NotFoundError } from "../utils/errors";
+import { parseSearchQuery } from "../utils/searchQuery";
+import { asyncHandler, successResponse } from "../utils/helpers";
+import logger from "../utils/logger";
+
+/**
+ * Saved searches are private to their owner
+ */
+const findOwnSearchOrThrow = async (req: Request) => {
+  const search = await savedSearchService.findById(req.params.id);
+  if (!search || search.ownerId !== req.user?.id) {
+    throw new NotFoundError("Saved search not found");
+  }
+  return search;
+};
+
+/**
+ * Create saved search
+ * The first run happens right away and only records the current matches,
+ * so later runs notify about candidates that are new since saving.
+ */
+export const createSavedSearch = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data: CreateSavedSearchInput = req.body;
+    const frequency = data.frequency ?? "daily";
+
+    // Reject malformed queries now rather than on the first scheduled run
+    parseSearchQuery(data.query);
+
+    const searchId = await savedSearchService.create({
+      name: data.name.trim(),
+      ownerId: req.user!.id,
+      query: data.query.trim(),
+      frequency,
+      notify: data.notify ?? true,
+      lastRunAt: null,
+      nextRunAt: nextRunAt(frequency),
+      knownCandidateIds: [],
+    });
+
+    const search = await savedSearchService.findById(searchId);
+    const { matchCount } = await runSavedSearch(search!, { notify: false });
+
+    logger.info(`Saved search created: ${data.name} (${matchCount} matches)`);
+
+    const savedSearch = await savedSearchService.findById(searchId);
+    successResponse(res, savedSearch, "Saved search created successfully", 201);
+  }
+);
+
+/**
+ * Get the current user's saved searches
+ */
+export const getSavedSearches = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const searches = await savedSearchService.findByOwnerId(req.user!.id);
+
+    // The list of reported candidate IDs is internal bookkeeping
+    successResponse(
+      res,
+      searches.map(({ knownCandidateIds: _known, ...search }) => search),
+      "Saved searches retrieved successfully"
+    );
+  }
+);
+
+/**
+ * Get saved search by ID
+ */
+export const getSavedSearchById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { knownCandidateIds: _known, ...search } =
+      await findOwnSearchOrThrow(req);
+
+    successResponse(res, search, "Saved search retrieved successfully");
+  }
+);
+
+/**
+ * Update saved search
+ * Changing the query starts over: current matches become the new baseline.
+ */
+export const updateSavedSearch = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const updates: UpdateSavedSearchInput = req.body;
+    const search = await findOwnSearchOrThrow(req);
+
+    const queryChanged =
+      updates.query !== undefined && updates.query.trim() !== search.query;
+    if (queryChanged) {
+      parseSearchQuery(updates.query!);
+    }
+
+    await savedSearchService.update(search.id, {
+      ...updates,
+      ...(updates.name && { name: updates.name.trim() }),
+      ...(queryChanged && { query: updates.query!.trim(), knownCandidateIds: [] }),
+      ...(updates.frequency && { nextRunAt: nextRunAt(updates.frequency) }),
+    });
+
+    if (queryChanged) {
+      const updated = await savedSearchService.findById(search.id);
+      await runSavedSearch(updated!, { notify: false });
+    }
+
+    const { knownCandidateIds: _known, ...savedSearch } =
+      (await savedSearchService.findById(search.id))!;
+    successResponse(res, savedSearch, "Saved search updated successfully");
+  }
+);
+
+/**
+ * Delete saved search
+ */
+export const deleteSavedSearch = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const search = await findOwnSearchOrThrow(req);
+
+    await savedSearchService.delete(search.id);
+
+    successResponse(res, null, "Saved search deleted successfully");
+  }
+);
+
+/**
+ * Run a saved search now and return the candidates that are new since the last run
+ */
+export const runSavedSearchNow = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const search = await findOwnSearchOrThrow(req);
+
+    // The caller sees the result directly, no notification needed
+    const result = await runSavedSearch(search, { notify: false });
+
+    successResponse(res, result, "Saved search run successfully");
+  }
+);
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import { schedulingLinkService } from '../services/firestore';
+import {
+  bookSchedulingLink,
+  cancelSchedulingLink,
+  createSchedulingLink as createLink,
+  findSchedulingLinkOrThrow,
+  rescheduleSchedulingLink,
+  revokeSchedulingLink as revokeLink,
+  schedulingLinkUrl,
+  toPublicSchedulingLink,
+} from '../services/interviewSchedulingLinks.service';
+import { CreateSchedulingLinkInput } from '../types/schedulingLink.types';
+import { asyncHandler, successResponse } from '../utils/helpers';
+import logger from '../utils/logger';
+
+const optionalDate = (value?: string | Date) => (value ? new Date(value) : undefined);
+
+/**
+ * Create a scheduling link from which the candidate books their interview
+ */
+export const createSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const body: CreateSchedulingLinkInput = req.body;
+
+    const link = await createLink(
+      {
+        ...body,
+        windowStart: optionalDate(body.windowStart),
+        windowEnd: optionalDate(body.windowEnd),
+        expiresAt: optionalDate(body.expiresAt),
+      },
+      req.user!.id
+    );
+
+    logger.info(`Scheduling link ${link.id} created for candidate ${link.candidateId} by ${req.user?.email}`);
+
+    successResponse(res, link, 'Scheduling link created successfully', 201);
+  }
+);
+
+/**
+ * Get the scheduling links sent to a candidate
+ */
+export const getSchedulingLinks = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { candidateId } = req.query as Record<string, string | undefined>;
+
+    const links = candidateId
+      ? await schedulingLinkService.findByCandidateId(candidateId)
+      : await schedulingLinkService.find([], { orderBy: [{ field: 'createdAt', direction: 'desc' }], limit: 100 });
+
+    successResponse(
+      res,
+      links.map((link) => ({ ...link, url: schedulingLinkUrl(link.token) })),
+      'Scheduling links retrieved successfully'
+    );
+  }
+);
+
+/**
+ * Revoke a scheduling link that has not been used yet
+ */
+export const revokeSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+
+    await revokeLink(id);
+
+    logger.info(`Scheduling link ${id} revoked by ${req.user?.email}`);
+
+    successResponse(res, { id, status: 'revoked' }, 'Scheduling link revoked successfully');
+  }
+);
+
+/**
+ * Get a scheduling link as the candidate sees it (public)
+ */
+export const getPublicSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const link = await findSchedulingLinkOrThrow(req.params.token);
+
+    successResponse(res, await toPublicSchedulingLink(link), 'Scheduling link retrieved successfully');
+  }
+);
+
+/**
+ * Book one of the offered slots (public)
+ */
+export const bookPublicSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { link } = await bookSchedulingLink(req.params.token, new Date(req.body.start));
+
+    successResponse(res, await toPublicSchedulingLink(link), 'Interview booked successfully', 201);
+  }
+);
+
+/**
+ * Move the booked interview to another offered slot (public)
+ */
+export const reschedulePublicSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { link } = await rescheduleSchedulingLink(req.params.token, new Date(req.body.start));
+
+    successResponse(res, await toPublicSchedulingLink(link), 'Interview rescheduled successfully');
+  }
+);
+
+/**
+ * Cancel the booked interview (public)
+ */
+export const cancelPublicSchedulingLink = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { link } = await cancelSchedulingLink(req.params.token, req.body?.reason);
+
+    successResponse(res, await toPublicSchedulingLink(link), 'Interview cancelled successfully');
+  }
+);
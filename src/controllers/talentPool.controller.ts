@@ -0,0 +1,273 @@
+import { Request, Response } from "express";
+import { logActivity } from "../services/activity.service";
+import {
+  candidateService,
+  talentPoolCampaignService,
+  talentPoolMemberService,
+  talentPoolService,
+} from "../services/firestore";
+import {
+  addCandidatesToPool,
+  deleteTalentPool,
+  reEngagePool,
+  removeCandidateFromPool,
+} from "../services/talentPool.service";
+import {
+  AddTalentPoolMembersInput,
+  CreateTalentPoolInput,
+  ReEngageTalentPoolInput,
+  UpdateTalentPoolInput,
+} from "../types/talentPool.types";
+import { ConflictError, NotFoundError } from "../utils/errors";
+import {
+  asyncHandler,
+  getPaginationParams,
+  paginateResults,
+  successResponse,
+} from "../utils/helpers";
+import logger from "../utils/logger";
+
+const findPoolOrThrow = async (id: string) => {
+  const pool = await talentPoolService.findById(id);
+  if (!pool) {
+    throw new NotFoundError("Talent pool not found");
+  }
+  return pool;
+};
+
+/**
+ * Create talent pool
+ */
+export const createTalentPool = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data: CreateTalentPoolInput = req.body;
+
+    if (await talentPoolService.findByName(data.name.trim())) {
+      throw new ConflictError(`Talent pool already exists with name: ${data.name}`);
+    }
+
+    const poolId = await talentPoolService.create({
+      name: data.name.trim(),
+      description: data.description,
+      color: data.color,
+      memberCount: 0,
+      createdBy: req.user?.id,
+    });
+    const pool = await talentPoolService.findById(poolId);
+
+    logger.info(`Talent pool created: ${data.name}`);
+
+    successResponse(res, pool, "Talent pool created successfully", 201);
+  }
+);
+
+/**
+ * Get all talent pools
+ */
+export const getTalentPools = asyncHandler(
+  async (_req: Request, res: Response): Promise<void> => {
+    const pools = await talentPoolService.find([], {
+      orderBy: [{ field: "name", direction: "asc" }],
+    });
+
+    successResponse(res, pools, "Talent pools retrieved successfully");
+  }
+);
+
+/**
+ * Get talent pool with its members
+ */
+export const getTalentPoolById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const pool = await findPoolOrThrow(req.params.id);
+    const { page, limit } = getPaginationParams(req.query);
+    const outreachStatus = req.query.outreachStatus as any;
+
+    const members = await talentPoolMemberService.findByPoolId(pool.id, {
+      outreachStatus,
+    });
+    const pageMembers = members.slice((page - 1) * limit, page * limit);
+
+    // Candidates in the trash stay members but are returned without details
+    const candidates = await Promise.all(
+      pageMembers.map((member) => candidateService.findById(member.candidateId))
+    );
+
+    successResponse(
+      res,
+      {
+        pool,
+        members: pageMembers.map((member, index) => ({
+          ...member,
+          candidate: candidates[index],
+        })),
+        pagination: paginateResults(members.length, { page, limit }),
+      },
+      "Talent pool retrieved successfully"
+    );
+  }
+);
+
+/**
+ * Update talent pool
+ */
+export const updateTalentPool = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const updates: UpdateTalentPoolInput = req.body;
+    const pool = await findPoolOrThrow(req.params.id);
+
+    if (updates.name && updates.name.trim() !== pool.name) {
+      const existing = await talentPoolService.findByName(updates.name.trim());
+      if (existing && existing.id !== pool.id) {
+        throw new ConflictError(`Talent pool already exists with name: ${updates.name}`);
+      }
+    }
+
+    await talentPoolService.update(pool.id, {
+      ...updates,
+      ...(updates.name && { name: updates.name.trim() }),
+      updatedBy: req.user?.id,
+    });
+
+    const updatedPool = await talentPoolService.findById(pool.id);
+    successResponse(res, updatedPool, "Talent pool updated successfully");
+  }
+);
+
+/**
+ * Delete talent pool and its memberships
+ */
+export const deleteTalentPoolById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const pool = await findPoolOrThrow(req.params.id);
+
+    const removedMembers = await deleteTalentPool(pool.id);
+
+    logger.info(`Talent pool deleted: ${pool.name} (${removedMembers} members)`);
+
+    successResponse(res, { removedMembers }, "Talent pool deleted successfully");
+  }
+);
+
+/**
+ * Add candidates to a talent pool
+ */
+export const addTalentPoolMembers = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { candidateIds, reason, sourceJobId }: AddTalentPoolMembersInput =
+      req.body;
+    const pool = await findPoolOrThrow(req.params.id);
+
+    const result = await addCandidatesToPool(pool, candidateIds, {
+      reason,
+      sourceJobId,
+      addedBy: req.user?.id,
+    });
+
+    if (req.user?.id) {
+      for (const candidateId of result.added) {
+        logActivity({
+          userId: req.user.id,
+          action: "candidate_added_to_talent_pool",
+          resourceType: "candidate",
+          resourceId: candidateId,
+          metadata: {
+            talentPoolId: pool.id,
+            talentPoolName: pool.name,
+            reason,
+            jobId: sourceJobId,
+          },
+        }).catch((err) => logger.error("Failed to log activity:", err));
+      }
+    }
+
+    successResponse(
+      res,
+      result,
+      `${result.added.length} candidate(s) added to talent pool`,
+      201
+    );
+  }
+);
+
+/**
+ * Remove a candidate from a talent pool
+ */
+export const removeTalentPoolMember = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { id, candidateId } = req.params;
+    const pool = await findPoolOrThrow(id);
+
+    await removeCandidateFromPool(pool.id, candidateId);
+
+    if (req.user?.id) {
+      logActivity({
+        userId: req.user.id,
+        action: "candidate_removed_from_talent_pool",
+        resourceType: "candidate",
+        resourceId: candidateId,
+        metadata: { talentPoolId: pool.id, talentPoolName: pool.name },
+      }).catch((err) => logger.error("Failed to log activity:", err));
+    }
+
+    successResponse(res, null, "Candidate removed from talent pool");
+  }
+);
+
+/**
+ * Send an email template to the members of a talent pool
+ */
+export const reEngageTalentPool = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const { templateId, candidateIds, variables }: ReEngageTalentPoolInput =
+      req.body;
+    const pool = await findPoolOrThrow(req.params.id);
+
+    const campaign = await reEngagePool(pool, {
+      templateId,
+      candidateIds,
+      variables,
+      sentBy: req.user?.id,
+    });
+
+    if (req.user?.id) {
+      logActivity({
+        userId: req.user.id,
+        action: "talent_pool_re_engaged",
+        resourceType: "talent_pool",
+        resourceId: pool.id,
+        resourceName: pool.name,
+        metadata: {
+          campaignId: campaign.id,
+          templateId,
+          sentCount: campaign.sentCount,
+        },
+      }).catch((err) => logger.error("Failed to log activity:", err));
+    }
+
+    successResponse(res, campaign, "Re-engagement emails sent", 201);
+  }
+);
+
+/**
+ * Get re-engagement campaigns of a talent pool with reply counts
+ */
+export const getTalentPoolCampaigns = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const pool = await findPoolOrThrow(req.params.id);
+
+    const campaigns = await talentPoolCampaignService.findByPoolId(pool.id);
+
+    successResponse(
+      res,
+      campaigns.map((campaign) => ({
+        ...campaign,
+        replyRate:
+          campaign.sentCount > 0
+            ? Math.round((campaign.replyCount / campaign.sentCount) * 100)
+            : 0,
+      })),
+      "Talent pool campaigns retrieved successfully"
+    );
+  }
+);
@@ -7,6 +7,7 @@ import {
   emailService,
   messageService,
 } from "../services/firestore";
+import { recordCandidateReply } from "../services/talentPool.service";
 import { BadRequestError } from "../utils/errors";
 import { asyncHandler, successResponse } from "../utils/helpers";
 import logger from "../utils/logger";
@@ -409,6 +410,9 @@ const handleEmailReceived = async (data: any) => {
         }
       );
 
+      // Replies to re-engagement emails count towards the talent pool campaign
+      await recordCandidateReply(candidate.id);
+
       // TODO: Notify assigned team member about the reply
       // This could send a real-time notification or email
       // You can use websockets or push notifications here
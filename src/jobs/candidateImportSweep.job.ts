@@ -0,0 +1,27 @@
+/**
+ * Candidate Import Sweep Job
+ * Fails spreadsheet imports left queued or running by a restart, so they
+ * don't stay "in progress" forever. Also sweeps once on start, for imports
+ * interrupted by the last shutdown.
+ */
+
+import { config } from '../config';
+import { failStaleCandidateImports } from '../services/candidateImport.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const candidateImportSweepJob = createCronJob(
+  'Candidate import sweep',
+  config.candidateImports.staleSweepSchedule,
+  async () => {
+    const failed = await failStaleCandidateImports(config.candidateImports.staleMinutes);
+    if (failed > 0) {
+      logger.info(`📥 Marked ${failed} interrupted candidate imports as failed`);
+    }
+  },
+  {
+    scheduleSetting: 'CANDIDATE_IMPORT_SWEEP_SCHEDULE',
+    runOnStart: true,
+    details: `stale after ${config.candidateImports.staleMinutes} minutes`,
+  }
+);
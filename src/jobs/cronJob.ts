@@ -0,0 +1,75 @@
+/**
+ * Cron Job Helper
+ * Schedules a background task with node-cron. A run still in progress makes
+ * the next one skip, and task errors are logged so they never crash the server.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import logger from '../utils/logger';
+
+export interface CronJobOptions {
+  scheduleSetting: string; // environment variable named when the schedule is invalid
+  timezone?: string;
+  runOnStart?: boolean; // also run once when started, e.g. to clean up after a restart
+  details?: string; // appended to the "scheduled" log line
+  disabledReason?: string; // set to log this instead of scheduling the job
+}
+
+export interface CronJob {
+  run: () => Promise<void>;
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Create a named job running `task` on a cron schedule
+ */
+export const createCronJob = (
+  name: string,
+  schedule: string,
+  task: () => Promise<void>,
+  options: CronJobOptions
+): CronJob => {
+  let scheduled: ScheduledTask | null = null;
+  let running = false;
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      logger.warn(`${name} already running, skipping this run`);
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const start = (): void => {
+    if (options.disabledReason) {
+      logger.info(`${name} disabled (${options.disabledReason})`);
+      return;
+    }
+    if (!cron.validate(schedule)) {
+      logger.error(`Invalid ${options.scheduleSetting}: ${schedule}`);
+      return;
+    }
+
+    if (options.runOnStart) run();
+    scheduled = cron.schedule(schedule, run, options.timezone ? { timezone: options.timezone } : undefined);
+
+    const details = [options.timezone, options.details].filter(Boolean).join(', ');
+    logger.info(`${name} scheduled (${schedule}${details ? `, ${details}` : ''})`);
+  };
+
+  const stop = (): void => {
+    scheduled?.stop();
+    scheduled = null;
+  };
+
+  return { run, start, stop };
+};
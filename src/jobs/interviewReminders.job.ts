@@ -0,0 +1,17 @@
+/**
+ * Interview Reminders Job
+ * Sends due interview reminders, feedback nudges and no-show follow-ups
+ */
+
+import { config } from '../config';
+import { runInterviewReminderSweep } from '../services/interviewReminders.service';
+import { createCronJob } from './cronJob';
+
+export const interviewRemindersJob = createCronJob(
+  'Interview reminders',
+  config.interviewReminders.schedule,
+  async () => {
+    await runInterviewReminderSweep();
+  },
+  { scheduleSetting: 'INTERVIEW_REMINDER_SCHEDULE', timezone: 'UTC' }
+);
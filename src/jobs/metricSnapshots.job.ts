@@ -0,0 +1,17 @@
+/**
+ * Metric Snapshots Job
+ * Stores the previous day's aggregates per job, client and pipeline stage
+ */
+
+import { config } from '../config';
+import { runNightlyMetricSnapshots } from '../services/metricSnapshots.service';
+import { createCronJob } from './cronJob';
+
+export const metricSnapshotsJob = createCronJob(
+  'Metric snapshots',
+  config.metricSnapshots.schedule,
+  async () => {
+    await runNightlyMetricSnapshots();
+  },
+  { scheduleSetting: 'METRIC_SNAPSHOT_SCHEDULE', timezone: 'UTC' }
+);
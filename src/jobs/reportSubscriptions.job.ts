@@ -0,0 +1,21 @@
+/**
+ * Report Subscriptions Job
+ * Emails subscribed reports whose next delivery is due
+ */
+
+import { config } from '../config';
+import { runDueReportSubscriptions } from '../services/reportSubscriptions.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const reportSubscriptionsJob = createCronJob(
+  'Report subscriptions',
+  config.reportSubscriptions.schedule,
+  async () => {
+    const delivered = await runDueReportSubscriptions();
+    if (delivered > 0) {
+      logger.info(`📧 Delivered ${delivered} subscribed reports`);
+    }
+  },
+  { scheduleSetting: 'REPORT_SUBSCRIPTION_SCHEDULE' }
+);
@@ -0,0 +1,22 @@
+/**
+ * Saved Search Alerts Job
+ * Re-runs saved candidate searches that are due and notifies their owners
+ * about new matches
+ */
+
+import { config } from '../config';
+import { runDueSavedSearches } from '../services/savedSearchAlerts.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const savedSearchAlertsJob = createCronJob(
+  'Saved search alerts',
+  config.savedSearches.schedule,
+  async () => {
+    const ran = await runDueSavedSearches();
+    if (ran > 0) {
+      logger.info(`🔎 Ran ${ran} saved searches`);
+    }
+  },
+  { scheduleSetting: 'SAVED_SEARCH_SCHEDULE' }
+);
@@ -0,0 +1,22 @@
+/**
+ * Stage Automation Job
+ * Executes delayed pipeline stage automation actions and fires after_days
+ * rules for candidates who have been in a stage long enough
+ */
+
+import { config } from '../config';
+import { runDueStageAutomations } from '../services/stageAutomation.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const stageAutomationJob = createCronJob(
+  'Stage automations',
+  config.stageAutomation.schedule,
+  async () => {
+    const { executed, fired } = await runDueStageAutomations();
+    if (executed > 0 || fired > 0) {
+      logger.info(`⚙️ Ran ${executed} delayed stage actions, fired ${fired} after_days rules`);
+    }
+  },
+  { scheduleSetting: 'STAGE_AUTOMATION_SCHEDULE' }
+);
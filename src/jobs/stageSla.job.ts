@@ -0,0 +1,22 @@
+/**
+ * Stage SLA Job
+ * Sends reminder notifications to owners of candidates who have been in a
+ * pipeline stage longer than its target duration
+ */
+
+import { config } from '../config';
+import { sendSlaBreachReminders } from '../services/stageSla.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const stageSlaJob = createCronJob(
+  'Stage SLA check',
+  config.stageSla.schedule,
+  async () => {
+    const breaches = await sendSlaBreachReminders();
+    if (breaches > 0) {
+      logger.info(`⏰ ${breaches} candidates breached their stage SLA`);
+    }
+  },
+  { scheduleSetting: 'STAGE_SLA_SCHEDULE' }
+);
@@ -0,0 +1,27 @@
+/**
+ * Trash Purge Job
+ * Permanently deletes soft-deleted records once they are older than the
+ * configured retention window (TRASH_RETENTION_DAYS)
+ */
+
+import { config } from '../config';
+import { purgeExpiredTrash } from '../services/trash.service';
+import logger from '../utils/logger';
+import { createCronJob } from './cronJob';
+
+export const trashPurgeJob = createCronJob(
+  'Trash purge',
+  config.trash.purgeSchedule,
+  async () => {
+    const purged = await purgeExpiredTrash(config.trash.retentionDays);
+    const total = Object.values(purged).reduce((sum, count) => sum + count, 0);
+    if (total > 0) {
+      logger.info(`🗑️ Purged ${total} expired records from trash:`, purged);
+    }
+  },
+  {
+    scheduleSetting: 'TRASH_PURGE_SCHEDULE',
+    details: `retention ${config.trash.retentionDays} days`,
+    ...(config.trash.retentionDays <= 0 && { disabledReason: 'TRASH_RETENTION_DAYS=0' }),
+  }
+);
@@ -147,3 +147,36 @@ export const imageUpload = multer({
 // Middleware for single avatar/image upload
 export const uploadAvatar: RequestHandler = imageUpload.single('avatar')
 export const uploadLogo: RequestHandler = imageUpload.single('logo')
+
+// File filter for spreadsheet uploads (candidate imports)
+const spreadsheetFileFilter = (
+  _req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const allowedSpreadsheetExtensions = ['.csv', '.xlsx']
+  const fileExtension = path.extname(file.originalname).toLowerCase()
+
+  // Browsers report CSV under several MIME types, so only the extension is checked
+  if (allowedSpreadsheetExtensions.includes(fileExtension)) {
+    cb(null, true)
+  } else {
+    cb(
+      new ValidationError(
+        'Invalid file type. Only CSV and XLSX files are allowed.'
+      )
+    )
+  }
+}
+
+// Create multer upload instance for spreadsheets
+export const spreadsheetUpload = multer({
+  storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB max file size for spreadsheets
+  },
+  fileFilter: spreadsheetFileFilter,
+})
+
+// Middleware for single spreadsheet upload
+export const uploadSpreadsheet: RequestHandler = spreadsheetUpload.single('file')
@@ -0,0 +1,56 @@
+import express from 'express';
+import { validate } from '../middleware/validation';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  getFunnelAnalytics,
+  getMetricTrends,
+  getRecruiterLeaderboard,
+  getSourceReport,
+} from '../controllers/analytics.controller';
+import {
+  funnelAnalyticsSchema,
+  leaderboardSchema,
+  metricTrendSchema,
+  sourceReportSchema,
+} from '../types/analytics.types';
+
+const router: express.Router = express.Router();
+
+// All routes require authentication and analytics access
+router.use(authenticate);
+router.use(requirePermission('canAccessAnalytics'));
+
+/**
+ * @route   GET /api/analytics/funnel
+ * @desc    Get stage conversion, drop-off, time in stage, time to hire and monthly cohorts
+ *          (filters: from, to, jobId, clientId, recruiterId, source)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get('/funnel', validate(funnelAnalyticsSchema), getFunnelAnalytics);
+
+/**
+ * @route   GET /api/analytics/sources
+ * @desc    Get applications, approvals, interviews, offers and hires per source channel,
+ *          with candidates added to jobs without applying under `direct`
+ *          (filters: from, to, jobId, clientId)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get('/sources', validate(sourceReportSchema), getSourceReport);
+
+/**
+ * @route   GET /api/analytics/leaderboard
+ * @desc    Get team members ranked by a productivity metric, with team averages
+ *          (filters: from, to, sortBy; defaults to the last 30 days)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get('/leaderboard', validate(leaderboardSchema), getRecruiterLeaderboard);
+
+/**
+ * @route   GET /api/analytics/trends
+ * @desc    Get a daily trend (open applications, inflow, outflow, hires) from metric snapshots
+ *          (filters: scope=all|job|client|stage, scopeId, from, to; defaults to the last 90 days)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get('/trends', validate(metricTrendSchema), getMetricTrends);
+
+export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import {
   createApplication,
   getApplications,
+  exportApplications,
   getApplicationById,
   updateApplication,
   deleteApplication,
@@ -10,17 +11,22 @@ import {
   bulkDeleteApplications,
   getApplicationStats,
   getDashboardAnalytics,
+  getApplicationHistory,
+  getDeletedApplications,
+  restoreApplication,
 } from '../controllers/application.controller';
 import { authenticate, requirePermission } from '../middleware/auth';
-import { validate } from '../middleware/validation';
+import { validate, validateQuery } from '../middleware/validation';
 import {
   createApplicationSchema,
   updateApplicationSchema,
   applicationIdSchema,
   listApplicationsSchema,
+  exportApplicationsSchema,
   approveApplicationSchema,
   bulkUpdateStatusSchema,
 } from '../types/application.types';
+import { dashboardAnalyticsQuerySchema } from '../types/analytics.types';
 
 const router: Router = Router();
 
@@ -32,6 +38,8 @@ const router: Router = Router();
 /**
  * @route   POST /api/applications/public/apply
  * @desc    Create a new application from public job page
+ *          UTM parameters in the query string or body are stored as the application's attribution
+ *          (other attribution fields, such as referrals and agencies, are ignored here)
  * @access  Public
  */
 router.post(
@@ -70,6 +78,18 @@ router.get(
   getApplications
 );
 
+/**
+ * @route   GET /api/applications/export
+ * @desc    Export applications with the list filters (?format=csv|xlsx|ndjson&columns=firstName,email,jobTitle)
+ * @access  Users with canReviewApplications permission
+ */
+router.get(
+  '/export',
+  requirePermission('canReviewApplications'),
+  validate(exportApplicationsSchema),
+  exportApplications
+);
+
 /**
  * @route   GET /api/applications/stats
  * @desc    Get application statistics
@@ -84,13 +104,26 @@ router.get(
 /**
  * @route   GET /api/applications/analytics/dashboard
  * @desc    Get dashboard analytics (application trends by date)
+ *          (days: 1-365, default 90)
  * @access  All authenticated users
  */
 router.get(
   '/analytics/dashboard',
+  validateQuery(dashboardAnalyticsQuerySchema),
   getDashboardAnalytics
 );
 
+/**
+ * @route   GET /api/applications/trash
+ * @desc    List applications in the trash (soft-deleted)
+ * @access  Users with canReviewApplications permission
+ */
+router.get(
+  '/trash',
+  requirePermission('canReviewApplications'),
+  getDeletedApplications
+);
+
 /**
  * @route   GET /api/applications/:id
  * @desc    Get single application by ID
@@ -103,6 +136,18 @@ router.get(
   getApplicationById
 );
 
+/**
+ * @route   GET /api/applications/:id/history
+ * @desc    Get prior versions of an application with field-level diffs
+ * @access  Users with canReviewApplications permission
+ */
+router.get(
+  '/:id/history',
+  requirePermission('canReviewApplications'),
+  validate(applicationIdSchema),
+  getApplicationHistory
+);
+
 /**
  * @route   PUT /api/applications/:id
  * @desc    Update application
@@ -129,7 +174,7 @@ router.patch(
 
 /**
  * @route   DELETE /api/applications/:id
- * @desc    Delete application
+ * @desc    Delete application (moves it to the trash)
  * @access  Users with canReviewApplications permission
  */
 router.delete(
@@ -139,6 +184,18 @@ router.delete(
   deleteApplication
 );
 
+/**
+ * @route   POST /api/applications/:id/restore
+ * @desc    Restore an application from the trash
+ * @access  Users with canReviewApplications permission
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('canReviewApplications'),
+  validate(applicationIdSchema),
+  restoreApplication
+);
+
 /**
  * @route   POST /api/applications/:id/approve
  * @desc    Approve application and create candidate with AI scoring
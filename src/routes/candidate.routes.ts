@@ -4,28 +4,49 @@ import {
   bulkMoveCandidates,
   createCandidate,
   deleteCandidate,
+  exportCandidates,
   getCandidateActivity,
+  getCandidateAutomationRuns,
   getCandidateById,
+  getCandidateHistory,
+  getCandidateImportById,
+  getCandidateImports,
   getCandidates,
   getCandidateStats,
   getCandidatesWithoutPipeline,
   getDashboardAnalytics,
+  getDeletedCandidates,
+  getDuplicateCandidates,
   getTopCandidates,
+  importCandidates,
+  mergeCandidate,
   moveCandidateStage,
   rescoreCandidate,
+  restoreCandidate,
+  searchCandidates,
   updateCandidate,
 } from '../controllers/candidate.controller'
+import { getCandidateScorecard } from '../controllers/interviewKit.controller'
 import { authenticate, requirePermission } from '../middleware/auth'
-import { validate } from '../middleware/validation'
+import { uploadSpreadsheet } from '../middleware/upload'
+import { validate, validateQuery } from '../middleware/validation'
 import {
   bulkMoveCandidatesSchema,
   candidateIdSchema,
+  candidateImportIdSchema,
   createCandidateSchema,
+  exportCandidatesSchema,
+  importCandidatesSchema,
   listCandidatesSchema,
+  listDuplicateCandidatesSchema,
+  mergeCandidatesSchema,
   moveCandidateStageSchema,
   rescoreCandidateSchema,
+  searchCandidatesSchema,
   updateCandidateSchema,
 } from '../types/candidate.types'
+import { candidateScorecardSchema } from '../types/interviewKit.types'
+import { dashboardAnalyticsQuerySchema } from '../types/analytics.types'
 
 const router: express.Router = express.Router()
 
@@ -58,6 +79,18 @@ router.get(
   getCandidates
 )
 
+/**
+ * @route   GET /api/candidates/export
+ * @desc    Export candidates with the list filters (?format=csv|xlsx|ndjson&columns=firstName,email,jobTitle)
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/export',
+  requirePermission('canManageCandidates'),
+  validate(exportCandidatesSchema),
+  exportCandidates
+)
+
 /**
  * @route   GET /api/candidates/stats
  * @desc    Get candidate statistics
@@ -69,6 +102,68 @@ router.get(
   getCandidateStats
 )
 
+/**
+ * @route   GET /api/candidates/search
+ * @desc    Full-text search with relevance ranking and highlighted snippets
+ *          (?q=skill:react title:"staff engineer" -intern)
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.get(
+  '/search',
+  requirePermission('canManageCandidates', 'canReviewApplications'),
+  validate(searchCandidatesSchema),
+  searchCandidates
+)
+
+/**
+ * @route   GET /api/candidates/duplicates
+ * @desc    Review queue of likely duplicate candidate pairs (?minScore=0.5)
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/duplicates',
+  requirePermission('canManageCandidates'),
+  validate(listDuplicateCandidatesSchema),
+  getDuplicateCandidates
+)
+
+/**
+ * @route   POST /api/candidates/import
+ * @desc    Import candidates from a CSV/XLSX file (multipart field "file";
+ *          mode=preview|dry_run|import, jobId, pipelineId, stageId, mapping)
+ * @access  Users with canManageCandidates permission
+ */
+router.post(
+  '/import',
+  requirePermission('canManageCandidates'),
+  uploadSpreadsheet,
+  validate(importCandidatesSchema),
+  importCandidates
+)
+
+/**
+ * @route   GET /api/candidates/imports
+ * @desc    Get candidate imports started by the current user (all for admins)
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/imports',
+  requirePermission('canManageCandidates'),
+  getCandidateImports
+)
+
+/**
+ * @route   GET /api/candidates/imports/:importId
+ * @desc    Get candidate import progress and row errors
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/imports/:importId',
+  requirePermission('canManageCandidates'),
+  validate(candidateImportIdSchema),
+  getCandidateImportById
+)
+
 /**
  * @route   GET /api/candidates/top
  * @desc    Get top candidates by AI score
@@ -76,6 +171,19 @@ router.get(
  */
 router.get('/top', requirePermission('canManageCandidates'), getTopCandidates)
 
+/**
+ * @route   POST /api/candidates/bulk/move-stage
+ * @desc    Bulk move candidates to new stage
+ *          Registered before the /:id routes, which would otherwise match "bulk" as an ID
+ * @access  Users with canManageCandidates permission
+ */
+router.post(
+  '/bulk/move-stage',
+  requirePermission('canManageCandidates'),
+  validate(bulkMoveCandidatesSchema),
+  bulkMoveCandidates
+)
+
 /**
  * @route   GET /api/candidates/:id/activity
  * @desc    Get full chronological activity timeline for a candidate
@@ -87,6 +195,54 @@ router.get(
   getCandidateActivity
 )
 
+/**
+ * @route   GET /api/candidates/:id/history
+ * @desc    Get prior versions of a candidate with field-level diffs
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/:id/history',
+  requirePermission('canManageCandidates'),
+  validate(candidateIdSchema),
+  getCandidateHistory
+)
+
+/**
+ * @route   GET /api/candidates/:id/automation-runs
+ * @desc    Get the stage automation execution log of a candidate
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.get(
+  '/:id/automation-runs',
+  requirePermission('canManageCandidates', 'canReviewApplications'),
+  validate(candidateIdSchema),
+  getCandidateAutomationRuns
+)
+
+/**
+ * @route   GET /api/candidates/:id/scorecard
+ * @desc    Get the candidate's interview scorecards rolled up across rounds, per job (query: jobId)
+ *          Rounds whose feedback is hidden from the user are listed without scores
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.get(
+  '/:id/scorecard',
+  requirePermission('canManageCandidates', 'canReviewApplications'),
+  validate(candidateScorecardSchema),
+  getCandidateScorecard
+)
+
+/**
+ * @route   GET /api/candidates/trash
+ * @desc    List candidates in the trash (soft-deleted)
+ * @access  Users with canManageCandidates permission
+ */
+router.get(
+  '/trash',
+  requirePermission('canManageCandidates'),
+  getDeletedCandidates
+)
+
 /**
  * @route   GET /api/candidates/:id
  * @desc    Get candidate by ID
@@ -125,7 +281,7 @@ router.patch(
 
 /**
  * @route   DELETE /api/candidates/:id
- * @desc    Delete candidate
+ * @desc    Delete candidate (moves it to the trash)
  * @access  Users with canManageCandidates permission
  */
 router.delete(
@@ -135,6 +291,30 @@ router.delete(
   deleteCandidate
 )
 
+/**
+ * @route   POST /api/candidates/:id/restore
+ * @desc    Restore a candidate from the trash with its applications, interviews and emails
+ * @access  Users with canManageCandidates permission
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('canManageCandidates'),
+  validate(candidateIdSchema),
+  restoreCandidate
+)
+
+/**
+ * @route   POST /api/candidates/:id/merge
+ * @desc    Merge a duplicate candidate (body.duplicateId) into this candidate
+ * @access  Users with canManageCandidates permission
+ */
+router.post(
+  '/:id/merge',
+  requirePermission('canManageCandidates'),
+  validate(mergeCandidatesSchema),
+  mergeCandidate
+)
+
 /**
  * @route   POST /api/candidates/:id/move-stage
  * @desc    Move candidate to different pipeline stage
@@ -159,18 +339,6 @@ router.post(
   rescoreCandidate
 )
 
-/**
- * @route   POST /api/candidates/bulk/move-stage
- * @desc    Bulk move candidates to new stage
- * @access  Users with canManageCandidates permission
- */
-router.post(
-  '/bulk/move-stage',
-  requirePermission('canManageCandidates'),
-  validate(bulkMoveCandidatesSchema),
-  bulkMoveCandidates
-)
-
 /**
  * @route   POST /api/candidates/pipeline/add
  * @desc    Add candidates to a pipeline (assign to first stage)
@@ -196,8 +364,9 @@ router.get(
 /**
  * @route   GET /api/candidates/analytics/dashboard
  * @desc    Get dashboard analytics (application trends by date)
+ *          (days: 1-365, default 90)
  * @access  All authenticated users
  */
-router.get('/analytics/dashboard', getDashboardAnalytics)
+router.get('/analytics/dashboard', validateQuery(dashboardAnalyticsQuerySchema), getDashboardAnalytics)
 
 export default router
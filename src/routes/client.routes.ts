@@ -9,6 +9,8 @@ import {
   deleteClient,
   getClientStats,
   addCommunicationNote,
+  getDeletedClients,
+  restoreClient,
 } from '../controllers/client.controller';
 import {
   createClientSchema,
@@ -56,6 +58,17 @@ router.get(
   getClientStats
 );
 
+/**
+ * @route   GET /api/clients/trash
+ * @desc    List clients in the trash (soft-deleted)
+ * @access  Users with canManageClients permission
+ */
+router.get(
+  '/trash',
+  requirePermission('canManageClients'),
+  getDeletedClients
+);
+
 /**
  * @route   GET /api/clients/:id
  * @desc    Get client by ID
@@ -103,7 +116,7 @@ router.post(
 
 /**
  * @route   DELETE /api/clients/:id
- * @desc    Delete client
+ * @desc    Delete client (moves it to the trash)
  * @access  Users with canManageClients permission
  */
 router.delete(
@@ -113,4 +126,16 @@ router.delete(
   deleteClient
 );
 
+/**
+ * @route   POST /api/clients/:id/restore
+ * @desc    Restore a client from the trash
+ * @access  Users with canManageClients permission
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('canManageClients'),
+  validate(clientIdSchema),
+  restoreClient
+);
+
 export default router;
@@ -0,0 +1,58 @@
+import express from 'express';
+import { validate } from '../middleware/validation';
+import { authenticate, requireRole } from '../middleware/auth';
+import {
+  createCustomField,
+  deleteCustomField,
+  getCustomFieldById,
+  getCustomFields,
+  updateCustomField,
+} from '../controllers/customField.controller';
+import {
+  createCustomFieldSchema,
+  customFieldIdSchema,
+  listCustomFieldsSchema,
+  updateCustomFieldSchema,
+} from '../types/customField.types';
+
+const router: express.Router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/custom-fields
+ * @desc    Get custom field definitions (?entityType=candidate&clientId=...)
+ * @access  All authenticated users
+ */
+router.get('/', validate(listCustomFieldsSchema), getCustomFields);
+
+/**
+ * @route   GET /api/custom-fields/:id
+ * @desc    Get custom field definition by ID
+ * @access  All authenticated users
+ */
+router.get('/:id', validate(customFieldIdSchema), getCustomFieldById);
+
+/**
+ * @route   POST /api/custom-fields
+ * @desc    Create custom field definition
+ * @access  Admin only
+ */
+router.post('/', requireRole('admin'), validate(createCustomFieldSchema), createCustomField);
+
+/**
+ * @route   PATCH /api/custom-fields/:id
+ * @desc    Update custom field definition
+ * @access  Admin only
+ */
+router.patch('/:id', requireRole('admin'), validate(updateCustomFieldSchema), updateCustomField);
+
+/**
+ * @route   DELETE /api/custom-fields/:id
+ * @desc    Delete custom field definition
+ * @access  Admin only
+ */
+router.delete('/:id', requireRole('admin'), validate(customFieldIdSchema), deleteCustomField);
+
+export default router;
@@ -418,6 +418,13 @@ const checkEmailsForAllAccounts = async () => {
               } as any);
               
               logger.info(`✅ Stored reply from ${senderEmail} (Candidate: ${candidateId || 'unknown'}, Thread: ${threadId})`);
+
+              // Replies to re-engagement emails count towards the talent pool campaign
+              if (candidateId) {
+                const { recordCandidateReply } = require('../services/talentPool.service');
+                await recordCandidateReply(candidateId, email.date || new Date());
+              }
+
               automationState.totalEmailsProcessed++;
               automationState.totalRepliesStored++;
               
@@ -20,6 +20,11 @@ import messageRoutes from './message.routes';
 import webhookRoutes from './webhook.routes';
 import activityRoutes from './activity.routes';
 import settingsRoutes from './settings.routes';
+import talentPoolRoutes from './talentPool.routes';
+import savedSearchRoutes from './savedSearch.routes';
+import customFieldRoutes from './customField.routes';
+import analyticsRoutes from './analytics.routes';
+import reportSubscriptionRoutes from './reportSubscription.routes';
 
 const router: Router = Router();
 
@@ -38,13 +43,18 @@ router.use('/settings', settingsRoutes);
 router.use('/resumes', resumeRoutes);
 router.use('/applications', applicationRoutes);
 router.use('/candidates', candidateRoutes);
+router.use('/talent-pools', talentPoolRoutes);
+router.use('/saved-searches', savedSearchRoutes);
 router.use('/jobs', jobRoutes);
 router.use('/clients', clientRoutes);
 router.use('/pipelines', pipelineRoutes);
 router.use('/categories', categoryRoutes);
 router.use('/tags', tagRoutes);
+router.use('/custom-fields', customFieldRoutes);
 router.use('/webhooks', webhookRoutes);
 router.use('/activities', activityRoutes);
+router.use('/analytics', analyticsRoutes);
+router.use('/report-subscriptions', reportSubscriptionRoutes);
 
 // Health check
 router.get('/health', (_req, res) => {
@@ -1,5 +1,6 @@
 import express from 'express';
 import { authenticate, requireRole } from '../middleware/auth';
+import { validate, validateBody } from '../middleware/validation';
 import {
   getInterviews,
   getInterviewById,
@@ -12,12 +13,112 @@ import {
   createZoomMeeting,
   completeInterview,
 } from '../controllers/interview.controller';
+import { getInterviewAvailability } from '../controllers/availability.controller';
+import {
+  getCalendarFeed,
+  getInterviewFeed,
+  rotateCalendarFeed,
+} from '../controllers/calendarFeed.controller';
+import { getInterviewScorecard } from '../controllers/interviewKit.controller';
+import {
+  bookPublicSchedulingLink,
+  cancelPublicSchedulingLink,
+  createSchedulingLink,
+  getPublicSchedulingLink,
+  getSchedulingLinks,
+  reschedulePublicSchedulingLink,
+  revokeSchedulingLink,
+} from '../controllers/schedulingLink.controller';
+import { interviewAvailabilitySchema } from '../types/availability.types';
+import { createInterviewSchema, updateInterviewSchema } from '../types/interview.types';
+import { interviewScorecardSchema, submitFeedbackSchema } from '../types/interviewKit.types';
+import {
+  bookSlotSchema,
+  cancelBookingSchema,
+  createSchedulingLinkSchema,
+  publicSchedulingLinkSchema,
+  schedulingLinkIdSchema,
+} from '../types/schedulingLink.types';
 
 const router: express.Router = express.Router();
 
-// All routes require authentication
+/**
+ * PUBLIC ROUTES (No Authentication Required)
+ * Used by candidates to book their own interview from a scheduling link
+ */
+
+/**
+ * @route   GET /api/interviews/public/scheduling/:token
+ * @desc    Get a scheduling link with the offered slots and the current booking
+ * @access  Public
+ */
+router.get(
+  '/public/scheduling/:token',
+  validate(publicSchedulingLinkSchema),
+  getPublicSchedulingLink
+);
+
+/**
+ * @route   POST /api/interviews/public/scheduling/:token/book
+ * @desc    Book an offered slot; creates the interview, meeting link and confirmation emails
+ *          (body: start)
+ * @access  Public
+ */
+router.post(
+  '/public/scheduling/:token/book',
+  validate(bookSlotSchema),
+  bookPublicSchedulingLink
+);
+
+/**
+ * @route   POST /api/interviews/public/scheduling/:token/reschedule
+ * @desc    Move the booked interview to another offered slot (body: start)
+ * @access  Public
+ */
+router.post(
+  '/public/scheduling/:token/reschedule',
+  validate(bookSlotSchema),
+  reschedulePublicSchedulingLink
+);
+
+/**
+ * @route   POST /api/interviews/public/scheduling/:token/cancel
+ * @desc    Cancel the booked interview (body: reason)
+ * @access  Public
+ */
+router.post(
+  '/public/scheduling/:token/cancel',
+  validate(cancelBookingSchema),
+  cancelPublicSchedulingLink
+);
+
+/**
+ * @route   GET /api/interviews/feed/:token.ics
+ * @desc    iCal subscription feed of a user's interviews (secret token from GET /api/interviews/feed)
+ * @access  Public
+ */
+router.get('/feed/:token.ics', getInterviewFeed);
+
+/**
+ * AUTHENTICATED ROUTES
+ * These routes require authentication
+ */
 router.use(authenticate);
 
+/**
+ * @route   GET /api/interviews/feed
+ * @desc    Get the current user's iCal feed URL, creating it on first use
+ * @access  All authenticated users
+ */
+router.get('/feed', getCalendarFeed);
+
+/**
+ * @route   POST /api/interviews/feed/rotate
+ * @desc    Replace the current user's iCal feed URL; the old one stops working
+ * @access  All authenticated users
+ */
+router.post('/feed/rotate', rotateCalendarFeed);
+
 /**
  * @route   GET /api/interviews/upcoming
  * @desc    Get upcoming interviews
@@ -25,6 +126,54 @@ router.use(authenticate);
  */
 router.get('/upcoming', getUpcomingInterviews);
 
+/**
+ * @route   GET /api/interviews/availability
+ * @desc    Get common free slots of interviewers (and optionally the candidate)
+ *          (query: interviewerIds (comma-separated), duration, from, to, candidateId, step, limit, timezone)
+ * @access  Recruiter, Hiring Manager, Admin
+ */
+router.get(
+  '/availability',
+  requireRole('recruiter', 'hiring_manager', 'admin'),
+  validate(interviewAvailabilitySchema),
+  getInterviewAvailability
+);
+
+/**
+ * @route   GET /api/interviews/scheduling-links
+ * @desc    Get scheduling links (query: candidateId)
+ * @access  Recruiter, Hiring Manager, Admin
+ */
+router.get(
+  '/scheduling-links',
+  requireRole('recruiter', 'hiring_manager', 'admin'),
+  getSchedulingLinks
+);
+
+/**
+ * @route   POST /api/interviews/scheduling-links
+ * @desc    Create a candidate self-scheduling link offering slots from interviewer availability
+ * @access  Recruiter, Hiring Manager, Admin
+ */
+router.post(
+  '/scheduling-links',
+  requireRole('recruiter', 'hiring_manager', 'admin'),
+  validate(createSchedulingLinkSchema),
+  createSchedulingLink
+);
+
+/**
+ * @route   DELETE /api/interviews/scheduling-links/:id
+ * @desc    Revoke an unused scheduling link
+ * @access  Recruiter, Hiring Manager, Admin
+ */
+router.delete(
+  '/scheduling-links/:id',
+  requireRole('recruiter', 'hiring_manager', 'admin'),
+  validate(schedulingLinkIdSchema),
+  revokeSchedulingLink
+);
+
 /**
  * @route   GET /api/interviews
  * @desc    Get all interviews with filters
@@ -39,25 +188,36 @@ router.get('/', getInterviews);
  */
 router.get('/:id', getInterviewById);
 
+/**
+ * @route   GET /api/interviews/:id/scorecard
+ * @desc    Get the interview's scorecard: kit for the round, submissions and aggregates
+ *          Panel interviewers only see others' feedback after submitting their own
+ * @access  All authenticated users
+ */
+router.get('/:id/scorecard', validate(interviewScorecardSchema), getInterviewScorecard);
+
 /**
  * @route   POST /api/interviews
- * @desc    Create new interview
+ * @desc    Create new interview; double-bookings and time off are rejected
+ *          unless allowConflicts is set, and returned as `conflicts`
  * @access  Recruiter, Hiring Manager, Admin, Super Admin
  */
 router.post(
   '/',
   requireRole('recruiter', 'hiring_manager', 'admin'),
+  validateBody(createInterviewSchema),
   createInterview
 );
 
 /**
  * @route   PUT /api/interviews/:id
- * @desc    Update interview
+ * @desc    Update interview; sends updated calendar invites when the time, place or people change
  * @access  Recruiter, Hiring Manager, Admin, Super Admin
  */
 router.put(
   '/:id',
   requireRole('recruiter', 'hiring_manager', 'admin'),
+  validateBody(updateInterviewSchema),
   updateInterview
 );
 
@@ -69,12 +229,13 @@ router.put(
 router.patch(
   '/:id',
   requireRole('recruiter', 'hiring_manager', 'admin'),
+  validateBody(updateInterviewSchema),
   updateInterview
 );
 
 /**
  * @route   POST /api/interviews/:id/cancel
- * @desc    Cancel interview
+ * @desc    Cancel interview and send calendar cancellations
  * @access  Recruiter, Hiring Manager, Admin, Super Admin
  */
 router.post(
@@ -96,12 +257,14 @@ router.post(
 
 /**
  * @route   POST /api/interviews/:id/feedback
- * @desc    Add feedback to interview
+ * @desc    Submit (or replace) the user's scorecard; with a job interview kit,
+ *          every focus attribute of the round must be rated (attributeRatings)
  * @access  Interviewer, Recruiter, Hiring Manager, Admin, Super Admin
  */
 router.post(
   '/:id/feedback',
   requireRole('interviewer', 'recruiter', 'hiring_manager', 'admin'),
+  validate(submitFeedbackSchema),
   addFeedback
 );
 
@@ -4,19 +4,30 @@ import { authenticate, requirePermission } from '../middleware/auth';
 import {
   createJob,
   getJobs,
+  exportJobs,
   getJobById,
   updateJob,
   deleteJob,
   bulkUpdateJobStatus,
   getJobStats,
+  getJobHistory,
+  getDeletedJobs,
+  restoreJob,
 } from '../controllers/job.controller';
+import {
+  deleteInterviewKit,
+  getInterviewKit,
+  upsertInterviewKit,
+} from '../controllers/interviewKit.controller';
 import {
   createJobSchema,
   updateJobSchema,
   listJobsSchema,
+  exportJobsSchema,
   jobIdSchema,
   bulkUpdateJobStatusSchema,
 } from '../types/job.types';
+import { interviewKitJobIdSchema, upsertInterviewKitSchema } from '../types/interviewKit.types';
 
 const router: express.Router = express.Router();
 
@@ -31,6 +42,31 @@ router.get(
   getJobs
 );
 
+/**
+ * @route   GET /api/jobs/export
+ * @desc    Export jobs with the list filters (?format=csv|xlsx|ndjson&columns=title,clientName,status)
+ * @access  Users with canManageJobs or canAccessAnalytics permission
+ */
+router.get(
+  '/export',
+  authenticate,
+  requirePermission('canManageJobs', 'canAccessAnalytics'),
+  validate(exportJobsSchema),
+  exportJobs
+);
+
+/**
+ * @route   GET /api/jobs/trash
+ * @desc    List jobs in the trash (soft-deleted)
+ * @access  Users with canManageJobs permission
+ */
+router.get(
+  '/trash',
+  authenticate,
+  requirePermission('canManageJobs'),
+  getDeletedJobs
+);
+
 /**
  * @route   GET /api/jobs/:id
  * @desc    Get job by ID (Public - can view job details)
@@ -68,6 +104,18 @@ router.get(
   getJobStats
 );
 
+/**
+ * @route   GET /api/jobs/:id/history
+ * @desc    Get prior versions of a job with field-level diffs
+ * @access  Users with canManageJobs permission
+ */
+router.get(
+  '/:id/history',
+  requirePermission('canManageJobs'),
+  validate(jobIdSchema),
+  getJobHistory
+);
+
 /**
  * @route   PUT /api/jobs/:id
  * @desc    Update job
@@ -94,7 +142,7 @@ router.patch(
 
 /**
  * @route   DELETE /api/jobs/:id
- * @desc    Delete job
+ * @desc    Delete job (moves it to the trash)
  * @access  Users with canManageJobs permission (typically admins)
  */
 router.delete(
@@ -104,6 +152,53 @@ router.delete(
   deleteJob
 );
 
+/**
+ * @route   POST /api/jobs/:id/restore
+ * @desc    Restore a job from the trash
+ * @access  Users with canManageJobs permission
+ */
+router.post(
+  '/:id/restore',
+  requirePermission('canManageJobs'),
+  validate(jobIdSchema),
+  restoreJob
+);
+
+/**
+ * @route   GET /api/jobs/:id/interview-kit
+ * @desc    Get the job's interview kit (attributes, questions per round, rating rubric)
+ * @access  All authenticated users
+ */
+router.get(
+  '/:id/interview-kit',
+  validate(interviewKitJobIdSchema),
+  getInterviewKit
+);
+
+/**
+ * @route   PUT /api/jobs/:id/interview-kit
+ * @desc    Create or replace the job's interview kit
+ * @access  Users with canManageJobs permission
+ */
+router.put(
+  '/:id/interview-kit',
+  requirePermission('canManageJobs'),
+  validate(upsertInterviewKitSchema),
+  upsertInterviewKit
+);
+
+/**
+ * @route   DELETE /api/jobs/:id/interview-kit
+ * @desc    Delete the job's interview kit
+ * @access  Users with canManageJobs permission
+ */
+router.delete(
+  '/:id/interview-kit',
+  requirePermission('canManageJobs'),
+  validate(interviewKitJobIdSchema),
+  deleteInterviewKit
+);
+
 /**
  * @route   POST /api/jobs/bulk/status
  * @desc    Bulk update job status
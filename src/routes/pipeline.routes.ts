@@ -1,6 +1,6 @@
 import express from 'express';
 import { validate } from '../middleware/validation';
-import { authenticate, requireRole } from '../middleware/auth';
+import { authenticate, requirePermission, requireRole } from '../middleware/auth';
 import {
   createPipeline,
   getPipelines,
@@ -8,12 +8,24 @@ import {
   updatePipeline,
   deletePipeline,
   getDefaultPipeline,
+  getPipelineBoard,
+  getPipelineHistory,
+  getPipelineSla,
+  migratePipeline,
+  moveBoardCard,
+  previewStageAutomations,
 } from '../controllers/pipeline.controller';
 import {
   createPipelineSchema,
   updatePipelineSchema,
   listPipelinesSchema,
+  migratePipelineSchema,
+  moveBoardCardSchema,
+  pipelineBoardSchema,
+  pipelineHistorySchema,
   pipelineIdSchema,
+  pipelineSlaSchema,
+  previewStageAutomationsSchema,
 } from '../types/pipeline.types';
 
 const router: express.Router = express.Router();
@@ -65,6 +77,78 @@ router.get(
   getPipelineById
 );
 
+/**
+ * @route   GET /api/pipelines/:id/history
+ * @desc    Get prior versions of a pipeline with field-level diffs
+ * @access  Admin, Super Admin
+ */
+router.get(
+  '/:id/history',
+  requireRole('admin'),
+  validate(pipelineHistorySchema),
+  getPipelineHistory
+);
+
+/**
+ * @route   POST /api/pipelines/:id/migrate
+ * @desc    Preview (dryRun) or apply a stage remap, moving affected candidates
+ * @access  Admin, Super Admin
+ */
+router.post(
+  '/:id/migrate',
+  requireRole('admin'),
+  validate(migratePipelineSchema),
+  migratePipeline
+);
+
+/**
+ * @route   GET /api/pipelines/:id/sla
+ * @desc    Get overdue candidates per stage and owner against stage SLAs
+ * @access  Users with canManageCandidates or canAccessAnalytics permission
+ */
+router.get(
+  '/:id/sla',
+  requirePermission('canManageCandidates', 'canAccessAnalytics'),
+  validate(pipelineSlaSchema),
+  getPipelineSla
+);
+
+/**
+ * @route   GET /api/pipelines/:id/board
+ * @desc    Get the kanban board: stages with counts and paginated candidate cards
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.get(
+  '/:id/board',
+  requirePermission('canManageCandidates', 'canReviewApplications'),
+  validate(pipelineBoardSchema),
+  getPipelineBoard
+);
+
+/**
+ * @route   PATCH /api/pipelines/:id/board/move
+ * @desc    Move a candidate card to another stage and/or position
+ * @access  Users with canManageCandidates permission
+ */
+router.patch(
+  '/:id/board/move',
+  requirePermission('canManageCandidates'),
+  validate(moveBoardCardSchema),
+  moveBoardCard
+);
+
+/**
+ * @route   POST /api/pipelines/:id/stages/:stageId/automations/preview
+ * @desc    Dry-run a stage's automation rules for a candidate
+ * @access  Admin, Super Admin
+ */
+router.post(
+  '/:id/stages/:stageId/automations/preview',
+  requireRole('admin'),
+  validate(previewStageAutomationsSchema),
+  previewStageAutomations
+);
+
 /**
  * @route   PUT /api/pipelines/:id
  * @desc    Update pipeline
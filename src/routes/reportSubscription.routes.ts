@@ -0,0 +1,74 @@
+import express from 'express';
+import { validate } from '../middleware/validation';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  createReportSubscription,
+  deleteReportSubscription,
+  getReportSubscriptionById,
+  getReportSubscriptionDeliveries,
+  getReportSubscriptions,
+  sendReportSubscriptionNow,
+  updateReportSubscription,
+} from '../controllers/reportSubscription.controller';
+import {
+  createReportSubscriptionSchema,
+  reportSubscriptionIdSchema,
+  updateReportSubscriptionSchema,
+} from '../types/reportSubscription.types';
+
+const router: express.Router = express.Router();
+
+// All routes require authentication and analytics access
+router.use(authenticate);
+router.use(requirePermission('canAccessAnalytics'));
+
+/**
+ * @route   POST /api/report-subscriptions
+ * @desc    Subscribe to a report emailed on a schedule (daily, weekly or monthly)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.post('/', validate(createReportSubscriptionSchema), createReportSubscription);
+
+/**
+ * @route   GET /api/report-subscriptions
+ * @desc    Get the current user's report subscriptions
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get('/', getReportSubscriptions);
+
+/**
+ * @route   GET /api/report-subscriptions/:id
+ * @desc    Get report subscription by ID
+ * @access  Owner of the subscription
+ */
+router.get('/:id', validate(reportSubscriptionIdSchema), getReportSubscriptionById);
+
+/**
+ * @route   PATCH /api/report-subscriptions/:id
+ * @desc    Update report subscription (schedule, filters, recipients, pause/resume)
+ * @access  Owner of the subscription
+ */
+router.patch('/:id', validate(updateReportSubscriptionSchema), updateReportSubscription);
+
+/**
+ * @route   DELETE /api/report-subscriptions/:id
+ * @desc    Delete report subscription
+ * @access  Owner of the subscription
+ */
+router.delete('/:id', validate(reportSubscriptionIdSchema), deleteReportSubscription);
+
+/**
+ * @route   POST /api/report-subscriptions/:id/send
+ * @desc    Email the report now without changing the schedule
+ * @access  Owner of the subscription
+ */
+router.post('/:id/send', validate(reportSubscriptionIdSchema), sendReportSubscriptionNow);
+
+/**
+ * @route   GET /api/report-subscriptions/:id/deliveries
+ * @desc    Get the delivery history of a subscription
+ * @access  Owner of the subscription
+ */
+router.get('/:id/deliveries', validate(reportSubscriptionIdSchema), getReportSubscriptionDeliveries);
+
+export default router;
@@ -7,6 +7,7 @@ import {
 import { authenticate, requireRole } from '../middleware/auth';
 import { uploadResume, uploadVideo } from '../middleware/upload';
 import { validate } from '../middleware/validation';
+import { captureAttribution } from '../services/sourceAttribution.service';
 import {
   parseResumeSchema,
   parseAndSaveResumeSchema,
@@ -33,6 +34,8 @@ router.post(
 /**
  * @route   POST /api/resumes/public/upload
  * @desc    Upload resume to Cloudinary and return URL (public apply workflow)
+ *          UTM fields (utm_source, utm_medium...) sent with the upload are returned
+ *          as `attribution`, to be submitted with POST /api/applications/public/apply
  * @access  Public
  */
 router.post(
@@ -74,12 +77,18 @@ router.post(
       const result = await cloudinary.uploadResume(req.file.buffer, req.file.originalname);
 
       logger.info(`Resume uploaded successfully: ${result.url}`);
+      const attribution = captureAttribution({
+        query: req.query,
+        body: req.body,
+        referer: req.get('referer'),
+      });
       res.json({
         success: true,
         data: {
           url: result.url,
           publicId: result.publicId,
           originalName: req.file.originalname,
+          ...(attribution && { attribution }),
         },
       });
     } catch (error: any) {
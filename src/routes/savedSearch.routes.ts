@@ -0,0 +1,66 @@
+import express from 'express';
+import { validate } from '../middleware/validation';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchById,
+  getSavedSearches,
+  runSavedSearchNow,
+  updateSavedSearch,
+} from '../controllers/savedSearch.controller';
+import {
+  createSavedSearchSchema,
+  savedSearchIdSchema,
+  updateSavedSearchSchema,
+} from '../types/savedSearch.types';
+
+const router: express.Router = express.Router();
+
+// All routes require authentication; searches only return candidates the user may see
+router.use(authenticate);
+router.use(requirePermission('canManageCandidates', 'canReviewApplications'));
+
+/**
+ * @route   POST /api/saved-searches
+ * @desc    Save a candidate search to re-run on a schedule
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.post('/', validate(createSavedSearchSchema), createSavedSearch);
+
+/**
+ * @route   GET /api/saved-searches
+ * @desc    Get the current user's saved searches
+ * @access  Users with canManageCandidates or canReviewApplications permission
+ */
+router.get('/', getSavedSearches);
+
+/**
+ * @route   GET /api/saved-searches/:id
+ * @desc    Get saved search by ID
+ * @access  Owner of the saved search
+ */
+router.get('/:id', validate(savedSearchIdSchema), getSavedSearchById);
+
+/**
+ * @route   PATCH /api/saved-searches/:id
+ * @desc    Update saved search
+ * @access  Owner of the saved search
+ */
+router.patch('/:id', validate(updateSavedSearchSchema), updateSavedSearch);
+
+/**
+ * @route   DELETE /api/saved-searches/:id
+ * @desc    Delete saved search
+ * @access  Owner of the saved search
+ */
+router.delete('/:id', validate(savedSearchIdSchema), deleteSavedSearch);
+
+/**
+ * @route   POST /api/saved-searches/:id/run
+ * @desc    Run a saved search now and return new matches
+ * @access  Owner of the saved search
+ */
+router.post('/:id/run', validate(savedSearchIdSchema), runSavedSearchNow);
+
+export default router;
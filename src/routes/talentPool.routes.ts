@@ -0,0 +1,114 @@
+import express from 'express';
+import { validate } from '../middleware/validation';
+import { authenticate, requirePermission } from '../middleware/auth';
+import {
+  addTalentPoolMembers,
+  createTalentPool,
+  deleteTalentPoolById,
+  getTalentPoolById,
+  getTalentPoolCampaigns,
+  getTalentPools,
+  reEngageTalentPool,
+  removeTalentPoolMember,
+  updateTalentPool,
+} from '../controllers/talentPool.controller';
+import {
+  addTalentPoolMembersSchema,
+  createTalentPoolSchema,
+  listTalentPoolMembersSchema,
+  reEngageTalentPoolSchema,
+  removeTalentPoolMemberSchema,
+  talentPoolIdSchema,
+  updateTalentPoolSchema,
+} from '../types/talentPool.types';
+
+const router: express.Router = express.Router();
+
+// All routes require authentication and candidate management
+router.use(authenticate);
+router.use(requirePermission('canManageCandidates'));
+
+/**
+ * @route   POST /api/talent-pools
+ * @desc    Create talent pool
+ * @access  Users with canManageCandidates permission
+ */
+router.post('/', validate(createTalentPoolSchema), createTalentPool);
+
+/**
+ * @route   GET /api/talent-pools
+ * @desc    Get all talent pools
+ * @access  Users with canManageCandidates permission
+ */
+router.get('/', getTalentPools);
+
+/**
+ * @route   GET /api/talent-pools/:id
+ * @desc    Get talent pool with members (?outreachStatus=replied)
+ * @access  Users with canManageCandidates permission
+ */
+router.get('/:id', validate(listTalentPoolMembersSchema), getTalentPoolById);
+
+/**
+ * @route   PUT /api/talent-pools/:id
+ * @desc    Update talent pool
+ * @access  Users with canManageCandidates permission
+ */
+router.put('/:id', validate(updateTalentPoolSchema), updateTalentPool);
+
+/**
+ * @route   PATCH /api/talent-pools/:id
+ * @desc    Update talent pool (partial update)
+ * @access  Users with canManageCandidates permission
+ */
+router.patch('/:id', validate(updateTalentPoolSchema), updateTalentPool);
+
+/**
+ * @route   DELETE /api/talent-pools/:id
+ * @desc    Delete talent pool (candidates are not affected)
+ * @access  Users with canManageCandidates permission
+ */
+router.delete('/:id', validate(talentPoolIdSchema), deleteTalentPoolById);
+
+/**
+ * @route   POST /api/talent-pools/:id/members
+ * @desc    Add candidates to a talent pool with a reason and source job
+ * @access  Users with canManageCandidates permission
+ */
+router.post(
+  '/:id/members',
+  validate(addTalentPoolMembersSchema),
+  addTalentPoolMembers
+);
+
+/**
+ * @route   DELETE /api/talent-pools/:id/members/:candidateId
+ * @desc    Remove a candidate from a talent pool
+ * @access  Users with canManageCandidates permission
+ */
+router.delete(
+  '/:id/members/:candidateId',
+  validate(removeTalentPoolMemberSchema),
+  removeTalentPoolMember
+);
+
+/**
+ * @route   POST /api/talent-pools/:id/re-engage
+ * @desc    Send an email template to pool members and track their replies
+ * @access  Users with canManageCandidates and canSendEmails permissions
+ */
+router.post(
+  '/:id/re-engage',
+  requirePermission('canSendEmails'),
+  validate(reEngageTalentPoolSchema),
+  reEngageTalentPool
+);
+
+/**
+ * @route   GET /api/talent-pools/:id/campaigns
+ * @desc    Get re-engagement campaigns of a talent pool with reply counts
+ * @access  Users with canManageCandidates permission
+ */
+router.get('/:id/campaigns', validate(talentPoolIdSchema), getTalentPoolCampaigns);
+
+export default router;
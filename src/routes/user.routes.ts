@@ -1,6 +1,7 @@
 import express from 'express';
 import { authenticate, requirePermission } from '../middleware/auth';
 import { uploadAvatar } from '../middleware/upload';
+import { validate } from '../middleware/validation';
 import {
   getUsers,
   getUserById,
@@ -11,6 +12,19 @@ import {
   uploadUserAvatar,
   deleteUserAvatar,
 } from '../controllers/user.controller';
+import { getUserMetrics } from '../controllers/analytics.controller';
+import {
+  addTimeOff,
+  deleteTimeOff,
+  getUserAvailability,
+  updateUserAvailability,
+} from '../controllers/availability.controller';
+import { userMetricsSchema } from '../types/analytics.types';
+import {
+  addTimeOffSchema,
+  timeOffIdSchema,
+  updateAvailabilitySchema,
+} from '../types/availability.types';
 
 const router: express.Router = express.Router();
 
@@ -57,6 +71,47 @@ router.get(
   getUserById
 );
 
+/**
+ * @route   GET /api/users/:id/metrics
+ * @desc    Get a user's productivity and workload metrics compared with team averages
+ *          (filters: from, to; defaults to the last 30 days)
+ * @access  Users with canAccessAnalytics permission
+ */
+router.get(
+  '/:id/metrics',
+  requirePermission('canAccessAnalytics'),
+  validate(userMetricsSchema),
+  getUserMetrics
+);
+
+/**
+ * @route   GET /api/users/:id/availability
+ * @desc    Get a user's working hours and time off
+ * @access  All authenticated users
+ */
+router.get('/:id/availability', getUserAvailability);
+
+/**
+ * @route   PUT /api/users/:id/availability
+ * @desc    Set a user's timezone and working hours
+ * @access  Authenticated user (own availability) or users with canManageTeam permission
+ */
+router.put('/:id/availability', validate(updateAvailabilitySchema), updateUserAvailability);
+
+/**
+ * @route   POST /api/users/:id/availability/time-off
+ * @desc    Add a time-off period
+ * @access  Authenticated user (own availability) or users with canManageTeam permission
+ */
+router.post('/:id/availability/time-off', validate(addTimeOffSchema), addTimeOff);
+
+/**
+ * @route   DELETE /api/users/:id/availability/time-off/:timeOffId
+ * @desc    Remove a time-off period
+ * @access  Authenticated user (own availability) or users with canManageTeam permission
+ */
+router.delete('/:id/availability/time-off/:timeOffId', validate(timeOffIdSchema), deleteTimeOff);
+
 /**
  * @route   POST /api/users/:id/avatar
  * @desc    Upload user avatar
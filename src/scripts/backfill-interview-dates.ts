@@ -0,0 +1,69 @@
+/**
+ * Backfill script: Store interview `scheduledAt` values saved as strings as timestamps
+ *
+ * Interviews created or updated through the API used to keep `scheduledAt`
+ * as the JSON string the client sent. Availability checks, calendar feeds and
+ * reminder sync query it with date ranges, which never match a string, so
+ * those interviews were invisible to them. Safe to run more than once.
+ *
+ * Required deploy step: runs as part of `npm run migrate`.
+ *
+ * Run with: npx ts-node src/scripts/backfill-interview-dates.ts
+ */
+
+import { FieldPath } from "firebase-admin/firestore";
+import { getFirestoreDB } from "../config/firebase";
+
+const PAGE_SIZE = 500;
+
+/**
+ * Convert string `scheduledAt` values; returns the number of interviews updated
+ * Unparsable strings are logged and left alone.
+ */
+export async function backfillInterviewDates(): Promise<number> {
+  const db = getFirestoreDB();
+  let updated = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    let query = db.collection("interviews").orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) query = query.startAfter(lastId);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let writes = 0;
+    snapshot.docs.forEach((doc) => {
+      const value = doc.get("scheduledAt");
+      if (typeof value !== "string") return;
+
+      const scheduledAt = new Date(value);
+      if (isNaN(scheduledAt.getTime())) {
+        console.warn(`  ⚠️  interviews/${doc.id}: cannot parse scheduledAt "${value}"`);
+        return;
+      }
+      batch.update(doc.ref, { scheduledAt });
+      writes++;
+    });
+    if (writes > 0) await batch.commit();
+
+    updated += writes;
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`  ✅ interviews: ${updated} documents updated`);
+  return updated;
+}
+
+if (require.main === module) {
+  console.log("\n=== Backfilling interview dates ===\n");
+  backfillInterviewDates()
+    .then(() => {
+      console.log("\n=== Done ===\n");
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("\n💥", err.message);
+      process.exit(1);
+    });
+}
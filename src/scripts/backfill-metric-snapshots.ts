@@ -0,0 +1,59 @@
+import { backfillMetricSnapshots, toDay } from '../services/metricSnapshots.service';
+import { DAY_MS } from '../utils/helpers';
+
+/**
+ * Rebuild daily metric snapshots from candidates' stage history and the
+ * activity log
+ * - Replays every job application (deleted records included) into per-day
+ *   counts, inflow, outflow and hires per job, client and pipeline stage
+ * - Skips days that already have a snapshot unless --overwrite is given
+ *
+ * Required deploy step: runs (with the defaults) as part of `npm run migrate`,
+ * so dashboards and trends have history before the nightly job has run.
+ *
+ * Usage: npx ts-node src/scripts/backfill-metric-snapshots.ts [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--overwrite]
+ * Defaults to the last 365 days up to yesterday.
+ */
+
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+export async function backfillSnapshots(options: { from?: string; to?: string; overwrite?: boolean } = {}) {
+  const now = new Date();
+  const fromDay = options.from || toDay(new Date(now.getTime() - 365 * DAY_MS));
+  const toDayArg = options.to || toDay(new Date(now.getTime() - DAY_MS));
+  const overwrite = !!options.overwrite;
+
+  if (![fromDay, toDayArg].every((day) => /^\d{4}-\d{2}-\d{2}$/.test(day)) || fromDay > toDayArg) {
+    throw new Error('--from and --to must be YYYY-MM-DD dates, with --from before --to');
+  }
+
+  console.log(`🚀 Backfilling metric snapshots from ${fromDay} to ${toDayArg}${overwrite ? ' (overwriting)' : ''}...\n`);
+
+  const days = await backfillMetricSnapshots({ fromDay, toDay: toDayArg, overwrite, now });
+
+  console.log('\n✅ Done');
+  console.log(`   Days written: ${days.length}`);
+  if (days.length > 0) {
+    console.log(`   Range:        ${days[0]} to ${days[days.length - 1]}`);
+  }
+}
+
+// Run the script
+if (require.main === module) {
+  backfillSnapshots({
+    from: argValue('--from'),
+    to: argValue('--to'),
+    overwrite: process.argv.includes('--overwrite'),
+  })
+    .then(() => {
+      console.log('\n👋 Exiting...');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('\n💥 Fatal error:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,77 @@
+/**
+ * Backfill script: Add `deletedAt: null` to documents created before soft delete
+ *
+ * Soft-delete collections only return documents whose deletedAt field is null,
+ * and Firestore cannot match a field that does not exist, so older documents
+ * must carry the marker explicitly. Safe to run more than once.
+ *
+ * Required deploy step: runs as part of `npm run migrate`, which must finish
+ * before a release with soft delete serves traffic, or older records vanish
+ * from lists and lookups until it does.
+ *
+ * Run with: npx ts-node src/scripts/backfill-soft-delete-markers.ts
+ */
+
+import { getFirestoreDB } from "../config/firebase";
+
+const COLLECTIONS = [
+  "candidates",
+  "applications",
+  "jobs",
+  "clients",
+  "interviews",
+  "emails",
+];
+
+async function backfillCollection(name: string): Promise<number> {
+  const db = getFirestoreDB();
+  const snapshot = await db.collection(name).get();
+  const missing = snapshot.docs.filter((doc) => !("deletedAt" in doc.data()));
+
+  for (let i = 0; i < missing.length; i += 500) {
+    const batch = db.batch();
+    missing.slice(i, i + 500).forEach((doc) => {
+      batch.update(doc.ref, { deletedAt: null });
+    });
+    await batch.commit();
+  }
+
+  return missing.length;
+}
+
+/**
+ * Backfill every soft-delete collection; returns the number of documents updated per collection
+ * Throws after trying all collections when any of them failed.
+ */
+export async function backfillSoftDeleteMarkers(): Promise<Record<string, number>> {
+  const updated: Record<string, number> = {};
+  const failed: string[] = [];
+
+  for (const name of COLLECTIONS) {
+    try {
+      updated[name] = await backfillCollection(name);
+      console.log(`  ✅ ${name}: ${updated[name]} documents updated`);
+    } catch (err: any) {
+      console.error(`  ❌ ${name}:`, err.message);
+      failed.push(name);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Soft-delete backfill failed for ${failed.join(", ")}`);
+  }
+  return updated;
+}
+
+if (require.main === module) {
+  console.log("\n=== Backfilling soft-delete markers ===\n");
+  backfillSoftDeleteMarkers()
+    .then(() => {
+      console.log("\n=== Done ===\n");
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("\n💥", err.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,64 @@
+/**
+ * Backfill script: Give candidates in a pipeline stage a `stageEnteredAt`
+ *
+ * Candidates created straight into a stage (applications, imports) used to
+ * get no `stageEnteredAt` until they were first moved. The pipeline board
+ * pages each column by it, and Firestore leaves documents missing an orderBy
+ * field out of the query, so those candidates never showed up as cards.
+ * Uses the candidate's creation time, which the board used to fall back to.
+ * Safe to run more than once.
+ *
+ * Required deploy step: runs as part of `npm run migrate`.
+ *
+ * Run with: npx ts-node src/scripts/backfill-stage-entered-at.ts
+ */
+
+import { FieldPath } from "firebase-admin/firestore";
+import { getFirestoreDB } from "../config/firebase";
+
+const PAGE_SIZE = 500;
+
+/**
+ * Stamp candidates that have a stage but no entry time; returns the number updated
+ */
+export async function backfillStageEnteredAt(): Promise<number> {
+  const db = getFirestoreDB();
+  let updated = 0;
+  let lastId: string | undefined;
+
+  for (;;) {
+    let query = db.collection("candidates").orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) query = query.startAfter(lastId);
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let writes = 0;
+    snapshot.docs.forEach((doc) => {
+      if (!doc.get("currentPipelineStageId") || doc.get("stageEnteredAt")) return;
+
+      batch.update(doc.ref, { stageEnteredAt: doc.get("createdAt") || doc.createTime });
+      writes++;
+    });
+    if (writes > 0) await batch.commit();
+
+    updated += writes;
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  console.log(`  ✅ candidates: ${updated} documents updated`);
+  return updated;
+}
+
+if (require.main === module) {
+  console.log("\n=== Backfilling stage entry times ===\n");
+  backfillStageEnteredAt()
+    .then(() => {
+      console.log("\n=== Done ===\n");
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error("\n💥", err.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,49 @@
+/**
+ * Database migrations, run by `npm run migrate` on every deploy before the
+ * new release starts serving traffic
+ *
+ * Each migration is idempotent, so all of them run every time, in order.
+ * Add new ones to the end of MIGRATIONS.
+ *
+ * Usage: npm run migrate
+ */
+
+import { backfillInterviewDates } from "./backfill-interview-dates";
+import { backfillSnapshots } from "./backfill-metric-snapshots";
+import { backfillSoftDeleteMarkers } from "./backfill-soft-delete-markers";
+import { backfillStageEnteredAt } from "./backfill-stage-entered-at";
+import { rebuildCandidateSearchIndex } from "./rebuild-candidate-search-index";
+
+const MIGRATIONS: Array<{ name: string; run: () => Promise<unknown> }> = [
+  // Older documents need `deletedAt: null` or soft-delete queries hide them
+  { name: "soft-delete-markers", run: backfillSoftDeleteMarkers },
+  // Date range queries on interviews skip `scheduledAt` values stored as strings
+  { name: "interview-dates", run: backfillInterviewDates },
+  // Search, list search, export filters and the duplicates queue only find
+  // indexed candidates (the rebuild also fills the duplicate blocking index)
+  { name: "candidate-search-index", run: rebuildCandidateSearchIndex },
+  // Dashboards and metric trends read past days from snapshots; fills the
+  // last year, skipping days already written
+  { name: "metric-snapshots", run: () => backfillSnapshots() },
+  // Pipeline board columns are paged by `stageEnteredAt` and leave out
+  // candidates without it
+  { name: "stage-entered-at", run: backfillStageEnteredAt },
+];
+
+async function migrate() {
+  console.log("🚀 Running database migrations...\n");
+
+  for (const migration of MIGRATIONS) {
+    console.log(`▶️  ${migration.name}`);
+    await migration.run();
+  }
+
+  console.log(`\n✅ ${MIGRATIONS.length} migrations applied`);
+}
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((err) => {
+    console.error("\n💥 Migration failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,91 @@
+import { candidateService } from '../services/firestore/candidate.service';
+import { applicationService } from '../services/firestore/application.service';
+import { candidateSearchIndexService } from '../services/firestore/candidateSearchIndex.service';
+
+/**
+ * Rebuild the candidate search index from scratch
+ * - Copies resumeRawText from the candidate's application when the candidate has none
+ * - Re-indexes every live candidate and files it in the duplicate blocking index,
+ *   which the duplicates review queue reads
+ * - Removes index entries whose candidate no longer exists or is in the trash
+ *
+ * Required deploy step: runs as part of `npm run migrate`. Candidates that were
+ * never indexed don't show up in search, list search, filtered exports or the
+ * duplicates queue, and entries written before an index format change miss the
+ * newer terms.
+ *
+ * Usage: npx ts-node src/scripts/rebuild-candidate-search-index.ts
+ */
+
+/**
+ * Re-index every candidate; throws after the full pass when any candidate failed
+ */
+export async function rebuildCandidateSearchIndex(): Promise<void> {
+  console.log('🚀 Rebuilding candidate search index...\n');
+
+  const candidates = await candidateService.find([]);
+  console.log(`📊 Found ${candidates.length} candidates\n`);
+
+  let indexed = 0;
+  let backfilled = 0;
+  let failed = 0;
+
+  for (const candidate of candidates) {
+    try {
+      if (!candidate.resumeRawText && candidate.applicationIds?.length) {
+        for (const applicationId of candidate.applicationIds) {
+          const application = await applicationService.findById(applicationId);
+          if (application?.resumeRawText) {
+            // update() re-indexes the candidate as resumeRawText is a searchable field
+            await candidateService.update(candidate.id, {
+              resumeRawText: application.resumeRawText,
+            });
+            candidate.resumeRawText = application.resumeRawText;
+            backfilled++;
+            break;
+          }
+        }
+      }
+
+      // Directly rather than through syncSearchIndex, which only logs failures
+      await candidateSearchIndexService.indexCandidate(candidate, { refileIdentityKeys: true });
+      indexed++;
+    } catch (error: any) {
+      console.error(`   ❌ ${candidate.email}: ${error.message}`);
+      failed++;
+    }
+  }
+
+  // Drop entries for candidates that are gone
+  const liveIds = new Set(candidates.map((candidate) => candidate.id));
+  const entries = await candidateSearchIndexService.findAll();
+  let removed = 0;
+  for (const entry of entries) {
+    if (!liveIds.has(entry.candidateId)) {
+      await candidateSearchIndexService.removeCandidate(entry.id);
+      removed++;
+    }
+  }
+
+  console.log('\n✅ Done');
+  console.log(`   Indexed:    ${indexed}`);
+  console.log(`   Backfilled: ${backfilled} resume texts`);
+  console.log(`   Removed:    ${removed} stale entries`);
+  console.log(`   Failed:     ${failed}`);
+
+  if (failed > 0) {
+    throw new Error(`${failed} candidates could not be indexed`);
+  }
+}
+
+if (require.main === module) {
+  rebuildCandidateSearchIndex()
+    .then(() => {
+      console.log('\n👋 Exiting...');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('\n💥 Fatal error:', err);
+      process.exit(1);
+    });
+}
@@ -1,6 +1,14 @@
 import app from "./app";
 import { config, validateConfig } from "./config";
 import { connectDatabase } from "./config/database";
+import { candidateImportSweepJob } from "./jobs/candidateImportSweep.job";
+import { interviewRemindersJob } from "./jobs/interviewReminders.job";
+import { metricSnapshotsJob } from "./jobs/metricSnapshots.job";
+import { reportSubscriptionsJob } from "./jobs/reportSubscriptions.job";
+import { savedSearchAlertsJob } from "./jobs/savedSearchAlerts.job";
+import { stageAutomationJob } from "./jobs/stageAutomation.job";
+import { stageSlaJob } from "./jobs/stageSla.job";
+import { trashPurgeJob } from "./jobs/trashPurge.job";
 import logger from "./utils/logger";
 
 // Validate environment variables
@@ -11,6 +19,18 @@ try {
   process.exit(1);
 }
 
+// Scheduled jobs
+const cronJobs = [
+  trashPurgeJob,
+  savedSearchAlertsJob,
+  stageAutomationJob,
+  stageSlaJob,
+  reportSubscriptionsJob,
+  metricSnapshotsJob,
+  interviewRemindersJob,
+  candidateImportSweepJob,
+];
+
 // Start server
 async function startServer() {
   try {
@@ -34,12 +54,16 @@ async function startServer() {
       logger.info(`📡 API: http://localhost:${config.port}/api`);
     });
 
+    // Scheduled jobs
+    cronJobs.forEach((job) => job.start());
+
     // Graceful shutdown
     const shutdown = async (signal: string) => {
       logger.info(`\n${signal} received. Starting graceful shutdown...`);
 
       // TODO: Stop email automation job
       // emailAutomationJob.stop();
+      cronJobs.forEach((job) => job.stop());
 
       server.close(() => {
         logger.info("HTTP server closed");
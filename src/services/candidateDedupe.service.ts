@@ -0,0 +1,457 @@
+/**
+ * Candidate Dedupe Service
+ * Duplicate detection between candidate records and merging of duplicates
+ */
+
+import {
+  activityLogService,
+  applicationService,
+  candidateIdentityKeyService,
+  candidateMergeService,
+  candidateService,
+  emailService,
+  interviewService,
+  jobService,
+  messageService,
+  talentPoolMemberService,
+  talentPoolService,
+} from './firestore';
+import { FirestoreBaseService } from './firestore/base.service';
+import { ICandidate } from './firestore/candidate.service';
+import { ICandidateMerge } from './firestore/candidateMerge.service';
+import { findCandidatesByIds } from './candidateSearch.service';
+import {
+  normalizeEmail,
+  normalizeLinkedinUrl,
+  normalizeName,
+  normalizePhone,
+} from '../utils/candidateIdentity';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+type CandidateRecord = ICandidate & { id: string };
+
+export type DuplicateSignal = 'email' | 'phone' | 'linkedin' | 'name';
+
+export interface DuplicateReason {
+  signal: DuplicateSignal;
+  value: string;
+}
+
+export interface DuplicateScore {
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicatePair extends DuplicateScore {
+  candidates: [CandidateRecord, CandidateRecord];
+  suggestedSurvivorId: string;
+}
+
+export interface MergeResult {
+  survivorId: string;
+  mergedCandidateId: string;
+  moved: Record<string, number>;
+}
+
+// Probability-style weight of each matching signal; combined as 1 - Π(1 - weight)
+// so a name match alone stays below the default threshold
+const SIGNAL_WEIGHTS: Record<DuplicateSignal, number> = {
+  email: 0.9,
+  linkedin: 0.9,
+  phone: 0.7,
+  name: 0.4,
+};
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 0.5;
+
+// Very common names would otherwise produce a quadratic number of pairs
+const MAX_BLOCK_SIZE = 50;
+
+/**
+ * Normalized identity keys of a candidate, grouped by signal
+ */
+const identityKeys = (candidate: ICandidate): Record<DuplicateSignal, string[]> => {
+  const emails = [candidate.email, ...(candidate.alternateEmails || [])]
+    .map(normalizeEmail)
+    .filter((email): email is string => email !== null);
+  const phone = normalizePhone(candidate.phone);
+  const linkedin = normalizeLinkedinUrl(candidate.linkedinUrl);
+  const name = normalizeName(candidate.firstName, candidate.lastName);
+
+  return {
+    email: [...new Set(emails)],
+    phone: phone ? [phone] : [],
+    linkedin: linkedin ? [linkedin] : [],
+    name: name ? [name] : [],
+  };
+};
+
+/**
+ * Score how likely two candidate records describe the same person (0 - 1)
+ */
+export const scoreCandidatePair = (a: ICandidate, b: ICandidate): DuplicateScore => {
+  const keysA = identityKeys(a);
+  const keysB = identityKeys(b);
+  const reasons: DuplicateReason[] = [];
+  let miss = 1;
+
+  (Object.keys(SIGNAL_WEIGHTS) as DuplicateSignal[]).forEach((signal) => {
+    const shared = keysA[signal].find((key) => keysB[signal].includes(key));
+    if (shared) {
+      reasons.push({ signal, value: shared });
+      miss *= 1 - SIGNAL_WEIGHTS[signal];
+    }
+  });
+
+  return { score: Math.round((1 - miss) * 1000) / 1000, reasons };
+};
+
+const toMillis = (value: any): number => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value === 'object' && 'seconds' in value) return value.seconds * 1000;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? 0 : time;
+};
+
+/**
+ * The record to keep when merging a pair: the one with more applications, then the older one
+ */
+const pickSurvivor = (a: CandidateRecord, b: CandidateRecord): CandidateRecord => {
+  const applicationsA = a.applicationIds?.length || 0;
+  const applicationsB = b.applicationIds?.length || 0;
+  if (applicationsA !== applicationsB) return applicationsA > applicationsB ? a : b;
+  return toMillis(a.createdAt) <= toMillis(b.createdAt) ? a : b;
+};
+
+/**
+ * Find likely duplicate pairs across all live candidates, highest score first
+ * Only candidates filed under the same exact email, phone or LinkedIn key in
+ * the blocking index are compared, so just those candidates are loaded.
+ */
+export const findDuplicatePairs = async (
+  options: { minScore?: number } = {}
+): Promise<DuplicatePair[]> => {
+  const minScore = options.minScore ?? DEFAULT_DUPLICATE_MIN_SCORE;
+
+  const blocks = (await candidateIdentityKeyService.findShared()).filter((block) => {
+    if (block.candidateIds.length > MAX_BLOCK_SIZE) {
+      logger.debug(`Skipping duplicate block ${block.key} with ${block.candidateIds.length} candidates`);
+      return false;
+    }
+    return true;
+  });
+
+  const candidates = new Map(
+    (await findCandidatesByIds(new Set(blocks.flatMap((block) => block.candidateIds)))).map(
+      (candidate) => [candidate.id, candidate as CandidateRecord]
+    )
+  );
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  blocks.forEach((block) => {
+    // Trashed or purged candidates can linger in a block until their entry is synced
+    const members = block.candidateIds
+      .map((id) => candidates.get(id))
+      .filter((candidate): candidate is CandidateRecord => candidate !== undefined);
+
+    for (let i = 0; i < members.length; i++) {
+      for (let j = i + 1; j < members.length; j++) {
+        const [first, second] = [members[i], members[j]].sort(
+          (a, b) => toMillis(a.createdAt) - toMillis(b.createdAt)
+        );
+        const pairKey = `${first.id}|${second.id}`;
+        if (first.id === second.id || seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const { score, reasons } = scoreCandidatePair(first, second);
+        if (score >= minScore) {
+          pairs.push({
+            score,
+            reasons,
+            candidates: [first, second],
+            suggestedSurvivorId: pickSurvivor(first, second).id,
+          });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+const union = <T>(...lists: Array<T[] | undefined>): T[] => [
+  ...new Set(lists.flatMap((list) => list || [])),
+];
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+// Profile fields copied from the merged record when the survivor has none
+const FILLABLE_FIELDS = [
+  'phone',
+  'location',
+  'avatar',
+  'currentTitle',
+  'currentCompany',
+  'yearsOfExperience',
+  'summary',
+  'experience',
+  'education',
+  'linkedinUrl',
+  'portfolioUrl',
+  'resumeUrl',
+  'resumeOriginalName',
+  'resumeRawText',
+  'parsedData',
+  'currentPipelineStageId',
+  'currentStage',
+  'assignedTo',
+] as const;
+
+/**
+ * Combine the per-job application entries of both records; when both applied to
+ * the same job the survivor's entry is kept and the email trail and stage history joined
+ */
+const mergeJobApplications = (
+  survivor: ICandidate,
+  merged: ICandidate
+): NonNullable<ICandidate['jobApplications']> => {
+  const byJob = new Map<string, NonNullable<ICandidate['jobApplications']>[number]>();
+  (survivor.jobApplications || []).forEach((entry) => byJob.set(entry.jobId, { ...entry }));
+
+  (merged.jobApplications || []).forEach((entry) => {
+    const existing = byJob.get(entry.jobId);
+    if (!existing) {
+      byJob.set(entry.jobId, { ...entry });
+      return;
+    }
+    byJob.set(entry.jobId, {
+      ...existing,
+      applicationId: existing.applicationId || entry.applicationId,
+      emailIds: union(existing.emailIds, entry.emailIds),
+      emailsSent: (existing.emailsSent || 0) + (entry.emailsSent || 0),
+      emailsReceived: (existing.emailsReceived || 0) + (entry.emailsReceived || 0),
+      stageHistory: [...(existing.stageHistory || []), ...(entry.stageHistory || [])].sort(
+        (a, b) => toMillis(a.changedAt) - toMillis(b.changedAt)
+      ),
+    });
+  });
+
+  return [...byJob.values()];
+};
+
+/**
+ * Point every record referencing the merged candidate at the survivor
+ */
+const repointDependents = async (
+  mergedId: string,
+  survivorId: string
+): Promise<Record<string, number>> => {
+  const moved: Record<string, number> = {};
+
+  // Trashed records move too, so restoring them later lands on the survivor
+  const owned: FirestoreBaseService<any>[] = [
+    applicationService,
+    interviewService,
+    emailService,
+    messageService,
+  ];
+  for (const service of owned) {
+    const docs = await service.find(
+      [{ field: 'candidateId', operator: '==', value: mergedId }],
+      { includeDeleted: true }
+    );
+    for (const doc of docs) {
+      await service.update(doc.id, { candidateId: survivorId });
+    }
+    moved[service.collectionName] = docs.length;
+  }
+
+  const jobs = await jobService.find(
+    [{ field: 'candidateIds', operator: 'array-contains', value: mergedId }],
+    { includeDeleted: true }
+  );
+  for (const job of jobs) {
+    await jobService.update(job.id, {
+      candidateIds: union(
+        (job.candidateIds || []).filter((id) => id !== mergedId),
+        [survivorId]
+      ),
+    });
+  }
+  moved[jobService.collectionName] = jobs.length;
+
+  // Activity: logs about the candidate itself and logs that reference it in metadata
+  const [directLogs, relatedLogs] = await Promise.all([
+    activityLogService.find([
+      { field: 'resourceType', operator: '==', value: 'candidate' },
+      { field: 'resourceId', operator: '==', value: mergedId },
+    ]),
+    activityLogService.find([
+      { field: 'metadata.candidateId', operator: '==', value: mergedId },
+    ]),
+  ]);
+  const logIds = new Set<string>();
+  for (const log of directLogs) {
+    await activityLogService.update(log.id, {
+      resourceId: survivorId,
+      'metadata.mergedFromCandidateId': mergedId,
+    } as any);
+    logIds.add(log.id);
+  }
+  for (const log of relatedLogs) {
+    await activityLogService.update(log.id, {
+      'metadata.candidateId': survivorId,
+      'metadata.mergedFromCandidateId': mergedId,
+    } as any);
+    logIds.add(log.id);
+  }
+  moved[activityLogService.collectionName] = logIds.size;
+
+  // Talent pool memberships are keyed by candidate, so they are re-created for the survivor
+  const memberships = await talentPoolMemberService.findByCandidateId(mergedId);
+  for (const { id, ...membership } of memberships) {
+    const survivorMemberId = talentPoolMemberService.memberId(membership.poolId, survivorId);
+    if (!(await talentPoolMemberService.exists(survivorMemberId))) {
+      await talentPoolMemberService.createWithId(survivorMemberId, {
+        ...membership,
+        candidateId: survivorId,
+      });
+    }
+    await talentPoolMemberService.delete(id!);
+    await talentPoolService.update(membership.poolId, {
+      memberCount: await talentPoolMemberService.countByPoolId(membership.poolId),
+    });
+  }
+  moved[talentPoolMemberService.collectionName] = memberships.length;
+
+  return moved;
+};
+
+/**
+ * Re-point the duplicate's records, remove it and mark its merge record complete
+ * Every step can run again, so an interrupted merge is finished by repeating it.
+ */
+const finishMerge = async (merge: ICandidateMerge): Promise<MergeResult> => {
+  const { survivorId, mergedCandidateId: mergedId } = merge;
+
+  const moved = await repointDependents(mergedId, survivorId);
+  await candidateService.purge(mergedId);
+  await candidateMergeService.update(mergedId, { status: 'completed', moved });
+
+  logger.info(`Merged candidate ${mergedId} into ${survivorId}`);
+
+  return { survivorId, mergedCandidateId: mergedId, moved };
+};
+
+/**
+ * Merge a duplicate candidate into a surviving record
+ * - Survivor keeps its own values; blank fields are filled from the duplicate
+ * - Job links, applications, tags, skills and email addresses are combined
+ * - Applications, interviews, emails, messages and activity are re-pointed
+ * - The duplicate is removed and a merge record keeps its snapshot and redirects its ID
+ * The survivor update and the merge record (status in_progress) are written in
+ * one transaction; merging the same pair again resumes an interrupted merge.
+ */
+export const mergeCandidates = async (
+  survivorId: string,
+  mergedId: string,
+  options: { mergedBy?: string; expectedRevision?: number } = {}
+): Promise<MergeResult> => {
+  if (survivorId === mergedId) {
+    throw new BadRequestError('A candidate cannot be merged into itself');
+  }
+
+  const pending = await candidateMergeService.findById(mergedId);
+  if (pending?.status === 'in_progress') {
+    if (pending.survivorId !== survivorId) {
+      throw new ConflictError(
+        `Candidate ${mergedId} is already being merged into ${pending.survivorId}`
+      );
+    }
+    logger.warn(`Resuming interrupted merge of candidate ${mergedId} into ${survivorId}`);
+    return finishMerge(pending);
+  }
+
+  const [survivor, merged] = await Promise.all([
+    candidateService.findById(survivorId),
+    candidateService.findById(mergedId),
+  ]);
+  if (!survivor) {
+    throw new NotFoundError('Candidate not found');
+  }
+  if (!merged) {
+    throw new NotFoundError('Duplicate candidate not found');
+  }
+
+  const updates: Partial<ICandidate> & Record<string, unknown> = {
+    jobIds: union(survivor.jobIds, merged.jobIds),
+    applicationIds: union(survivor.applicationIds, merged.applicationIds),
+    jobApplications: mergeJobApplications(survivor, merged),
+    tags: union(survivor.tags, merged.tags),
+    skills: union(
+      survivor.skills,
+      (merged.skills || []).filter(
+        (skill) =>
+          !(survivor.skills || []).some((own) => own.toLowerCase() === skill.toLowerCase())
+      )
+    ),
+    alternateEmails: union(survivor.alternateEmails, [merged.email], merged.alternateEmails)
+      .map((email) => email.toLowerCase())
+      .filter((email) => email !== survivor.email.toLowerCase()),
+    mergedCandidateIds: union(survivor.mergedCandidateIds, [mergedId], merged.mergedCandidateIds),
+    talentPoolIds: union(survivor.talentPoolIds, merged.talentPoolIds),
+  };
+  updates.inTalentPool = updates.talentPoolIds!.length > 0 || survivor.inTalentPool === true;
+
+  FILLABLE_FIELDS.forEach((field) => {
+    const survivorValue = (survivor as any)[field];
+    const mergedValue = (merged as any)[field];
+    if (isBlank(survivorValue) && !isBlank(mergedValue)) {
+      updates[field] = mergedValue;
+    }
+  });
+  if (updates.currentPipelineStageId) {
+    updates.stageEnteredAt = merged.stageEnteredAt || merged.createdAt || new Date();
+  }
+
+  const survivorNotes = (survivor as any).notes;
+  const mergedNotes = (merged as any).notes;
+  if (mergedNotes && mergedNotes !== survivorNotes) {
+    updates.notes = survivorNotes ? `${survivorNotes}\n\n${mergedNotes}` : mergedNotes;
+  }
+
+  const { score, reasons } = scoreCandidatePair(survivor, merged);
+  const merge: ICandidateMerge = {
+    mergedCandidateId: mergedId,
+    survivorId,
+    mergedBy: options.mergedBy,
+    mergedAt: new Date(),
+    score,
+    reasons,
+    snapshot: merged,
+    moved: {},
+  };
+
+  // Revision check first so a concurrent edit aborts the merge before anything moves
+  await candidateService.runTransaction(async (transaction) => {
+    const writeSurvivor = await candidateService.prepareUpdate(transaction, survivorId, updates, {
+      expectedRevision: options.expectedRevision ?? survivor.revision ?? 0,
+      changedBy: options.mergedBy,
+    });
+    const writeMerge = await candidateMergeService.prepareStart(transaction, merge);
+    writeSurvivor();
+    writeMerge();
+  });
+  // The transaction bypasses candidateService.update, which keeps the index in sync
+  await candidateService.syncSearchIndex(survivorId);
+
+  return finishMerge(merge);
+};
@@ -0,0 +1,671 @@
+/**
+ * Candidate Import Service
+ * Column mapping, validation and background creation of candidates from spreadsheets
+ */
+
+import {
+  candidateIdentityKeyService,
+  candidateImportService,
+  candidateService,
+  jobService,
+  pipelineService,
+} from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { ICandidateImport, ICandidateImportRowError } from './firestore/candidateImport.service';
+import { ICustomFieldDefinition } from './firestore/customFieldDefinition.service';
+import { IJob } from './firestore/job.service';
+import { IPipeline, IPipelineStage } from './firestore/pipeline.service';
+import { getCustomFieldDefinitions, resolveCustomFields } from './customFields.service';
+import { logActivity } from './activity.service';
+import { ImportCandidateRow, importCandidateRowSchema } from '../types/candidate.types';
+import { normalizeEmail } from '../utils/candidateIdentity';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { SpreadsheetData } from '../utils/spreadsheet';
+import logger from '../utils/logger';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// Error details kept on an import record or returned by a dry run
+const MAX_REPORTED_ROW_ERRORS = 500;
+
+// Rows processed between progress updates of the import record
+const PROGRESS_INTERVAL = 25;
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+/**
+ * Candidate fields a spreadsheet column can be mapped to, with the header
+ * spellings recognised by the automatic mapping (compared without case,
+ * spaces or punctuation). `fullName` is split into first and last name.
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'forename'],
+  lastName: ['lastname', 'last', 'surname', 'familyname'],
+  fullName: ['name', 'fullname', 'candidatename', 'candidate'],
+  email: ['email', 'emailaddress', 'mail', 'email1', 'primaryemail'],
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilenumber', 'cell', 'telephone', 'tel'],
+  resumeUrl: ['resume', 'resumeurl', 'resumelink', 'cv', 'cvurl', 'cvlink'],
+  location: ['location', 'city', 'address'],
+  currentTitle: ['title', 'jobtitle', 'currenttitle', 'position', 'role'],
+  currentCompany: ['company', 'currentcompany', 'employer', 'currentemployer'],
+  linkedinUrl: ['linkedin', 'linkedinurl', 'linkedinprofile'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+  status: ['status'],
+  tags: ['tags', 'tag', 'labels'],
+  skills: ['skills', 'skill', 'keyskills'],
+};
+
+export const IMPORT_FIELDS = Object.keys(FIELD_ALIASES);
+
+export type ColumnMapping = Record<string, string | null>;
+
+export interface ImportTarget {
+  job: IJob & { id: string };
+  pipeline: IPipeline | null;
+  stage: IPipelineStage | null;
+}
+
+interface PreparedRow {
+  row: number;
+  input?: ImportCandidateRow & { customFields?: Record<string, unknown> };
+  errors: string[];
+}
+
+export interface ImportDryRunResult {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  toCreate: number;
+  toAttach: number;
+  toSkip: number;
+  existingMatches: Array<{ row: number; candidateId: string; action: 'attach' | 'skip' }>;
+  rowErrors: ICandidateImportRowError[];
+}
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Targets a column can map to, including the entity's custom fields
+ */
+export const importTargetFields = (definitions: ICustomFieldDefinition[]): string[] => [
+  ...IMPORT_FIELDS,
+  ...definitions.map((definition) => `${CUSTOM_FIELD_PREFIX}${definition.key}`),
+];
+
+/**
+ * Map spreadsheet columns to candidate fields by their headers
+ * Each field is taken by the first matching column; unmatched columns map to null.
+ */
+export const detectColumnMapping = (
+  headers: string[],
+  definitions: ICustomFieldDefinition[]
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  headers.forEach((header) => {
+    const normalized = normalizeHeader(header);
+    const definition = definitions.find(
+      (candidate) =>
+        normalizeHeader(candidate.key) === normalized ||
+        normalizeHeader(candidate.label) === normalized
+    );
+    const field = definition
+      ? `${CUSTOM_FIELD_PREFIX}${definition.key}`
+      : IMPORT_FIELDS.find((name) => FIELD_ALIASES[name].includes(normalized));
+
+    if (field && !used.has(field)) {
+      mapping[header] = field;
+      used.add(field);
+    } else {
+      mapping[header] = null;
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Parse a mapping sent by the client (JSON of column -> field or null)
+ */
+export const parseColumnMapping = (
+  json: string,
+  headers: string[],
+  definitions: ICustomFieldDefinition[]
+): ColumnMapping => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new BadRequestError('Column mapping must be a JSON object');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new BadRequestError('Column mapping must be a JSON object');
+  }
+
+  const targets = new Set(importTargetFields(definitions));
+  const used = new Set<string>();
+  const mapping: ColumnMapping = Object.fromEntries(headers.map((header) => [header, null]));
+
+  Object.entries(parsed as Record<string, unknown>).forEach(([column, field]) => {
+    if (!headers.includes(column)) {
+      throw new BadRequestError(`Column "${column}" is not in the file`);
+    }
+    if (field === null || field === '') return;
+    if (typeof field !== 'string' || !targets.has(field)) {
+      throw new BadRequestError(`Unknown import field "${String(field)}" for column "${column}"`);
+    }
+    if (used.has(field)) {
+      throw new BadRequestError(`Field "${field}" is mapped to more than one column`);
+    }
+    used.add(field);
+    mapping[column] = field;
+  });
+
+  return mapping;
+};
+
+/**
+ * Refuse mappings that cannot produce a valid candidate
+ */
+export const assertMappingIsImportable = (mapping: ColumnMapping): void => {
+  const fields = new Set(Object.values(mapping));
+  if (!fields.has('email')) {
+    throw new BadRequestError('An email column must be mapped');
+  }
+  if (!fields.has('fullName') && !(fields.has('firstName') && fields.has('lastName'))) {
+    throw new BadRequestError('Map a full name column or both first and last name columns');
+  }
+};
+
+/**
+ * Resolve the job, pipeline and stage imported candidates are attached to
+ * Without pipelineId the job's pipeline is used; without stageId its first active stage.
+ */
+export const resolveImportTarget = async (options: {
+  jobId: string;
+  pipelineId?: string;
+  stageId?: string;
+}): Promise<ImportTarget> => {
+  const job = await jobService.findById(options.jobId);
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  let pipeline: IPipeline | null = null;
+  if (options.pipelineId) {
+    pipeline = await pipelineService.findById(options.pipelineId);
+    if (!pipeline) {
+      throw new NotFoundError('Pipeline not found');
+    }
+    if (pipeline.jobId && pipeline.jobId !== job.id) {
+      throw new BadRequestError('Pipeline belongs to a different job');
+    }
+  } else {
+    pipeline = await pipelineService.findByJobId(job.id!);
+  }
+
+  if (options.stageId && !pipeline) {
+    throw new BadRequestError('The job has no pipeline to place candidates in');
+  }
+
+  const stages = [...(pipeline?.stages || [])].sort((a, b) => a.order - b.order);
+  const stage = options.stageId
+    ? stages.find((candidate) => candidate.id === options.stageId)
+    : stages.find((candidate) => candidate.isActive !== false);
+  if (options.stageId && !stage) {
+    throw new NotFoundError('Pipeline stage not found');
+  }
+
+  return { job: job as IJob & { id: string }, pipeline, stage: stage || null };
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(/[,;|]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Turn a spreadsheet row into candidate input using the column mapping
+ */
+const buildRowInput = (
+  row: Record<string, string>,
+  mapping: ColumnMapping,
+  jobId: string
+): Record<string, unknown> => {
+  const input: Record<string, unknown> = { jobId };
+  const customFields: Record<string, unknown> = {};
+
+  Object.entries(mapping).forEach(([column, field]) => {
+    const value = row[column];
+    if (!field || value === undefined || value === '') return;
+
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      customFields[field.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+    } else if (field === 'tags' || field === 'skills') {
+      input[field] = splitList(value);
+    } else if (field === 'email' || field === 'status') {
+      input[field] = value.toLowerCase();
+    } else {
+      input[field] = value;
+    }
+  });
+
+  // A full name column only fills the name parts that have no column of their own
+  if (typeof input.fullName === 'string') {
+    const [first, ...rest] = input.fullName.split(/\s+/);
+    input.firstName ??= first;
+    if (rest.length > 0) input.lastName ??= rest.join(' ');
+    delete input.fullName;
+  }
+  if (Object.keys(customFields).length > 0) {
+    input.customFields = customFields;
+  }
+
+  return input;
+};
+
+/**
+ * Validate every row and flag repeated emails within the file
+ * Row numbers are spreadsheet rows: the header is row 1.
+ */
+const prepareRows = async (
+  rows: Record<string, string>[],
+  mapping: ColumnMapping,
+  target: ImportTarget,
+  definitions: ICustomFieldDefinition[]
+): Promise<PreparedRow[]> => {
+  const firstRowByEmail = new Map<string, number>();
+  const prepared: PreparedRow[] = [];
+
+  for (const [index, row] of rows.entries()) {
+    const rowNumber = index + 2;
+    const raw = buildRowInput(row, mapping, target.job.id);
+    const errors: string[] = [];
+
+    const { customFields: rawCustomFields, ...fields } = raw;
+    const result = importCandidateRowSchema.safeParse(fields);
+    if (!result.success) {
+      result.error.errors.forEach((issue) =>
+        errors.push(issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+      );
+    }
+
+    let customFields: Record<string, unknown> | undefined;
+    try {
+      customFields = await resolveCustomFields(
+        'candidate',
+        rawCustomFields as Record<string, unknown> | undefined,
+        { isCreate: true, definitions }
+      );
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+
+    const email = typeof raw.email === 'string' ? raw.email : undefined;
+    if (email) {
+      const firstRow = firstRowByEmail.get(email);
+      if (firstRow) {
+        errors.push(`email: Duplicate of row ${firstRow}`);
+      } else {
+        firstRowByEmail.set(email, rowNumber);
+      }
+    }
+
+    prepared.push(
+      errors.length > 0 || !result.success
+        ? { row: rowNumber, errors }
+        : {
+            row: rowNumber,
+            input: {
+              ...result.data,
+              ...(customFields && Object.keys(customFields).length > 0 && { customFields }),
+            },
+            errors,
+          }
+    );
+  }
+
+  return prepared;
+};
+
+const clientIdsOf = (target: ImportTarget): string[] =>
+  target.job.clientId ? [target.job.clientId] : [];
+
+/**
+ * Validate a spreadsheet without writing anything
+ * Reports per-row errors and which rows would create, attach or skip a candidate.
+ */
+export const dryRunCandidateImport = async (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  target: ImportTarget
+): Promise<ImportDryRunResult> => {
+  const definitions = await getCustomFieldDefinitions('candidate', clientIdsOf(target));
+  const prepared = await prepareRows(data.rows, mapping, target, definitions);
+
+  const result: ImportDryRunResult = {
+    totalRows: prepared.length,
+    validRows: 0,
+    invalidRows: 0,
+    toCreate: 0,
+    toAttach: 0,
+    toSkip: 0,
+    existingMatches: [],
+    rowErrors: [],
+  };
+
+  for (const row of prepared) {
+    if (!row.input) {
+      result.invalidRows++;
+      if (result.rowErrors.length < MAX_REPORTED_ROW_ERRORS) {
+        result.rowErrors.push({ row: row.row, errors: row.errors });
+      }
+      continue;
+    }
+
+    result.validRows++;
+    const existing = await candidateService.findByEmail(row.input.email);
+    if (!existing) {
+      result.toCreate++;
+    } else if (existing.jobIds?.includes(target.job.id)) {
+      result.toSkip++;
+      result.existingMatches.push({ row: row.row, candidateId: existing.id, action: 'skip' });
+    } else {
+      result.toAttach++;
+      result.existingMatches.push({ row: row.row, candidateId: existing.id, action: 'attach' });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Job application entry for a candidate entering the job through an import
+ * Entering the target stage is recorded in stageHistory like any other move.
+ */
+const buildJobApplication = (
+  input: ImportCandidateRow,
+  target: ImportTarget,
+  createdBy?: string
+) => {
+  const now = new Date();
+  return {
+    jobId: target.job.id,
+    status: input.status || 'active',
+    appliedAt: now,
+    lastStatusChange: now,
+    ...(target.stage && {
+      currentStage: target.stage.id,
+      stageHistory: [
+        {
+          fromStageId: null,
+          fromStageName: 'None',
+          toStageId: target.stage.id,
+          toStageName: target.stage.name,
+          changedAt: now,
+          changedBy: createdBy || 'system',
+          notes: 'Candidate import',
+        },
+      ],
+    }),
+    emailIds: [],
+    emailsSent: 0,
+    emailsReceived: 0,
+  };
+};
+
+const OUTCOME_COUNTS = {
+  created: 'createdCount',
+  attached: 'attachedCount',
+  skipped: 'skippedCount',
+} as const;
+
+/**
+ * Add an existing candidate to the job and move it to the import stage
+ * Existing candidates keep their details.
+ */
+const attachToJob = async (
+  existing: ICandidate & { id: string },
+  input: NonNullable<PreparedRow['input']>,
+  target: ImportTarget,
+  createdBy?: string
+): Promise<'attached' | 'skipped'> => {
+  if (existing.jobIds?.includes(target.job.id)) {
+    return 'skipped';
+  }
+
+  await candidateService.update(
+    existing.id,
+    {
+      jobIds: [...(existing.jobIds || []), target.job.id],
+      jobApplications: [
+        ...(existing.jobApplications || []),
+        buildJobApplication(input, target, createdBy),
+      ],
+      ...(target.stage && {
+        currentStage: target.stage.id,
+        currentPipelineStageId: target.stage.id,
+        stageEnteredAt: new Date(),
+      }),
+    } as any,
+    { expectedRevision: existing.revision ?? 0, changedBy: createdBy }
+  );
+  return 'attached';
+};
+
+/**
+ * Create or attach one candidate; returns what happened to the row
+ * A new candidate first claims its email's identity key, so when two imports
+ * carry the same address (or an alias of it) only one creates a candidate and
+ * the other attaches to it.
+ */
+const importRow = async (
+  input: NonNullable<PreparedRow['input']>,
+  target: ImportTarget,
+  createdBy?: string
+): Promise<'created' | 'attached' | 'skipped'> => {
+  const existing = await candidateService.findByEmail(input.email);
+  if (existing) {
+    return attachToJob(existing, input, target, createdBy);
+  }
+
+  const key = `email:${normalizeEmail(input.email) || input.email.toLowerCase()}`;
+  const keyId = candidateIdentityKeyService.keyId(key);
+  const candidateId = candidateService.newId();
+  const claimed = await candidateIdentityKeyService.createIfAbsent(keyId, {
+    key,
+    candidateIds: [candidateId],
+    candidateCount: 1,
+  });
+
+  if (!claimed) {
+    const holders = await Promise.all(
+      ((await candidateIdentityKeyService.findById(keyId))?.candidateIds || []).map((id) =>
+        candidateService.findById(id)
+      )
+    );
+    const holder = holders.find((candidate) => candidate !== null);
+    if (!holder) {
+      throw new ConflictError('A candidate with this email is being created right now; import the row again');
+    }
+    return attachToJob(holder, input, target, createdBy);
+  }
+
+  const { jobId: _jobId, ...fields } = input;
+  try {
+    await candidateService.createWithId(candidateId, {
+      ...fields,
+      status: input.status || 'active',
+      source: 'import',
+      jobIds: [target.job.id],
+      jobApplications: [buildJobApplication(input, target, createdBy)],
+      ...(target.stage && {
+        currentStage: target.stage.id,
+        currentPipelineStageId: target.stage.id,
+      }),
+      createdBy,
+    } as any);
+  } catch (error) {
+    // Give up the claim so the row can be imported again
+    await candidateIdentityKeyService.syncCandidate(candidateId, [key], []);
+    throw error;
+  }
+  return 'created';
+};
+
+/**
+ * Create an import record and process its rows in the background
+ * Progress is written to the record; poll it with candidateImportService.findById.
+ */
+export const startCandidateImport = async (options: {
+  fileName: string;
+  data: SpreadsheetData;
+  mapping: ColumnMapping;
+  target: ImportTarget;
+  createdBy?: string;
+}): Promise<ICandidateImport> => {
+  const { fileName, data, mapping, target, createdBy } = options;
+
+  const importId = await candidateImportService.create({
+    fileName,
+    format: data.format,
+    mapping,
+    jobId: target.job.id,
+    pipelineId: target.pipeline?.id,
+    stageId: target.stage?.id,
+    status: 'queued',
+    totalRows: data.rows.length,
+    processedRows: 0,
+    createdCount: 0,
+    attachedCount: 0,
+    skippedCount: 0,
+    errorCount: 0,
+    rowErrors: [],
+    createdBy,
+  });
+
+  setImmediate(() => {
+    runCandidateImport(importId, data, mapping, target, createdBy).catch((error) =>
+      logger.error(`Candidate import ${importId} crashed:`, error)
+    );
+  });
+
+  return (await candidateImportService.findById(importId))!;
+};
+
+/**
+ * Process the rows of an import, updating its progress as it goes
+ */
+const runCandidateImport = async (
+  importId: string,
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  target: ImportTarget,
+  createdBy?: string
+): Promise<void> => {
+  const counts = { createdCount: 0, attachedCount: 0, skippedCount: 0, errorCount: 0 };
+  const rowErrors: ICandidateImportRowError[] = [];
+  const recordError = (row: number, errors: string[]) => {
+    counts.errorCount++;
+    if (rowErrors.length < MAX_REPORTED_ROW_ERRORS) rowErrors.push({ row, errors });
+  };
+
+  try {
+    await candidateImportService.update(importId, { status: 'running', startedAt: new Date() });
+
+    const definitions = await getCustomFieldDefinitions('candidate', clientIdsOf(target));
+    const prepared = await prepareRows(data.rows, mapping, target, definitions);
+
+    for (const [index, row] of prepared.entries()) {
+      if (!row.input) {
+        recordError(row.row, row.errors);
+      } else {
+        try {
+          const outcome = await importRow(row.input, target, createdBy);
+          counts[OUTCOME_COUNTS[outcome]]++;
+        } catch (error: any) {
+          logger.error(`Candidate import ${importId} row ${row.row} failed:`, error);
+          recordError(row.row, [error.message || 'Failed to import row']);
+        }
+      }
+
+      const processedRows = index + 1;
+      if (processedRows % PROGRESS_INTERVAL === 0 && processedRows < prepared.length) {
+        await candidateImportService.update(importId, { processedRows, ...counts, rowErrors });
+      }
+    }
+
+    await candidateImportService.update(importId, {
+      status: 'completed',
+      processedRows: prepared.length,
+      ...counts,
+      rowErrors,
+      completedAt: new Date(),
+    });
+
+    logger.info(
+      `Candidate import ${importId} for job ${target.job.title}: ${counts.createdCount} created, ${counts.attachedCount} attached, ${counts.skippedCount} skipped, ${counts.errorCount} errors`
+    );
+
+    if (createdBy) {
+      logActivity({
+        userId: createdBy,
+        action: 'candidates_imported',
+        resourceType: 'job',
+        resourceId: target.job.id,
+        resourceName: target.job.title,
+        metadata: { importId, format: data.format, ...counts },
+      }).catch((err) => logger.error('Failed to log activity:', err));
+    }
+  } catch (error: any) {
+    logger.error(`Candidate import ${importId} failed:`, error);
+    await candidateImportService.update(importId, {
+      status: 'failed',
+      ...counts,
+      rowErrors,
+      error: error.message || 'Import failed',
+      completedAt: new Date(),
+    });
+  }
+};
+
+/**
+ * Fail imports that stopped making progress (the server restarted mid-run)
+ * The spreadsheet is only held in memory while an import runs, so an
+ * interrupted import cannot be resumed; uploading the file again skips the
+ * rows that were already imported. Returns the number of imports failed.
+ */
+export const failStaleCandidateImports = async (staleMinutes: number): Promise<number> => {
+  const cutoff = Date.now() - staleMinutes * 60 * 1000;
+  const unfinished = await candidateImportService.find([
+    { field: 'status', operator: 'in', value: ['queued', 'running'] },
+  ]);
+
+  let failed = 0;
+  for (const record of unfinished) {
+    const lastProgress = record.updatedAt || record.createdAt;
+    if (lastProgress && new Date(lastProgress).getTime() > cutoff) continue;
+
+    try {
+      // A revision check keeps a still-running import's progress write from being lost
+      await candidateImportService.update(
+        record.id!,
+        {
+          status: 'failed',
+          error: `Import interrupted after ${record.processedRows} of ${record.totalRows} rows; upload the file again to import the rest`,
+          completedAt: new Date(),
+        },
+        { expectedRevision: record.revision ?? 1 }
+      );
+      failed++;
+      logger.warn(`Candidate import ${record.id} made no progress for ${staleMinutes} minutes, marked failed`);
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+    }
+  }
+
+  return failed;
+};
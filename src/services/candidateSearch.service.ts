@@ -0,0 +1,440 @@
+/**
+ * Candidate Search Service
+ * Ranked full-text search over the candidate search index
+ */
+
+import { FieldPath } from 'firebase-admin/firestore';
+import { candidateService, ICandidate } from './firestore';
+import { QueryCondition } from './firestore/base.service';
+import {
+  candidateSearchIndexService,
+  ICandidateSearchEntry,
+} from './firestore/candidateSearchIndex.service';
+import {
+  parseSearchQuery,
+  PREFIX_FIELDS,
+  prefixKey,
+  prefixWords,
+  SEARCH_FIELDS,
+  SearchField,
+  SearchNode,
+  tokenize,
+} from '../utils/searchQuery';
+import { BadRequestError } from '../utils/errors';
+import { escapeHtml } from '../utils/helpers';
+import logger from '../utils/logger';
+
+export interface CandidateSearchOptions {
+  page?: number;
+  limit?: number;
+  /** Only match candidates assigned to this user (RBAC) */
+  assignedTo?: string;
+}
+
+export interface CandidateSearchHit {
+  candidate: ICandidate & { id: string };
+  score: number;
+  highlights: Partial<Record<SearchField, string[]>>;
+}
+
+type Leaf = Extract<SearchNode, { type: 'term' } | { type: 'phrase' }>;
+
+interface PreparedEntry {
+  entry: ICandidateSearchEntry & { id: string };
+  tokens: Record<SearchField, string[]>;
+}
+
+// Matches in short, specific fields count for more than a hit somewhere in the resume
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  email: 4,
+  title: 4,
+  company: 3,
+  skill: 3,
+  experience: 1.5,
+  education: 1.5,
+  resume: 1,
+};
+
+// Firestore limit for array-contains-any
+const MAX_NARROWING_TERMS = 30;
+// Index entries read for a query that cannot be narrowed by its terms
+const MAX_UNNARROWED_ENTRIES = 2000;
+// Most candidates a list or export search matches
+const MAX_SEARCH_MATCHES = 1000;
+// IDs per `in` query; 10 leaves room for an OR filter within Firestore's 30 disjunctions
+const IDS_PER_QUERY = 10;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_LENGTH = 160;
+const MAX_SNIPPETS_PER_FIELD = 2;
+
+/**
+ * Terms of which at least one must appear in any match, or null if the query
+ * cannot be narrowed that way (negations, prefix terms outside PREFIX_FIELDS)
+ */
+function narrowingTerms(node: SearchNode): string[] | null {
+  switch (node.type) {
+    case 'term':
+      if (!node.prefix) return [node.value];
+      return node.field && PREFIX_FIELDS.includes(node.field) ? [prefixKey(node.value)] : null;
+    case 'phrase':
+      return [node.tokens.reduce((a, b) => (b.length > a.length ? b : a))];
+    case 'and': {
+      const options = node.children
+        .map(narrowingTerms)
+        .filter((terms): terms is string[] => terms !== null);
+      return options.length > 0
+        ? options.reduce((a, b) => (b.length < a.length ? b : a))
+        : null;
+    }
+    case 'or': {
+      const union = new Set<string>();
+      for (const child of node.children) {
+        const terms = narrowingTerms(child);
+        if (!terms) return null;
+        terms.forEach((term) => union.add(term));
+      }
+      return union.size <= MAX_NARROWING_TERMS ? [...union] : null;
+    }
+    case 'not':
+      return null;
+  }
+}
+
+/**
+ * Term and phrase nodes that contribute to ranking (everything not negated)
+ */
+function positiveLeaves(node: SearchNode): Leaf[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveLeaves);
+    case 'not':
+      return [];
+  }
+}
+
+/**
+ * Number of times a term or phrase occurs in a token list
+ */
+function countOccurrences(leaf: Leaf, tokens: string[]): number {
+  let count = 0;
+
+  if (leaf.type === 'term') {
+    for (const token of tokens) {
+      if (
+        leaf.prefix
+          ? prefixWords(token).some((word) => word.startsWith(leaf.value))
+          : token === leaf.value
+      ) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  for (let i = 0; i + leaf.tokens.length <= tokens.length; i++) {
+    if (leaf.tokens.every((token, offset) => tokens[i + offset] === token)) count++;
+  }
+  return count;
+}
+
+function matches(node: SearchNode, prepared: PreparedEntry): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase': {
+      const fields = node.field ? [node.field] : SEARCH_FIELDS;
+      return fields.some((field) => countOccurrences(node, prepared.tokens[field]) > 0);
+    }
+    case 'and':
+      return node.children.every((child) => matches(child, prepared));
+    case 'or':
+      return node.children.some((child) => matches(child, prepared));
+    case 'not':
+      return !matches(node.child, prepared);
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex matching a term or phrase in original (non-normalized) field text
+ */
+function leafPattern(leaf: Leaf): RegExp {
+  const body =
+    leaf.type === 'term'
+      ? escapeRegExp(leaf.value) + (leaf.prefix ? '[a-z0-9+#.]*' : '')
+      : leaf.tokens.map(escapeRegExp).join('[^a-z0-9+#]+');
+  return new RegExp(`(?<![a-z0-9])${body}(?![a-z0-9+#])`, 'gi');
+}
+
+/**
+ * Build highlighted snippets (matches wrapped in <mark>) for one field
+ */
+function buildSnippets(text: string, leaves: Leaf[]): string[] {
+  const spans: Array<[number, number]> = [];
+  leaves.forEach((leaf) => {
+    for (const match of text.matchAll(leafPattern(leaf))) {
+      spans.push([match.index!, match.index! + match[0].length]);
+    }
+  });
+  if (spans.length === 0) return [];
+  spans.sort((a, b) => a[0] - b[0]);
+
+  const snippets: string[] = [];
+  let windowEnd = -1;
+
+  for (const [start] of spans) {
+    if (snippets.length >= MAX_SNIPPETS_PER_FIELD) break;
+    if (start < windowEnd) continue;
+
+    let from = Math.max(0, start - SNIPPET_LENGTH / 4);
+    if (from > 0) from = text.indexOf(' ', from) + 1 || from;
+    const to = Math.min(text.length, from + SNIPPET_LENGTH);
+    windowEnd = to;
+
+    let snippet = '';
+    let cursor = from;
+    spans
+      .filter(([s, e]) => s >= cursor && e <= to)
+      .forEach(([s, e]) => {
+        if (s < cursor) return;
+        snippet += escapeHtml(text.slice(cursor, s)) + `<mark>${escapeHtml(text.slice(s, e))}</mark>`;
+        cursor = e;
+      });
+    snippet += escapeHtml(text.slice(cursor, to));
+
+    snippets.push(
+      `${from > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${to < text.length ? '…' : ''}`
+    );
+  }
+
+  return snippets;
+}
+
+/**
+ * Load index entries that could match the query
+ */
+async function loadCandidatePool(
+  root: SearchNode,
+  assignedTo?: string
+): Promise<PreparedEntry[]> {
+  const filters: QueryCondition[] = [];
+  if (assignedTo) {
+    filters.push({ field: 'assignedTo', operator: '==', value: assignedTo });
+  }
+
+  const terms = narrowingTerms(root);
+  if (terms && terms.length === 1) {
+    filters.push({ field: 'terms', operator: 'array-contains', value: terms[0] });
+  } else if (terms) {
+    filters.push({ field: 'terms', operator: 'array-contains-any', value: terms });
+  } else {
+    logger.warn(`Candidate search query cannot be narrowed, scanning up to ${MAX_UNNARROWED_ENTRIES} index entries`);
+  }
+
+  const entries = await candidateSearchIndexService.find(
+    filters,
+    terms ? undefined : { limit: MAX_UNNARROWED_ENTRIES }
+  );
+  return entries.map((entry) => {
+    const tokens = {} as Record<SearchField, string[]>;
+    SEARCH_FIELDS.forEach((field) => {
+      tokens[field] = tokenize(entry.fields?.[field] || '');
+    });
+    return { entry, tokens };
+  });
+}
+
+/**
+ * Rank matching entries with BM25, weighting fields by FIELD_WEIGHTS
+ */
+async function rank(
+  matched: PreparedEntry[],
+  leaves: Leaf[],
+  pool: PreparedEntry[]
+): Promise<Array<{ prepared: PreparedEntry; score: number }>> {
+  // Document frequencies come from the whole index so rare terms outrank common ones
+  const total = await candidateSearchIndexService.count();
+  const documentFrequency = await Promise.all(
+    leaves.map(async (leaf) => {
+      if (leaf.type === 'term' && !leaf.prefix) {
+        return candidateSearchIndexService.count([
+          { field: 'terms', operator: 'array-contains', value: leaf.value },
+        ]);
+      }
+      // Prefix terms and phrases: estimate from the entries we already loaded
+      return pool.filter((prepared) => matches(leaf, prepared)).length;
+    })
+  );
+
+  const averageLength = {} as Record<SearchField, number>;
+  SEARCH_FIELDS.forEach((field) => {
+    const sum = pool.reduce((acc, prepared) => acc + prepared.tokens[field].length, 0);
+    averageLength[field] = sum / Math.max(pool.length, 1) || 1;
+  });
+
+  return matched.map((prepared) => {
+    let score = 0;
+
+    leaves.forEach((leaf, index) => {
+      const df = Math.max(documentFrequency[index], 1);
+      const idf = Math.log(1 + (Math.max(total, df) - df + 0.5) / (df + 0.5));
+      const fields = leaf.field ? [leaf.field] : SEARCH_FIELDS;
+
+      fields.forEach((field) => {
+        const tf = countOccurrences(leaf, prepared.tokens[field]);
+        if (tf === 0) return;
+        const lengthRatio = prepared.tokens[field].length / averageLength[field];
+        score +=
+          idf *
+          FIELD_WEIGHTS[field] *
+          ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthRatio)));
+      });
+    });
+
+    return { prepared, score };
+  });
+}
+
+/**
+ * Run a ranked search and return one page of hits
+ */
+export const searchCandidates = async (
+  query: string,
+  options: CandidateSearchOptions = {}
+): Promise<{ hits: CandidateSearchHit[]; total: number }> => {
+  const page = options.page || 1;
+  const limit = options.limit || 10;
+  const root = parseSearchQuery(query);
+  const leaves = positiveLeaves(root);
+
+  const pool = await loadCandidatePool(root, options.assignedTo);
+  const matched = pool.filter((prepared) => matches(root, prepared));
+  const ranked = (await rank(matched, leaves, pool)).sort((a, b) => b.score - a.score);
+
+  const pageEntries = ranked.slice((page - 1) * limit, page * limit);
+  const candidates = await Promise.all(
+    pageEntries.map(({ prepared }) => candidateService.findById(prepared.entry.candidateId))
+  );
+
+  const hits: CandidateSearchHit[] = [];
+  pageEntries.forEach(({ prepared, score }, index) => {
+    const candidate = candidates[index];
+    if (!candidate) {
+      // Stale entry (candidate removed outside the service) - repair it in the background
+      candidateService.syncSearchIndex(prepared.entry.candidateId);
+      return;
+    }
+
+    const highlights: Partial<Record<SearchField, string[]>> = {};
+    SEARCH_FIELDS.forEach((field) => {
+      const fieldLeaves = leaves.filter(
+        (leaf) => (!leaf.field || leaf.field === field) && countOccurrences(leaf, prepared.tokens[field]) > 0
+      );
+      if (fieldLeaves.length > 0) {
+        const snippets = buildSnippets(prepared.entry.fields[field], fieldLeaves);
+        if (snippets.length > 0) highlights[field] = snippets;
+      }
+    });
+
+    hits.push({ candidate, score: Math.round(score * 1000) / 1000, highlights });
+  });
+
+  return { hits, total: ranked.length };
+};
+
+/**
+ * Let the plain words of a list search also match the start of a name or
+ * email word, as the list search box always has ("joh" finds John)
+ */
+function withNamePrefixes(node: SearchNode): SearchNode {
+  switch (node.type) {
+    case 'term':
+      if (node.field || node.prefix) return node;
+      return {
+        type: 'or',
+        children: [
+          node,
+          ...PREFIX_FIELDS.map((field): SearchNode => ({ type: 'term', field, value: node.value, prefix: true })),
+        ],
+      };
+    case 'phrase':
+      return node;
+    case 'and':
+    case 'or':
+      return { ...node, children: node.children.map(withNamePrefixes) };
+    case 'not':
+      return { ...node, child: withNamePrefixes(node.child) };
+  }
+}
+
+/**
+ * Parse a query typed into a list's search box
+ * Input that is not valid query syntax (a stray quote or parenthesis) is
+ * matched as plain words instead of being rejected; null when nothing is left.
+ */
+function parseListQuery(query: string): SearchNode | null {
+  let root: SearchNode;
+  try {
+    root = parseSearchQuery(query);
+  } catch (error) {
+    if (!(error instanceof BadRequestError)) throw error;
+    const words = tokenize(query);
+    if (words.length === 0) return null;
+    const terms: SearchNode[] = words.map((value) => ({ type: 'term', value }));
+    root = terms.length === 1 ? terms[0] : { type: 'and', children: terms };
+  }
+  return withNamePrefixes(root);
+}
+
+/**
+ * IDs of candidates matching a search query (unranked), at most MAX_SEARCH_MATCHES
+ * With `lenient` (list search boxes), words also match the start of names and
+ * emails, and malformed queries fall back to a plain word match.
+ */
+export const findMatchingCandidateIds = async (
+  query: string,
+  options: Pick<CandidateSearchOptions, 'assignedTo'> & { lenient?: boolean } = {}
+): Promise<Set<string>> => {
+  const root = options.lenient ? parseListQuery(query) : parseSearchQuery(query);
+  if (!root) return new Set();
+  const pool = await loadCandidatePool(root, options.assignedTo);
+
+  const ids = pool
+    .filter((prepared) => matches(root, prepared))
+    .map((prepared) => prepared.entry.candidateId);
+  if (ids.length > MAX_SEARCH_MATCHES) {
+    logger.warn(`Candidate search "${query}" matched ${ids.length} candidates, keeping ${MAX_SEARCH_MATCHES}`);
+  }
+  return new Set(ids.slice(0, MAX_SEARCH_MATCHES));
+};
+
+/**
+ * Candidates among the given IDs that also pass the filters
+ * Loads only those candidates, a few IDs per query, in no particular order.
+ */
+export const findCandidatesByIds = async (
+  ids: Iterable<string>,
+  filters: QueryCondition[] = []
+): Promise<Array<ICandidate & { id: string }>> => {
+  const all = [...ids];
+  const chunks: string[][] = [];
+  for (let i = 0; i < all.length; i += IDS_PER_QUERY) {
+    chunks.push(all.slice(i, i + IDS_PER_QUERY));
+  }
+
+  const results = await Promise.all(
+    chunks.map((chunk) =>
+      candidateService.find([
+        ...filters,
+        { field: FieldPath.documentId().toString(), operator: 'in', value: chunk },
+      ])
+    )
+  );
+  return results.flat();
+};
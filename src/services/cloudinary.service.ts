@@ -216,6 +216,23 @@ class CloudinaryService {
     }
   }
 
+  /**
+   * Delete file from Cloudinary by its delivery URL
+   * Returns false when the URL is not a Cloudinary upload URL
+   */
+  async deleteFileByUrl(url: string, resourceType: 'image' | 'raw' = 'raw'): Promise<boolean> {
+    // URL format: https://res.cloudinary.com/{cloud_name}/{resource_type}/upload/{version}/{public_id}.{format}
+    const urlParts = url.split('/');
+    const uploadIndex = urlParts.indexOf('upload');
+    if (uploadIndex === -1 || urlParts.length <= uploadIndex + 1) {
+      return false;
+    }
+
+    const publicId = urlParts.slice(uploadIndex + 2).join('/').split('.')[0];
+    await this.deleteFile(publicId, resourceType);
+    return true;
+  }
+
   /**
    * Get file URL from public ID
    */
@@ -0,0 +1,252 @@
+/**
+ * Custom Fields Service
+ * Validation, filtering and formatting of admin-defined custom field values
+ */
+
+import { customFieldDefinitionService, jobService } from './firestore';
+import { QueryCondition } from './firestore/base.service';
+import {
+  CustomFieldEntityType,
+  ICustomFieldDefinition,
+} from './firestore/customFieldDefinition.service';
+import { BadRequestError, ValidationError } from '../utils/errors';
+
+export type CustomFieldValue = string | number | boolean | Date | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+const MAX_TEXT_LENGTH = 5000;
+
+// Range operators accepted in list filters, e.g. ?cf[desired_salary][lte]=90000
+const RANGE_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const;
+
+/**
+ * Active definitions that apply to a record of the given clients
+ * Unscoped definitions always apply; without clientIds every definition is returned.
+ */
+export const getCustomFieldDefinitions = async (
+  entityType: CustomFieldEntityType,
+  clientIds?: string[]
+): Promise<ICustomFieldDefinition[]> => {
+  const definitions = await customFieldDefinitionService.findByEntityType(entityType, {
+    activeOnly: true,
+  });
+  if (!clientIds) return definitions;
+  return definitions.filter(
+    (definition) => !definition.clientId || clientIds.includes(definition.clientId)
+  );
+};
+
+/**
+ * Clients a candidate belongs to, through the jobs it applied for
+ */
+export const getCandidateClientIds = async (jobIds: string[] = []): Promise<string[]> => {
+  const jobs = await Promise.all(jobIds.map((jobId) => jobService.findById(jobId)));
+  return [
+    ...new Set(
+      jobs
+        .map((job) => job?.clientId)
+        .filter((clientId): clientId is string => typeof clientId === 'string')
+    ),
+  ];
+};
+
+/**
+ * Convert a raw value to the definition's type, or return an error message
+ */
+const coerceValue = (
+  definition: ICustomFieldDefinition,
+  raw: unknown
+): { value: CustomFieldValue } | { error: string } => {
+  switch (definition.type) {
+    case 'text': {
+      if (typeof raw !== 'string') return { error: 'must be text' };
+      if (raw.length > MAX_TEXT_LENGTH) {
+        return { error: `must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: raw.trim() };
+    }
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return { error: 'must be a number' };
+      }
+      return { value };
+    }
+    case 'date': {
+      const value = raw instanceof Date ? raw : typeof raw === 'string' ? new Date(raw) : null;
+      if (!value || isNaN(value.getTime())) return { error: 'must be a valid date' };
+      return { value };
+    }
+    case 'boolean': {
+      if (typeof raw === 'boolean') return { value: raw };
+      if (raw === 'true' || raw === 'false') return { value: raw === 'true' };
+      return { error: 'must be true or false' };
+    }
+    case 'url': {
+      if (typeof raw !== 'string') return { error: 'must be a URL' };
+      try {
+        const url = new URL(raw.trim());
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return { error: 'must be an http(s) URL' };
+        }
+        return { value: url.toString() };
+      } catch {
+        return { error: 'must be a URL' };
+      }
+    }
+    case 'select': {
+      if (typeof raw !== 'string' || !(definition.options || []).includes(raw)) {
+        return { error: `must be one of: ${(definition.options || []).join(', ')}` };
+      }
+      return { value: raw };
+    }
+    case 'multi_select': {
+      const values = Array.isArray(raw) ? raw : [raw];
+      const invalid = values.filter(
+        (value) => typeof value !== 'string' || !(definition.options || []).includes(value)
+      );
+      if (invalid.length > 0) {
+        return { error: `values must be from: ${(definition.options || []).join(', ')}` };
+      }
+      return { value: [...new Set(values as string[])] };
+    }
+  }
+};
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Validate custom field input and merge it into the record's current values
+ * - Keys must belong to an active definition that applies to the record
+ * - Values are converted to the field type (numbers, dates, booleans)
+ * - null removes a value
+ * - Required fields must have a value afterwards
+ *
+ * Returns the complete customFields map to store, or undefined when nothing changes.
+ * Pass `definitions` (from getCustomFieldDefinitions) to validate many records in a row.
+ */
+export const resolveCustomFields = async (
+  entityType: CustomFieldEntityType,
+  input: Record<string, unknown> | undefined,
+  options: {
+    clientIds?: string[];
+    existing?: CustomFieldValues;
+    isCreate?: boolean;
+    definitions?: ICustomFieldDefinition[];
+  } = {}
+): Promise<CustomFieldValues | undefined> => {
+  if (input === undefined && !options.isCreate) return undefined;
+
+  const definitions =
+    options.definitions ??
+    (await getCustomFieldDefinitions(entityType, options.clientIds || []));
+  const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+  const errors: string[] = [];
+  const values: CustomFieldValues = { ...options.existing };
+
+  Object.entries(input || {}).forEach(([key, raw]) => {
+    const definition = byKey.get(key);
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}" for ${entityType}`);
+      return;
+    }
+    if (raw === null) {
+      delete values[key];
+      return;
+    }
+    const result = coerceValue(definition, raw);
+    if ('error' in result) {
+      errors.push(`${definition.label} ${result.error}`);
+    } else {
+      values[key] = result.value;
+    }
+  });
+
+  definitions
+    .filter((definition) => definition.required && isBlank(values[definition.key]))
+    .forEach((definition) => errors.push(`${definition.label} is required`));
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid custom fields: ${errors.join('; ')}`);
+  }
+
+  return values;
+};
+
+/**
+ * Turn `cf` list query parameters into Firestore filters on customFields.<key>
+ * ?cf[visa_status]=H1B, ?cf[skills_tags]=go (contains), ?cf[notice_days][lte]=30
+ */
+export const buildCustomFieldFilters = async (
+  entityType: CustomFieldEntityType,
+  query: unknown
+): Promise<QueryCondition[]> => {
+  if (query === undefined) return [];
+  if (typeof query !== 'object' || query === null || Array.isArray(query)) {
+    throw new BadRequestError('Custom field filters must be given as cf[key]=value');
+  }
+
+  const definitions = await getCustomFieldDefinitions(entityType);
+  const filters: QueryCondition[] = [];
+
+  const coerceFilterValue = (definition: ICustomFieldDefinition, raw: unknown) => {
+    // A multi-select filter matches one option at a time
+    const asDefinition =
+      definition.type === 'multi_select' ? { ...definition, type: 'select' as const } : definition;
+    const result = coerceValue(asDefinition, raw);
+    if ('error' in result) {
+      throw new BadRequestError(`Custom field filter ${definition.key} ${result.error}`);
+    }
+    return result.value;
+  };
+
+  Object.entries(query as Record<string, unknown>).forEach(([key, condition]) => {
+    const definition = definitions.find((candidate) => candidate.key === key);
+    if (!definition) {
+      throw new BadRequestError(`Unknown custom field "${key}" for ${entityType}`);
+    }
+    const field = `customFields.${key}`;
+
+    if (condition && typeof condition === 'object' && !Array.isArray(condition)) {
+      if (definition.type !== 'number' && definition.type !== 'date') {
+        throw new BadRequestError(`Range filters are only supported on number and date fields`);
+      }
+      Object.entries(condition).forEach(([operator, raw]) => {
+        const firestoreOperator = RANGE_OPERATORS[operator as keyof typeof RANGE_OPERATORS];
+        if (!firestoreOperator) {
+          throw new BadRequestError(
+            `Unsupported custom field operator "${operator}". Use one of: ${Object.keys(RANGE_OPERATORS).join(', ')}`
+          );
+        }
+        filters.push({ field, operator: firestoreOperator, value: coerceFilterValue(definition, raw) });
+      });
+      return;
+    }
+
+    filters.push({
+      field,
+      operator: definition.type === 'multi_select' ? 'array-contains' : '==',
+      value: coerceFilterValue(definition, condition),
+    });
+  });
+
+  return filters;
+};
+
+/**
+ * Render a stored custom field value as plain text (for exports)
+ */
+export const formatCustomFieldValue = (value: unknown): string => {
+  if (isBlank(value)) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && value !== null && typeof (value as any).toDate === 'function') {
+    return (value as any).toDate().toISOString();
+  }
+  return String(value);
+};
@@ -22,6 +22,13 @@ export interface EmailOptions {
   html: string;
   text?: string;
   replyTo?: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
 }
 
 /**
@@ -40,6 +47,7 @@ export const sendEmail = async (options: EmailOptions): Promise<string | null> =
       html: options.html,
       text: options.text,
       replyTo: options.replyTo,
+      attachments: options.attachments,
     });
 
     if (error) {
@@ -266,6 +274,7 @@ export const sendInterviewNotificationEmail = async (options: {
   interviewerNames?: string[];
   isInstant?: boolean;
   companyName?: string;
+  attachments?: EmailAttachment[]; // e.g. the .ics invite
 }): Promise<string | null> => {
   const {
     candidateEmail,
@@ -280,6 +289,7 @@ export const sendInterviewNotificationEmail = async (options: {
     interviewerNames,
     isInstant,
     companyName,
+    attachments,
   } = options;
 
   const html = await render(
@@ -364,6 +374,7 @@ export const sendInterviewNotificationEmail = async (options: {
       : `Interview Scheduled - ${jobTitle}`,
     html,
     text,
+    attachments,
   });
 };
 
@@ -0,0 +1,388 @@
+/**
+ * Export Service
+ * Column catalogues for candidate, application and job exports, and a runner
+ * that streams filtered Firestore results page by page into an export file
+ */
+
+import { Response } from 'express';
+import {
+  candidateService,
+  clientService,
+  jobService,
+  pipelineService,
+} from './firestore';
+import { FirestoreBaseService, QueryCondition, QueryOptions } from './firestore/base.service';
+import { CustomFieldEntityType } from './firestore/customFieldDefinition.service';
+import { formatCustomFieldValue, getCustomFieldDefinitions } from './customFields.service';
+import { BadRequestError } from '../utils/errors';
+import {
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportFormat,
+  ExportValue,
+  createExportWriter,
+} from '../utils/exportWriter';
+import logger from '../utils/logger';
+
+// Documents read from Firestore per page while exporting
+const EXPORT_PAGE_SIZE = 500;
+
+/**
+ * Cached lookups for populated columns (job title, client name, stage name...)
+ * Jobs, clients and pipelines are few and kept for the whole export; candidates
+ * are only kept for the current page.
+ */
+export class ExportLookups {
+  private jobs = new Map<string, Promise<any>>();
+  private clients = new Map<string, Promise<any>>();
+  private candidates = new Map<string, Promise<any>>();
+  private stages: Promise<Map<string, string>> | null = null;
+  private pipelines: Promise<Map<string, string>> | null = null;
+
+  private cached<T>(cache: Map<string, Promise<T>>, id: string, load: () => Promise<T>) {
+    if (!cache.has(id)) {
+      cache.set(id, load().catch(() => null as T));
+    }
+    return cache.get(id)!;
+  }
+
+  job(id?: string) {
+    return id ? this.cached(this.jobs, id, () => jobService.findById(id)) : Promise.resolve(null);
+  }
+
+  client(id?: string) {
+    return id
+      ? this.cached(this.clients, id, () => clientService.findById(id))
+      : Promise.resolve(null);
+  }
+
+  candidate(id?: string) {
+    return id
+      ? this.cached(this.candidates, id, () => candidateService.findById(id))
+      : Promise.resolve(null);
+  }
+
+  private loadPipelines() {
+    const all = pipelineService.find([]);
+    this.stages = all.then(
+      (pipelines) =>
+        new Map(
+          pipelines.flatMap((pipeline) =>
+            (pipeline.stages || []).map((stage) => [stage.id, stage.name] as [string, string])
+          )
+        )
+    );
+    this.pipelines = all.then(
+      (pipelines) =>
+        new Map(pipelines.map((pipeline) => [pipeline.id!, pipeline.name] as [string, string]))
+    );
+  }
+
+  async stageName(id?: string): Promise<string | null> {
+    if (!id) return null;
+    if (!this.stages) this.loadPipelines();
+    return (await this.stages!).get(id) ?? 'Unknown Stage';
+  }
+
+  async pipelineName(id?: string): Promise<string | null> {
+    if (!id) return null;
+    if (!this.pipelines) this.loadPipelines();
+    return (await this.pipelines!).get(id) ?? null;
+  }
+
+  async clientNameOfJob(jobId?: string): Promise<string | null> {
+    const job = await this.job(jobId);
+    return ((await this.client(job?.clientId)) as any)?.companyName ?? null;
+  }
+
+  endPage() {
+    this.candidates.clear();
+  }
+}
+
+export interface ExportColumnDefinition<T = any> extends ExportColumn {
+  value: (record: T, lookups: ExportLookups) => ExportValue | Promise<ExportValue>;
+}
+
+const field =
+  (path: string) =>
+  (record: any): ExportValue => {
+    const value = path.split('.').reduce((current, key) => current?.[key], record);
+    if (Array.isArray(value)) return value.join(', ');
+    return value as ExportValue;
+  };
+
+const joinDistinct = (values: (string | null | undefined)[]): string =>
+  [...new Set(values.filter(Boolean))].join('; ');
+
+export const CANDIDATE_EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  { key: 'id', label: 'ID', value: field('id') },
+  { key: 'firstName', label: 'First Name', value: field('firstName') },
+  { key: 'lastName', label: 'Last Name', value: field('lastName') },
+  { key: 'email', label: 'Email', value: field('email') },
+  { key: 'phone', label: 'Phone', value: field('phone') },
+  { key: 'location', label: 'Location', value: field('location') },
+  { key: 'currentTitle', label: 'Current Title', value: field('currentTitle') },
+  { key: 'currentCompany', label: 'Current Company', value: field('currentCompany') },
+  { key: 'yearsOfExperience', label: 'Years of Experience', value: field('yearsOfExperience') },
+  { key: 'skills', label: 'Skills', value: field('skills') },
+  { key: 'tags', label: 'Tags', value: field('tags') },
+  { key: 'linkedinUrl', label: 'LinkedIn', value: field('linkedinUrl') },
+  { key: 'resumeUrl', label: 'Resume', value: field('resumeUrl') },
+  { key: 'status', label: 'Status', value: field('status') },
+  { key: 'source', label: 'Source', value: field('source') },
+  {
+    key: 'stageName',
+    label: 'Pipeline Stage',
+    value: (candidate, lookups) => lookups.stageName(candidate.currentPipelineStageId),
+  },
+  {
+    key: 'jobTitle',
+    label: 'Jobs',
+    value: async (candidate, lookups) =>
+      joinDistinct(
+        (await Promise.all((candidate.jobIds || []).map((id: string) => lookups.job(id)))).map(
+          (job) => job?.title
+        )
+      ),
+  },
+  {
+    key: 'clientName',
+    label: 'Clients',
+    value: async (candidate, lookups) =>
+      joinDistinct(
+        await Promise.all(
+          (candidate.jobIds || []).map((id: string) => lookups.clientNameOfJob(id))
+        )
+      ),
+  },
+  { key: 'aiScore', label: 'AI Score', value: field('aiScore.overallScore') },
+  { key: 'createdAt', label: 'Created At', value: field('createdAt') },
+  { key: 'updatedAt', label: 'Updated At', value: field('updatedAt') },
+];
+
+export const DEFAULT_CANDIDATE_EXPORT_COLUMNS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'currentTitle',
+  'status',
+  'stageName',
+  'jobTitle',
+  'clientName',
+  'aiScore',
+  'createdAt',
+];
+
+export const APPLICATION_EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  { key: 'id', label: 'ID', value: field('id') },
+  { key: 'firstName', label: 'First Name', value: field('firstName') },
+  { key: 'lastName', label: 'Last Name', value: field('lastName') },
+  { key: 'email', label: 'Email', value: field('email') },
+  { key: 'phone', label: 'Phone', value: field('phone') },
+  { key: 'currentTitle', label: 'Current Title', value: field('currentTitle') },
+  { key: 'currentCompany', label: 'Current Company', value: field('currentCompany') },
+  { key: 'yearsOfExperience', label: 'Years of Experience', value: field('yearsOfExperience') },
+  { key: 'status', label: 'Status', value: field('status') },
+  { key: 'source', label: 'Source', value: field('source') },
+  {
+    key: 'jobTitle',
+    label: 'Job',
+    value: async (application, lookups) => (await lookups.job(application.jobId))?.title,
+  },
+  {
+    key: 'clientName',
+    label: 'Client',
+    value: async (application, lookups) =>
+      application.clientId
+        ? ((await lookups.client(application.clientId)) as any)?.companyName
+        : lookups.clientNameOfJob(application.jobId),
+  },
+  {
+    key: 'stageName',
+    label: 'Pipeline Stage',
+    value: (application, lookups) => lookups.stageName(application.pipelineStageId),
+  },
+  {
+    key: 'aiScore',
+    label: 'AI Score',
+    value: async (application, lookups) =>
+      (await lookups.candidate(application.candidateId))?.aiScore?.overallScore,
+  },
+  { key: 'validationScore', label: 'Resume Validation Score', value: field('validationScore') },
+  { key: 'resumeUrl', label: 'Resume', value: field('resumeUrl') },
+  { key: 'appliedAt', label: 'Applied At', value: field('appliedAt') },
+  { key: 'reviewedAt', label: 'Reviewed At', value: field('reviewedAt') },
+  { key: 'createdAt', label: 'Created At', value: field('createdAt') },
+];
+
+export const DEFAULT_APPLICATION_EXPORT_COLUMNS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'status',
+  'source',
+  'jobTitle',
+  'clientName',
+  'aiScore',
+  'appliedAt',
+];
+
+export const JOB_EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  { key: 'id', label: 'ID', value: field('id') },
+  { key: 'title', label: 'Title', value: field('title') },
+  {
+    key: 'clientName',
+    label: 'Client',
+    value: async (job, lookups) => ((await lookups.client(job.clientId)) as any)?.companyName,
+  },
+  { key: 'status', label: 'Status', value: field('status') },
+  { key: 'priority', label: 'Priority', value: field('priority') },
+  { key: 'jobType', label: 'Job Type', value: field('jobType') },
+  { key: 'experienceLevel', label: 'Experience Level', value: field('experienceLevel') },
+  { key: 'location', label: 'Location', value: field('location') },
+  { key: 'locationType', label: 'Location Type', value: field('locationType') },
+  { key: 'openings', label: 'Openings', value: field('openings') },
+  { key: 'salaryMin', label: 'Salary Min', value: field('salaryRange.min') },
+  { key: 'salaryMax', label: 'Salary Max', value: field('salaryRange.max') },
+  { key: 'salaryCurrency', label: 'Salary Currency', value: field('salaryRange.currency') },
+  { key: 'skills', label: 'Skills', value: field('skills') },
+  {
+    key: 'pipelineName',
+    label: 'Pipeline',
+    value: (job, lookups) => lookups.pipelineName(job.pipelineId),
+  },
+  {
+    key: 'applicationCount',
+    label: 'Applications',
+    value: (job) => job.applicationIds?.length ?? 0,
+  },
+  { key: 'candidateCount', label: 'Candidates', value: (job) => job.candidateIds?.length ?? 0 },
+  { key: 'applicationDeadline', label: 'Application Deadline', value: field('applicationDeadline') },
+  { key: 'createdAt', label: 'Created At', value: field('createdAt') },
+];
+
+export const DEFAULT_JOB_EXPORT_COLUMNS = [
+  'title',
+  'clientName',
+  'status',
+  'priority',
+  'jobType',
+  'location',
+  'openings',
+  'applicationCount',
+  'createdAt',
+];
+
+/**
+ * Pick the requested columns (comma-separated keys) from a catalogue
+ * Custom fields of the entity are available as `customFields.<key>`.
+ */
+export const resolveExportColumns = async (
+  catalogue: ExportColumnDefinition[],
+  defaults: string[],
+  requested?: string,
+  customFieldEntity?: CustomFieldEntityType
+): Promise<ExportColumnDefinition[]> => {
+  const available = new Map(catalogue.map((column) => [column.key, column]));
+
+  if (customFieldEntity) {
+    const definitions = await getCustomFieldDefinitions(customFieldEntity);
+    definitions.forEach((definition) => {
+      const key = `customFields.${definition.key}`;
+      available.set(key, {
+        key,
+        label: definition.label,
+        value: (record) => formatCustomFieldValue(record.customFields?.[definition.key]),
+      });
+    });
+  }
+
+  const keys = requested
+    ? [...new Set(requested.split(',').map((key) => key.trim()).filter(Boolean))]
+    : defaults;
+  const unknown = keys.filter((key) => !available.has(key));
+  if (unknown.length > 0) {
+    throw new BadRequestError(
+      `Unknown export column(s): ${unknown.join(', ')}. Available: ${[...available.keys()].join(', ')}`
+    );
+  }
+  if (keys.length === 0) {
+    throw new BadRequestError('Select at least one column to export');
+  }
+
+  return keys.map((key) => available.get(key)!);
+};
+
+/**
+ * Stream every document matching the filters to the response
+ * Documents are read a page at a time; `include` drops documents that can't be
+ * filtered in Firestore (e.g. text search). `records` exports an already loaded
+ * (bounded) result instead of reading the collection. Once the first byte is
+ * sent errors can only be reported by aborting the download.
+ */
+export const streamExport = async <T extends Record<string, any>>(options: {
+  res: Response;
+  format: ExportFormat;
+  fileName: string;
+  columns: ExportColumnDefinition[];
+  service: FirestoreBaseService<T>;
+  filters: QueryCondition[];
+  orderBy: QueryOptions['orderBy'];
+  include?: (record: T & { id: string }) => boolean;
+  records?: Array<T & { id: string }>;
+}): Promise<number> => {
+  const { res, format, columns, service, filters, orderBy, include } = options;
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.status(200);
+  res.setHeader('Content-Type', contentType);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${options.fileName}-${date}.${extension}"`
+  );
+  res.setHeader('Cache-Control', 'no-store');
+
+  const lookups = new ExportLookups();
+  let exported = 0;
+
+  try {
+    const writer = await createExportWriter(format, res, columns, options.fileName);
+    let cursor: string | undefined;
+
+    do {
+      const page = options.records
+        ? { items: options.records, nextCursor: null }
+        : await service.findPage(filters, {
+            orderBy,
+            limit: EXPORT_PAGE_SIZE,
+            startAfter: cursor,
+          });
+      const records = include ? page.items.filter(include) : page.items;
+
+      const rows = await Promise.all(
+        records.map((record) =>
+          Promise.all(columns.map((column) => column.value(record, lookups)))
+        )
+      );
+      for (const row of rows) {
+        await writer.writeRow(row);
+      }
+
+      exported += records.length;
+      lookups.endPage();
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    await writer.end();
+    res.end();
+  } catch (error) {
+    logger.error(`Export of ${service.collectionName} failed after ${exported} rows:`, error);
+    res.destroy(error as Error);
+  }
+
+  return exported;
+};
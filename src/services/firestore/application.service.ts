@@ -1,6 +1,41 @@
-import { FirestoreBaseService } from "./base.service";
+import { FirestoreBaseService, SoftDeleteFields } from "./base.service";
 
-export interface IApplication {
+export type SourceChannel =
+  | "career_page"
+  | "job_board"
+  | "referral"
+  | "agency"
+  | "sourced"
+  | "email"
+  | "manual"
+  | "import"
+  | "other";
+
+/**
+ * Where an applicant came from, for source-of-hire reporting
+ * `source` records how an application entered the system; attribution
+ * records the channel behind it (which board, referrer, agency or inbox).
+ */
+export interface ISourceAttribution {
+  channel: SourceChannel;
+  detail?: string; // Job board, agency or campaign name
+  referrerId?: string; // Employee who referred the candidate
+  referrerName?: string;
+  agencyName?: string;
+  emailAccountId?: string; // Inbox an emailed application arrived in
+  utm?: {
+    source?: string;
+    medium?: string;
+    campaign?: string;
+    term?: string;
+    content?: string;
+  };
+  referrerUrl?: string;
+  landingUrl?: string;
+  capturedAt?: Date;
+}
+
+export interface IApplication extends SoftDeleteFields {
   id?: string;
   jobId?: string;
   clientId?: string;
@@ -63,6 +98,7 @@ export interface IApplication {
   sourceEmail?: string;
   sourceEmailAccountId?: string;
   sourceMessageId?: string; // Email message ID for deduplication
+  attribution?: ISourceAttribution;
   rawEmailBody?: string; // Raw text body of email if applied via email
   rawEmailBodyHtml?: string; // Raw HTML body of email if applied via email
   emailSubject?: string; // Email subject if applied via email
@@ -91,11 +127,12 @@ export interface IApplication {
   updatedBy?: string;
   createdAt: Date;
   updatedAt: Date;
+  revision?: number;
 }
 
 class ApplicationService extends FirestoreBaseService<IApplication> {
   constructor() {
-    super("applications");
+    super("applications", { versioned: true, softDelete: true });
   }
 
   /**
@@ -2,7 +2,9 @@ import {
   CollectionReference,
   DocumentReference,
   DocumentSnapshot,
+  FieldPath,
   FieldValue,
+  Filter,
   Firestore,
   Query,
   QuerySnapshot,
@@ -10,6 +12,11 @@ import {
   WhereFilterOp,
 } from "firebase-admin/firestore";
 import { getFirestoreDB } from "../../config/firebase";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../../utils/errors";
 import logger from "../../utils/logger";
 
 export interface QueryFilter {
@@ -18,6 +25,15 @@ export interface QueryFilter {
   value: any;
 }
 
+/**
+ * OR group of filters - matches when any of the nested filters matches
+ */
+export interface QueryFilterGroup {
+  or: QueryFilter[];
+}
+
+export type QueryCondition = QueryFilter | QueryFilterGroup;
+
 export interface QueryOptions {
   limit?: number;
   offset?: number;
@@ -25,21 +41,92 @@ export interface QueryOptions {
     field: string;
     direction: "asc" | "desc";
   }[];
+  /** Opaque cursor returned as `nextCursor` by a previous findPage call */
+  startAfter?: string;
+  /** Include soft-deleted documents (only meaningful with `softDelete`) */
+  includeDeleted?: boolean;
+}
+
+export interface PaginatedResult<T> {
+  items: (T & { id: string })[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface UpdateOptions {
+  /** Reject the write with a ConflictError unless the stored revision matches */
+  expectedRevision?: number;
+  /** User recorded on the history entry of versioned collections */
+  changedBy?: string;
+}
+
+export interface BaseServiceOptions {
+  /** Keep a snapshot of every prior revision in a `history` subcollection */
+  versioned?: boolean;
+  /** Support softDelete/restore; documents with `deletedAt` set are hidden from queries */
+  softDelete?: boolean;
+}
+
+/**
+ * Marker fields written by softDelete
+ */
+export interface SoftDeleteFields {
+  deletedAt?: Date | null;
+  deletedBy?: string;
+  /** Parent document ("collection/id") whose deletion cascaded to this one */
+  deletedWith?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+/**
+ * Prior version of a document, as it was before the update that replaced it
+ */
+export interface DocumentVersion<T> {
+  id: string;
+  documentId: string;
+  revision: number;
+  data: Partial<T>;
+  changes: FieldChange[];
+  changedBy?: string;
+  changedAt: Date;
 }
 
 /**
  * Base Firestore Service
  * Provides common CRUD operations for all Firestore collections
  *
+ * Every write through the service bumps the document's `revision` field,
+ * which callers can pass back as `expectedRevision` for optimistic concurrency.
+ *
+ * Services created with `softDelete` store `deletedAt: null` on every live
+ * document and filter on it, so trashed documents disappear from find/count/
+ * findById until they are restored or purged.
+ *
  * @template T - The type of document in the collection
  */
 export class FirestoreBaseService<T extends Record<string, any>> {
   protected db: Firestore;
   protected collectionPath: string;
+  protected versioned: boolean;
+  protected softDeletes: boolean;
 
-  constructor(collectionPath: string) {
+  constructor(collectionPath: string, options: BaseServiceOptions = {}) {
     this.db = getFirestoreDB();
     this.collectionPath = collectionPath;
+    this.versioned = options.versioned ?? false;
+    this.softDeletes = options.softDelete ?? false;
+  }
+
+  /**
+   * Collection name, e.g. for building "collection/id" references
+   */
+  get collectionName(): string {
+    return this.collectionPath;
   }
 
   /**
@@ -56,6 +143,107 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     return this.getCollection().doc(id);
   }
 
+  /**
+   * Get the history subcollection of a document
+   */
+  protected getHistoryCollection(id: string): CollectionReference {
+    return this.getDocRef(id).collection("history");
+  }
+
+  /**
+   * Build a query from filters and options (where, orderBy, cursor, offset, limit)
+   */
+  protected buildQuery(
+    filters: QueryCondition[] = [],
+    options?: QueryOptions
+  ): Query {
+    let query: Query = this.getCollection();
+
+    // Hide soft-deleted documents unless asked for them
+    if (this.softDeletes && !options?.includeDeleted) {
+      query = query.where("deletedAt", "==", null);
+    }
+
+    // Apply filters
+    filters.forEach((condition) => {
+      query = query.where(this.toFilter(condition));
+    });
+
+    // Apply ordering
+    if (options?.orderBy) {
+      options.orderBy.forEach(({ field, direction }) => {
+        query = query.orderBy(field, direction);
+      });
+    }
+
+    // Apply cursor - requires the same orderBy the cursor was created with
+    if (options?.startAfter) {
+      query = query.startAfter(...this.decodeCursor(options.startAfter));
+    }
+
+    // Apply pagination
+    if (options?.offset) {
+      query = query.offset(options.offset);
+    }
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    return query;
+  }
+
+  /**
+   * Convert a QueryCondition into a Firestore Filter
+   */
+  private toFilter(condition: QueryCondition): Filter {
+    if ("or" in condition) {
+      return Filter.or(
+        ...condition.or.map(({ field, operator, value }) =>
+          Filter.where(field, operator, value)
+        )
+      );
+    }
+    return Filter.where(condition.field, condition.operator, condition.value);
+  }
+
+  /**
+   * Encode the position of a document as an opaque cursor token
+   * Holds the values of every orderBy field followed by the document ID
+   */
+  protected encodeCursor(
+    doc: DocumentSnapshot,
+    orderBy: NonNullable<QueryOptions["orderBy"]>
+  ): string {
+    const values = orderBy.map(({ field }) => {
+      const value = doc.get(field);
+      if (value instanceof Timestamp) {
+        return { __ts: [value.seconds, value.nanoseconds] };
+      }
+      return value ?? null;
+    });
+
+    return Buffer.from(JSON.stringify([...values, doc.id])).toString("base64url");
+  }
+
+  /**
+   * Decode a cursor token back into startAfter field values
+   */
+  protected decodeCursor(cursor: string): any[] {
+    try {
+      const values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+      if (!Array.isArray(values)) {
+        throw new Error("Cursor is not an array");
+      }
+      return values.map((value: any) =>
+        value && Array.isArray(value.__ts)
+          ? new Timestamp(value.__ts[0], value.__ts[1])
+          : value
+      );
+    } catch (error) {
+      throw new BadRequestError("Invalid pagination cursor");
+    }
+  }
+
   /**
    * Convert Firestore Timestamp to Date
    */
@@ -108,11 +296,8 @@ export class FirestoreBaseService<T extends Record<string, any>> {
       Object.keys(data).forEach((key) => {
         const value = data[key];
         
-        // Skip Firestore sentinel values (FieldValue.serverTimestamp(), etc.)
-        // These have no enumerable keys and specific constructor names
-        if (value && typeof value === 'object' && 
-            Object.keys(value).length === 0 && 
-            value.constructor?.name?.includes('Transform')) {
+        // Skip Firestore sentinel values (FieldValue.serverTimestamp(), arrayUnion(), etc.)
+        if (value instanceof FieldValue) {
           converted[key] = value;
         } else if (value instanceof Date) {
           converted[key] = Timestamp.fromDate(value);
@@ -131,6 +316,13 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     return data;
   }
 
+  /**
+   * Generate a document ID without writing anything, for createWithId
+   */
+  newId(): string {
+    return this.getCollection().doc().id;
+  }
+
   /**
    * Create a new document
    */
@@ -141,6 +333,8 @@ export class FirestoreBaseService<T extends Record<string, any>> {
       const docData = this.convertDatesToTimestamps({
         ...data,
         id: docRef.id, // Add id field
+        revision: 1,
+        ...(this.softDeletes && { deletedAt: null }),
         createdAt: timestamp,
         updatedAt: timestamp,
       });
@@ -163,6 +357,8 @@ export class FirestoreBaseService<T extends Record<string, any>> {
       const docData = this.convertDatesToTimestamps({
         ...data,
         id, // Add id field
+        revision: 1,
+        ...(this.softDeletes && { deletedAt: null }),
         createdAt: timestamp,
         updatedAt: timestamp,
       });
@@ -178,16 +374,51 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Create document with specific ID unless it already exists
+   * Unlike createWithId, never overwrites; returns whether it was created.
+   */
+  async createIfAbsent(id: string, data: Omit<T, "id">): Promise<boolean> {
+    try {
+      const timestamp = FieldValue.serverTimestamp();
+      const docData = this.convertDatesToTimestamps({
+        ...data,
+        id, // Add id field
+        revision: 1,
+        ...(this.softDeletes && { deletedAt: null }),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+
+      await this.getDocRef(id).create(docData);
+      logger.debug(`Document created with ID ${id} in ${this.collectionPath}`);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 6) return false; // ALREADY_EXISTS
+      logger.error(
+        `Error creating document with ID in ${this.collectionPath}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Find document by ID
    */
-  async findById(id: string): Promise<(T & { id: string }) | null> {
+  async findById(
+    id: string,
+    options?: { includeDeleted?: boolean }
+  ): Promise<(T & { id: string }) | null> {
     try {
       const doc: DocumentSnapshot = await this.getDocRef(id).get();
 
       if (!doc.exists) {
         return null;
       }
+      if (this.softDeletes && !options?.includeDeleted && doc.get("deletedAt")) {
+        return null;
+      }
 
       const data = this.convertTimestamps(doc.data());
       return { id: doc.id, ...data } as T & { id: string };
@@ -205,24 +436,7 @@ export class FirestoreBaseService<T extends Record<string, any>> {
    */
   async findAll(options?: QueryOptions): Promise<(T & { id: string })[]> {
     try {
-      let query: Query = this.getCollection();
-
-      // Apply ordering
-      if (options?.orderBy) {
-        options.orderBy.forEach(({ field, direction }) => {
-          query = query.orderBy(field, direction);
-        });
-      }
-
-      // Apply pagination
-      if (options?.offset) {
-        query = query.offset(options.offset);
-      }
-      if (options?.limit) {
-        query = query.limit(options.limit);
-      }
-
-      const snapshot: QuerySnapshot = await query.get();
+      const snapshot: QuerySnapshot = await this.buildQuery([], options).get();
       return snapshot.docs.map((doc) => ({
         id: doc.id,
         ...this.convertTimestamps(doc.data()),
@@ -240,33 +454,11 @@ export class FirestoreBaseService<T extends Record<string, any>> {
    * Find documents with filters
    */
   async find(
-    filters: QueryFilter[],
+    filters: QueryCondition[],
     options?: QueryOptions
   ): Promise<(T & { id: string })[]> {
     try {
-      let query: Query = this.getCollection();
-
-      // Apply filters
-      filters.forEach(({ field, operator, value }) => {
-        query = query.where(field, operator, value);
-      });
-
-      // Apply ordering
-      if (options?.orderBy) {
-        options.orderBy.forEach(({ field, direction }) => {
-          query = query.orderBy(field, direction);
-        });
-      }
-
-      // Apply pagination
-      if (options?.offset) {
-        query = query.offset(options.offset);
-      }
-      if (options?.limit) {
-        query = query.limit(options.limit);
-      }
-
-      const snapshot: QuerySnapshot = await query.get();
+      const snapshot: QuerySnapshot = await this.buildQuery(filters, options).get();
       const docs = snapshot.docs.map((doc) => ({
         id: doc.id,
         ...this.convertTimestamps(doc.data()),
@@ -282,25 +474,89 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Find a page of documents using cursor (startAfter) pagination
+   * The document ID is appended to orderBy as a tiebreaker so cursors are stable
+   */
+  async findPage(
+    filters: QueryCondition[],
+    options: QueryOptions & { limit: number }
+  ): Promise<PaginatedResult<T>> {
+    try {
+      const orderBy = [
+        ...(options.orderBy || []),
+        {
+          field: FieldPath.documentId().toString(),
+          direction: options.orderBy?.[options.orderBy.length - 1]?.direction || "asc",
+        },
+      ] as NonNullable<QueryOptions["orderBy"]>;
+
+      // Fetch one extra document to know whether another page exists
+      const snapshot: QuerySnapshot = await this.buildQuery(filters, {
+        ...options,
+        orderBy,
+        limit: options.limit + 1,
+      }).get();
+
+      const hasMore = snapshot.docs.length > options.limit;
+      const docs = snapshot.docs.slice(0, options.limit);
+      const items = docs.map((doc) => ({
+        id: doc.id,
+        ...this.convertTimestamps(doc.data()),
+      })) as (T & { id: string })[];
+
+      return {
+        items,
+        nextCursor:
+          hasMore && docs.length > 0
+            ? this.encodeCursor(docs[docs.length - 1], orderBy.slice(0, -1))
+            : null,
+        hasMore,
+      };
+    } catch (error) {
+      logger.error(
+        `Error finding page of documents in ${this.collectionPath}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Find one document with filters
    */
-  async findOne(filters: QueryFilter[]): Promise<(T & { id: string }) | null> {
+  async findOne(filters: QueryCondition[]): Promise<(T & { id: string }) | null> {
     const results = await this.find(filters, { limit: 1 });
     return results.length > 0 ? results[0] : null;
   }
 
   /**
    * Update document by ID
+   * Increments the revision; with `expectedRevision` set, or on a versioned
+   * collection, the read-compare-write runs in a transaction
    */
-  async update(id: string, data: Partial<T>): Promise<void> {
+  async update(
+    id: string,
+    data: Partial<T>,
+    options: UpdateOptions = {}
+  ): Promise<void> {
     try {
-      const docData = this.convertDatesToTimestamps({
-        ...data,
-        updatedAt: FieldValue.serverTimestamp(),
-      });
+      if (!this.versioned && options.expectedRevision === undefined) {
+        const docData = this.convertDatesToTimestamps({
+          ...data,
+          revision: FieldValue.increment(1),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+
+        await this.getDocRef(id).update(docData);
+        logger.debug(`Document updated in ${this.collectionPath}:`, id);
+        return;
+      }
 
-      await this.getDocRef(id).update(docData);
+      await this.db.runTransaction(async (transaction) => {
+        const write = await this.prepareUpdate(transaction, id, data, options);
+        write();
+      });
       logger.debug(`Document updated in ${this.collectionPath}:`, id);
     } catch (error) {
       logger.error(`Error updating document in ${this.collectionPath}:`, error);
@@ -308,6 +564,94 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Revision-checked update as part of a caller's transaction
+   * Does the reads now and returns the writes, since a transaction needs all
+   * its reads before its first write; lets other writes commit atomically
+   * with this one.
+   */
+  async prepareUpdate(
+    transaction: FirebaseFirestore.Transaction,
+    id: string,
+    data: Partial<T>,
+    options: UpdateOptions = {}
+  ): Promise<() => void> {
+    const docRef = this.getDocRef(id);
+    const snapshot = await transaction.get(docRef);
+    if (!snapshot.exists) {
+      throw new NotFoundError(`Document ${id} in ${this.collectionPath}`);
+    }
+
+    const current = snapshot.data() || {};
+    const currentRevision: number = current.revision ?? 0;
+    if (
+      options.expectedRevision !== undefined &&
+      options.expectedRevision !== currentRevision
+    ) {
+      throw new ConflictError(
+        `Document was modified by someone else (expected revision ${options.expectedRevision}, current revision ${currentRevision}). Reload and try again.`
+      );
+    }
+
+    return () => {
+      transaction.update(
+        docRef,
+        this.convertDatesToTimestamps({
+          ...data,
+          revision: currentRevision + 1,
+          updatedAt: FieldValue.serverTimestamp(),
+        })
+      );
+
+      if (this.versioned) {
+        transaction.set(
+          this.getHistoryCollection(id).doc(String(currentRevision)),
+          {
+            documentId: id,
+            revision: currentRevision,
+            data: current,
+            changes: diffFields(
+              this.convertTimestamps(current),
+              data as Record<string, any>
+            ),
+            changedBy: options.changedBy ?? null,
+            changedAt: FieldValue.serverTimestamp(),
+          }
+        );
+      }
+    };
+  }
+
+  /**
+   * Get prior versions of a document, newest first
+   */
+  async findHistory(
+    id: string,
+    options?: { limit?: number }
+  ): Promise<DocumentVersion<T>[]> {
+    try {
+      let query: Query = this.getHistoryCollection(id).orderBy(
+        "revision",
+        "desc"
+      );
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+
+      const snapshot = await query.get();
+      return snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...this.convertTimestamps(doc.data()),
+      })) as DocumentVersion<T>[];
+    } catch (error) {
+      logger.error(
+        `Error fetching history for ${this.collectionPath}/${id}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
   /**
    * Update or create (upsert) document
    */
@@ -315,6 +659,7 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     try {
       const docData = this.convertDatesToTimestamps({
         ...data,
+        revision: FieldValue.increment(1),
         updatedAt: FieldValue.serverTimestamp(),
       });
 
@@ -329,6 +674,97 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Move a document to the trash by stamping deletedAt/deletedBy
+   */
+  async softDelete(
+    id: string,
+    deletedBy?: string,
+    options?: { deletedWith?: string }
+  ): Promise<void> {
+    this.assertSoftDeletes();
+    await this.update(
+      id,
+      {
+        deletedAt: new Date(),
+        deletedBy: deletedBy ?? null,
+        deletedWith: options?.deletedWith ?? null,
+      } as any,
+      { changedBy: deletedBy }
+    );
+    logger.debug(`Document soft-deleted in ${this.collectionPath}:`, id);
+  }
+
+  /**
+   * Take a soft-deleted document back out of the trash
+   */
+  async restore(id: string, restoredBy?: string): Promise<void> {
+    this.assertSoftDeletes();
+    await this.update(
+      id,
+      {
+        deletedAt: null,
+        deletedBy: FieldValue.delete(),
+        deletedWith: FieldValue.delete(),
+      } as any,
+      { changedBy: restoredBy }
+    );
+    logger.debug(`Document restored in ${this.collectionPath}:`, id);
+  }
+
+  /**
+   * Find soft-deleted documents, most recently deleted first
+   */
+  async findDeleted(
+    filters: QueryCondition[] = [],
+    options?: QueryOptions & { deletedBefore?: Date }
+  ): Promise<(T & { id: string })[]> {
+    this.assertSoftDeletes();
+    return this.find(
+      [
+        options?.deletedBefore
+          ? { field: "deletedAt", operator: "<", value: options.deletedBefore }
+          : { field: "deletedAt", operator: "!=", value: null },
+        ...filters,
+      ],
+      {
+        ...options,
+        orderBy: [{ field: "deletedAt", direction: "desc" }],
+        includeDeleted: true,
+      }
+    );
+  }
+
+  /**
+   * Count soft-deleted documents
+   */
+  async countDeleted(filters: QueryCondition[] = []): Promise<number> {
+    this.assertSoftDeletes();
+    try {
+      const snapshot = await this.buildQuery(
+        [{ field: "deletedAt", operator: "!=", value: null }, ...filters],
+        { includeDeleted: true }
+      )
+        .count()
+        .get();
+      return snapshot.data().count;
+    } catch (error) {
+      logger.error(
+        `Error counting deleted documents in ${this.collectionPath}:`,
+        error
+      );
+      throw error;
+    }
+  }
+
+  private assertSoftDeletes(): void {
+    if (!this.softDeletes) {
+      throw new Error(
+        `Soft delete is not enabled for ${this.collectionPath}`
+      );
+    }
+  }
+
   /**
    * Delete document by ID
    */
@@ -345,6 +781,27 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     }
   }
 
+  /**
+   * Permanently delete a document together with its version history
+   */
+  async purge(id: string): Promise<void> {
+    try {
+      if (this.versioned) {
+        const history = await this.getHistoryCollection(id).get();
+        for (let i = 0; i < history.docs.length; i += 500) {
+          const batch = this.db.batch();
+          history.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+          await batch.commit();
+        }
+      }
+      await this.getDocRef(id).delete();
+      logger.debug(`Document purged from ${this.collectionPath}:`, id);
+    } catch (error) {
+      logger.error(`Error purging document from ${this.collectionPath}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Batch delete documents
    */
@@ -370,17 +827,9 @@ export class FirestoreBaseService<T extends Record<string, any>> {
   /**
    * Count documents with filters
    */
-  async count(filters?: QueryFilter[]): Promise<number> {
+  async count(filters?: QueryCondition[]): Promise<number> {
     try {
-      let query: Query = this.getCollection();
-
-      if (filters) {
-        filters.forEach(({ field, operator, value }) => {
-          query = query.where(field, operator, value);
-        });
-      }
-
-      const snapshot = await query.count().get();
+      const snapshot = await this.buildQuery(filters).count().get();
       return snapshot.data().count;
     } catch (error) {
       logger.error(
@@ -420,6 +869,8 @@ export class FirestoreBaseService<T extends Record<string, any>> {
         const docRef = this.getCollection().doc();
         const docData = this.convertDatesToTimestamps({
           ...data,
+          revision: 1,
+          ...(this.softDeletes && { deletedAt: null }),
           createdAt: timestamp,
           updatedAt: timestamp,
         });
@@ -483,29 +934,15 @@ export class FirestoreBaseService<T extends Record<string, any>> {
    * Returns unsubscribe function
    */
   subscribeToCollection(
-    filters: QueryFilter[],
+    filters: QueryCondition[],
     callback: (docs: (T & { id: string })[]) => void,
     options?: QueryOptions
   ): () => void {
-    let query: Query = this.getCollection();
-
-    // Apply filters
-    filters.forEach(({ field, operator, value }) => {
-      query = query.where(field, operator, value);
+    const query = this.buildQuery(filters, {
+      orderBy: options?.orderBy,
+      limit: options?.limit,
     });
 
-    // Apply ordering
-    if (options?.orderBy) {
-      options.orderBy.forEach(({ field, direction }) => {
-        query = query.orderBy(field, direction);
-      });
-    }
-
-    // Apply limit
-    if (options?.limit) {
-      query = query.limit(options.limit);
-    }
-
     const unsubscribe = query.onSnapshot(
       (snapshot) => {
         const docs = snapshot.docs.map((doc) => ({
@@ -525,3 +962,60 @@ export class FirestoreBaseService<T extends Record<string, any>> {
     return unsubscribe;
   }
 }
+
+/**
+ * Field-level diff between the stored document and an update payload.
+ * Plain objects are walked so nested changes are reported by dotted path;
+ * arrays and sentinel values are compared as a whole.
+ */
+function diffFields(
+  before: Record<string, any>,
+  updates: Record<string, any>,
+  prefix = ""
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  Object.keys(updates).forEach((key) => {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (field === "updatedAt" || field === "revision") return;
+
+    const previous = key.includes(".")
+      ? key.split(".").reduce((value: any, part) => value?.[part], before)
+      : before?.[key];
+    const next = updates[key];
+
+    if (next instanceof FieldValue) {
+      changes.push({
+        field,
+        from: previous ?? null,
+        to: `FieldValue.${(next as any).methodName ?? "sentinel"}`,
+      });
+    } else if (isPlainObject(previous) && isPlainObject(next)) {
+      // A nested map in an update replaces the stored map, so keys it
+      // leaves out are removed
+      changes.push(...diffFields(previous, next, field));
+      Object.keys(previous)
+        .filter((nestedKey) => !(nestedKey in next))
+        .forEach((nestedKey) =>
+          changes.push({
+            field: `${field}.${nestedKey}`,
+            from: previous[nestedKey] ?? null,
+            to: null,
+          })
+        );
+    } else if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ field, from: previous ?? null, to: next ?? null });
+    }
+  });
+
+  return changes;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
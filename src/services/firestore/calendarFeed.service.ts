@@ -0,0 +1,31 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface ICalendarFeed {
+  id?: string; // the user's ID
+  userId: string;
+  token: string; // secret part of the feed URL
+  lastAccessedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Calendar Feed Service
+ * Secret tokens of users' iCal subscription feeds, kept apart from the user
+ * document so they never show up in user listings
+ */
+class CalendarFeedService extends FirestoreBaseService<ICalendarFeed> {
+  constructor() {
+    super("calendarFeeds");
+  }
+
+  /**
+   * Find a feed by its token
+   */
+  async findByToken(token: string): Promise<ICalendarFeed | null> {
+    const feeds = await this.find([{ field: "token", operator: "==", value: token }], { limit: 1 });
+    return feeds[0] || null;
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
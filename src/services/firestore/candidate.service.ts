@@ -1,11 +1,40 @@
 import logger from '../../utils/logger'
-import { FirestoreBaseService, QueryFilter } from './base.service'
-
-export interface FirestoreCandidateData {
+import {
+  FirestoreBaseService,
+  QueryFilter,
+  SoftDeleteFields,
+  UpdateOptions,
+} from './base.service'
+import { ISourceAttribution } from './application.service'
+import { candidateSearchIndexService } from './candidateSearchIndex.service'
+
+// Candidate fields the search index is built from (see candidateSearchIndexService.buildFields)
+const SEARCH_SOURCE_FIELDS = new Set([
+  'firstName',
+  'lastName',
+  'email',
+  'alternateEmails',
+  'currentTitle',
+  'currentCompany',
+  'skills',
+  'summary',
+  'experience',
+  'education',
+  'parsedData',
+  'resumeRawText',
+  'assignedTo',
+  'deletedAt',
+  // Duplicate blocking keys are kept on the index entry
+  'phone',
+  'linkedinUrl',
+])
+
+export interface FirestoreCandidateData extends SoftDeleteFields {
   // Personal Info
   firstName: string
   lastName: string
   email: string
+  alternateEmails?: string[] // Addresses of candidates merged into this one
   phone?: string
   location?: string
   avatar?: string
@@ -14,15 +43,31 @@ export interface FirestoreCandidateData {
   currentTitle?: string
   currentCompany?: string
   yearsOfExperience?: number
+  summary?: string
+  skills?: string[]
+  experience?: Array<{
+    company: string
+    title: string
+    duration: string
+    description?: string
+  }>
+  education?: Array<{
+    institution: string
+    degree: string
+    field?: string
+    year?: string
+  }>
   linkedinUrl?: string
   portfolioUrl?: string
 
   // Resume & Documents
   resumeUrl: string
   resumeOriginalName: string
+  resumeRawText?: string // Extracted resume text, indexed for search
 
   // Source tracking
-  source?: 'manual' | 'direct_apply' | 'email_automation' | 'email'
+  source?: 'manual' | 'direct_apply' | 'email_automation' | 'email' | 'import'
+  attribution?: ISourceAttribution // Channel behind the source (board, referral, agency...)
   rawEmailBody?: string // Raw text body of email if applied via email
   rawEmailBodyHtml?: string // Raw HTML body of email if applied via email
   emailSubject?: string // Email subject if applied via email
@@ -57,6 +102,7 @@ export interface FirestoreCandidateData {
 
   // Pipeline tracking
   currentPipelineStageId?: string
+  stageEnteredAt?: Date // When the candidate entered currentPipelineStageId
 
   // Status
   status:
@@ -67,33 +113,64 @@ export interface FirestoreCandidateData {
     | 'rejected'
     | 'withdrawn'
   currentStage?: string
+  tags?: string[]
+
+  // Talent pools
+  talentPoolIds?: string[]
+  inTalentPool?: boolean
+
+  // Values of admin-defined custom fields, by key
+  customFields?: Record<string, unknown>
+
+  // Merge tracking
+  mergedCandidateIds?: string[] // Candidates merged into this one
 
   // Metadata
   createdAt?: Date
   updatedAt?: Date
   createdBy?: string
+  revision?: number
 }
 
+/**
+ * Stamp when a candidate created straight into a stage entered it
+ * (the pipeline board pages its columns by stageEnteredAt)
+ */
+const withStageEntry = <D extends Partial<FirestoreCandidateData>>(data: D): D =>
+  data.currentPipelineStageId && !data.stageEnteredAt
+    ? { ...data, stageEnteredAt: new Date() }
+    : data
+
 /**
  * Candidate Firestore Service
  * Handles all candidate-related Firestore operations
  */
 export class CandidateFirestoreService extends FirestoreBaseService<FirestoreCandidateData> {
   constructor() {
-    super('candidates')
+    super('candidates', { versioned: true, softDelete: true })
   }
 
   /**
-   * Find candidate by email
+   * Find candidate by email (primary, or an address inherited through a merge)
    */
   async findByEmail(
     email: string
   ): Promise<(FirestoreCandidateData & { id: string }) | null> {
     try {
+      const normalized = email.toLowerCase()
       const filters: QueryFilter[] = [
-        { field: 'email', operator: '==', value: email.toLowerCase() },
+        { field: 'email', operator: '==', value: normalized },
       ]
-      return await this.findOne(filters)
+      return (
+        (await this.findOne(filters)) ||
+        (await this.findOne([
+          {
+            field: 'alternateEmails',
+            operator: 'array-contains',
+            value: normalized,
+          },
+        ]))
+      )
     } catch (error) {
       logger.error('Error finding candidate by email:', error)
       throw error
@@ -218,31 +295,74 @@ export class CandidateFirestoreService extends FirestoreBaseService<FirestoreCan
   }
 
   /**
-   * Search candidates by name or email
+   * Create candidate and add it to the search index
    */
-  async search(
-    query: string
-  ): Promise<(FirestoreCandidateData & { id: string })[]> {
+  async create(data: Omit<FirestoreCandidateData, 'id'>): Promise<string> {
+    const id = await super.create(withStageEntry(data))
+    await this.syncSearchIndex(id)
+    return id
+  }
+
+  /**
+   * Create candidate with specific ID and add it to the search index
+   */
+  async createWithId(
+    id: string,
+    data: Omit<FirestoreCandidateData, 'id'>
+  ): Promise<void> {
+    await super.createWithId(id, withStageEntry(data))
+    await this.syncSearchIndex(id)
+  }
+
+  /**
+   * Update candidate, re-indexing it when a searchable field changes
+   * (soft delete and restore go through here too)
+   */
+  async update(
+    id: string,
+    data: Partial<FirestoreCandidateData>,
+    options?: UpdateOptions
+  ): Promise<void> {
+    await super.update(id, data, options)
+
+    const touchesIndex = Object.keys(data).some(key =>
+      SEARCH_SOURCE_FIELDS.has(key.split('.')[0])
+    )
+    if (touchesIndex) {
+      await this.syncSearchIndex(id)
+    }
+  }
+
+  /**
+   * Delete candidate and drop it from the search index
+   */
+  async delete(id: string): Promise<void> {
+    await super.delete(id)
+    await this.syncSearchIndex(id)
+  }
+
+  /**
+   * Purge candidate and drop it from the search index
+   */
+  async purge(id: string): Promise<void> {
+    await super.purge(id)
+    await this.syncSearchIndex(id)
+  }
+
+  /**
+   * Bring the search index entry of a candidate in line with the stored document
+   * Index failures are logged rather than failing the write that triggered them
+   */
+  async syncSearchIndex(id: string): Promise<void> {
     try {
-      // Firestore doesn't support full-text search natively
-      // This is a simple implementation - consider using Algolia or Elasticsearch for production
-      const lowerQuery = query.toLowerCase()
-
-      // Search by email
-      const emailResults = await this.find([
-        { field: 'email', operator: '>=', value: lowerQuery },
-        { field: 'email', operator: '<=', value: lowerQuery + '\uf8ff' },
-      ])
-
-      // Note: For production, implement proper full-text search with:
-      // 1. Algolia integration
-      // 2. Cloud Functions to sync data
-      // 3. Frontend search UI with Algolia SDK
-
-      return emailResults
+      const candidate = await this.findById(id)
+      if (candidate) {
+        await candidateSearchIndexService.indexCandidate(candidate)
+      } else {
+        await candidateSearchIndexService.removeCandidate(id)
+      }
     } catch (error) {
-      logger.error('Error searching candidates:', error)
-      throw error
+      logger.error(`Failed to sync search index for candidate ${id}:`, error)
     }
   }
 
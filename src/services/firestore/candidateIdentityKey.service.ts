@@ -0,0 +1,85 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface ICandidateIdentityKey {
+  id?: string;
+  key: string; // "email:…", "phone:…" or "linkedin:…", see utils/candidateIdentity
+  candidateIds: string[];
+  candidateCount: number; // queried with >= 2 to find duplicate blocks
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Candidate Identity Key Service
+ * Duplicate blocking index: one document per normalized email, phone or
+ * LinkedIn key listing the live candidates filed under it. Kept in sync with
+ * the candidate search index, so rebuilding that index also rebuilds this one.
+ */
+class CandidateIdentityKeyService extends FirestoreBaseService<ICandidateIdentityKey> {
+  constructor() {
+    super("candidateIdentityKeys");
+  }
+
+  /**
+   * Document ID of a key (keys may contain "/", which IDs cannot)
+   */
+  keyId(key: string): string {
+    return encodeURIComponent(key);
+  }
+
+  /**
+   * Move a candidate from its previous keys to its current ones, in one transaction
+   * With `refile`, unchanged keys are written too, so a rebuild can repair
+   * key documents that were lost or never written.
+   */
+  async syncCandidate(
+    candidateId: string,
+    previousKeys: string[],
+    keys: string[],
+    options: { refile?: boolean } = {}
+  ): Promise<void> {
+    const removed = previousKeys.filter((key) => !keys.includes(key));
+    const added = options.refile ? keys : keys.filter((key) => !previousKeys.includes(key));
+    if (removed.length === 0 && added.length === 0) return;
+
+    await this.runTransaction(async (transaction) => {
+      const changed = [...removed, ...added];
+      const refs = changed.map((key) => this.getDocRef(this.keyId(key)));
+      const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+
+      changed.forEach((key, index) => {
+        const current: string[] = snapshots[index].exists
+          ? snapshots[index].data()?.candidateIds || []
+          : [];
+        const candidateIds = added.includes(key)
+          ? [...new Set([...current, candidateId])]
+          : current.filter((id) => id !== candidateId);
+
+        if (candidateIds.length === 0) {
+          transaction.delete(refs[index]);
+          return;
+        }
+        transaction.set(
+          refs[index],
+          this.convertDatesToTimestamps({
+            id: this.keyId(key),
+            key,
+            candidateIds,
+            candidateCount: candidateIds.length,
+            updatedAt: new Date(),
+          }),
+          { merge: true }
+        );
+      });
+    });
+  }
+
+  /**
+   * Keys shared by more than one candidate
+   */
+  async findShared(): Promise<Array<ICandidateIdentityKey & { id: string }>> {
+    return this.find([{ field: "candidateCount", operator: ">=", value: 2 }]);
+  }
+}
+
+export const candidateIdentityKeyService = new CandidateIdentityKeyService();
@@ -0,0 +1,54 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type CandidateImportStatus = "queued" | "running" | "completed" | "failed";
+
+export interface ICandidateImportRowError {
+  row: number; // 1-based spreadsheet row, header is row 1
+  errors: string[];
+}
+
+export interface ICandidateImport {
+  id?: string;
+  fileName: string;
+  format: "csv" | "xlsx";
+  mapping: Record<string, string | null>; // spreadsheet column -> candidate field
+  jobId: string;
+  pipelineId?: string;
+  stageId?: string;
+  status: CandidateImportStatus;
+  totalRows: number;
+  processedRows: number;
+  createdCount: number;
+  attachedCount: number; // existing candidates added to the job
+  skippedCount: number; // duplicates already on the job
+  errorCount: number;
+  rowErrors: ICandidateImportRowError[];
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdBy?: string;
+  revision?: number; // checked when a stale import is marked failed
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Candidate Import Service
+ * One record per spreadsheet import, updated as the import progresses
+ */
+class CandidateImportService extends FirestoreBaseService<ICandidateImport> {
+  constructor() {
+    super("candidateImports");
+  }
+
+  /**
+   * Find imports started by a user, newest first
+   */
+  async findByCreator(userId: string): Promise<ICandidateImport[]> {
+    return this.find([{ field: "createdBy", operator: "==", value: userId }], {
+      orderBy: [{ field: "createdAt", direction: "desc" }],
+    });
+  }
+}
+
+export const candidateImportService = new CandidateImportService();
@@ -0,0 +1,104 @@
+import { FieldValue } from 'firebase-admin/firestore'
+import { FirestoreBaseService } from './base.service'
+import type { FirestoreCandidateData } from './candidate.service'
+import { ConflictError } from '../../utils/errors'
+
+// Merges recorded before progress was tracked have no status and are complete
+export type CandidateMergeStatus = 'in_progress' | 'completed'
+
+export interface ICandidateMerge {
+  id?: string // Same as mergedCandidateId, so a merged ID resolves with one read
+  mergedCandidateId: string
+  survivorId: string
+  mergedBy?: string
+  mergedAt: Date
+  // in_progress from the survivor update until the duplicate is purged;
+  // merging the same pair again resumes from the recorded snapshot
+  status?: CandidateMergeStatus
+  // Duplicate score and matching signals at the time of the merge
+  score: number
+  reasons: Array<{ signal: string; value: string }>
+  // The merged candidate as it was just before the merge
+  snapshot: FirestoreCandidateData
+  // Number of records re-pointed from the merged candidate to the survivor
+  moved: Record<string, number>
+  createdAt?: Date
+  updatedAt?: Date
+}
+
+// Guards against cycles in malformed merge chains
+const MAX_REDIRECT_HOPS = 10
+
+/**
+ * Candidate Merge Service
+ * Audit trail of candidate merges, also used to redirect merged candidate IDs
+ */
+class CandidateMergeService extends FirestoreBaseService<ICandidateMerge> {
+  constructor() {
+    super('candidateMerges')
+  }
+
+  /**
+   * Find merges into a surviving candidate, newest first
+   */
+  async findBySurvivorId(survivorId: string): Promise<ICandidateMerge[]> {
+    return this.find(
+      [{ field: 'survivorId', operator: '==', value: survivorId }],
+      { orderBy: [{ field: 'mergedAt', direction: 'desc' }] }
+    )
+  }
+
+  /**
+   * Record the start of a merge as part of the caller's transaction
+   * Does the read now and returns the write, like prepareUpdate; fails when
+   * the candidate already has a merge record.
+   */
+  async prepareStart(
+    transaction: FirebaseFirestore.Transaction,
+    record: Omit<ICandidateMerge, 'id' | 'status'>
+  ): Promise<() => void> {
+    const docRef = this.getDocRef(record.mergedCandidateId)
+    const snapshot = await transaction.get(docRef)
+    if (snapshot.exists) {
+      throw new ConflictError(
+        `Candidate ${record.mergedCandidateId} is already being merged into ${snapshot.data()?.survivorId}`
+      )
+    }
+
+    return () => {
+      const timestamp = FieldValue.serverTimestamp()
+      transaction.create(
+        docRef,
+        this.convertDatesToTimestamps({
+          ...record,
+          id: record.mergedCandidateId,
+          status: 'in_progress',
+          revision: 1,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+        })
+      )
+    }
+  }
+
+  /**
+   * Follow merge records from a candidate ID to the record it now lives in
+   * Returns null when the ID was never merged
+   */
+  async resolveCandidateId(candidateId: string): Promise<string | null> {
+    let currentId = candidateId
+    let resolved: string | null = null
+
+    for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+      const merge = await this.findById(currentId)
+      // An unfinished merge doesn't redirect yet: the duplicate still exists
+      if (!merge || merge.status === 'in_progress') break
+      resolved = merge.survivorId
+      currentId = merge.survivorId
+    }
+
+    return resolved
+  }
+}
+
+export const candidateMergeService = new CandidateMergeService()
@@ -0,0 +1,129 @@
+import { FirestoreBaseService } from "./base.service";
+import type { FirestoreCandidateData } from "./candidate.service";
+import { candidateIdentityKeyService } from "./candidateIdentityKey.service";
+import { blockingKeys } from "../../utils/candidateIdentity";
+import {
+  PREFIX_FIELDS,
+  prefixKeys,
+  SEARCH_FIELDS,
+  SearchField,
+  tokenize,
+} from "../../utils/searchQuery";
+
+export interface ICandidateSearchEntry {
+  id?: string;
+  candidateId: string;
+  // Unique tokens across all fields, plus prefix keys (^jo) of name and email
+  // words - used to narrow queries with array-contains
+  terms: string[];
+  // Original text per field, for phrase matching and highlighted snippets
+  fields: Record<SearchField, string>;
+  // Token count per field, for length normalization when ranking
+  lengths: Record<SearchField, number>;
+  // Normalized assignee ID so RBAC filtering can happen inside the index query
+  assignedTo: string | null;
+  // Duplicate blocking keys the candidate is filed under in candidateIdentityKeys
+  identityKeys?: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Candidate Search Index Service
+ * One document per live candidate, kept in sync by the candidate service
+ * (along with the candidate's entries in the duplicate blocking index)
+ */
+class CandidateSearchIndexService extends FirestoreBaseService<ICandidateSearchEntry> {
+  constructor() {
+    super("candidateSearchIndex");
+  }
+
+  /**
+   * Extract the searchable text of each field from a candidate
+   */
+  buildFields(candidate: FirestoreCandidateData): Record<SearchField, string> {
+    const data = candidate as any;
+    const parsed = data.parsedData || {};
+    const experience: any[] = data.experience || parsed.experience || [];
+    const education: any[] = data.education || parsed.education || [];
+    const skills: string[] = data.skills || parsed.skills || [];
+
+    return {
+      name: [data.firstName, data.lastName].filter(Boolean).join(" "),
+      email: [data.email, ...(data.alternateEmails || [])].filter(Boolean).join("\n"),
+      title: data.currentTitle || parsed.currentTitle || "",
+      company: data.currentCompany || parsed.currentCompany || "",
+      skill: skills.filter(Boolean).join("\n"),
+      experience: [
+        data.summary || parsed.summary,
+        ...experience.map((exp) =>
+          [exp.title, exp.company && `at ${exp.company}`, exp.duration && `(${exp.duration})`, exp.description]
+            .filter(Boolean)
+            .join(" ")
+        ),
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      education: education
+        .map((edu) =>
+          [edu.degree, edu.field, edu.institution, edu.year].filter(Boolean).join(" ")
+        )
+        .join("\n"),
+      resume: data.resumeRawText || parsed.extractedText || "",
+    };
+  }
+
+  /**
+   * Write (or overwrite) the index entry of a candidate
+   * `refileIdentityKeys` rewrites its blocking keys even when unchanged (rebuilds).
+   */
+  async indexCandidate(
+    candidate: FirestoreCandidateData & { id: string },
+    options: { refileIdentityKeys?: boolean } = {}
+  ): Promise<void> {
+    const fields = this.buildFields(candidate);
+    const terms = new Set<string>();
+    const lengths = {} as Record<SearchField, number>;
+
+    SEARCH_FIELDS.forEach((field) => {
+      const tokens = tokenize(fields[field]);
+      lengths[field] = tokens.length;
+      tokens.forEach((token) => terms.add(token));
+    });
+    PREFIX_FIELDS.forEach((field) => {
+      prefixKeys(fields[field]).forEach((key) => terms.add(key));
+    });
+
+    const assignedTo = (candidate as any).assignedTo;
+    const identityKeys = blockingKeys(candidate);
+    const previous = await this.findById(candidate.id);
+    await candidateIdentityKeyService.syncCandidate(
+      candidate.id,
+      previous?.identityKeys || [],
+      identityKeys,
+      { refile: options.refileIdentityKeys }
+    );
+
+    await this.upsert(candidate.id, {
+      candidateId: candidate.id,
+      terms: [...terms],
+      fields,
+      lengths,
+      assignedTo:
+        (typeof assignedTo === "object" ? assignedTo?.id || assignedTo?._id : assignedTo) ||
+        null,
+      identityKeys,
+    });
+  }
+
+  /**
+   * Remove a candidate from the index
+   */
+  async removeCandidate(candidateId: string): Promise<void> {
+    const previous = await this.findById(candidateId);
+    await candidateIdentityKeyService.syncCandidate(candidateId, previous?.identityKeys || [], []);
+    await this.delete(candidateId);
+  }
+}
+
+export const candidateSearchIndexService = new CandidateSearchIndexService();
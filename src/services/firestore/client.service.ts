@@ -1,6 +1,6 @@
-import { FirestoreBaseService } from "./base.service";
+import { FirestoreBaseService, SoftDeleteFields } from "./base.service";
 
-export interface IClient {
+export interface IClient extends SoftDeleteFields {
   id?: string;
   
   // Basic Information
@@ -87,6 +87,9 @@ export interface IClient {
     timestamp: Date;
   }>;
 
+  // Values of admin-defined custom fields, by key
+  customFields?: Record<string, unknown>;
+
   // Metadata
   createdBy?: string;
   updatedBy?: string;
@@ -96,7 +99,7 @@ export interface IClient {
 
 class ClientService extends FirestoreBaseService<IClient> {
   constructor() {
-    super("clients");
+    super("clients", { softDelete: true });
   }
 
   /**
@@ -0,0 +1,73 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type CustomFieldEntityType = "candidate" | "job" | "client";
+
+export type CustomFieldType =
+  | "text"
+  | "number"
+  | "date"
+  | "select"
+  | "multi_select"
+  | "boolean"
+  | "url";
+
+export interface ICustomFieldDefinition {
+  id?: string;
+  entityType: CustomFieldEntityType;
+  key: string; // Stored as customFields.<key> on the entity; immutable
+  label: string;
+  type: CustomFieldType;
+  description?: string;
+  options?: string[]; // Allowed values for select and multi_select
+  required: boolean;
+  clientId?: string | null; // Only applies to records of this client when set
+  order: number;
+  isActive: boolean;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Custom Field Definition Service
+ * Admin-defined extra fields for candidates, jobs and clients
+ */
+class CustomFieldDefinitionService extends FirestoreBaseService<ICustomFieldDefinition> {
+  constructor() {
+    super("customFieldDefinitions");
+  }
+
+  /**
+   * Find definitions of an entity type, in display order
+   */
+  async findByEntityType(
+    entityType: CustomFieldEntityType,
+    options?: { activeOnly?: boolean }
+  ): Promise<ICustomFieldDefinition[]> {
+    return this.find(
+      [
+        { field: "entityType", operator: "==", value: entityType },
+        ...(options?.activeOnly
+          ? [{ field: "isActive", operator: "==" as const, value: true }]
+          : []),
+      ],
+      { orderBy: [{ field: "order", direction: "asc" }] }
+    );
+  }
+
+  /**
+   * Find definition by entity type and key
+   */
+  async findByKey(
+    entityType: CustomFieldEntityType,
+    key: string
+  ): Promise<ICustomFieldDefinition | null> {
+    return this.findOne([
+      { field: "entityType", operator: "==", value: entityType },
+      { field: "key", operator: "==", value: key },
+    ]);
+  }
+}
+
+export const customFieldDefinitionService = new CustomFieldDefinitionService();
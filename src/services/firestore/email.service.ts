@@ -1,6 +1,6 @@
-import { FirestoreBaseService } from "./base.service";
+import { FirestoreBaseService, SoftDeleteFields } from "./base.service";
 
-export interface IEmail {
+export interface IEmail extends SoftDeleteFields {
   id?: string;
   direction: "inbound" | "outbound";
   from: string;
@@ -67,7 +67,7 @@ export interface IEmail {
 
 class EmailService extends FirestoreBaseService<IEmail> {
   constructor() {
-    super("emails");
+    super("emails", { softDelete: true });
   }
 
   async findByDirection(direction: IEmail["direction"]): Promise<IEmail[]> {
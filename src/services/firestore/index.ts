@@ -8,6 +8,9 @@ export { userService } from "./user.service";
 export { clientService } from "./client.service";
 export { jobService } from "./job.service";
 export { candidateService } from "./candidate.service";
+export { candidateSearchIndexService } from "./candidateSearchIndex.service";
+export { candidateMergeService } from "./candidateMerge.service";
+export { candidateIdentityKeyService } from "./candidateIdentityKey.service";
 export { applicationService } from "./application.service";
 export { pipelineService } from "./pipeline.service";
 export { interviewService } from "./interview.service";
@@ -21,15 +24,45 @@ export { activityLogService } from "./activityLog.service";
 export { categoryService } from "./category.service";
 export { tagService } from "./tag.service";
 export { systemSettingsService } from "./systemSettings.service";
+export { talentPoolService } from "./talentPool.service";
+export { talentPoolMemberService } from "./talentPoolMember.service";
+export { talentPoolCampaignService } from "./talentPoolCampaign.service";
+export { savedSearchService } from "./savedSearch.service";
+export { customFieldDefinitionService } from "./customFieldDefinition.service";
+export { candidateImportService } from "./candidateImport.service";
+export { stageAutomationRunService } from "./stageAutomationRun.service";
+export { stageSlaBreachService } from "./stageSlaBreach.service";
+export { pipelineBoardOrderService } from "./pipelineBoardOrder.service";
+export { reportSubscriptionService } from "./reportSubscription.service";
+export { reportDeliveryService } from "./reportDelivery.service";
+export { metricSnapshotService } from "./metricSnapshot.service";
+export { userAvailabilityService } from "./userAvailability.service";
+export { schedulingLinkService } from "./schedulingLink.service";
+export { calendarFeedService } from "./calendarFeed.service";
+export { interviewKitService } from "./interviewKit.service";
+export { interviewReminderService } from "./interviewReminder.service";
 
 // Export types for convenience
 export type { IUser } from "./user.service";
 export type { IClient } from "./client.service";
 export type { IJob } from "./job.service";
 export type { ICandidate } from "./candidate.service";
-export type { IApplication } from "./application.service";
-export type { IPipeline, IPipelineStage } from "./pipeline.service";
-export type { IInterview, IInterviewFeedback } from "./interview.service";
+export type { ICandidateSearchEntry } from "./candidateSearchIndex.service";
+export type { ICandidateMerge } from "./candidateMerge.service";
+export type {
+  IApplication,
+  ISourceAttribution,
+  SourceChannel,
+} from "./application.service";
+export type {
+  IPipeline,
+  IPipelineStage,
+  IStageAutomationRule,
+  StageEntryRequirement,
+  StageAutomationAction,
+  StageAutomationTrigger,
+} from "./pipeline.service";
+export type { IAttributeRating, IInterview, IInterviewFeedback } from "./interview.service";
 export type { IEmail } from "./email.service";
 export type { IEmailAccount } from "./emailAccount.service";
 export type { IEmailTemplate } from "./emailTemplate.service";
@@ -40,3 +73,50 @@ export type { IActivityLog } from "./activityLog.service";
 export type { ICategory } from "./category.service";
 export type { ITag } from "./tag.service";
 export type { ISystemSettings } from "./systemSettings.service";
+export type { ITalentPool } from "./talentPool.service";
+export type { ITalentPoolMember, OutreachStatus } from "./talentPoolMember.service";
+export type { ITalentPoolCampaign } from "./talentPoolCampaign.service";
+export type { ISavedSearch, SavedSearchFrequency } from "./savedSearch.service";
+export type {
+  ICustomFieldDefinition,
+  CustomFieldEntityType,
+  CustomFieldType,
+} from "./customFieldDefinition.service";
+export type {
+  ICandidateImport,
+  ICandidateImportRowError,
+  CandidateImportStatus,
+} from "./candidateImport.service";
+export type {
+  IStageAutomationRun,
+  StageAutomationRunStatus,
+} from "./stageAutomationRun.service";
+export type { IStageSlaBreach } from "./stageSlaBreach.service";
+export type { IPipelineBoardOrder } from "./pipelineBoardOrder.service";
+export type {
+  IReportSubscription,
+  ReportFrequency,
+  ReportType,
+} from "./reportSubscription.service";
+export type { IReportDelivery } from "./reportDelivery.service";
+export type { IMetricSnapshot, MetricSnapshotScope } from "./metricSnapshot.service";
+export type {
+  ITimeOff,
+  IUserAvailability,
+  IWorkingHours,
+} from "./userAvailability.service";
+export type { ISchedulingLink, SchedulingLinkStatus } from "./schedulingLink.service";
+export type { ICalendarFeed } from "./calendarFeed.service";
+export type {
+  IInterviewKit,
+  IInterviewKitAttribute,
+  IInterviewKitQuestion,
+  IInterviewKitRound,
+  IRatingRubricLevel,
+} from "./interviewKit.service";
+export type {
+  IInterviewReminder,
+  InterviewReminderKind,
+  InterviewReminderRecipient,
+  InterviewReminderStatus,
+} from "./interviewReminder.service";
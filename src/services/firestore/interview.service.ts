@@ -1,8 +1,15 @@
-import { FirestoreBaseService } from "./base.service";
+import { FirestoreBaseService, SoftDeleteFields } from "./base.service";
+
+export interface IAttributeRating {
+  attributeId: string; // IInterviewKitAttribute.id of the job's kit
+  rating: number; // on the kit's rubric scale
+  notes?: string;
+}
 
 export interface IInterviewFeedback {
   interviewerId: string;
   rating: number; // 1-5
+  attributeRatings?: IAttributeRating[]; // scorecard against the job's interview kit
   strengths: string[];
   weaknesses: string[];
   comments: string;
@@ -10,7 +17,7 @@ export interface IInterviewFeedback {
   submittedAt: Date;
 }
 
-export interface IInterview {
+export interface IInterview extends SoftDeleteFields {
   id?: string;
   candidateId: string;
   jobId: string;
@@ -23,8 +30,8 @@ export interface IInterview {
   title: string;
   description?: string;
 
-  // Scheduling
-  scheduledAt: Date;
+  // Scheduling (null while the interview is a draft)
+  scheduledAt: Date | null;
   duration: number; // minutes
   timezone: string;
   location?: string; // For in-person
@@ -41,6 +48,7 @@ export interface IInterview {
 
   // Status
   status:
+    | "draft"
     | "scheduled"
     | "confirmed"
     | "in-progress"
@@ -55,6 +63,12 @@ export interface IInterview {
   notes?: string;
   internalNotes?: string;
 
+  // Set when the candidate booked through a scheduling link
+  schedulingLinkId?: string;
+
+  // Calendar invites: SEQUENCE of the last .ics sent (0 for the first)
+  icsSequence?: number;
+
   // Reminders
   reminderSent?: boolean;
   reminderSentAt?: Date;
@@ -67,11 +81,12 @@ export interface IInterview {
   cancellationReason?: string;
   createdAt: Date;
   updatedAt: Date;
+  revision?: number;
 }
 
 class InterviewService extends FirestoreBaseService<IInterview> {
   constructor() {
-    super("interviews");
+    super("interviews", { softDelete: true });
   }
 
   /**
@@ -218,10 +233,14 @@ class InterviewService extends FirestoreBaseService<IInterview> {
       existingFeedback.push(feedback);
     }
 
-    await this.update(id, {
-      feedback: existingFeedback,
-      updatedAt: new Date(),
-    });
+    await this.update(
+      id,
+      {
+        feedback: existingFeedback,
+        updatedAt: new Date(),
+      },
+      { expectedRevision: interview.revision ?? 0 }
+    );
   }
 
   /**
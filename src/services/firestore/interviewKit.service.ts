@@ -0,0 +1,51 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface IInterviewKitAttribute {
+  id: string;
+  name: string; // e.g. "System design", "Communication"
+  description?: string;
+}
+
+export interface IInterviewKitQuestion {
+  id: string;
+  text: string;
+  attributeId?: string; // attribute the question probes
+  guidance?: string; // what a good answer covers
+}
+
+export interface IInterviewKitRound {
+  round: number; // matches IInterview.round
+  title?: string;
+  focusAttributeIds: string[]; // rated in this round; empty = all attributes
+  questions: IInterviewKitQuestion[];
+}
+
+export interface IRatingRubricLevel {
+  score: number;
+  label: string; // e.g. "Strong hire"
+  description?: string;
+}
+
+export interface IInterviewKit {
+  id?: string; // the job's ID
+  jobId: string;
+  attributes: IInterviewKitAttribute[];
+  rounds: IInterviewKitRound[];
+  rubric: IRatingRubricLevel[]; // ordered from lowest to highest score
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interview Kit Service
+ * Structured interview plan of a job: attributes to assess, questions per
+ * round and the rating rubric, one document per job
+ */
+class InterviewKitService extends FirestoreBaseService<IInterviewKit> {
+  constructor() {
+    super("interviewKits");
+  }
+}
+
+export const interviewKitService = new InterviewKitService();
@@ -0,0 +1,86 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type InterviewReminderKind = "upcoming" | "feedback_due" | "no_show_followup";
+
+export type InterviewReminderRecipient = "candidate" | "interviewer" | "organizer";
+
+export type InterviewReminderStatus = "pending" | "sending" | "sent" | "skipped" | "cancelled" | "failed";
+
+export interface IInterviewReminder {
+  id?: string; // deterministic: one document per interview, occurrence, kind, offset and recipient
+  interviewId: string;
+  kind: InterviewReminderKind;
+  recipientType: InterviewReminderRecipient;
+  recipientId: string; // candidate or user ID
+  offsetMinutes: number; // before the interview (upcoming) or after the trigger (others)
+  occurrence: string; // ISO time of the interview (or trigger) the reminder is for
+  dueAt: Date;
+  status: InterviewReminderStatus;
+  claimedAt?: Date;
+  sentAt?: Date;
+  emailId?: string;
+  reason?: string; // why it was skipped, cancelled or failed
+  revision?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interview Reminder Service
+ * Reminders planned for interviews, stored so they survive restarts; each is
+ * claimed before sending so it goes out at most once
+ */
+class InterviewReminderService extends FirestoreBaseService<IInterviewReminder> {
+  constructor() {
+    super("interviewReminders");
+  }
+
+  /**
+   * Deterministic ID of a planned reminder
+   */
+  reminderId(
+    reminder: Pick<IInterviewReminder, "interviewId" | "kind" | "recipientType" | "recipientId" | "offsetMinutes" | "occurrence">
+  ): string {
+    const occurrence = reminder.occurrence.replace(/[^0-9]/g, "");
+    return [
+      reminder.interviewId,
+      reminder.kind,
+      reminder.offsetMinutes,
+      reminder.recipientType,
+      reminder.recipientId,
+      occurrence,
+    ].join("_");
+  }
+
+  /**
+   * Find the reminders of an interview
+   */
+  async findByInterviewId(interviewId: string): Promise<IInterviewReminder[]> {
+    return this.find([{ field: "interviewId", operator: "==", value: interviewId }]);
+  }
+
+  /**
+   * Find pending reminders due at a given time, oldest first
+   */
+  async findDue(now: Date, limit: number = 200): Promise<IInterviewReminder[]> {
+    return this.find(
+      [
+        { field: "status", operator: "==", value: "pending" },
+        { field: "dueAt", operator: "<=", value: now },
+      ],
+      { orderBy: [{ field: "dueAt", direction: "asc" }], limit }
+    );
+  }
+
+  /**
+   * Find reminders claimed before a given time but never marked sent
+   */
+  async findStaleClaims(before: Date): Promise<IInterviewReminder[]> {
+    return this.find([
+      { field: "status", operator: "==", value: "sending" },
+      { field: "claimedAt", operator: "<", value: before },
+    ]);
+  }
+}
+
+export const interviewReminderService = new InterviewReminderService();
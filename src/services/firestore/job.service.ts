@@ -1,7 +1,7 @@
-import { FirestoreBaseService, QueryFilter } from './base.service';
+import { FirestoreBaseService, QueryFilter, SoftDeleteFields } from './base.service';
 import logger from '../../utils/logger';
 
-export interface FirestoreJobData {
+export interface FirestoreJobData extends SoftDeleteFields {
   title: string;
   companyId: string;
   clientId: string;
@@ -33,10 +33,12 @@ export interface FirestoreJobData {
   // Relations - arrays of IDs that reference other collections
   applicationIds?: string[]; // References to Application collection
   candidateIds?: string[]; // References to Candidate collection (approved candidates)
+  customFields?: Record<string, unknown>; // Values of admin-defined custom fields, by key
   createdBy: string;
   updatedBy?: string;
   createdAt?: Date;
   updatedAt?: Date;
+  revision?: number;
 }
 
 /**
@@ -45,7 +47,7 @@ export interface FirestoreJobData {
  */
 export class JobFirestoreService extends FirestoreBaseService<FirestoreJobData> {
   constructor() {
-    super('jobs');
+    super('jobs', { versioned: true, softDelete: true });
   }
 
   /**
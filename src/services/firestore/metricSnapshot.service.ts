@@ -0,0 +1,82 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type MetricSnapshotScope = "all" | "job" | "client" | "stage";
+
+export interface IMetricSnapshot {
+  id?: string;
+  date: string; // YYYY-MM-DD (UTC) the aggregates cover
+  scope: MetricSnapshotScope;
+  scopeId: string; // "all", job ID, client ID or `${pipelineId}:${stageId}`
+  jobId?: string;
+  clientId?: string;
+  pipelineId?: string;
+  stageId?: string;
+  stageName?: string;
+  count: number; // open job applications in scope at the end of the day
+  inflow: number; // entered the scope during the day
+  outflow: number; // left the scope during the day (moved on, closed or hired)
+  hires: number;
+  // "all" scope only: records created during the day, by intake source
+  candidatesBySource?: Record<string, number>;
+  applicationsBySource?: Record<string, number>;
+  generatedAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Metric Snapshot Service
+ * Daily aggregates per job, client and pipeline stage, written once per day
+ * so trend lines do not change when live records are edited or deleted
+ */
+class MetricSnapshotService extends FirestoreBaseService<IMetricSnapshot> {
+  constructor() {
+    super("metricSnapshots");
+  }
+
+  /**
+   * Deterministic ID of a day's snapshot for a scope
+   */
+  snapshotId(date: string, scope: MetricSnapshotScope, scopeId: string): string {
+    return `${date}_${scope}_${scopeId.replace(/\//g, "-")}`;
+  }
+
+  /**
+   * Find the snapshots of a scope between two days (inclusive), oldest first
+   */
+  async findSeries(
+    scope: MetricSnapshotScope,
+    scopeId: string,
+    fromDate: string,
+    toDate: string
+  ): Promise<IMetricSnapshot[]> {
+    return this.find(
+      [
+        { field: "scope", operator: "==", value: scope },
+        { field: "scopeId", operator: "==", value: scopeId },
+        { field: "date", operator: ">=", value: fromDate },
+        { field: "date", operator: "<=", value: toDate },
+      ],
+      { orderBy: [{ field: "date", direction: "asc" }] }
+    );
+  }
+
+  /**
+   * Find every snapshot of a scope type for one day
+   */
+  async findByDate(date: string, scope?: MetricSnapshotScope): Promise<IMetricSnapshot[]> {
+    return this.find([
+      { field: "date", operator: "==", value: date },
+      ...(scope ? [{ field: "scope", operator: "==" as const, value: scope }] : []),
+    ]);
+  }
+
+  /**
+   * Whether a day has been snapshotted
+   */
+  async hasDate(date: string): Promise<boolean> {
+    return this.exists(this.snapshotId(date, "all", "all"));
+  }
+}
+
+export const metricSnapshotService = new MetricSnapshotService();
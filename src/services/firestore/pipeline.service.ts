@@ -1,4 +1,40 @@
-import { FirestoreBaseService } from "./base.service";
+import { FirestoreBaseService, UpdateOptions } from "./base.service";
+import { candidateService } from "./candidate.service";
+import { UserRole } from "./user.service";
+import { ConflictError } from "../../utils/errors";
+
+export type StageAutomationTrigger = "on_enter" | "on_exit" | "after_days";
+
+export type StageAutomationAction =
+  | { type: "send_email"; templateId: string; delayMinutes?: number }
+  | {
+      type: "create_interview_draft";
+      interviewType: "phone" | "video" | "in-person" | "technical" | "hr" | "final";
+      title?: string;
+      duration?: number; // minutes
+      delayMinutes?: number;
+    }
+  | { type: "notify_owner"; message: string; delayMinutes?: number }
+  | {
+      type: "set_status";
+      status: "active" | "interviewing" | "offered" | "hired" | "rejected" | "withdrawn";
+      delayMinutes?: number;
+    };
+
+export type StageEntryRequirement =
+  | { type: "completed_interview"; withFeedback?: boolean; message?: string }
+  | { type: "field"; field: string; label?: string; message?: string } // candidate field path
+  | { type: "condition"; condition: string; message: string };
+
+export interface IStageAutomationRule {
+  id: string;
+  name: string;
+  trigger: StageAutomationTrigger;
+  days?: number; // after_days only
+  condition?: string; // see utils/automationCondition
+  actions: StageAutomationAction[];
+  isActive: boolean;
+}
 
 export interface IPipelineStage {
   id: string;
@@ -7,6 +43,12 @@ export interface IPipelineStage {
   order: number;
   color?: string;
   isActive: boolean;
+  slaDays?: number; // Target time in the stage; candidates over it are overdue
+  // Transition rules
+  allowedNextStageIds?: string[]; // Empty or unset allows any stage
+  requiredRoles?: UserRole[]; // Roles that may move candidates into this stage
+  entryRequirements?: StageEntryRequirement[];
+  automations?: IStageAutomationRule[];
 }
 
 export interface IPipeline {
@@ -22,11 +64,26 @@ export interface IPipeline {
   updatedBy?: string;
   createdAt: Date;
   updatedAt: Date;
+  revision?: number; // Bumped on every write; prior versions are kept in history
 }
 
+/**
+ * Give new automation rules of a stage unique IDs
+ */
+const withRuleIds = (stage: IPipelineStage): IPipelineStage =>
+  stage.automations
+    ? {
+        ...stage,
+        automations: stage.automations.map((rule, index) => ({
+          ...rule,
+          id: rule.id || `${stage.id}_rule_${Date.now()}_${index}`,
+        })),
+      }
+    : stage;
+
 class PipelineService extends FirestoreBaseService<IPipeline> {
   constructor() {
-    super("pipelines");
+    super("pipelines", { versioned: true });
   }
 
   /**
@@ -35,7 +92,7 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
   async create(data: Partial<IPipeline>): Promise<string> {
     // Ensure all stages have unique IDs
     if (data.stages && Array.isArray(data.stages)) {
-      data.stages = data.stages.map((stage, index) => ({
+      data.stages = data.stages.map((stage, index) => withRuleIds({
         ...stage,
         id: stage.id || `stage_${Date.now()}_${index}`,
       }));
@@ -47,16 +104,20 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
   /**
    * Override update to ensure any new stages have unique IDs
    */
-  async update(id: string, data: Partial<IPipeline>): Promise<void> {
+  async update(
+    id: string,
+    data: Partial<IPipeline>,
+    options?: UpdateOptions
+  ): Promise<void> {
     // Ensure all stages have unique IDs
     if (data.stages && Array.isArray(data.stages)) {
-      data.stages = data.stages.map((stage, index) => ({
+      data.stages = data.stages.map((stage, index) => withRuleIds({
         ...stage,
         id: stage.id || `stage_${Date.now()}_${index}`,
       }));
     }
     
-    return super.update(id, data);
+    return super.update(id, data, options);
   }
 
   /**
@@ -163,10 +224,10 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
     }
 
     const stages = pipeline.stages || [];
-    const newStage: IPipelineStage = {
+    const newStage: IPipelineStage = withRuleIds({
       ...stage,
       id: `stage_${Date.now()}`,
-    };
+    });
 
     stages.push(newStage);
 
@@ -190,7 +251,7 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
     }
 
     const stages = pipeline.stages.map((stage) =>
-      stage.id === stageId ? { ...stage, ...updates } : stage
+      stage.id === stageId ? withRuleIds({ ...stage, ...updates }) : stage
     );
 
     await this.update(id, {
@@ -201,6 +262,7 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
 
   /**
    * Remove stage from pipeline
+   * Stages that still hold candidates must be migrated instead
    */
   async removeStage(id: string, stageId: string): Promise<void> {
     const pipeline = await this.findById(id);
@@ -208,6 +270,15 @@ class PipelineService extends FirestoreBaseService<IPipeline> {
       throw new Error("Pipeline not found");
     }
 
+    const occupant = await candidateService.findOne([
+      { field: "currentPipelineStageId", operator: "==", value: stageId },
+    ]);
+    if (occupant) {
+      throw new ConflictError(
+        "Stage still has candidates. Migrate them to another stage first."
+      );
+    }
+
     const stages = pipeline.stages.filter((stage) => stage.id !== stageId);
 
     await this.update(id, {
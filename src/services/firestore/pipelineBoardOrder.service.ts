@@ -0,0 +1,116 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface IPipelineBoardOrder {
+  id?: string;
+  pipelineId: string;
+  jobId?: string;
+  stageId: string;
+  candidateIds: string[]; // manual card order, top first
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Pipeline Board Order Service
+ * Manual order of the cards in each column of a pipeline board.
+ * Candidates missing from an order (new arrivals) are shown after the
+ * ordered ones; IDs of candidates who left the stage are ignored.
+ */
+class PipelineBoardOrderService extends FirestoreBaseService<IPipelineBoardOrder> {
+  constructor() {
+    super("pipelineBoardOrders");
+  }
+
+  /**
+   * ID of the order of one board column
+   */
+  orderId(pipelineId: string, stageId: string, jobId?: string): string {
+    return `${pipelineId}_${jobId || "all"}_${stageId}`;
+  }
+
+  /**
+   * Saved orders of the given columns, by stage ID
+   */
+  async findOrders(
+    pipelineId: string,
+    stageIds: string[],
+    jobId?: string
+  ): Promise<Map<string, string[]>> {
+    const orders = await Promise.all(
+      stageIds.map((stageId) => this.findById(this.orderId(pipelineId, stageId, jobId)))
+    );
+    return new Map(
+      stageIds.map((stageId, index) => [stageId, orders[index]?.candidateIds || []])
+    );
+  }
+
+  /**
+   * Move a card into a column before another card (or to the end) and drop
+   * it from the column it came from, in one transaction
+   * `members` are the candidates currently in each column, in default order.
+   * `alongside` adds another write to the same transaction (the candidate's
+   * stage change), so the card never changes stage without its position.
+   */
+  async moveCard(params: {
+    pipelineId: string;
+    jobId?: string;
+    candidateId: string;
+    fromStageId?: string;
+    toStageId: string;
+    beforeCandidateId?: string | null;
+    members: Record<string, string[]>;
+    updatedBy?: string;
+    alongside?: (transaction: FirebaseFirestore.Transaction) => Promise<() => void>;
+  }): Promise<string[]> {
+    const { pipelineId, jobId, candidateId, fromStageId, toStageId, beforeCandidateId } = params;
+
+    return this.runTransaction(async (transaction) => {
+      const writeAlongside = params.alongside ? await params.alongside(transaction) : null;
+      const stageIds = [...new Set([toStageId, ...(fromStageId ? [fromStageId] : [])])];
+      const refs = stageIds.map((stageId) =>
+        this.getDocRef(this.orderId(pipelineId, stageId, jobId))
+      );
+      const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+
+      const columns = stageIds.map((stageId, index) => {
+        const saved: string[] = snapshots[index].exists
+          ? snapshots[index].data()?.candidateIds || []
+          : [];
+        const members = params.members[stageId] || [];
+        const memberSet = new Set(members);
+        const ordered = saved.filter((id) => memberSet.has(id));
+        const orderedSet = new Set(ordered);
+        return [...ordered, ...members.filter((id) => !orderedSet.has(id))].filter(
+          (id) => id !== candidateId
+        );
+      });
+
+      writeAlongside?.();
+
+      const target = columns[0];
+      const beforeIndex = beforeCandidateId ? target.indexOf(beforeCandidateId) : -1;
+      target.splice(beforeIndex === -1 ? target.length : beforeIndex, 0, candidateId);
+
+      stageIds.forEach((stageId, index) => {
+        transaction.set(
+          refs[index],
+          this.convertDatesToTimestamps({
+            id: this.orderId(pipelineId, stageId, jobId),
+            pipelineId,
+            ...(jobId && { jobId }),
+            stageId,
+            candidateIds: columns[index],
+            ...(params.updatedBy && { updatedBy: params.updatedBy }),
+            updatedAt: new Date(),
+          }),
+          { merge: true }
+        );
+      });
+
+      return target;
+    });
+  }
+}
+
+export const pipelineBoardOrderService = new PipelineBoardOrderService();
@@ -0,0 +1,46 @@
+import { FirestoreBaseService } from "./base.service";
+import { ReportType } from "./reportSubscription.service";
+
+export interface IReportDelivery {
+  id?: string;
+  subscriptionId: string;
+  ownerId: string;
+  report: ReportType;
+  recipients: string[];
+  periodStart: Date;
+  periodEnd: Date;
+  trigger: "schedule" | "manual";
+  status: "sent" | "failed";
+  rowCount: number;
+  attachmentName: string;
+  emailId?: string; // Outbound email record
+  messageId?: string;
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Report Delivery Service
+ * History of report subscription emails, sent or failed
+ */
+class ReportDeliveryService extends FirestoreBaseService<IReportDelivery> {
+  constructor() {
+    super("reportDeliveries");
+  }
+
+  /**
+   * Find deliveries of a subscription, newest first
+   */
+  async findBySubscriptionId(
+    subscriptionId: string,
+    limit: number = 20
+  ): Promise<IReportDelivery[]> {
+    return this.find([{ field: "subscriptionId", operator: "==", value: subscriptionId }], {
+      orderBy: [{ field: "createdAt", direction: "desc" }],
+      limit,
+    });
+  }
+}
+
+export const reportDeliveryService = new ReportDeliveryService();
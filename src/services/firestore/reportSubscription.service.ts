@@ -0,0 +1,68 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type ReportType =
+  | "funnel"
+  | "open_jobs_by_client"
+  | "recruiter_activity"
+  | "upcoming_interviews";
+
+export type ReportFrequency = "daily" | "weekly" | "monthly";
+
+export interface IReportSubscription {
+  id?: string;
+  name: string;
+  ownerId: string;
+  report: ReportType;
+  filters?: {
+    jobId?: string;
+    clientId?: string;
+    recruiterId?: string;
+    source?: string;
+  };
+
+  // Schedule (UTC): every day, on a weekday or on a day of the month, at an hour
+  frequency: ReportFrequency;
+  hour: number; // 0-23
+  dayOfWeek?: number; // weekly, 0 = Sunday
+  dayOfMonth?: number; // monthly, 1-28
+  recipients: string[]; // Email addresses; the owner's address when empty
+  isActive: boolean;
+
+  lastSentAt?: Date | null;
+  lastStatus?: "sent" | "failed";
+  nextRunAt?: Date | null; // null while paused
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Report Subscription Service
+ * Reports emailed to users on a daily, weekly or monthly schedule
+ */
+class ReportSubscriptionService extends FirestoreBaseService<IReportSubscription> {
+  constructor() {
+    super("reportSubscriptions");
+  }
+
+  /**
+   * Find subscriptions of a user, newest first
+   */
+  async findByOwnerId(ownerId: string): Promise<IReportSubscription[]> {
+    return this.find([{ field: "ownerId", operator: "==", value: ownerId }], {
+      orderBy: [{ field: "createdAt", direction: "desc" }],
+    });
+  }
+
+  /**
+   * Find subscriptions whose next delivery has come
+   */
+  async findDue(now: Date = new Date(), limit: number = 50): Promise<IReportSubscription[]> {
+    return this.find([{ field: "nextRunAt", operator: "<=", value: now }], {
+      orderBy: [{ field: "nextRunAt", direction: "asc" }],
+      limit,
+    });
+  }
+}
+
+export const reportSubscriptionService = new ReportSubscriptionService();
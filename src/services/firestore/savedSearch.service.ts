@@ -0,0 +1,55 @@
+import { FirestoreBaseService } from "./base.service";
+
+export type SavedSearchFrequency = "hourly" | "daily" | "weekly" | "never";
+
+export interface ISavedSearch {
+  id?: string;
+  name: string;
+  ownerId: string;
+  query: string; // Candidate search syntax, see utils/searchQuery
+  frequency: SavedSearchFrequency;
+  notify: boolean;
+
+  // Scheduling
+  lastRunAt?: Date | null;
+  nextRunAt?: Date | null; // null when the search never runs on a schedule
+
+  // Candidates already reported, so each run only notifies about new matches
+  knownCandidateIds: string[];
+  lastMatchCount?: number;
+  lastNewMatchCount?: number;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Saved Search Service
+ * Candidate searches that re-run on a schedule and notify their owner
+ */
+class SavedSearchService extends FirestoreBaseService<ISavedSearch> {
+  constructor() {
+    super("savedSearches");
+  }
+
+  /**
+   * Find saved searches of a user, newest first
+   */
+  async findByOwnerId(ownerId: string): Promise<ISavedSearch[]> {
+    return this.find([{ field: "ownerId", operator: "==", value: ownerId }], {
+      orderBy: [{ field: "createdAt", direction: "desc" }],
+    });
+  }
+
+  /**
+   * Find saved searches whose next scheduled run has come
+   */
+  async findDue(now: Date = new Date(), limit: number = 100): Promise<ISavedSearch[]> {
+    return this.find([{ field: "nextRunAt", operator: "<=", value: now }], {
+      orderBy: [{ field: "nextRunAt", direction: "asc" }],
+      limit,
+    });
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
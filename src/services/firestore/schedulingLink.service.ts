@@ -0,0 +1,71 @@
+import { FirestoreBaseService } from "./base.service";
+import { IInterview } from "./interview.service";
+
+export type SchedulingLinkStatus = "active" | "booked" | "cancelled" | "revoked";
+
+export interface ISchedulingLink {
+  id?: string;
+  token: string; // secret part of the public URL
+  candidateId: string;
+  jobId: string;
+  clientId: string;
+  applicationId?: string;
+
+  // Interview to create when the candidate books
+  interviewerIds: string[];
+  type: IInterview["type"];
+  round: number;
+  title: string;
+  description?: string;
+  location?: string;
+  duration: number; // minutes
+  timezone: string; // working-hours timezone of interviewers who never set theirs
+  createMeetingLink: boolean; // create a Zoom meeting for video interviews
+
+  // Slots offered
+  windowStart: Date;
+  windowEnd: Date;
+  step: number; // minutes between slot starts
+  expiresAt: Date;
+
+  status: SchedulingLinkStatus;
+  interviewId?: string;
+  bookedAt?: Date | null;
+  rescheduleCount?: number;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+  revision?: number; // checked when a booking, reschedule or cancellation claims the link
+
+  createdBy: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Scheduling Link Service
+ * Tokenized links from which candidates book their own interview slot
+ */
+class SchedulingLinkService extends FirestoreBaseService<ISchedulingLink> {
+  constructor() {
+    super("schedulingLinks");
+  }
+
+  /**
+   * Find a link by its public token
+   */
+  async findByToken(token: string): Promise<ISchedulingLink | null> {
+    const links = await this.find([{ field: "token", operator: "==", value: token }], { limit: 1 });
+    return links[0] || null;
+  }
+
+  /**
+   * Find the links sent to a candidate, newest first
+   */
+  async findByCandidateId(candidateId: string): Promise<ISchedulingLink[]> {
+    return this.find([{ field: "candidateId", operator: "==", value: candidateId }], {
+      orderBy: [{ field: "createdAt", direction: "desc" }],
+    });
+  }
+}
+
+export const schedulingLinkService = new SchedulingLinkService();
@@ -0,0 +1,98 @@
+import { FirestoreBaseService } from "./base.service";
+import {
+  StageAutomationAction,
+  StageAutomationTrigger,
+} from "./pipeline.service";
+
+export type StageAutomationRunStatus =
+  | "pending"
+  | "running" // claimed by a worker, outcome not recorded yet
+  | "completed"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+export interface IStageAutomationRun {
+  id?: string;
+  candidateId: string;
+  jobId?: string;
+  pipelineId: string;
+  stageId: string;
+  stageName: string;
+  ruleId: string;
+  ruleName: string;
+  trigger: StageAutomationTrigger;
+  action: StageAutomationAction;
+  status: StageAutomationRunStatus;
+  scheduledFor: Date; // when a delayed action is due
+  claimedAt?: Date;
+  executedAt?: Date;
+  result?: string; // e.g. the email or interview created
+  error?: string;
+  triggeredBy?: string;
+  revision?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stage Automation Run Service
+ * Execution log of pipeline stage automation actions, one record per action.
+ * Delayed actions wait here as "pending" until the automation job runs them.
+ * A run is claimed ("running", revision-checked) before its action executes,
+ * so an inline run and the job never both execute it.
+ */
+class StageAutomationRunService extends FirestoreBaseService<IStageAutomationRun> {
+  constructor() {
+    super("stageAutomationRuns");
+  }
+
+  /**
+   * Find runs for a candidate, newest first
+   */
+  async findByCandidateId(candidateId: string): Promise<IStageAutomationRun[]> {
+    return this.find(
+      [{ field: "candidateId", operator: "==", value: candidateId }],
+      { orderBy: [{ field: "createdAt", direction: "desc" }] }
+    );
+  }
+
+  /**
+   * Find pending runs that are due
+   */
+  async findDue(now: Date = new Date(), limit = 100): Promise<IStageAutomationRun[]> {
+    return this.find(
+      [
+        { field: "status", operator: "==", value: "pending" },
+        { field: "scheduledFor", operator: "<=", value: now },
+      ],
+      { orderBy: [{ field: "scheduledFor", direction: "asc" }], limit }
+    );
+  }
+
+  /**
+   * Find runs claimed before a date and never finished (crashed mid-action)
+   */
+  async findStaleClaims(before: Date): Promise<IStageAutomationRun[]> {
+    return this.find([
+      { field: "status", operator: "==", value: "running" },
+      { field: "claimedAt", operator: "<", value: before },
+    ]);
+  }
+
+  /**
+   * Find pending runs a candidate has for a stage
+   */
+  async findPendingForStage(
+    candidateId: string,
+    stageId: string
+  ): Promise<IStageAutomationRun[]> {
+    return this.find([
+      { field: "candidateId", operator: "==", value: candidateId },
+      { field: "stageId", operator: "==", value: stageId },
+      { field: "status", operator: "==", value: "pending" },
+    ]);
+  }
+}
+
+export const stageAutomationRunService = new StageAutomationRunService();
@@ -0,0 +1,43 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface IStageSlaBreach {
+  id?: string;
+  candidateId: string;
+  pipelineId: string;
+  jobId?: string;
+  stageId: string;
+  stageName: string;
+  ownerId?: string;
+  enteredAt: Date;
+  dueAt: Date; // enteredAt + the stage's slaDays
+  notifiedAt?: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Stage SLA Breach Service
+ * One record per candidate stay that overran its stage's target duration,
+ * so each breach is only reported once
+ */
+class StageSlaBreachService extends FirestoreBaseService<IStageSlaBreach> {
+  constructor() {
+    super("stageSlaBreaches");
+  }
+
+  /**
+   * Deterministic ID of the breach for a candidate's stay in a stage
+   */
+  breachId(pipelineId: string, candidateId: string, stageId: string, enteredAt: Date): string {
+    return `${pipelineId}_${candidateId}_${stageId}_${enteredAt.getTime()}`;
+  }
+
+  /**
+   * Find breaches recorded for a pipeline
+   */
+  async findByPipelineId(pipelineId: string): Promise<IStageSlaBreach[]> {
+    return this.find([{ field: "pipelineId", operator: "==", value: pipelineId }]);
+  }
+}
+
+export const stageSlaBreachService = new StageSlaBreachService();
@@ -0,0 +1,32 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface ITalentPool {
+  id?: string;
+  name: string;
+  description?: string;
+  color?: string;
+  memberCount: number;
+  createdBy?: string;
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Talent Pool Service
+ * Named groups of candidates to come back to (silver medalists, future hires, ...)
+ */
+class TalentPoolService extends FirestoreBaseService<ITalentPool> {
+  constructor() {
+    super("talentPools");
+  }
+
+  /**
+   * Find pool by name
+   */
+  async findByName(name: string): Promise<ITalentPool | null> {
+    return this.findOne([{ field: "name", operator: "==", value: name }]);
+  }
+}
+
+export const talentPoolService = new TalentPoolService();
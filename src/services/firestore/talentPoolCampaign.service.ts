@@ -0,0 +1,39 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface ITalentPoolCampaign {
+  id?: string;
+  poolId: string;
+  templateId: string;
+  templateName: string;
+  subject: string;
+  sentBy?: string;
+  sentAt: Date;
+  recipientCount: number;
+  sentCount: number;
+  failedCount: number;
+  skippedCount: number;
+  replyCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Talent Pool Campaign Service
+ * One record per re-engagement send to a talent pool
+ */
+class TalentPoolCampaignService extends FirestoreBaseService<ITalentPoolCampaign> {
+  constructor() {
+    super("talentPoolCampaigns");
+  }
+
+  /**
+   * Find campaigns sent to a pool, newest first
+   */
+  async findByPoolId(poolId: string): Promise<ITalentPoolCampaign[]> {
+    return this.find([{ field: "poolId", operator: "==", value: poolId }], {
+      orderBy: [{ field: "sentAt", direction: "desc" }],
+    });
+  }
+}
+
+export const talentPoolCampaignService = new TalentPoolCampaignService();
@@ -0,0 +1,78 @@
+import { FirestoreBaseService, QueryOptions } from "./base.service";
+
+export type OutreachStatus = "none" | "sent" | "failed" | "replied";
+
+export interface ITalentPoolMember {
+  id?: string; // `${poolId}_${candidateId}`, so a candidate is in a pool at most once
+  poolId: string;
+  candidateId: string;
+  reason?: string;
+  sourceJobId?: string; // Job the candidate was considered for when added
+  addedBy?: string;
+  addedAt: Date;
+
+  // Re-engagement tracking
+  outreachStatus: OutreachStatus;
+  lastCampaignId?: string;
+  lastEmailId?: string;
+  lastContactedAt?: Date;
+  repliedAt?: Date;
+  outreachError?: string;
+
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Talent Pool Member Service
+ * Membership of candidates in talent pools, with outreach state per membership
+ */
+class TalentPoolMemberService extends FirestoreBaseService<ITalentPoolMember> {
+  constructor() {
+    super("talentPoolMembers");
+  }
+
+  /**
+   * Document ID of a candidate's membership in a pool
+   */
+  memberId(poolId: string, candidateId: string): string {
+    return `${poolId}_${candidateId}`;
+  }
+
+  /**
+   * Find members of a pool, most recently added first
+   */
+  async findByPoolId(
+    poolId: string,
+    options?: QueryOptions & { outreachStatus?: OutreachStatus }
+  ): Promise<ITalentPoolMember[]> {
+    const { outreachStatus, ...queryOptions } = options || {};
+    return this.find(
+      [
+        { field: "poolId", operator: "==", value: poolId },
+        ...(outreachStatus
+          ? [{ field: "outreachStatus", operator: "==" as const, value: outreachStatus }]
+          : []),
+      ],
+      { orderBy: [{ field: "addedAt", direction: "desc" }], ...queryOptions }
+    );
+  }
+
+  /**
+   * Find every pool membership of a candidate
+   */
+  async findByCandidateId(candidateId: string): Promise<ITalentPoolMember[]> {
+    return this.find([
+      { field: "candidateId", operator: "==", value: candidateId },
+    ]);
+  }
+
+  /**
+   * Count members of a pool
+   */
+  async countByPoolId(poolId: string): Promise<number> {
+    return this.count([{ field: "poolId", operator: "==", value: poolId }]);
+  }
+}
+
+export const talentPoolMemberService = new TalentPoolMemberService();
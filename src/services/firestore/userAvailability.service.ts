@@ -0,0 +1,50 @@
+import { FirestoreBaseService } from "./base.service";
+
+export interface IWorkingHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm, in the availability's timezone
+  end: string; // HH:mm
+}
+
+export interface ITimeOff {
+  id: string;
+  start: Date;
+  end: Date;
+  reason?: string;
+}
+
+export interface IUserAvailability {
+  id?: string; // the user's ID
+  userId: string;
+  timezone: string; // IANA zone the working hours are in
+  workingHours: IWorkingHours[];
+  timeOff: ITimeOff[];
+  updatedBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * User Availability Service
+ * Working hours and time off of interviewers, one document per user
+ */
+class UserAvailabilityService extends FirestoreBaseService<IUserAvailability> {
+  constructor() {
+    super("userAvailability");
+  }
+
+  /**
+   * Find the availability of several users, by user ID
+   * Users who never set theirs are missing from the map.
+   */
+  async findByUserIds(userIds: string[]): Promise<Map<string, IUserAvailability>> {
+    const availability = await Promise.all(userIds.map((userId) => this.findById(userId)));
+    const byUser = new Map<string, IUserAvailability>();
+    availability.forEach((item, index) => {
+      if (item) byUser.set(userIds[index], item);
+    });
+    return byUser;
+  }
+}
+
+export const userAvailabilityService = new UserAvailabilityService();
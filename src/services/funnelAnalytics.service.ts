@@ -0,0 +1,363 @@
+/**
+ * Funnel Analytics Service
+ * Recruitment funnel computed from the stage history of job applications:
+ * stage-to-stage conversion, drop-off, time in stage and time to hire,
+ * overall and per application month.
+ *
+ * Each application is measured against its job's pipeline (or the default
+ * candidate pipeline). Stages are matched by name across pipelines, so a
+ * funnel over several jobs lines up stages such as "Phone Screen".
+ */
+
+import { candidateService, jobService, pipelineService } from './firestore';
+import { QueryCondition } from './firestore/base.service';
+import { ICandidate } from './firestore/candidate.service';
+import { IJob } from './firestore/job.service';
+import { IPipeline, IPipelineStage } from './firestore/pipeline.service';
+import { getAttribution } from './sourceAttribution.service';
+import { DAY_MS, toDate } from '../utils/helpers';
+
+type Candidate = ICandidate & { id: string };
+type JobApplication = NonNullable<ICandidate['jobApplications']>[number];
+
+export interface FunnelFilters {
+  from?: Date;
+  to?: Date;
+  jobId?: string;
+  clientId?: string;
+  recruiterId?: string;
+  source?: string;
+}
+
+export interface FunnelStage {
+  name: string;
+  order: number;
+  entered: number; // applications that reached the stage
+  advanced: number; // ...and later reached a further stage or were hired
+  conversionRate: number | null; // advanced / entered, in percent
+  dropOff: number; // entered - advanced
+  dropOffRate: number | null;
+  inStage: number; // still active in the stage
+  rejected: number; // rejected or withdrawn while in the stage
+  medianDaysInStage: number | null; // completed stays only
+  averageDaysInStage: number | null;
+}
+
+export interface FunnelCohort {
+  month: string; // YYYY-MM of the application
+  applications: number;
+  hired: number;
+  rejected: number;
+  hireRate: number | null;
+  medianDaysToHire: number | null;
+  stages: Array<{ name: string; entered: number; conversionRate: number | null }>;
+}
+
+export interface FunnelReport {
+  filters: FunnelFilters;
+  generatedAt: Date;
+  totals: {
+    applications: number;
+    active: number;
+    hired: number;
+    rejected: number;
+    hireRate: number | null;
+  };
+  timeToHire: {
+    hires: number;
+    medianDays: number | null;
+    averageDays: number | null;
+  };
+  stages: FunnelStage[];
+  cohorts: FunnelCohort[];
+}
+
+// Outcome of one job application, measured against its pipeline
+interface ApplicationPath {
+  month: string;
+  outcome: 'active' | 'hired' | 'rejected';
+  daysToHire: number | null;
+  currentStageKey: string | null;
+  enteredStages: Map<string, number>; // stage key -> order in the application's pipeline
+  maxOrder: number;
+  stays: Array<{ stageKey: string; days: number }>;
+}
+
+const CLOSED_STATUSES = ['rejected', 'withdrawn'];
+
+// Candidates read per query
+const PAGE_SIZE = 500;
+
+const stageKey = (name: string): string => name.trim().toLowerCase();
+
+const roundDays = (days: number): number => Math.round(days * 10) / 10;
+
+const percent = (part: number, total: number): number | null =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : null;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return roundDays(
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+  );
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? roundDays(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+const assigneeId = (candidate: Candidate): string | undefined => {
+  const assignedTo = (candidate as any).assignedTo;
+  return typeof assignedTo === 'string' ? assignedTo : assignedTo?.id || assignedTo?._id;
+};
+
+/**
+ * Follow one application through its pipeline
+ */
+const traceApplication = (
+  candidate: Candidate,
+  application: JobApplication,
+  appliedAt: Date,
+  stages: IPipelineStage[],
+  now: Date
+): ApplicationPath => {
+  const byId = new Map(stages.map((stage) => [stage.id, stage]));
+  const history = [...(application.stageHistory || [])]
+    .map((entry) => ({ ...entry, at: toDate(entry.changedAt) }))
+    .filter((entry): entry is typeof entry & { at: Date } => entry.at !== null)
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  const enteredStages = new Map<string, number>();
+  const enter = (stageId?: string | null) => {
+    const stage = stageId ? byId.get(stageId) : undefined;
+    if (stage) enteredStages.set(stageKey(stage.name), stage.order);
+  };
+  enter(history[0]?.fromStageId);
+  history.forEach((entry) => enter(entry.toStageId));
+  enter(application.currentStage);
+
+  // Stays that ended with a move; the open stay is not a completed duration
+  const stays: ApplicationPath['stays'] = [];
+  history.forEach((entry, index) => {
+    const stage = byId.get(entry.toStageId);
+    const next = history[index + 1];
+    if (stage && next) {
+      stays.push({ stageKey: stageKey(stage.name), days: (next.at.getTime() - entry.at.getTime()) / DAY_MS });
+    }
+  });
+  const firstMove = history[0];
+  const firstStage = firstMove?.fromStageId ? byId.get(firstMove.fromStageId) : undefined;
+  if (firstStage && firstMove.at >= appliedAt) {
+    stays.push({
+      stageKey: stageKey(firstStage.name),
+      days: (firstMove.at.getTime() - appliedAt.getTime()) / DAY_MS,
+    });
+  }
+
+  const hired =
+    application.status === 'hired' ||
+    (candidate.status === 'hired' && (candidate.jobApplications || []).length === 1);
+  const rejected = CLOSED_STATUSES.includes(application.status);
+
+  let daysToHire: number | null = null;
+  if (hired) {
+    const hiredAt =
+      (application.status === 'hired' && toDate(application.lastStatusChange)) ||
+      history[history.length - 1]?.at ||
+      toDate(candidate.updatedAt) ||
+      now;
+    daysToHire = Math.max(0, (hiredAt.getTime() - appliedAt.getTime()) / DAY_MS);
+  }
+
+  const currentStage = application.currentStage ? byId.get(application.currentStage) : undefined;
+
+  return {
+    month: appliedAt.toISOString().slice(0, 7),
+    outcome: hired ? 'hired' : rejected ? 'rejected' : 'active',
+    daysToHire,
+    currentStageKey: currentStage ? stageKey(currentStage.name) : null,
+    enteredStages,
+    maxOrder: Math.max(-Infinity, ...enteredStages.values()),
+    stays,
+  };
+};
+
+/**
+ * Aggregate application paths into funnel stages
+ */
+const buildStages = (
+  paths: ApplicationPath[],
+  stageNames: Map<string, { name: string; order: number }>
+): FunnelStage[] =>
+  [...stageNames.entries()]
+    .sort((a, b) => a[1].order - b[1].order)
+    .map(([key, { name, order }]) => {
+      const reached = paths.filter((path) => path.enteredStages.has(key));
+      const advanced = reached.filter(
+        (path) => path.outcome === 'hired' || path.maxOrder > path.enteredStages.get(key)!
+      ).length;
+      const days = paths.flatMap((path) =>
+        path.stays.filter((stay) => stay.stageKey === key).map((stay) => stay.days)
+      );
+
+      return {
+        name,
+        order,
+        entered: reached.length,
+        advanced,
+        conversionRate: percent(advanced, reached.length),
+        dropOff: reached.length - advanced,
+        dropOffRate: percent(reached.length - advanced, reached.length),
+        inStage: reached.filter(
+          (path) => path.outcome === 'active' && path.currentStageKey === key
+        ).length,
+        rejected: reached.filter(
+          (path) => path.outcome === 'rejected' && path.currentStageKey === key
+        ).length,
+        medianDaysInStage: median(days),
+        averageDaysInStage: average(days),
+      };
+    });
+
+/**
+ * Build the recruitment funnel for the applications matching the filters
+ * The date range applies to when candidates applied. Candidates are read a
+ * page at a time, only those updated since the start of the range.
+ */
+export const buildFunnelReport = async (
+  filters: FunnelFilters,
+  now: Date = new Date()
+): Promise<FunnelReport> => {
+  const jobs = new Map<string, (IJob & { id: string }) | null>();
+  const pipelines = new Map<string, IPipeline | null>();
+  const defaultPipeline = await pipelineService.findDefaultByType('candidate');
+
+  const getJob = async (jobId: string) => {
+    if (!jobs.has(jobId)) jobs.set(jobId, await jobService.findById(jobId));
+    return jobs.get(jobId)!;
+  };
+  const getStages = async (jobId: string): Promise<IPipelineStage[]> => {
+    if (!pipelines.has(jobId)) pipelines.set(jobId, await pipelineService.findByJobId(jobId));
+    return (pipelines.get(jobId) || defaultPipeline)?.stages || [];
+  };
+
+  const paths: ApplicationPath[] = [];
+  const stageNames = new Map<string, { name: string; order: number }>();
+
+  // A candidate is written whenever it applies, so everyone who applied since
+  // `from` has been updated since then. A candidate updated while the report
+  // pages through them moves to the end and is read again; count it once.
+  const conditions: QueryCondition[] = [
+    ...(filters.jobId ? [{ field: 'jobIds', operator: 'array-contains' as const, value: filters.jobId }] : []),
+    ...(filters.from ? [{ field: 'updatedAt', operator: '>=' as const, value: filters.from }] : []),
+  ];
+  const seen = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await candidateService.findPage(conditions, {
+      orderBy: filters.from ? [{ field: 'updatedAt', direction: 'asc' }] : undefined,
+      limit: PAGE_SIZE,
+      startAfter: cursor,
+    });
+
+    for (const candidate of page.items) {
+      if (seen.has(candidate.id)) continue;
+      seen.add(candidate.id);
+
+      // Matches the intake source or the attribution channel (e.g. "referral")
+      if (
+        filters.source &&
+        candidate.source !== filters.source &&
+        getAttribution(candidate, 'candidate').channel !== filters.source
+      ) {
+        continue;
+      }
+
+      for (const application of candidate.jobApplications || []) {
+        if (filters.jobId && application.jobId !== filters.jobId) continue;
+
+        const appliedAt = toDate(application.appliedAt) || toDate(candidate.createdAt);
+        if (!appliedAt) continue;
+        if (filters.from && appliedAt < filters.from) continue;
+        if (filters.to && appliedAt > filters.to) continue;
+
+        if (filters.clientId || filters.recruiterId) {
+          const job = await getJob(application.jobId);
+          if (filters.clientId && job?.clientId !== filters.clientId) continue;
+          if (
+            filters.recruiterId &&
+            !job?.recruiterIds?.includes(filters.recruiterId) &&
+            assigneeId(candidate) !== filters.recruiterId
+          ) {
+            continue;
+          }
+        }
+
+        const stages = await getStages(application.jobId);
+        stages.forEach((stage) => {
+          const key = stageKey(stage.name);
+          const known = stageNames.get(key);
+          if (!known || stage.order < known.order) {
+            stageNames.set(key, { name: stage.name, order: stage.order });
+          }
+        });
+
+        paths.push(traceApplication(candidate, application, appliedAt, stages, now));
+      }
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  const hireDays = paths
+    .map((path) => path.daysToHire)
+    .filter((days): days is number => days !== null);
+  const hired = paths.filter((path) => path.outcome === 'hired').length;
+
+  const byMonth = new Map<string, ApplicationPath[]>();
+  paths.forEach((path) => {
+    if (!byMonth.has(path.month)) byMonth.set(path.month, []);
+    byMonth.get(path.month)!.push(path);
+  });
+
+  const cohorts: FunnelCohort[] = [...byMonth.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([month, cohort]) => {
+      const cohortHired = cohort.filter((path) => path.outcome === 'hired').length;
+      return {
+        month,
+        applications: cohort.length,
+        hired: cohortHired,
+        rejected: cohort.filter((path) => path.outcome === 'rejected').length,
+        hireRate: percent(cohortHired, cohort.length),
+        medianDaysToHire: median(
+          cohort.map((path) => path.daysToHire).filter((days): days is number => days !== null)
+        ),
+        stages: buildStages(cohort, stageNames).map((stage) => ({
+          name: stage.name,
+          entered: stage.entered,
+          conversionRate: stage.conversionRate,
+        })),
+      };
+    });
+
+  return {
+    filters,
+    generatedAt: now,
+    totals: {
+      applications: paths.length,
+      active: paths.filter((path) => path.outcome === 'active').length,
+      hired,
+      rejected: paths.filter((path) => path.outcome === 'rejected').length,
+      hireRate: percent(hired, paths.length),
+    },
+    timeToHire: {
+      hires: hireDays.length,
+      medianDays: median(hireDays),
+      averageDays: average(hireDays),
+    },
+    stages: buildStages(paths, stageNames),
+    cohorts,
+  };
+};
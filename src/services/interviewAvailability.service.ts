@@ -0,0 +1,347 @@
+/**
+ * Interview Availability Service
+ * Working hours, time off and booked interviews of interviewers (and the
+ * candidate), used to find common free slots and to catch double-bookings
+ * when interviews are scheduled.
+ *
+ * Interview times are absolute instants; working hours are wall-clock times
+ * in each user's own timezone. Users who never set their availability work
+ * Monday to Friday, 09:00-17:00.
+ */
+
+import { interviewService, userAvailabilityService, userService } from './firestore';
+import { IInterview } from './firestore/interview.service';
+import { IUserAvailability, IWorkingHours } from './firestore/userAvailability.service';
+import { DAY_MS, MINUTE_MS, toDate } from '../utils/helpers';
+
+export type SchedulingConflictType =
+  | 'interviewer_busy'
+  | 'candidate_busy'
+  | 'time_off'
+  | 'outside_working_hours';
+
+export interface SchedulingConflict {
+  type: SchedulingConflictType;
+  userId?: string;
+  candidateId?: string;
+  interviewId?: string;
+  start: Date;
+  end: Date;
+  message: string;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Interview statuses that occupy their time slot
+const BOOKED_STATUSES: IInterview['status'][] = ['scheduled', 'confirmed', 'in-progress'];
+
+// Conflicts that can only be overridden explicitly; the others are warnings
+const BLOCKING_CONFLICTS: SchedulingConflictType[] = ['interviewer_busy', 'candidate_busy', 'time_off'];
+
+export const DEFAULT_WORKING_HOURS: IWorkingHours[] = [1, 2, 3, 4, 5].map((day) => ({
+  day,
+  start: '09:00',
+  end: '17:00',
+}));
+
+// Longest interview considered when looking for overlaps before a window
+const MAX_INTERVIEW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a string is an IANA timezone this runtime knows
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock parts of an instant in a timezone
+ */
+const zonedParts = (time: number, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Offset of a timezone from UTC at an instant, in milliseconds
+const zoneOffset = (time: number, timezone: string): number => {
+  const parts = zonedParts(time, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(time / 1000) * 1000;
+};
+
+/**
+ * Instant of a wall-clock time in a timezone
+ */
+const zonedTime = (
+  year: number,
+  month: number,
+  day: number,
+  hhmm: string,
+  timezone: string
+): number => {
+  const [hour, minute] = hhmm.split(':').map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - zoneOffset(guess, timezone);
+  // Second pass settles times next to a DST change
+  return guess - zoneOffset(first, timezone);
+};
+
+/**
+ * Format an instant for a conflict message
+ */
+export const formatInTimezone = (date: Date, timezone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone: isValidTimezone(timezone) ? timezone : 'UTC',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(date);
+
+/**
+ * Working-hour windows of a user between two instants
+ */
+const workingWindows = (
+  availability: Pick<IUserAvailability, 'timezone' | 'workingHours'>,
+  from: number,
+  to: number
+): Interval[] => {
+  const windows: Interval[] = [];
+  // One day of margin on each side covers any UTC offset
+  for (let time = from - DAY_MS; time <= to + DAY_MS; time += DAY_MS) {
+    const local = zonedParts(time, availability.timezone);
+    const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+    availability.workingHours
+      .filter((hours) => hours.day === weekday && hours.start < hours.end)
+      .forEach((hours) => {
+        const start = zonedTime(local.year, local.month, local.day, hours.start, availability.timezone);
+        const end = zonedTime(local.year, local.month, local.day, hours.end, availability.timezone);
+        if (end > from && start < to) windows.push({ start, end });
+      });
+  }
+  return windows.sort((a, b) => a.start - b.start);
+};
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && b.start < a.end;
+
+const interviewInterval = (interview: IInterview): Interval | null => {
+  const start = toDate(interview.scheduledAt);
+  if (!start) return null;
+  return { start: start.getTime(), end: start.getTime() + (interview.duration || 60) * MINUTE_MS };
+};
+
+/**
+ * Booked interviews overlapping a window, for an interviewer or a candidate
+ */
+const findBookedInterviews = async (
+  field: 'interviewerIds' | 'candidateId',
+  id: string,
+  window: Interval,
+  excludeInterviewId?: string
+): Promise<Array<IInterview & { id: string } & { interval: Interval }>> => {
+  const interviews = await interviewService.find([
+    { field, operator: field === 'interviewerIds' ? 'array-contains' : '==', value: id },
+    { field: 'scheduledAt', operator: '>=', value: new Date(window.start - MAX_INTERVIEW_MS) },
+    { field: 'scheduledAt', operator: '<', value: new Date(window.end) },
+  ]);
+
+  return interviews
+    .filter((interview) => interview.id !== excludeInterviewId && BOOKED_STATUSES.includes(interview.status))
+    .map((interview) => ({ ...interview, interval: interviewInterval(interview)! }))
+    .filter((interview) => interview.interval && overlaps(interview.interval, window));
+};
+
+const resolveAvailability = (
+  availability: IUserAvailability | undefined,
+  defaultTimezone: string
+): Pick<IUserAvailability, 'timezone' | 'workingHours' | 'timeOff'> =>
+  availability || { timezone: defaultTimezone, workingHours: DEFAULT_WORKING_HOURS, timeOff: [] };
+
+/**
+ * Conflicts of an interview slot: interviewers or the candidate already
+ * booked, interviewers on time off, and (as a warning) slots outside an
+ * interviewer's working hours
+ */
+export const findSchedulingConflicts = async (params: {
+  interviewerIds: string[];
+  candidateId?: string;
+  scheduledAt: Date;
+  duration: number;
+  timezone?: string;
+  excludeInterviewId?: string;
+}): Promise<SchedulingConflict[]> => {
+  const timezone = params.timezone && isValidTimezone(params.timezone) ? params.timezone : 'UTC';
+  const slot: Interval = {
+    start: params.scheduledAt.getTime(),
+    end: params.scheduledAt.getTime() + params.duration * MINUTE_MS,
+  };
+  const interviewerIds = [...new Set(params.interviewerIds)];
+
+  const [availability, users] = await Promise.all([
+    userAvailabilityService.findByUserIds(interviewerIds),
+    Promise.all(interviewerIds.map((id) => userService.findById(id).catch(() => null))),
+  ]);
+  const names = new Map(
+    interviewerIds.map((id, index) => {
+      const user = users[index];
+      return [id, user ? `${user.firstName} ${user.lastName}`.trim() : id];
+    })
+  );
+  const at = (time: number) => formatInTimezone(new Date(time), timezone);
+
+  const conflicts: SchedulingConflict[] = [];
+
+  for (const userId of interviewerIds) {
+    const booked = await findBookedInterviews('interviewerIds', userId, slot, params.excludeInterviewId);
+    booked.forEach((interview) =>
+      conflicts.push({
+        type: 'interviewer_busy',
+        userId,
+        interviewId: interview.id,
+        start: new Date(interview.interval.start),
+        end: new Date(interview.interval.end),
+        message: `${names.get(userId)} already has "${interview.title || 'an interview'}" at ${at(interview.interval.start)}`,
+      })
+    );
+
+    const userAvailability = availability.get(userId);
+    (userAvailability?.timeOff || []).forEach((timeOff) => {
+      const interval = { start: toDate(timeOff.start)!.getTime(), end: toDate(timeOff.end)!.getTime() };
+      if (overlaps(interval, slot)) {
+        conflicts.push({
+          type: 'time_off',
+          userId,
+          start: new Date(interval.start),
+          end: new Date(interval.end),
+          message: `${names.get(userId)} is off from ${at(interval.start)} to ${at(interval.end)}${timeOff.reason ? ` (${timeOff.reason})` : ''}`,
+        });
+      }
+    });
+
+    // Only users who set their working hours get this warning
+    if (userAvailability) {
+      const windows = workingWindows(userAvailability, slot.start, slot.end);
+      if (!windows.some((window) => window.start <= slot.start && window.end >= slot.end)) {
+        conflicts.push({
+          type: 'outside_working_hours',
+          userId,
+          start: new Date(slot.start),
+          end: new Date(slot.end),
+          message: `${at(slot.start)} is outside ${names.get(userId)}'s working hours (${userAvailability.timezone})`,
+        });
+      }
+    }
+  }
+
+  if (params.candidateId) {
+    const booked = await findBookedInterviews('candidateId', params.candidateId, slot, params.excludeInterviewId);
+    booked.forEach((interview) =>
+      conflicts.push({
+        type: 'candidate_busy',
+        candidateId: params.candidateId,
+        interviewId: interview.id,
+        start: new Date(interview.interval.start),
+        end: new Date(interview.interval.end),
+        message: `The candidate already has "${interview.title || 'an interview'}" at ${at(interview.interval.start)}`,
+      })
+    );
+  }
+
+  return conflicts;
+};
+
+/**
+ * Whether a conflict blocks scheduling unless explicitly overridden
+ */
+export const isBlockingConflict = (conflict: SchedulingConflict): boolean =>
+  BLOCKING_CONFLICTS.includes(conflict.type);
+
+/**
+ * Slots in which every interviewer (and the candidate, if given) is free
+ * Slots start on multiples of `step` minutes, fit inside every interviewer's
+ * working hours, and avoid booked interviews and time off.
+ */
+export const findCommonFreeSlots = async (params: {
+  interviewerIds: string[];
+  candidateId?: string;
+  duration: number;
+  from: Date;
+  to: Date;
+  step?: number;
+  limit?: number;
+  timezone?: string; // working-hours timezone of users who never set theirs
+  excludeInterviewId?: string; // e.g. the interview being rescheduled
+  now?: Date;
+}): Promise<Array<{ start: Date; end: Date }>> => {
+  const step = (params.step || 30) * MINUTE_MS;
+  const duration = params.duration * MINUTE_MS;
+  const limit = params.limit || 50;
+  const defaultTimezone = params.timezone && isValidTimezone(params.timezone) ? params.timezone : 'UTC';
+  const from = Math.max(params.from.getTime(), (params.now || new Date()).getTime());
+  const window: Interval = { start: from, end: params.to.getTime() };
+  const interviewerIds = [...new Set(params.interviewerIds)];
+
+  const availability = await userAvailabilityService.findByUserIds(interviewerIds);
+
+  const windowsByUser: Interval[][] = [];
+  const busy: Interval[] = [];
+  for (const userId of interviewerIds) {
+    const userAvailability = resolveAvailability(availability.get(userId), defaultTimezone);
+    windowsByUser.push(workingWindows(userAvailability, window.start, window.end));
+    userAvailability.timeOff.forEach((timeOff) =>
+      busy.push({ start: toDate(timeOff.start)!.getTime(), end: toDate(timeOff.end)!.getTime() })
+    );
+    (await findBookedInterviews('interviewerIds', userId, window, params.excludeInterviewId)).forEach((interview) =>
+      busy.push(interview.interval)
+    );
+  }
+  if (params.candidateId) {
+    (await findBookedInterviews('candidateId', params.candidateId, window, params.excludeInterviewId)).forEach((interview) =>
+      busy.push(interview.interval)
+    );
+  }
+
+  const slots: Array<{ start: Date; end: Date }> = [];
+  for (
+    let start = Math.ceil(window.start / step) * step;
+    start + duration <= window.end && slots.length < limit;
+    start += step
+  ) {
+    const slot = { start, end: start + duration };
+    const everyoneWorking = windowsByUser.every((windows) =>
+      windows.some((item) => item.start <= slot.start && item.end >= slot.end)
+    );
+    if (everyoneWorking && !busy.some((interval) => overlaps(interval, slot))) {
+      slots.push({ start: new Date(slot.start), end: new Date(slot.end) });
+    }
+  }
+
+  return slots;
+};
@@ -0,0 +1,290 @@
+/**
+ * Interview Calendar Service
+ * .ics invites emailed on every interview change, and per-user iCal feeds.
+ * Every interview keeps one UID; its SEQUENCE goes up with each invite sent,
+ * so calendar clients replace the event instead of adding a new one.
+ */
+
+import { config } from '../config';
+import { calendarFeedService, candidateService, interviewService, jobService, userService } from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IInterview } from './firestore/interview.service';
+import { IJob } from './firestore/job.service';
+import { IUser } from './firestore/user.service';
+import emailService, { EmailAttachment } from './email.service';
+import { formatInTimezone } from './interviewAvailability.service';
+import { generateToken } from '../utils/auth';
+import { DAY_MS, MINUTE_MS, escapeHtml, toDate } from '../utils/helpers';
+import { buildCalendar, CalendarEvent, CalendarMethod } from '../utils/icalendar';
+import logger from '../utils/logger';
+
+type Interview = IInterview & { id: string };
+
+export type InterviewCalendarChange = 'scheduled' | 'updated' | 'cancelled';
+
+// How far back the feed goes; upcoming interviews are always included
+export const FEED_HISTORY_DAYS = 90;
+
+// Feed reads refresh lastAccessedAt at most this often; calendar apps poll feeds
+const FEED_ACCESS_WRITE_INTERVAL_MS = 60 * MINUTE_MS;
+
+const calendarHost = (() => {
+  try {
+    return new URL(config.frontendUrl).hostname || 'ats';
+  } catch {
+    return 'ats';
+  }
+})();
+
+// Interviewers are stored as IDs, though some older interviews hold user objects
+const toInterviewerIds = (interviewers: unknown[] = []): string[] =>
+  interviewers
+    .map((interviewer: any) => (typeof interviewer === 'string' ? interviewer : interviewer?.id || interviewer?._id))
+    .filter(Boolean);
+
+const fullName = (person: { firstName?: string; lastName?: string }) =>
+  `${person.firstName || ''} ${person.lastName || ''}`.trim();
+
+/**
+ * Stable UID of an interview's calendar event
+ */
+export const interviewEventUid = (interviewId: string): string => `interview-${interviewId}@${calendarHost}`;
+
+interface InterviewParticipants {
+  candidate: ICandidate | null;
+  job: IJob | null;
+  organizer: IUser | null;
+  interviewers: IUser[];
+}
+
+const findParticipants = async (interview: Interview): Promise<InterviewParticipants> => {
+  const [candidate, job, organizer, interviewers] = await Promise.all([
+    candidateService.findById(interview.candidateId),
+    jobService.findById(interview.jobId),
+    interview.organizerId ? userService.findById(interview.organizerId) : Promise.resolve(null),
+    Promise.all(toInterviewerIds(interview.interviewerIds).map((id) => userService.findById(id))),
+  ]);
+  return {
+    candidate,
+    job,
+    organizer,
+    interviewers: interviewers.filter((user): user is NonNullable<typeof user> => !!user),
+  };
+};
+
+/**
+ * Calendar event of an interview; drafts (no time yet) have none
+ * Invites carry the organizer and attendees, feeds leave them out so
+ * subscribed calendars do not treat events as invitations.
+ */
+export const buildInterviewEvent = (
+  interview: Interview,
+  details: { candidateName?: string; jobTitle?: string } & Partial<Pick<InterviewParticipants, 'organizer' | 'interviewers' | 'candidate'>>,
+  sequence: number
+): CalendarEvent | null => {
+  const start = toDate(interview.scheduledAt);
+  if (!start) return null;
+
+  const description = [
+    details.jobTitle && `Position: ${details.jobTitle}`,
+    `Type: ${interview.type}`,
+    `Duration: ${interview.duration} minutes`,
+    interview.meetingLink && `Meeting link: ${interview.meetingLink}`,
+    interview.meetingPassword && `Password: ${interview.meetingPassword}`,
+    interview.description,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    uid: interviewEventUid(interview.id),
+    sequence,
+    start,
+    end: new Date(start.getTime() + (interview.duration || 60) * MINUTE_MS),
+    summary: `${interview.title}${details.candidateName ? `: ${details.candidateName}` : ''}${details.jobTitle ? ` (${details.jobTitle})` : ''}`,
+    description,
+    location: interview.meetingLink || interview.location,
+    url: interview.meetingLink,
+    status: interview.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: toDate(interview.updatedAt) || undefined,
+    ...(details.organizer && { organizer: { email: details.organizer.email, name: fullName(details.organizer) } }),
+    ...((details.candidate || details.interviewers) && {
+      attendees: [
+        ...(details.candidate ? [{ email: details.candidate.email, name: fullName(details.candidate) }] : []),
+        ...(details.interviewers || []).map((user) => ({ email: user.email, name: fullName(user) })),
+      ],
+    }),
+  };
+};
+
+/**
+ * .ics attachment for an invite email
+ */
+export const icsAttachment = (ics: string, method: CalendarMethod): EmailAttachment => ({
+  filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+  content: Buffer.from(ics, 'utf8'),
+  contentType: `text/calendar; charset=utf-8; method=${method}`,
+});
+
+const CHANGE_LABELS: Record<InterviewCalendarChange, string> = {
+  scheduled: 'Interview invitation',
+  updated: 'Updated interview',
+  cancelled: 'Cancelled interview',
+};
+
+/**
+ * Email .ics invites for an interview change
+ * The first invite of an interview has SEQUENCE 0; each later one bumps it.
+ * Interviewers (and the candidate, unless `notifyCandidate` is false) get the
+ * invite; `removedInterviewerIds` get a cancellation. Returns the candidate's
+ * attachment so callers sending their own candidate email can attach it.
+ * Email failures are logged, never thrown.
+ */
+export const sendInterviewInvites = async (
+  interview: Interview,
+  change: InterviewCalendarChange,
+  options: { notifyCandidate?: boolean; removedInterviewerIds?: string[]; note?: string } = {}
+): Promise<EmailAttachment | null> => {
+  if (!toDate(interview.scheduledAt)) return null;
+
+  const sequence = interview.icsSequence === undefined || interview.icsSequence === null ? 0 : interview.icsSequence + 1;
+  await interviewService.update(interview.id, { icsSequence: sequence });
+
+  const participants = await findParticipants(interview);
+  const candidateName = participants.candidate ? fullName(participants.candidate) : undefined;
+  const jobTitle = participants.job?.title;
+  const method: CalendarMethod = change === 'cancelled' ? 'CANCEL' : 'REQUEST';
+  const event = buildInterviewEvent(
+    { ...interview, status: change === 'cancelled' ? 'cancelled' : interview.status, icsSequence: sequence },
+    { ...participants, candidateName, jobTitle },
+    sequence
+  )!;
+  const attachment = icsAttachment(buildCalendar([event], { method }), method);
+
+  const when = formatInTimezone(event.start, interview.timezone || 'UTC');
+  const send = async (to: string[], subject: string, intro: string, attachments: EmailAttachment[]) => {
+    if (to.length === 0) return;
+    const lines = [
+      intro,
+      ...(options.note ? [options.note] : []),
+      `When: ${when} (${interview.duration} minutes)`,
+      ...(change !== 'cancelled' && event.location ? [`Where: ${event.location}`] : []),
+    ];
+    const sent = await emailService.sendEmail({
+      to,
+      subject,
+      html: lines.map((line) => `<p>${escapeHtml(line)}</p>`).join('\n'),
+      text: lines.join('\n\n'),
+      attachments,
+    });
+    if (!sent) {
+      logger.warn(`Failed to send ${change} invite for interview ${interview.id} to ${to.join(', ')}`);
+    }
+  };
+
+  const subject = `${CHANGE_LABELS[change]}: ${event.summary}`;
+  const intro =
+    change === 'cancelled'
+      ? `${event.summary} on ${when} has been cancelled.`
+      : change === 'updated'
+        ? `${event.summary} has been updated.`
+        : `You are invited to ${event.summary}.`;
+
+  await send(
+    participants.interviewers.map((user) => user.email).filter(Boolean),
+    subject,
+    intro,
+    [attachment]
+  );
+
+  if (options.notifyCandidate !== false && participants.candidate?.email) {
+    await send([participants.candidate.email], jobTitle ? `${CHANGE_LABELS[change]} - ${jobTitle}` : subject, intro, [
+      attachment,
+    ]);
+  }
+
+  const currentIds = toInterviewerIds(interview.interviewerIds);
+  const removedIds = toInterviewerIds(options.removedInterviewerIds).filter((id) => !currentIds.includes(id));
+  if (removedIds.length > 0 && change !== 'cancelled') {
+    const removed = (await Promise.all(removedIds.map((id) => userService.findById(id)))).filter(
+      (user): user is NonNullable<typeof user> => !!user
+    );
+    const cancelEvent = { ...event, status: 'CANCELLED' as const, attendees: undefined };
+    await send(
+      removed.map((user) => user.email),
+      `${CHANGE_LABELS.cancelled}: ${event.summary}`,
+      `You are no longer an interviewer for ${event.summary}.`,
+      [icsAttachment(buildCalendar([cancelEvent], { method: 'CANCEL' }), 'CANCEL')]
+    );
+  }
+
+  return attachment;
+};
+
+/**
+ * The user's feed token, created on first use
+ */
+export const getCalendarFeedToken = async (userId: string, options: { rotate?: boolean } = {}): Promise<string> => {
+  const existing = await calendarFeedService.findById(userId);
+  if (existing && !options.rotate) return existing.token;
+
+  const token = generateToken();
+  await calendarFeedService.createWithId(userId, { userId, token });
+  return token;
+};
+
+/**
+ * iCal feed of a user's interviews, as interviewer or organizer
+ * Returns null for unknown tokens and inactive users.
+ */
+export const buildUserInterviewFeed = async (token: string, now: Date = new Date()): Promise<string | null> => {
+  const feed = await calendarFeedService.findByToken(token);
+  if (!feed) return null;
+
+  const user = await userService.findById(feed.userId);
+  if (!user || user.isActive === false) return null;
+
+  const since = new Date(now.getTime() - FEED_HISTORY_DAYS * DAY_MS);
+  const [asInterviewer, asOrganizer] = await Promise.all([
+    interviewService.find([
+      { field: 'interviewerIds', operator: 'array-contains', value: feed.userId },
+      { field: 'scheduledAt', operator: '>=', value: since },
+    ]),
+    interviewService.find([
+      { field: 'organizerId', operator: '==', value: feed.userId },
+      { field: 'scheduledAt', operator: '>=', value: since },
+    ]),
+  ]);
+
+  const interviews = new Map<string, Interview>();
+  [...asInterviewer, ...asOrganizer].forEach((interview) => {
+    if (interview.id && interview.status !== 'draft') interviews.set(interview.id, interview as Interview);
+  });
+
+  const candidateIds = [...new Set([...interviews.values()].map((interview) => interview.candidateId))];
+  const jobIds = [...new Set([...interviews.values()].map((interview) => interview.jobId))];
+  const [candidates, jobs] = await Promise.all([
+    Promise.all(candidateIds.map((id) => candidateService.findById(id))),
+    Promise.all(jobIds.map((id) => jobService.findById(id))),
+  ]);
+  const candidateNames = new Map(candidateIds.map((id, index) => [id, candidates[index] ? fullName(candidates[index]!) : undefined]));
+  const jobTitles = new Map(jobIds.map((id, index) => [id, jobs[index]?.title]));
+
+  const events = [...interviews.values()]
+    .map((interview) =>
+      buildInterviewEvent(
+        interview,
+        { candidateName: candidateNames.get(interview.candidateId), jobTitle: jobTitles.get(interview.jobId) },
+        interview.icsSequence || 0
+      )
+    )
+    .filter((event): event is CalendarEvent => !!event)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const lastAccessedAt = toDate(feed.lastAccessedAt);
+  if (!lastAccessedAt || now.getTime() - lastAccessedAt.getTime() >= FEED_ACCESS_WRITE_INTERVAL_MS) {
+    await calendarFeedService.update(feed.id!, { lastAccessedAt: now });
+  }
+
+  return buildCalendar(events, { name: `Interviews - ${fullName(user)}`, now });
+};
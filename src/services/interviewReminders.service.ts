@@ -0,0 +1,451 @@
+/**
+ * Interview Reminders Service
+ * Plans reminders for each interview as stored documents, so they survive
+ * restarts, and sends the due ones:
+ * - upcoming: to the candidate and interviewers, at configured offsets before
+ * - feedback_due: to interviewers whose feedback is missing after completion
+ * - no_show_followup: to the candidate and organizer after a no-show
+ * A reminder is claimed (optimistic revision check) before it is sent and is
+ * never retried once claimed, so nobody gets the same reminder twice.
+ */
+
+import { config } from '../config';
+import {
+  candidateService,
+  interviewReminderService,
+  interviewService,
+  jobService,
+  userAvailabilityService,
+  userService,
+} from './firestore';
+import { IInterview } from './firestore/interview.service';
+import {
+  IInterviewReminder,
+  InterviewReminderKind,
+  InterviewReminderRecipient,
+} from './firestore/interviewReminder.service';
+import emailService from './email.service';
+import { formatInTimezone } from './interviewAvailability.service';
+import { ConflictError } from '../utils/errors';
+import { DAY_MS, MINUTE_MS, escapeHtml, toDate } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type Interview = IInterview & { id: string };
+type Reminder = IInterviewReminder & { id: string };
+type PlannedReminder = Omit<IInterviewReminder, 'id' | 'status'>;
+
+// Claimed reminders not marked sent by then are given up on
+const STALE_CLAIM_MS = 15 * MINUTE_MS;
+// Follow-ups for interviews that ended longer ago than this are not planned
+const MAX_FOLLOW_UP_AGE_MS = 7 * DAY_MS;
+
+const UPCOMING_STATUSES: IInterview['status'][] = ['scheduled', 'confirmed'];
+
+const interviewerIdsOf = (interview: IInterview): string[] =>
+  (interview.interviewerIds || [])
+    .map((interviewer: any) => (typeof interviewer === 'string' ? interviewer : interviewer?.id || interviewer?._id))
+    .filter(Boolean);
+
+/**
+ * "24 hours", "1 hour", "30 minutes", "2 days"
+ */
+export const formatOffset = (minutes: number): string => {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+  if (minutes >= 2 * 24 * 60 && minutes % (24 * 60) === 0) return plural(minutes / (24 * 60), 'day');
+  if (minutes >= 60 && minutes % 60 === 0) return plural(minutes / 60, 'hour');
+  return plural(minutes, 'minute');
+};
+
+/**
+ * Reminders an interview should have in its current state
+ */
+export const planInterviewReminders = (interview: Interview, now: Date = new Date()): PlannedReminder[] => {
+  const scheduledAt = toDate(interview.scheduledAt);
+  if (!scheduledAt) return [];
+
+  const settings = config.interviewReminders;
+  const occurrence = scheduledAt.toISOString();
+  const endsAt = scheduledAt.getTime() + (interview.duration || 60) * MINUTE_MS;
+  const interviewerIds = interviewerIdsOf(interview);
+  const planned: PlannedReminder[] = [];
+
+  const add = (
+    kind: InterviewReminderKind,
+    recipientType: InterviewReminderRecipient,
+    recipientIds: string[],
+    offsets: number[],
+    dueAt: (offset: number) => number
+  ) => {
+    offsets.forEach((offsetMinutes) =>
+      recipientIds.forEach((recipientId) =>
+        planned.push({
+          interviewId: interview.id,
+          kind,
+          recipientType,
+          recipientId,
+          offsetMinutes,
+          occurrence,
+          dueAt: new Date(dueAt(offsetMinutes)),
+        })
+      )
+    );
+  };
+
+  if (UPCOMING_STATUSES.includes(interview.status) && scheduledAt > now) {
+    const before = (offset: number) => scheduledAt.getTime() - offset * MINUTE_MS;
+    add('upcoming', 'candidate', [interview.candidateId], settings.candidateOffsets, before);
+    add('upcoming', 'interviewer', interviewerIds, settings.interviewerOffsets, before);
+  }
+
+  if (interview.status === 'completed') {
+    const completedAt = toDate(interview.completedAt)?.getTime() || endsAt;
+    const submitted = new Set((interview.feedback || []).map((item) => item.interviewerId));
+    add(
+      'feedback_due',
+      'interviewer',
+      interviewerIds.filter((id) => !submitted.has(id)),
+      settings.feedbackOffsets,
+      (offset) => completedAt + offset * MINUTE_MS
+    );
+  }
+
+  if (interview.status === 'no-show') {
+    const after = (offset: number) => endsAt + offset * MINUTE_MS;
+    add('no_show_followup', 'candidate', [interview.candidateId], settings.noShowOffsets, after);
+    if (interview.organizerId) {
+      add('no_show_followup', 'organizer', [interview.organizerId], settings.noShowOffsets, after);
+    }
+  }
+
+  return planned;
+};
+
+/**
+ * Whether a planned reminder not stored yet should still be added
+ * Upcoming reminders whose time has passed are dropped; follow-ups still go
+ * out late, within a week.
+ */
+const isWorthAdding = (reminder: PlannedReminder, now: Date): boolean =>
+  reminder.kind === 'upcoming'
+    ? reminder.dueAt > now
+    : reminder.dueAt.getTime() > now.getTime() - MAX_FOLLOW_UP_AGE_MS;
+
+/**
+ * Bring an interview's stored reminders in line with its current state
+ * New reminders are added, pending ones no longer planned (rescheduled,
+ * cancelled, feedback submitted...) are cancelled; sent ones are kept.
+ * Failures are logged, never thrown, so callers can fire and forget.
+ */
+export const syncInterviewReminders = async (
+  interview: Interview | null,
+  now: Date = new Date()
+): Promise<{ created: number; cancelled: number }> => {
+  const result = { created: 0, cancelled: 0 };
+  if (!interview?.id) return result;
+
+  try {
+    const existing = (await interviewReminderService.findByInterviewId(interview.id)) as Reminder[];
+    const existingIds = new Set(existing.map((reminder) => reminder.id));
+    const planned = new Map(
+      (interview.deletedAt ? [] : planInterviewReminders(interview, now)).map((reminder) => [
+        interviewReminderService.reminderId(reminder),
+        reminder,
+      ])
+    );
+
+    for (const [id, reminder] of planned) {
+      if (existingIds.has(id) || !isWorthAdding(reminder, now)) continue;
+      // Never overwrite: the sweep may have claimed or sent it since the read above
+      if (await interviewReminderService.createIfAbsent(id, { ...reminder, status: 'pending' })) {
+        result.created += 1;
+      }
+    }
+
+    for (const reminder of existing) {
+      if (reminder.status !== 'pending' || planned.has(reminder.id)) continue;
+      try {
+        await interviewReminderService.update(
+          reminder.id,
+          { status: 'cancelled', reason: 'No longer applies to the interview' },
+          { expectedRevision: reminder.revision ?? 1 }
+        );
+        result.cancelled += 1;
+      } catch (error) {
+        // Claimed by the sweep in the meantime; it re-checks the interview before sending
+        if (!(error instanceof ConflictError)) throw error;
+      }
+    }
+  } catch (error) {
+    logger.error(`Failed to sync reminders of interview ${interview.id}:`, error);
+  }
+
+  return result;
+};
+
+/**
+ * Why a due reminder should not be sent any more, if so
+ */
+const skipReason = (reminder: Reminder, interview: Interview | null, now: Date): string | null => {
+  if (!interview || interview.deletedAt) return 'Interview deleted';
+  const scheduledAt = toDate(interview.scheduledAt);
+  if (!scheduledAt || scheduledAt.toISOString() !== reminder.occurrence) return 'Interview was rescheduled';
+
+  const onPanel = interviewerIdsOf(interview).includes(reminder.recipientId);
+  switch (reminder.kind) {
+    case 'upcoming':
+      if (!UPCOMING_STATUSES.includes(interview.status)) return `Interview is ${interview.status}`;
+      if (scheduledAt <= now) return 'Interview already started';
+      if (reminder.recipientType === 'interviewer' && !onPanel) return 'No longer an interviewer';
+      return null;
+    case 'feedback_due':
+      if (interview.status !== 'completed') return `Interview is ${interview.status}`;
+      if (!onPanel) return 'No longer an interviewer';
+      if ((interview.feedback || []).some((item) => item.interviewerId === reminder.recipientId)) {
+        return 'Feedback submitted';
+      }
+      return null;
+    case 'no_show_followup':
+      return interview.status === 'no-show' ? null : `Interview is ${interview.status}`;
+  }
+};
+
+/**
+ * Email of a reminder: recipient, subject and body lines, with times in the
+ * recipient's timezone (interviewers' own, otherwise the interview's)
+ */
+const renderReminder = async (
+  reminder: Reminder,
+  interview: Interview
+): Promise<{ to: string; subject: string; lines: string[]; link?: { url: string; label: string } } | null> => {
+  const [candidate, job] = await Promise.all([
+    candidateService.findById(interview.candidateId),
+    jobService.findById(interview.jobId),
+  ]);
+  const candidateName = candidate ? `${candidate.firstName} ${candidate.lastName}`.trim() : 'the candidate';
+  const jobTitle = job?.title || 'the position';
+  const interviewUrl = `${config.frontendUrl}/interviews/${interview.id}`;
+  const scheduledAt = toDate(interview.scheduledAt)!;
+
+  if (reminder.recipientType === 'candidate') {
+    if (!candidate?.email) return null;
+    const when = formatInTimezone(scheduledAt, interview.timezone || 'UTC');
+
+    if (reminder.kind === 'no_show_followup') {
+      return {
+        to: candidate.email,
+        subject: `We missed you - ${jobTitle}`,
+        lines: [
+          `Hi ${candidate.firstName},`,
+          `We were expecting you for your ${interview.title} interview for ${jobTitle} on ${when}.`,
+          'If something came up, just reply to this email and we will find a new time.',
+        ],
+      };
+    }
+
+    return {
+      to: candidate.email,
+      subject: `Reminder: your interview for ${jobTitle} in ${formatOffset(reminder.offsetMinutes)}`,
+      lines: [
+        `Hi ${candidate.firstName},`,
+        `This is a reminder of your ${interview.title} interview for ${jobTitle}.`,
+        `When: ${when} (${interview.duration} minutes)`,
+        ...(interview.meetingLink ? [`Meeting link: ${interview.meetingLink}`] : []),
+        ...(interview.meetingPassword ? [`Password: ${interview.meetingPassword}`] : []),
+        ...(interview.location ? [`Location: ${interview.location}`] : []),
+      ],
+    };
+  }
+
+  const [user, availability] = await Promise.all([
+    userService.findById(reminder.recipientId),
+    userAvailabilityService.findById(reminder.recipientId),
+  ]);
+  if (!user?.email || user.isActive === false) return null;
+  const when = formatInTimezone(scheduledAt, availability?.timezone || interview.timezone || 'UTC');
+
+  switch (reminder.kind) {
+    case 'upcoming':
+      return {
+        to: user.email,
+        subject: `Reminder: ${interview.title} with ${candidateName} in ${formatOffset(reminder.offsetMinutes)}`,
+        lines: [
+          `Hi ${user.firstName},`,
+          `You are interviewing ${candidateName} for ${jobTitle}.`,
+          `When: ${when} (${interview.duration} minutes)`,
+          ...(interview.meetingLink ? [`Meeting link: ${interview.meetingLink}`] : []),
+          ...(interview.location ? [`Location: ${interview.location}`] : []),
+        ],
+        link: { url: interviewUrl, label: 'Open the interview and its kit' },
+      };
+    case 'feedback_due':
+      return {
+        to: user.email,
+        subject: `Feedback due: ${interview.title} with ${candidateName}`,
+        lines: [
+          `Hi ${user.firstName},`,
+          `Your feedback on ${candidateName} (${jobTitle}, interviewed ${when}) is still missing.`,
+          "Please submit your scorecard; the other interviewers' feedback stays hidden until you do.",
+        ],
+        link: { url: interviewUrl, label: 'Submit feedback' },
+      };
+    case 'no_show_followup':
+      return {
+        to: user.email,
+        subject: `No-show: ${candidateName} missed ${interview.title}`,
+        lines: [
+          `Hi ${user.firstName},`,
+          `${candidateName} did not attend the ${interview.title} interview for ${jobTitle} on ${when}.`,
+          'They were sent a follow-up; reschedule or close the interview when you hear back.',
+        ],
+        link: { url: interviewUrl, label: 'Open the interview' },
+      };
+  }
+};
+
+/**
+ * Claim, check and send one due reminder
+ */
+const sendReminder = async (reminder: Reminder, now: Date): Promise<'sent' | 'skipped' | 'failed' | 'claimed'> => {
+  try {
+    await interviewReminderService.update(
+      reminder.id,
+      { status: 'sending', claimedAt: now },
+      { expectedRevision: reminder.revision ?? 1 }
+    );
+  } catch (error) {
+    if (error instanceof ConflictError) return 'claimed'; // another run got it first
+    throw error;
+  }
+
+  const interview = (await interviewService.findById(reminder.interviewId, { includeDeleted: true })) as Interview | null;
+  const reason = skipReason(reminder, interview, now);
+  if (reason) {
+    await interviewReminderService.update(reminder.id, { status: 'skipped', reason });
+    return 'skipped';
+  }
+
+  try {
+    const email = await renderReminder(reminder, interview!);
+    if (!email) {
+      await interviewReminderService.update(reminder.id, { status: 'skipped', reason: 'Recipient has no email address' });
+      return 'skipped';
+    }
+
+    const emailId = await emailService.sendEmail({
+      to: email.to,
+      subject: email.subject,
+      html: [
+        ...email.lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+        ...(email.link ? [`<p><a href="${email.link.url}">${escapeHtml(email.link.label)}</a></p>`] : []),
+      ].join('\n'),
+      text: [...email.lines, ...(email.link ? [`${email.link.label}: ${email.link.url}`] : [])].join('\n\n'),
+    });
+
+    if (!emailId) {
+      await interviewReminderService.update(reminder.id, { status: 'failed', reason: 'Email provider rejected the message' });
+      return 'failed';
+    }
+
+    await interviewReminderService.update(reminder.id, { status: 'sent', sentAt: new Date(), emailId });
+    if (reminder.kind === 'upcoming' && reminder.recipientType === 'candidate') {
+      await interviewService.markReminderSent(reminder.interviewId);
+    }
+    return 'sent';
+  } catch (error: any) {
+    logger.error(`Failed to send interview reminder ${reminder.id}:`, error);
+    await interviewReminderService.update(reminder.id, { status: 'failed', reason: error.message });
+    return 'failed';
+  }
+};
+
+/**
+ * Plan reminders for interviews coming up within the longest offset
+ * Catches interviews created or moved outside the API (imports, scripts).
+ */
+export const syncUpcomingInterviewReminders = async (now: Date = new Date()): Promise<number> => {
+  const settings = config.interviewReminders;
+  const horizon = Math.max(0, ...settings.candidateOffsets, ...settings.interviewerOffsets) * MINUTE_MS;
+  if (horizon === 0) return 0;
+
+  const interviews = (await interviewService.find([
+    { field: 'scheduledAt', operator: '>', value: now },
+    { field: 'scheduledAt', operator: '<=', value: new Date(now.getTime() + horizon) },
+  ])) as Interview[];
+
+  let created = 0;
+  for (const interview of interviews.filter((item) => UPCOMING_STATUSES.includes(item.status))) {
+    created += (await syncInterviewReminders(interview, now)).created;
+  }
+  return created;
+};
+
+/**
+ * Send every due reminder
+ * When several upcoming reminders of the same interview and recipient are
+ * due at once (after downtime), only the closest one goes out.
+ */
+export const sendDueInterviewReminders = async (
+  now: Date = new Date()
+): Promise<{ sent: number; skipped: number; failed: number }> => {
+  const result = { sent: 0, skipped: 0, failed: 0 };
+
+  // Claimed but never finished (crash mid-send): give up rather than risk a duplicate
+  const stale = (await interviewReminderService.findStaleClaims(new Date(now.getTime() - STALE_CLAIM_MS))) as Reminder[];
+  for (const reminder of stale) {
+    await interviewReminderService.update(reminder.id, {
+      status: 'failed',
+      reason: 'Interrupted while sending; not retried to avoid sending it twice',
+    });
+    result.failed += 1;
+  }
+
+  const due = (await interviewReminderService.findDue(now)) as Reminder[];
+
+  const closest = new Map<string, Reminder>();
+  due
+    .filter((reminder) => reminder.kind === 'upcoming')
+    .forEach((reminder) => {
+      const key = `${reminder.interviewId}:${reminder.recipientType}:${reminder.recipientId}`;
+      const current = closest.get(key);
+      if (!current || reminder.offsetMinutes < current.offsetMinutes) closest.set(key, reminder);
+    });
+
+  for (const reminder of due) {
+    const key = `${reminder.interviewId}:${reminder.recipientType}:${reminder.recipientId}`;
+    if (reminder.kind === 'upcoming' && closest.get(key) !== reminder) {
+      try {
+        await interviewReminderService.update(
+          reminder.id,
+          { status: 'skipped', reason: 'Superseded by a later reminder' },
+          { expectedRevision: reminder.revision ?? 1 }
+        );
+        result.skipped += 1;
+      } catch (error) {
+        // Claimed, sent or cancelled since it was read; leave it to whoever changed it
+        if (!(error instanceof ConflictError)) throw error;
+      }
+      continue;
+    }
+
+    const outcome = await sendReminder(reminder, now);
+    if (outcome !== 'claimed') result[outcome] += 1;
+  }
+
+  return result;
+};
+
+/**
+ * One reminder run: plan upcoming reminders, then send the due ones
+ */
+export const runInterviewReminderSweep = async (now: Date = new Date()) => {
+  const planned = await syncUpcomingInterviewReminders(now);
+  const sent = await sendDueInterviewReminders(now);
+
+  if (planned > 0 || sent.sent > 0 || sent.failed > 0) {
+    logger.info(
+      `Interview reminders: ${planned} planned, ${sent.sent} sent, ${sent.skipped} skipped, ${sent.failed} failed`
+    );
+  }
+
+  return { planned, ...sent };
+};
@@ -0,0 +1,542 @@
+/**
+ * Interview Scheduling Links Service
+ * Candidates book, reschedule or cancel their own interview from a tokenized
+ * link. Slots come from the interviewers' availability; booking creates the
+ * interview, its Zoom meeting and the confirmation emails.
+ */
+
+import { config } from '../config';
+import {
+  candidateService,
+  clientService,
+  interviewService,
+  jobService,
+  schedulingLinkService,
+  userService,
+} from './firestore';
+import { IInterview } from './firestore/interview.service';
+import { ISchedulingLink } from './firestore/schedulingLink.service';
+import { findCommonFreeSlots, formatInTimezone } from './interviewAvailability.service';
+import emailService from './email.service';
+import zoomService from './zoom.service';
+import { logActivity } from './activity.service';
+import { sendInterviewInvites } from './interviewCalendar.service';
+import { syncInterviewReminders } from './interviewReminders.service';
+import { generateToken } from '../utils/auth';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { DAY_MS, MINUTE_MS, escapeHtml, toDate } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type SchedulingLink = ISchedulingLink & { id: string };
+
+export const DEFAULT_LINK_WINDOW_DAYS = 14;
+export const MAX_OFFERED_SLOTS = 100;
+
+/**
+ * Public URL the candidate opens
+ */
+export const schedulingLinkUrl = (token: string): string => `${config.frontendUrl}/schedule/${token}`;
+
+/**
+ * Create a scheduling link for a candidate
+ * The slot window defaults to the next two weeks, and the link expires when
+ * the window ends.
+ */
+export const createSchedulingLink = async (
+  input: {
+    candidateId: string;
+    jobId: string;
+    applicationId?: string;
+    interviewerIds: string[];
+    type: IInterview['type'];
+    round?: number;
+    title: string;
+    description?: string;
+    location?: string;
+    duration: number;
+    timezone?: string;
+    createMeetingLink?: boolean;
+    windowStart?: Date;
+    windowEnd?: Date;
+    step?: number;
+    expiresAt?: Date;
+    sendEmail?: boolean;
+  },
+  createdBy: string,
+  now: Date = new Date()
+): Promise<SchedulingLink & { url: string }> => {
+  const [candidate, job] = await Promise.all([
+    candidateService.findById(input.candidateId),
+    jobService.findById(input.jobId),
+  ]);
+  if (!candidate) {
+    throw new NotFoundError('Candidate not found');
+  }
+  if (!job) {
+    throw new NotFoundError('Job not found');
+  }
+
+  const interviewers = await Promise.all(input.interviewerIds.map((id) => userService.findById(id)));
+  const missing = input.interviewerIds.filter((_id, index) => !interviewers[index]);
+  if (missing.length > 0) {
+    throw new NotFoundError(`Interviewer not found: ${missing.join(', ')}`);
+  }
+
+  const windowStart = input.windowStart && input.windowStart > now ? input.windowStart : now;
+  const windowEnd = input.windowEnd || new Date(windowStart.getTime() + DEFAULT_LINK_WINDOW_DAYS * DAY_MS);
+  if (windowEnd <= windowStart) {
+    throw new BadRequestError('The slot window must end in the future');
+  }
+
+  const link: Omit<ISchedulingLink, 'id'> = {
+    token: generateToken(),
+    candidateId: input.candidateId,
+    jobId: input.jobId,
+    clientId: job.clientId,
+    ...(input.applicationId && { applicationId: input.applicationId }),
+    interviewerIds: [...new Set(input.interviewerIds)],
+    type: input.type,
+    round: input.round || 1,
+    title: input.title,
+    ...(input.description && { description: input.description }),
+    ...(input.location && { location: input.location }),
+    duration: input.duration,
+    timezone: input.timezone || 'UTC',
+    createMeetingLink: input.createMeetingLink ?? input.type === 'video',
+    windowStart,
+    windowEnd,
+    step: input.step || 30,
+    expiresAt: input.expiresAt || windowEnd,
+    status: 'active',
+    rescheduleCount: 0,
+    createdBy,
+  };
+
+  const id = await schedulingLinkService.create(link);
+  const url = schedulingLinkUrl(link.token);
+
+  if (input.sendEmail) {
+    const sent = await emailService.sendEmail({
+      to: candidate.email,
+      subject: `Pick a time for your interview - ${job.title}`,
+      html: `<p>Hi ${escapeHtml(candidate.firstName)},</p>
+<p>Please pick a time for your ${link.duration}-minute ${escapeHtml(link.title)} interview for the ${escapeHtml(job.title)} position.</p>
+<p><a href="${url}">Choose a time</a></p>
+<p>The link is valid until ${formatInTimezone(link.expiresAt, link.timezone)}.</p>`,
+      text: `Hi ${candidate.firstName},\n\nPlease pick a time for your ${link.duration}-minute ${link.title} interview for the ${job.title} position:\n${url}\n\nThe link is valid until ${formatInTimezone(link.expiresAt, link.timezone)}.`,
+    });
+    if (!sent) {
+      logger.warn(`Failed to email scheduling link ${id} to ${candidate.email}`);
+    }
+  }
+
+  return { ...link, id, url };
+};
+
+/**
+ * Find a link by token, failing for unknown and revoked links
+ */
+export const findSchedulingLinkOrThrow = async (token: string): Promise<SchedulingLink> => {
+  const link = await schedulingLinkService.findByToken(token);
+  if (!link || link.status === 'revoked') {
+    throw new NotFoundError('Scheduling link not found');
+  }
+  return link as SchedulingLink;
+};
+
+const isExpired = (link: ISchedulingLink, now: Date) => toDate(link.expiresAt)!.getTime() <= now.getTime();
+
+/**
+ * Slots the link currently offers
+ * A booked link offers the slots its interview can move to.
+ */
+export const findOfferedSlots = async (
+  link: SchedulingLink,
+  now: Date = new Date(),
+  range?: { from: Date; to: Date }
+): Promise<Array<{ start: Date; end: Date }>> => {
+  if (link.status === 'cancelled' || isExpired(link, now)) return [];
+
+  const windowStart = toDate(link.windowStart)!;
+  const windowEnd = toDate(link.windowEnd)!;
+  const from = range && range.from > windowStart ? range.from : windowStart;
+  const to = range && range.to < windowEnd ? range.to : windowEnd;
+  if (from >= to) return [];
+
+  return findCommonFreeSlots({
+    interviewerIds: link.interviewerIds,
+    candidateId: link.candidateId,
+    duration: link.duration,
+    from,
+    to,
+    step: link.step,
+    limit: MAX_OFFERED_SLOTS,
+    timezone: link.timezone,
+    excludeInterviewId: link.interviewId,
+    now,
+  });
+};
+
+/**
+ * Fail unless `start` is one of the slots the link offers right now
+ */
+const assertSlotOffered = async (link: SchedulingLink, start: Date, now: Date): Promise<void> => {
+  const slots = await findOfferedSlots(link, now, {
+    from: start,
+    to: new Date(start.getTime() + link.duration * MINUTE_MS),
+  });
+  if (!slots.some((slot) => slot.start.getTime() === start.getTime())) {
+    throw new ConflictError('This time is no longer available, please pick another one');
+  }
+};
+
+const findInterviewContext = async (link: SchedulingLink) => {
+  const [candidate, job, interviewers] = await Promise.all([
+    candidateService.findById(link.candidateId),
+    jobService.findById(link.jobId),
+    Promise.all(link.interviewerIds.map((id) => userService.findById(id))),
+  ]);
+  if (!candidate || !job) {
+    throw new NotFoundError('The candidate or job of this link no longer exists');
+  }
+
+  let companyName = process.env.COMPANY_NAME || 'Arista';
+  if (job.clientId) {
+    const client = await clientService.findById(job.clientId).catch(() => null);
+    if (client?.companyName) companyName = client.companyName;
+  }
+
+  return {
+    candidate,
+    job,
+    companyName,
+    interviewers: interviewers.filter((user): user is NonNullable<typeof user> => !!user),
+  };
+};
+
+type InterviewContext = Awaited<ReturnType<typeof findInterviewContext>>;
+
+/**
+ * Email the calendar invites, plus the candidate's interview details
+ * Failures are logged; the booking stands either way.
+ */
+const sendBookingEmails = async (
+  interview: IInterview & { id: string },
+  context: InterviewContext,
+  change: 'booked' | 'rescheduled' | 'cancelled'
+): Promise<void> => {
+  const { candidate, job, interviewers, companyName } = context;
+  const note = `${candidate.firstName} ${candidate.lastName} ${change} this interview from their scheduling link.`;
+
+  if (change === 'cancelled') {
+    await sendInterviewInvites(interview, 'cancelled', { note });
+    return;
+  }
+
+  const invite = await sendInterviewInvites(interview, change === 'booked' ? 'scheduled' : 'updated', {
+    notifyCandidate: false,
+    note,
+  });
+
+  try {
+    await emailService.sendInterviewNotificationEmail({
+      candidateEmail: candidate.email,
+      candidateName: `${candidate.firstName} ${candidate.lastName}`,
+      jobTitle: job.title,
+      interviewTitle: interview.title,
+      interviewType: interview.type,
+      scheduledAt: toDate(interview.scheduledAt)!,
+      duration: interview.duration,
+      meetingLink: interview.meetingLink,
+      meetingPassword: interview.meetingPassword,
+      interviewerNames: interviewers.map((user) => `${user.firstName} ${user.lastName}`.trim()),
+      companyName,
+      attachments: invite ? [invite] : undefined,
+    });
+  } catch (error) {
+    logger.error(`Failed to send ${change} email to candidate ${candidate.email}:`, error);
+  }
+};
+
+/**
+ * Write to a link only if nobody changed it since it was read
+ * A double submit or a second tab gets a ConflictError instead of acting twice.
+ */
+const claimSchedulingLink = async (
+  link: SchedulingLink,
+  updates: Partial<ISchedulingLink>,
+  conflictMessage: string
+): Promise<void> => {
+  try {
+    await schedulingLinkService.update(link.id, updates, { expectedRevision: link.revision ?? 0 });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      throw new ConflictError(conflictMessage);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Revoke a link that has not been used yet
+ * Claimed like a booking, so a booking made meanwhile is never revoked.
+ */
+export const revokeSchedulingLink = async (id: string): Promise<SchedulingLink> => {
+  const link = (await schedulingLinkService.findById(id)) as SchedulingLink | null;
+  if (!link) {
+    throw new NotFoundError('Scheduling link not found');
+  }
+  if (link.status !== 'active') {
+    throw new ConflictError(`Only active links can be revoked; this one is ${link.status}`);
+  }
+
+  await claimSchedulingLink(link, { status: 'revoked' }, 'This link was just used or changed; reload and try again');
+
+  return { ...link, status: 'revoked' };
+};
+
+/**
+ * Book a slot: create the interview, its meeting link and the emails
+ * The link is claimed before anything is created.
+ */
+export const bookSchedulingLink = async (
+  token: string,
+  start: Date,
+  now: Date = new Date()
+): Promise<{ link: SchedulingLink; interview: IInterview & { id: string } }> => {
+  const link = await findSchedulingLinkOrThrow(token);
+  if (link.status !== 'active') {
+    throw new ConflictError(
+      link.status === 'booked' ? 'An interview is already booked with this link' : 'This scheduling link is no longer active'
+    );
+  }
+  if (isExpired(link, now)) {
+    throw new BadRequestError('This scheduling link has expired');
+  }
+  await assertSlotOffered(link, start, now);
+
+  const context = await findInterviewContext(link);
+
+  await claimSchedulingLink(link, { status: 'booked', bookedAt: now }, 'An interview is already booked with this link');
+
+  let interviewId: string;
+  try {
+    interviewId = await interviewService.create({
+      candidateId: link.candidateId,
+      jobId: link.jobId,
+      clientId: link.clientId,
+      ...(link.applicationId && { applicationId: link.applicationId }),
+      type: link.type,
+      round: link.round,
+      title: link.title,
+      ...(link.description && { description: link.description }),
+      ...(link.location && { location: link.location }),
+      scheduledAt: start,
+      duration: link.duration,
+      timezone: link.timezone,
+      interviewerIds: link.interviewerIds,
+      organizerId: link.createdBy,
+      status: 'scheduled',
+      schedulingLinkId: link.id,
+      createdBy: link.createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    // Release the claim so the candidate can try again
+    await schedulingLinkService.update(link.id, { status: 'active', bookedAt: null });
+    throw error;
+  }
+
+  if (link.createMeetingLink && link.type === 'video') {
+    try {
+      const meeting = await zoomService.createMeeting({
+        topic: `${link.title} - ${context.candidate.firstName} ${context.candidate.lastName}`,
+        startTime: start,
+        duration: link.duration,
+        timezone: link.timezone,
+        agenda: link.description || `Interview for ${context.job.title}`,
+      });
+      await interviewService.update(interviewId, {
+        meetingLink: meeting.join_url,
+        meetingId: meeting.id,
+        meetingPassword: meeting.password,
+        zoomMeetingDetails: meeting,
+      });
+    } catch (error) {
+      // Don't fail the booking if Zoom fails; the organizer can add one later
+      logger.error(`Failed to create Zoom meeting for self-scheduled interview ${interviewId}:`, error);
+    }
+  }
+
+  await schedulingLinkService.update(link.id, { interviewId });
+
+  const interview = (await interviewService.findById(interviewId)) as IInterview & { id: string };
+  await sendBookingEmails(interview, context, 'booked');
+  await syncInterviewReminders(interview);
+
+  await logActivity({
+    userId: link.createdBy,
+    action: 'scheduled_interview',
+    resourceType: 'interview',
+    resourceId: interviewId,
+    resourceName: interview.title,
+    metadata: {
+      candidateId: link.candidateId,
+      candidateName: `${context.candidate.firstName} ${context.candidate.lastName}`,
+      jobId: link.jobId,
+      scheduledAt: start,
+      schedulingLinkId: link.id,
+      selfScheduled: true,
+    },
+  });
+
+  logger.info(`Interview ${interviewId} self-scheduled by candidate ${link.candidateId} via link ${link.id}`);
+
+  return { link: { ...link, status: 'booked', interviewId, bookedAt: now }, interview };
+};
+
+/**
+ * The upcoming interview booked through a link
+ */
+const findBookedInterviewOrThrow = async (link: SchedulingLink, now: Date) => {
+  if (link.status !== 'booked' || !link.interviewId) {
+    throw new ConflictError('No interview is booked with this link');
+  }
+  const interview = await interviewService.findById(link.interviewId);
+  if (!interview || !['scheduled', 'confirmed'].includes(interview.status)) {
+    throw new ConflictError('This interview can no longer be changed');
+  }
+  if (toDate(interview.scheduledAt)!.getTime() <= now.getTime()) {
+    throw new BadRequestError('This interview has already started');
+  }
+  return interview as IInterview & { id: string };
+};
+
+/**
+ * Move a booked interview to another offered slot
+ */
+export const rescheduleSchedulingLink = async (
+  token: string,
+  start: Date,
+  now: Date = new Date()
+): Promise<{ link: SchedulingLink; interview: IInterview & { id: string } }> => {
+  const link = await findSchedulingLinkOrThrow(token);
+  const existing = await findBookedInterviewOrThrow(link, now);
+  if (isExpired(link, now)) {
+    throw new BadRequestError('This scheduling link has expired');
+  }
+  await assertSlotOffered(link, start, now);
+
+  const context = await findInterviewContext(link);
+
+  const rescheduleCount = (link.rescheduleCount || 0) + 1;
+  await claimSchedulingLink(link, { rescheduleCount }, 'This interview was just changed; reload and try again');
+
+  await interviewService.update(existing.id, {
+    scheduledAt: start,
+    status: 'scheduled',
+    reminderSent: false,
+  });
+
+  if (existing.meetingId) {
+    try {
+      await zoomService.updateMeeting(existing.meetingId, {
+        startTime: start,
+        duration: existing.duration,
+        timezone: existing.timezone,
+      });
+    } catch (error) {
+      logger.error(`Failed to move Zoom meeting of interview ${existing.id}:`, error);
+    }
+  }
+
+  const interview = (await interviewService.findById(existing.id)) as IInterview & { id: string };
+  await sendBookingEmails(interview, context, 'rescheduled');
+  await syncInterviewReminders(interview);
+
+  logger.info(`Interview ${existing.id} rescheduled by candidate via link ${link.id}`);
+
+  return { link: { ...link, rescheduleCount }, interview };
+};
+
+/**
+ * Cancel the interview booked through a link
+ */
+export const cancelSchedulingLink = async (
+  token: string,
+  reason?: string,
+  now: Date = new Date()
+): Promise<{ link: SchedulingLink; interview: IInterview & { id: string } }> => {
+  const link = await findSchedulingLinkOrThrow(token);
+  const existing = await findBookedInterviewOrThrow(link, now);
+  const context = await findInterviewContext(link);
+
+  const cancellationReason = reason || 'Cancelled by the candidate';
+  await claimSchedulingLink(
+    link,
+    { status: 'cancelled', cancelledAt: now, cancellationReason },
+    'This interview was just changed; reload and try again'
+  );
+
+  await interviewService.update(existing.id, {
+    status: 'cancelled',
+    cancelledAt: now,
+    cancellationReason,
+  });
+
+  if (existing.meetingId) {
+    try {
+      await zoomService.deleteMeeting(existing.meetingId);
+    } catch (error) {
+      logger.error(`Failed to delete Zoom meeting of interview ${existing.id}:`, error);
+    }
+  }
+
+  const interview = (await interviewService.findById(existing.id)) as IInterview & { id: string };
+  await sendBookingEmails(interview, context, 'cancelled');
+  await syncInterviewReminders(interview);
+
+  logger.info(`Interview ${existing.id} cancelled by candidate via link ${link.id}`);
+
+  return { link: { ...link, status: 'cancelled', cancelledAt: now, cancellationReason }, interview };
+};
+
+/**
+ * What the candidate sees: the interview, the booking and the offered slots,
+ * without internal IDs or notes
+ */
+export const toPublicSchedulingLink = async (link: SchedulingLink, now: Date = new Date()) => {
+  const [job, interview, slots] = await Promise.all([
+    jobService.findById(link.jobId),
+    link.interviewId ? interviewService.findById(link.interviewId) : Promise.resolve(null),
+    findOfferedSlots(link, now),
+  ]);
+
+  let companyName = process.env.COMPANY_NAME || 'Arista';
+  if (job?.clientId) {
+    const client = await clientService.findById(job.clientId).catch(() => null);
+    if (client?.companyName) companyName = client.companyName;
+  }
+
+  return {
+    status: isExpired(link, now) && link.status === 'active' ? 'expired' : link.status,
+    title: link.title,
+    type: link.type,
+    duration: link.duration,
+    location: link.location,
+    jobTitle: job?.title,
+    companyName,
+    timezone: link.timezone,
+    expiresAt: link.expiresAt,
+    booking: interview
+      ? {
+          scheduledAt: interview.scheduledAt,
+          status: interview.status,
+          meetingLink: interview.meetingLink,
+          meetingPassword: interview.meetingPassword,
+        }
+      : null,
+    slots,
+  };
+};
@@ -0,0 +1,321 @@
+/**
+ * Interview Scorecard Service
+ * Feedback scored against the job's interview kit, aggregated per interview
+ * and rolled up per candidate across rounds.
+ * Interviewers only see their colleagues' feedback on an interview once they
+ * submitted their own, so nobody anchors on someone else's scores.
+ */
+
+import { candidateService, interviewKitService, interviewService, jobService, userService } from './firestore';
+import { IAttributeRating, IInterview, IInterviewFeedback } from './firestore/interview.service';
+import {
+  IInterviewKit,
+  IInterviewKitAttribute,
+  IInterviewKitRound,
+  IRatingRubricLevel,
+} from './firestore/interviewKit.service';
+import { IUser } from './firestore/user.service';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+type Interview = IInterview & { id: string };
+type Viewer = Pick<IUser, 'role'> & { id: string };
+type Recommendation = IInterviewFeedback['recommendation'];
+
+export const DEFAULT_RATING_RUBRIC: IRatingRubricLevel[] = [
+  { score: 1, label: 'Strong no hire' },
+  { score: 2, label: 'No hire' },
+  { score: 3, label: 'Mixed' },
+  { score: 4, label: 'Hire' },
+  { score: 5, label: 'Strong hire' },
+];
+
+const RECOMMENDATIONS: Recommendation[] = ['strong_yes', 'yes', 'maybe', 'no', 'strong_no'];
+
+// Roles that read every scorecard of interviews they are not on
+const REVIEWER_ROLES: IUser['role'][] = ['admin', 'recruiter', 'hiring_manager', 'coordinator'];
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100 : null;
+
+/**
+ * Interviewer IDs of an interview (some older interviews hold user objects)
+ */
+const panelIds = (interview: IInterview): string[] =>
+  (interview.interviewerIds || [])
+    .map((interviewer: any) => (typeof interviewer === 'string' ? interviewer : interviewer?.id || interviewer?._id))
+    .filter(Boolean);
+
+export const findInterviewKit = async (jobId: string): Promise<(IInterviewKit & { id: string }) | null> =>
+  (await interviewKitService.findById(jobId)) as (IInterviewKit & { id: string }) | null;
+
+/**
+ * The kit's plan for an interview round
+ */
+export const findKitRound = (kit: IInterviewKit, round: number): IInterviewKitRound | undefined =>
+  kit.rounds.find((item) => item.round === round);
+
+/**
+ * Attributes rated in a round: the round's focus attributes, or all of them
+ */
+export const focusAttributes = (kit: IInterviewKit, round: number): IInterviewKitAttribute[] => {
+  const focus = findKitRound(kit, round)?.focusAttributeIds || [];
+  return focus.length > 0 ? kit.attributes.filter((attribute) => focus.includes(attribute.id)) : kit.attributes;
+};
+
+/**
+ * Build a feedback entry, checking its attribute ratings against the kit
+ * With a kit, every focus attribute of the round must be rated; the overall
+ * rating defaults to the rounded average of the attribute ratings.
+ */
+export const buildFeedbackEntry = async (
+  interview: IInterview,
+  interviewerId: string,
+  input: {
+    rating?: number;
+    attributeRatings?: IAttributeRating[];
+    strengths?: string[];
+    weaknesses?: string[];
+    comments?: string;
+    recommendation?: Recommendation;
+  }
+): Promise<IInterviewFeedback> => {
+  const kit = await findInterviewKit(interview.jobId);
+  const attributeRatings = input.attributeRatings || [];
+
+  if (!kit && attributeRatings.length > 0) {
+    throw new BadRequestError('This job has no interview kit to rate attributes against');
+  }
+
+  if (kit) {
+    const rubric = kit.rubric.length > 0 ? kit.rubric : DEFAULT_RATING_RUBRIC;
+    const scores = rubric.map((level) => level.score);
+    const known = new Set(kit.attributes.map((attribute) => attribute.id));
+
+    const unknown = attributeRatings.filter((item) => !known.has(item.attributeId));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown attributes: ${unknown.map((item) => item.attributeId).join(', ')}`);
+    }
+    const offScale = attributeRatings.filter((item) => !scores.includes(item.rating));
+    if (offScale.length > 0) {
+      throw new BadRequestError(`Ratings must be one of ${scores.join(', ')}`);
+    }
+    const rated = new Set(attributeRatings.map((item) => item.attributeId));
+    const missing = focusAttributes(kit, interview.round).filter((attribute) => !rated.has(attribute.id));
+    if (missing.length > 0) {
+      throw new BadRequestError(`Rate every focus attribute of this round: ${missing.map((attribute) => attribute.name).join(', ')}`);
+    }
+  }
+
+  const rating = input.rating ?? (attributeRatings.length > 0 ? Math.round(average(attributeRatings.map((item) => item.rating))!) : undefined);
+  if (rating === undefined) {
+    throw new BadRequestError('A rating is required');
+  }
+
+  return {
+    interviewerId,
+    rating,
+    ...(attributeRatings.length > 0 && { attributeRatings }),
+    strengths: input.strengths || [],
+    weaknesses: input.weaknesses || [],
+    comments: input.comments || '',
+    recommendation: input.recommendation || 'maybe',
+    submittedAt: new Date(),
+  };
+};
+
+/**
+ * Add or replace an interviewer's feedback on an interview
+ */
+export const upsertFeedback = (feedback: IInterviewFeedback[] = [], entry: IInterviewFeedback): IInterviewFeedback[] => [
+  ...feedback.filter((item) => item.interviewerId !== entry.interviewerId),
+  entry,
+];
+
+/**
+ * Whether a user may read everyone's feedback on an interview
+ * Panel members can once they submitted theirs; others by role.
+ */
+export const canSeeAllFeedback = (interview: IInterview, viewer: Viewer): boolean => {
+  if (panelIds(interview).includes(viewer.id)) {
+    return (interview.feedback || []).some((item) => item.interviewerId === viewer.id);
+  }
+  return REVIEWER_ROLES.includes(viewer.role);
+};
+
+/**
+ * An interview as a user may see it: with only their own feedback until
+ * they may see everyone's
+ */
+export const redactInterviewFeedback = <T extends IInterview>(interview: T, viewer: Viewer): T => {
+  if (!interview.feedback?.length || canSeeAllFeedback(interview, viewer)) return interview;
+  return {
+    ...interview,
+    feedback: interview.feedback.filter((item) => item.interviewerId === viewer.id),
+    feedbackHidden: true,
+    feedbackCount: interview.feedback.length,
+  };
+};
+
+/**
+ * Averages per attribute, overall rating and recommendation tally of feedback
+ */
+const summarizeFeedback = (feedback: IInterviewFeedback[], attributes: IInterviewKitAttribute[]) => {
+  const recommendations = Object.fromEntries(RECOMMENDATIONS.map((key) => [key, 0])) as Record<Recommendation, number>;
+  feedback.forEach((item) => {
+    if (item.recommendation in recommendations) recommendations[item.recommendation] += 1;
+  });
+
+  return {
+    averageRating: average(feedback.map((item) => Number(item.rating)).filter((rating) => !isNaN(rating))),
+    recommendations,
+    attributes: attributes.map((attribute) => {
+      const ratings = feedback.flatMap((item) =>
+        (item.attributeRatings || []).filter((rating) => rating.attributeId === attribute.id).map((rating) => rating.rating)
+      );
+      return {
+        attributeId: attribute.id,
+        name: attribute.name,
+        average: average(ratings),
+        count: ratings.length,
+        min: ratings.length > 0 ? Math.min(...ratings) : null,
+        max: ratings.length > 0 ? Math.max(...ratings) : null,
+      };
+    }),
+  };
+};
+
+/**
+ * Scorecard of one interview: the kit for its round, who submitted, and the
+ * aggregate (null while the feedback is hidden from the viewer)
+ */
+export const buildInterviewScorecard = async (interviewId: string, viewer: Viewer) => {
+  const interview = (await interviewService.findById(interviewId)) as Interview | null;
+  if (!interview) {
+    throw new NotFoundError('Interview not found');
+  }
+
+  const kit = await findInterviewKit(interview.jobId);
+  const feedback = interview.feedback || [];
+  const visible = canSeeAllFeedback(interview, viewer);
+  const submittedIds = new Set(feedback.map((item) => item.interviewerId));
+  const panel = panelIds(interview);
+
+  const users = await Promise.all(
+    [...new Set([...panel, ...submittedIds])].map((id) => userService.findById(id).catch(() => null))
+  );
+  const names = new Map(
+    users.filter((user): user is NonNullable<typeof user> => !!user).map((user) => [user.id!, `${user.firstName} ${user.lastName}`.trim()])
+  );
+
+  const attributes = kit ? focusAttributes(kit, interview.round) : [];
+
+  return {
+    interviewId: interview.id,
+    candidateId: interview.candidateId,
+    jobId: interview.jobId,
+    round: interview.round,
+    title: interview.title,
+    status: interview.status,
+    kit: kit
+      ? {
+          round: findKitRound(kit, interview.round) || null,
+          attributes,
+          rubric: kit.rubric.length > 0 ? kit.rubric : DEFAULT_RATING_RUBRIC,
+        }
+      : null,
+    submitted: feedback.map((item) => ({
+      interviewerId: item.interviewerId,
+      name: names.get(item.interviewerId),
+      submittedAt: item.submittedAt,
+    })),
+    pending: panel.filter((id) => !submittedIds.has(id)).map((id) => ({ interviewerId: id, name: names.get(id) })),
+    hidden: !visible,
+    feedback: visible ? feedback : feedback.filter((item) => item.interviewerId === viewer.id),
+    summary: visible ? summarizeFeedback(feedback, kit?.attributes || []) : null,
+  };
+};
+
+/**
+ * Candidate-level rollup of every interview round, per job
+ * Interviews whose feedback is hidden from the viewer are listed without
+ * scores and left out of the averages.
+ */
+export const buildCandidateScorecard = async (candidateId: string, viewer: Viewer, options: { jobId?: string } = {}) => {
+  const candidate = await candidateService.findById(candidateId);
+  if (!candidate) {
+    throw new NotFoundError('Candidate not found');
+  }
+
+  const interviews = ((await interviewService.findByCandidateId(candidateId)) as Interview[])
+    .filter((interview) => interview.status !== 'cancelled' && interview.status !== 'draft')
+    .filter((interview) => !options.jobId || interview.jobId === options.jobId)
+    .sort((a, b) => (a.round || 0) - (b.round || 0));
+
+  const jobIds = [...new Set(interviews.map((interview) => interview.jobId))];
+  const [jobs, kits] = await Promise.all([
+    Promise.all(jobIds.map((id) => jobService.findById(id))),
+    Promise.all(jobIds.map((id) => findInterviewKit(id))),
+  ]);
+
+  const rounds = interviews.map((interview) => {
+    const visible = canSeeAllFeedback(interview, viewer);
+    const feedback = interview.feedback || [];
+    const summary = visible ? summarizeFeedback(feedback, []) : null;
+    return {
+      interviewId: interview.id,
+      jobId: interview.jobId,
+      round: interview.round,
+      title: interview.title,
+      type: interview.type,
+      scheduledAt: interview.scheduledAt,
+      status: interview.status,
+      submittedCount: feedback.length,
+      pendingCount: Math.max(panelIds(interview).length - feedback.length, 0),
+      hidden: !visible,
+      averageRating: summary?.averageRating ?? null,
+      recommendations: summary?.recommendations ?? null,
+    };
+  });
+
+  const byJob = jobIds.map((jobId, index) => {
+    const kit = kits[index];
+    const visibleInterviews = interviews.filter(
+      (interview) => interview.jobId === jobId && canSeeAllFeedback(interview, viewer)
+    );
+    const summary = summarizeFeedback(
+      visibleInterviews.flatMap((interview) => interview.feedback || []),
+      kit?.attributes || []
+    );
+
+    return {
+      jobId,
+      jobTitle: jobs[index]?.title,
+      hasKit: !!kit,
+      interviewCount: interviews.filter((interview) => interview.jobId === jobId).length,
+      ...summary,
+      attributes: summary.attributes.map((attribute) => ({
+        ...attribute,
+        byRound: visibleInterviews
+          .map((interview) => ({
+            round: interview.round,
+            interviewId: interview.id,
+            average: average(
+              (interview.feedback || []).flatMap((item) =>
+                (item.attributeRatings || [])
+                  .filter((rating) => rating.attributeId === attribute.attributeId)
+                  .map((rating) => rating.rating)
+              )
+            ),
+          }))
+          .filter((item) => item.average !== null),
+      })),
+    };
+  });
+
+  return {
+    candidateId,
+    candidateName: `${candidate.firstName} ${candidate.lastName}`.trim(),
+    rounds,
+    jobs: byJob,
+  };
+};
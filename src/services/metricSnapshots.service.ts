@@ -0,0 +1,441 @@
+/**
+ * Metric Snapshots Service
+ * Daily aggregates per job, client and pipeline stage (plus an "all" total):
+ * open applications at the end of the day, inflow, outflow and hires.
+ *
+ * Snapshots are rebuilt by replaying every job application: the day it was
+ * made, its stage history, and the day it closed (hired, rejected, withdrawn
+ * or deleted). The nightly job writes the previous day once; the backfill
+ * script rebuilds past days. Dashboards read trend lines from the snapshots
+ * instead of scanning live collections, so past numbers stay put.
+ */
+
+import {
+  activityLogService,
+  applicationService,
+  candidateService,
+  jobService,
+  metricSnapshotService,
+  pipelineService,
+} from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IMetricSnapshot, MetricSnapshotScope } from './firestore/metricSnapshot.service';
+import { IPipeline } from './firestore/pipeline.service';
+import { DAY_MS, toDate } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type Candidate = ICandidate & { id: string };
+type JobApplication = NonNullable<ICandidate['jobApplications']>[number];
+
+type ScopeInfo = Pick<
+  IMetricSnapshot,
+  'scope' | 'scopeId' | 'jobId' | 'clientId' | 'pipelineId' | 'stageId' | 'stageName'
+>;
+
+interface SnapshotEvent {
+  day: string;
+  key: string;
+  kind: 'in' | 'out' | 'hire';
+}
+
+interface SnapshotHistory {
+  scopes: Map<string, ScopeInfo>;
+  events: SnapshotEvent[];
+  candidatesBySource: Map<string, Record<string, number>>;
+  applicationsBySource: Map<string, Record<string, number>>;
+}
+
+export interface TrendPoint {
+  date: string;
+  count: number;
+  inflow: number;
+  outflow: number;
+  hires: number;
+}
+
+const CLOSED_STATUSES = ['hired', 'rejected', 'withdrawn'];
+
+// Days the nightly job looks back to fill gaps left by downtime
+const CATCH_UP_DAYS = 7;
+
+/**
+ * UTC day (YYYY-MM-DD) of a date
+ */
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Every day from one day to another, inclusive
+ */
+export const daysBetween = (fromDay: string, toDay: string): string[] => {
+  const days: string[] = [];
+  for (
+    let time = Date.parse(`${fromDay}T00:00:00Z`);
+    time <= Date.parse(`${toDay}T00:00:00Z`);
+    time += DAY_MS
+  ) {
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return days;
+};
+
+const scopeKey = (scope: MetricSnapshotScope, scopeId: string) => `${scope}:${scopeId}`;
+
+const countSource = (
+  bySource: Map<string, Record<string, number>>,
+  date: Date | null,
+  source: string | undefined
+) => {
+  if (!date) return;
+  const day = toDay(date);
+  if (!bySource.has(day)) bySource.set(day, {});
+  const counts = bySource.get(day)!;
+  const key = source || 'unknown';
+  counts[key] = (counts[key] || 0) + 1;
+};
+
+/**
+ * When and how a job application ended, if it has
+ * The candidate's status stands in for single-job candidates whose
+ * application status was never updated; its date comes from the activity log.
+ */
+const findClosure = (
+  candidate: Candidate,
+  application: JobApplication,
+  statusChanges: Map<string, Array<{ status: string; at: Date }>>
+): { at: Date; hired: boolean } | null => {
+  if (CLOSED_STATUSES.includes(application.status)) {
+    return {
+      at: toDate(application.lastStatusChange) || toDate(candidate.updatedAt) || new Date(),
+      hired: application.status === 'hired',
+    };
+  }
+
+  if ((candidate.jobApplications || []).length === 1 && CLOSED_STATUSES.includes(candidate.status)) {
+    const logged = (statusChanges.get(candidate.id) || [])
+      .filter((change) => change.status === candidate.status)
+      .sort((a, b) => b.at.getTime() - a.at.getTime())[0];
+    return {
+      at: logged?.at || toDate(candidate.updatedAt) || new Date(),
+      hired: candidate.status === 'hired',
+    };
+  }
+
+  const deletedAt = toDate(candidate.deletedAt);
+  return deletedAt ? { at: deletedAt, hired: false } : null;
+};
+
+/**
+ * Replay all job applications into per-scope events
+ * Deleted candidates, jobs and applications are included: they were part of
+ * the numbers on the days before they were deleted.
+ */
+const loadSnapshotHistory = async (): Promise<SnapshotHistory> => {
+  const [candidates, jobs, applications, statusLogs, defaultPipeline] = await Promise.all([
+    candidateService.find([], { includeDeleted: true }),
+    jobService.find([], { includeDeleted: true }),
+    applicationService.find([], { includeDeleted: true }),
+    activityLogService.find([{ field: 'action', operator: '==', value: 'candidate_status_changed' }]),
+    pipelineService.findDefaultByType('candidate'),
+  ]);
+
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  const pipelines = new Map<string, IPipeline | null>();
+  const getPipeline = async (jobId: string): Promise<IPipeline | null> => {
+    if (!pipelines.has(jobId)) pipelines.set(jobId, await pipelineService.findByJobId(jobId));
+    return pipelines.get(jobId) || defaultPipeline;
+  };
+
+  const statusChanges = new Map<string, Array<{ status: string; at: Date }>>();
+  statusLogs.forEach((log) => {
+    const status = log.metadata?.newStatus;
+    const at = toDate(log.createdAt);
+    if (!log.resourceId || typeof status !== 'string' || !at) return;
+    if (!statusChanges.has(log.resourceId)) statusChanges.set(log.resourceId, []);
+    statusChanges.get(log.resourceId)!.push({ status, at });
+  });
+
+  const history: SnapshotHistory = {
+    scopes: new Map([[scopeKey('all', 'all'), { scope: 'all', scopeId: 'all' }]]),
+    events: [],
+    candidatesBySource: new Map(),
+    applicationsBySource: new Map(),
+  };
+  const addScope = (info: ScopeInfo) => {
+    const key = scopeKey(info.scope, info.scopeId);
+    if (!history.scopes.has(key)) history.scopes.set(key, info);
+    return key;
+  };
+  const addEvent = (key: string, at: Date, kind: SnapshotEvent['kind']) =>
+    history.events.push({ day: toDay(at), key, kind });
+
+  for (const candidate of candidates as Candidate[]) {
+    countSource(history.candidatesBySource, toDate(candidate.createdAt), candidate.source);
+
+    for (const application of candidate.jobApplications || []) {
+      const appliedAt = toDate(application.appliedAt) || toDate(candidate.createdAt);
+      if (!appliedAt || !application.jobId) continue;
+
+      const job = jobsById.get(application.jobId);
+      const pipeline = await getPipeline(application.jobId);
+      const closure = findClosure(candidate, application, statusChanges);
+
+      // Whole-application scopes: everything, the job and its client
+      const keys = [
+        scopeKey('all', 'all'),
+        addScope({ scope: 'job', scopeId: application.jobId, jobId: application.jobId, clientId: job?.clientId }),
+        ...(job?.clientId
+          ? [addScope({ scope: 'client', scopeId: job.clientId, clientId: job.clientId })]
+          : []),
+      ];
+      keys.forEach((key) => {
+        addEvent(key, appliedAt, 'in');
+        if (closure) {
+          addEvent(key, closure.at, 'out');
+          if (closure.hired) addEvent(key, closure.at, 'hire');
+        }
+      });
+
+      // Stage scopes: each stay between moves
+      const pipelineId = pipeline?.id || 'none';
+      const stageKey = (stageId: string, fallbackName?: string) => {
+        const stage = pipeline?.stages.find((item) => item.id === stageId);
+        return addScope({
+          scope: 'stage',
+          scopeId: `${pipelineId}:${stageId}`,
+          pipelineId,
+          stageId,
+          stageName: stage?.name || fallbackName,
+        });
+      };
+
+      const moves = [...(application.stageHistory || [])]
+        .map((entry) => ({ ...entry, at: toDate(entry.changedAt) }))
+        .filter((entry): entry is typeof entry & { at: Date } => entry.at !== null)
+        .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+      let currentKey: string | null = null;
+      const firstStageId = moves[0]?.fromStageId || (moves.length === 0 ? application.currentStage : null);
+      if (firstStageId) {
+        currentKey = stageKey(firstStageId, moves[0]?.fromStageName);
+        addEvent(currentKey, appliedAt, 'in');
+      }
+      moves.forEach((move) => {
+        if (closure && move.at > closure.at) return;
+        if (currentKey) addEvent(currentKey, move.at, 'out');
+        currentKey = stageKey(move.toStageId, move.toStageName);
+        addEvent(currentKey, move.at, 'in');
+      });
+      if (closure && currentKey) {
+        addEvent(currentKey, closure.at, 'out');
+        if (closure.hired) addEvent(currentKey, closure.at, 'hire');
+      }
+    }
+  }
+
+  applications.forEach((application) =>
+    countSource(
+      history.applicationsBySource,
+      toDate(application.createdAt) || toDate(application.appliedAt),
+      application.source
+    )
+  );
+
+  return history;
+};
+
+/**
+ * Snapshots of the given days (ascending), from a replayed history
+ * A scope gets a snapshot on a day when it has open applications or events;
+ * the "all" scope gets one every day, which marks the day as snapshotted.
+ */
+const computeSnapshots = (
+  history: SnapshotHistory,
+  days: string[],
+  generatedAt: Date
+): Map<string, Omit<IMetricSnapshot, 'id'>[]> => {
+  const events = [...history.events].sort((a, b) => a.day.localeCompare(b.day));
+  const open = new Map<string, number>();
+  const result = new Map<string, Omit<IMetricSnapshot, 'id'>[]>();
+  let index = 0;
+
+  for (const day of days) {
+    // Fold in everything up to the day before
+    while (index < events.length && events[index].day < day) {
+      const event = events[index++];
+      if (event.kind !== 'hire') {
+        open.set(event.key, (open.get(event.key) || 0) + (event.kind === 'in' ? 1 : -1));
+      }
+    }
+
+    const daily = new Map<string, { inflow: number; outflow: number; hires: number }>();
+    while (index < events.length && events[index].day === day) {
+      const event = events[index++];
+      if (!daily.has(event.key)) daily.set(event.key, { inflow: 0, outflow: 0, hires: 0 });
+      const counts = daily.get(event.key)!;
+      if (event.kind === 'in') counts.inflow++;
+      if (event.kind === 'out') counts.outflow++;
+      if (event.kind === 'hire') counts.hires++;
+    }
+    daily.forEach((counts, key) => {
+      open.set(key, (open.get(key) || 0) + counts.inflow - counts.outflow);
+    });
+
+    const snapshots: Omit<IMetricSnapshot, 'id'>[] = [];
+    history.scopes.forEach((info, key) => {
+      const counts = daily.get(key) || { inflow: 0, outflow: 0, hires: 0 };
+      const count = Math.max(0, open.get(key) || 0);
+      if (info.scope !== 'all' && count === 0 && !daily.has(key)) return;
+
+      snapshots.push({
+        date: day,
+        ...info,
+        count,
+        ...counts,
+        ...(info.scope === 'all' && {
+          candidatesBySource: history.candidatesBySource.get(day) || {},
+          applicationsBySource: history.applicationsBySource.get(day) || {},
+        }),
+        generatedAt,
+      });
+    });
+    result.set(day, snapshots);
+  }
+
+  return result;
+};
+
+/**
+ * Rebuild and store snapshots for a range of days
+ * Days already snapshotted are left alone unless `overwrite` is set.
+ * Returns the days written.
+ */
+export const backfillMetricSnapshots = async (options: {
+  fromDay: string;
+  toDay: string;
+  overwrite?: boolean;
+  now?: Date;
+}): Promise<string[]> => {
+  const now = options.now || new Date();
+  const days: string[] = [];
+  for (const day of daysBetween(options.fromDay, options.toDay)) {
+    if (options.overwrite || !(await metricSnapshotService.hasDate(day))) days.push(day);
+  }
+  if (days.length === 0) return [];
+
+  const history = await loadSnapshotHistory();
+  const snapshots = computeSnapshots(history, days, now);
+
+  for (const day of days) {
+    const daySnapshots = snapshots.get(day) || [];
+    // The "all" marker goes last so a partly written day is retried
+    daySnapshots.sort((a, b) => Number(a.scope === 'all') - Number(b.scope === 'all'));
+    for (const snapshot of daySnapshots) {
+      await metricSnapshotService.createWithId(
+        metricSnapshotService.snapshotId(day, snapshot.scope, snapshot.scopeId),
+        snapshot
+      );
+    }
+  }
+
+  logger.info(`📈 Wrote metric snapshots for ${days.length} days (${days[0]} to ${days[days.length - 1]})`);
+  return days;
+};
+
+/**
+ * Snapshot yesterday, and any of the days before it missed while the job was down
+ */
+export const runNightlyMetricSnapshots = async (now: Date = new Date()): Promise<string[]> => {
+  const yesterday = toDay(new Date(now.getTime() - DAY_MS));
+  return backfillMetricSnapshots({
+    fromDay: toDay(new Date(now.getTime() - CATCH_UP_DAYS * DAY_MS)),
+    toDay: yesterday,
+    now,
+  });
+};
+
+/**
+ * Daily trend of a scope from its snapshots, one point per snapshotted day
+ * Days without a snapshot for the scope had nothing open or moving in it.
+ */
+export const getMetricTrend = async (
+  scope: MetricSnapshotScope,
+  scopeId: string,
+  fromDay: string,
+  toDay: string
+): Promise<{ scope: MetricSnapshotScope; scopeId: string; points: TrendPoint[]; latest?: Partial<IMetricSnapshot> }> => {
+  const [series, markers] = await Promise.all([
+    metricSnapshotService.findSeries(scope, scopeId, fromDay, toDay),
+    scope === 'all' ? Promise.resolve(null) : metricSnapshotService.findSeries('all', 'all', fromDay, toDay),
+  ]);
+  const byDay = new Map(series.map((snapshot) => [snapshot.date, snapshot]));
+  const snapshotted = (markers || series).map((snapshot) => snapshot.date);
+
+  const latest = series[series.length - 1];
+  return {
+    scope,
+    scopeId,
+    points: snapshotted.map((date) => {
+      const snapshot = byDay.get(date);
+      return {
+        date,
+        count: snapshot?.count || 0,
+        inflow: snapshot?.inflow || 0,
+        outflow: snapshot?.outflow || 0,
+        hires: snapshot?.hires || 0,
+      };
+    }),
+    ...(latest && {
+      latest: {
+        jobId: latest.jobId,
+        clientId: latest.clientId,
+        pipelineId: latest.pipelineId,
+        stageId: latest.stageId,
+        stageName: latest.stageName,
+      },
+    }),
+  };
+};
+
+/**
+ * New candidates or applications per day and intake source for the last N days
+ * Past days come from snapshots; today, and days never snapshotted, are
+ * counted live over just those days.
+ */
+export const getDailyIntake = async (
+  kind: 'candidates' | 'applications',
+  days: number,
+  now: Date = new Date()
+): Promise<Array<{ date: string; bySource: Record<string, number> }>> => {
+  const startDay = toDay(new Date(now.getTime() - days * DAY_MS));
+  const today = toDay(now);
+  const snapshots = await metricSnapshotService.findSeries('all', 'all', startDay, today);
+
+  const bySource = new Map<string, Record<string, number>>();
+  snapshots.forEach((snapshot) => {
+    const counts = kind === 'candidates' ? snapshot.candidatesBySource : snapshot.applicationsBySource;
+    if (counts && Object.keys(counts).length > 0) bySource.set(snapshot.date, counts);
+  });
+
+  const snapshotted = new Set(snapshots.map((snapshot) => snapshot.date));
+  const missing = daysBetween(startDay, today).filter((day) => !snapshotted.has(day));
+  if (missing.length > 0) {
+    const from = new Date(`${missing[0]}T00:00:00Z`);
+    const live = new Map<string, Record<string, number>>();
+    if (kind === 'candidates') {
+      const candidates = await candidateService.find([{ field: 'createdAt', operator: '>=', value: from }]);
+      candidates.forEach((candidate) => countSource(live, toDate(candidate.createdAt), candidate.source));
+    } else {
+      const applications = await applicationService.find([{ field: 'createdAt', operator: '>=', value: from }]);
+      applications.forEach((application) =>
+        countSource(live, toDate(application.createdAt) || toDate(application.appliedAt), application.source)
+      );
+    }
+    missing.forEach((day) => {
+      if (live.has(day)) bySource.set(day, live.get(day)!);
+    });
+  }
+
+  return [...bySource.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([date, counts]) => ({ date, bySource: counts }));
+};
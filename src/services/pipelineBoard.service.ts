@@ -0,0 +1,377 @@
+/**
+ * Pipeline Board Service
+ * Kanban view of a pipeline: every stage with its candidate count and a page
+ * of cards in manual order, and drag-and-drop moves between stages.
+ */
+
+import { FieldPath } from 'firebase-admin/firestore';
+import {
+  candidateService,
+  interviewService,
+  pipelineBoardOrderService,
+} from './firestore';
+import { QueryCondition } from './firestore/base.service';
+import { ICandidate } from './firestore/candidate.service';
+import { IInterview } from './firestore/interview.service';
+import { IPipeline, IPipelineStage } from './firestore/pipeline.service';
+import { UserRole } from './firestore/user.service';
+import { getStageTiming } from './stageSla.service';
+import { onCandidateStageChange } from './stageAutomation.service';
+import { buildStageHistoryUpdate, checkStageTransition } from './stageTransition.service';
+import { AuthorizationError, BadRequestError, ConflictError, ValidationError } from '../utils/errors';
+import { toDate } from '../utils/helpers';
+
+type Candidate = ICandidate & { id: string };
+
+export interface BoardCard {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+  currentTitle?: string;
+  currentCompany?: string;
+  tags?: string[];
+  assignedTo?: string;
+  score: number | null;
+  daysInStage: number | null;
+  overdue: boolean;
+  nextInterview: {
+    id: string;
+    title: string;
+    type: IInterview['type'];
+    scheduledAt: Date;
+  } | null;
+}
+
+export interface BoardColumn {
+  id: string;
+  name: string;
+  color?: string;
+  order: number;
+  slaDays?: number;
+  count: number;
+  cards: BoardCard[];
+  pagination: { page: number; limit: number; total: number; pages: number; hasMore: boolean };
+}
+
+// Interview statuses that count as upcoming
+const UPCOMING_STATUSES: IInterview['status'][] = ['scheduled', 'confirmed'];
+
+// Fields an assignee ID can be stored under
+const ASSIGNEE_FIELDS = ['assignedTo', 'assignedTo.id', 'assignedTo._id'];
+
+// IDs per `in` query
+const IDS_PER_QUERY = 10;
+
+const assigneeId = (candidate: Candidate): string | undefined => {
+  const assignedTo = (candidate as any).assignedTo;
+  return typeof assignedTo === 'string' ? assignedTo : assignedTo?.id || assignedTo?._id;
+};
+
+/**
+ * Filters selecting the candidates in one board column
+ */
+const stageFilters = (stageId: string, jobId?: string, assignedTo?: string): QueryCondition[] => [
+  { field: 'currentPipelineStageId', operator: '==', value: stageId },
+  ...(jobId ? [{ field: 'jobIds', operator: 'array-contains' as const, value: jobId }] : []),
+  // assignedTo is a user ID, or a { id } / legacy { _id } object
+  ...(assignedTo
+    ? [{ or: ASSIGNEE_FIELDS.map((field) => ({ field, operator: '==' as const, value: assignedTo })) }]
+    : []),
+];
+
+/**
+ * All candidates in a stage, newest arrivals first (the order before any
+ * manual sorting); used to rewrite a column's order when a card moves
+ */
+const findStageMembers = async (stageId: string, jobId?: string): Promise<Candidate[]> => {
+  const candidates = await candidateService.find(stageFilters(stageId, jobId));
+
+  const entered = (candidate: Candidate) =>
+    (toDate(candidate.stageEnteredAt) || toDate(candidate.createdAt))?.getTime() || 0;
+
+  return candidates.sort((a, b) => entered(b) - entered(a));
+};
+
+/**
+ * One page of a column: the saved manual order first, then the candidates
+ * missing from it, newest arrivals first
+ * Loads only the cards up to the end of the page (plus the saved order's
+ * members when the page reaches past them), never the whole column.
+ */
+const findStagePage = async (
+  stageId: string,
+  order: string[],
+  options: { jobId?: string; assignedTo?: string; page: number; limit: number }
+): Promise<Candidate[]> => {
+  const filters = stageFilters(stageId, options.jobId, options.assignedTo);
+  const start = (options.page - 1) * options.limit;
+  const end = options.page * options.limit;
+
+  // Saved IDs of candidates who left the stage (or belong to someone else) drop out
+  const ordered: Candidate[] = [];
+  let checked = 0;
+  while (ordered.length < end && checked < order.length) {
+    const ids = order.slice(checked, checked + IDS_PER_QUERY);
+    checked += ids.length;
+    const found = new Map(
+      (
+        await candidateService.find([
+          ...filters,
+          { field: FieldPath.documentId().toString(), operator: 'in', value: ids },
+        ])
+      ).map((candidate) => [candidate.id, candidate])
+    );
+    ids.forEach((id) => {
+      const candidate = found.get(id);
+      if (candidate) ordered.push(candidate);
+    });
+  }
+  if (ordered.length >= end) return ordered.slice(start, end);
+
+  // The first `end` arrivals hold every unordered card up to the end of the page
+  const saved = new Set(order);
+  const arrivals = await candidateService.find(filters, {
+    orderBy: [{ field: 'stageEnteredAt', direction: 'desc' }],
+    limit: end,
+  });
+  return [...ordered, ...arrivals.filter((candidate) => !saved.has(candidate.id))].slice(start, end);
+};
+
+/**
+ * Earliest upcoming interview of each candidate
+ * Looks up a few candidates per query, only interviews from now on.
+ */
+const findNextInterviews = async (
+  candidateIds: string[],
+  jobId?: string
+): Promise<Map<string, IInterview & { id: string }>> => {
+  const now = new Date();
+  const chunks: string[][] = [];
+  for (let i = 0; i < candidateIds.length; i += IDS_PER_QUERY) {
+    chunks.push(candidateIds.slice(i, i + IDS_PER_QUERY));
+  }
+
+  const results = await Promise.all(
+    chunks.map((chunk) =>
+      interviewService.find(
+        [
+          { field: 'candidateId', operator: 'in', value: chunk },
+          { field: 'scheduledAt', operator: '>=', value: now },
+          ...(jobId ? [{ field: 'jobId', operator: '==' as const, value: jobId }] : []),
+        ],
+        { orderBy: [{ field: 'scheduledAt', direction: 'asc' }] }
+      )
+    )
+  );
+
+  const next = new Map<string, IInterview & { id: string }>();
+  results
+    .flat()
+    .filter((interview) => UPCOMING_STATUSES.includes(interview.status))
+    .forEach((interview) => {
+      if (!next.has(interview.candidateId)) next.set(interview.candidateId, interview);
+    });
+  return next;
+};
+
+const toCard = (
+  candidate: Candidate,
+  stage: IPipelineStage,
+  jobId: string | undefined,
+  nextInterview: (IInterview & { id: string }) | undefined
+): BoardCard => {
+  const application = (candidate.jobApplications || []).find((item) => item.jobId === jobId);
+  const timing = getStageTiming(candidate, stage, jobId);
+  const assignedTo = assigneeId(candidate);
+
+  return {
+    id: candidate.id,
+    name: `${candidate.firstName} ${candidate.lastName}`.trim(),
+    email: candidate.email,
+    ...(candidate.avatar && { avatar: candidate.avatar }),
+    ...(candidate.currentTitle && { currentTitle: candidate.currentTitle }),
+    ...(candidate.currentCompany && { currentCompany: candidate.currentCompany }),
+    ...(candidate.tags?.length && { tags: candidate.tags }),
+    ...(assignedTo && { assignedTo }),
+    score: application?.resumeScore ?? (candidate as any).aiScore?.overallScore ?? null,
+    daysInStage: timing.daysInStage,
+    overdue: timing.overdue,
+    nextInterview: nextInterview
+      ? {
+          id: nextInterview.id,
+          title: nextInterview.title,
+          type: nextInterview.type,
+          scheduledAt: toDate(nextInterview.scheduledAt)!,
+        }
+      : null,
+  };
+};
+
+/**
+ * Build the board of a pipeline
+ * Each stage gets its total count (a count query) and one page of cards;
+ * with `stageId` only that stage's cards are loaded (to page through a long
+ * column). `assignedTo` limits the board to one user's candidates.
+ */
+export const buildPipelineBoard = async (
+  pipeline: IPipeline & { id: string },
+  options: { jobId?: string; page: number; limit: number; stageId?: string; assignedTo?: string }
+): Promise<{ pipelineId: string; name: string; jobId?: string; revision: number; stages: BoardColumn[] }> => {
+  const { jobId, page, limit, stageId, assignedTo } = options;
+  const stages = [...(pipeline.stages || [])]
+    .filter((stage) => stage.isActive !== false)
+    .sort((a, b) => a.order - b.order);
+
+  if (stageId && !stages.some((stage) => stage.id === stageId)) {
+    throw new BadRequestError(`Stage ${stageId} is not part of this pipeline`);
+  }
+
+  const loaded = stages.filter((stage) => !stageId || stage.id === stageId);
+  const orders = await pipelineBoardOrderService.findOrders(
+    pipeline.id,
+    loaded.map((stage) => stage.id),
+    jobId
+  );
+
+  const columns = await Promise.all(
+    stages.map(async (stage) => {
+      const [total, members] = await Promise.all([
+        candidateService.count(stageFilters(stage.id, jobId, assignedTo)),
+        orders.has(stage.id)
+          ? findStagePage(stage.id, orders.get(stage.id)!, { jobId, assignedTo, page, limit })
+          : Promise.resolve([] as Candidate[]),
+      ]);
+      return { stage, total, members };
+    })
+  );
+  const nextInterviews = await findNextInterviews(
+    columns.flatMap(({ members }) => members.map((member) => member.id)),
+    jobId
+  );
+
+  return {
+    pipelineId: pipeline.id,
+    name: pipeline.name,
+    ...(jobId && { jobId }),
+    revision: pipeline.revision ?? 0,
+    stages: columns.map(({ stage, total, members }): BoardColumn => {
+      const pages = Math.ceil(total / limit);
+      return {
+        id: stage.id,
+        name: stage.name,
+        ...(stage.color && { color: stage.color }),
+        order: stage.order,
+        ...(stage.slaDays && { slaDays: stage.slaDays }),
+        count: total,
+        cards: members.map((member) => toCard(member, stage, jobId, nextInterviews.get(member.id))),
+        pagination: { page, limit, total, pages, hasMore: page < pages },
+      };
+    }),
+  };
+};
+
+/**
+ * Move a card to a stage and position
+ * A stage change goes through the transition rules and is written with the
+ * candidate's revision check, in the same transaction as the new position.
+ */
+export const moveBoardCard = async (params: {
+  pipeline: IPipeline & { id: string };
+  candidate: Candidate;
+  jobId?: string;
+  toStageId: string;
+  beforeCandidateId?: string | null;
+  expectedRevision?: number;
+  user?: { id: string; role: UserRole };
+}): Promise<{ candidate: Candidate; stageOrder: string[]; stageChanged: boolean }> => {
+  const { pipeline, candidate, jobId, toStageId, beforeCandidateId, user } = params;
+
+  if (!pipeline.stages.some((stage) => stage.id === toStageId)) {
+    throw new BadRequestError(`Stage ${toStageId} is not part of this pipeline`);
+  }
+  if (jobId && !(candidate.jobIds || []).includes(jobId)) {
+    throw new BadRequestError('Candidate has not applied to this job');
+  }
+
+  const fromStageId = candidate.currentPipelineStageId;
+  const stageChanged = fromStageId !== toStageId;
+  const fromStageInPipeline = pipeline.stages.some((stage) => stage.id === fromStageId);
+  let updateData: Partial<ICandidate> | null = null;
+
+  if (stageChanged) {
+    const violations = await checkStageTransition({
+      candidate,
+      pipeline,
+      fromStageId,
+      toStageId,
+      jobId,
+      userRole: user?.role,
+    });
+    if (violations.length > 0) {
+      const message = violations.map((violation) => violation.message).join('; ');
+      throw violations.some((violation) => violation.code === 'role_required')
+        ? new AuthorizationError(message)
+        : new ValidationError(message);
+    }
+
+    updateData = {
+      currentPipelineStageId: toStageId,
+      stageEnteredAt: new Date(),
+    };
+    const change = jobId
+      ? buildStageHistoryUpdate(candidate, pipeline, jobId, toStageId, {
+          changedBy: user?.id || 'system',
+          notes: 'Moved on pipeline board',
+        })
+      : null;
+    if (change) updateData.jobApplications = change.jobApplications;
+  } else if (params.expectedRevision !== undefined && params.expectedRevision !== (candidate.revision ?? 0)) {
+    throw new ConflictError('Candidate was modified by someone else. Reload the board and try again.');
+  }
+
+  // Columns are ordered over all their members, not one user's view
+  const [fromMembers, toMembers] = await Promise.all([
+    stageChanged && fromStageId && fromStageInPipeline
+      ? findStageMembers(fromStageId, jobId)
+      : Promise.resolve([] as Candidate[]),
+    findStageMembers(toStageId, jobId),
+  ]);
+  const members: Record<string, string[]> = {
+    [toStageId]: toMembers.map((member) => member.id),
+  };
+  if (stageChanged && fromStageId && fromStageInPipeline) {
+    members[fromStageId] = fromMembers.map((member) => member.id);
+  }
+
+  const stageOrder = await pipelineBoardOrderService.moveCard({
+    pipelineId: pipeline.id,
+    jobId,
+    candidateId: candidate.id,
+    fromStageId: stageChanged && fromStageInPipeline ? fromStageId : undefined,
+    toStageId,
+    beforeCandidateId,
+    members,
+    updatedBy: user?.id,
+    alongside: updateData
+      ? (transaction) =>
+          candidateService.prepareUpdate(transaction, candidate.id, updateData!, {
+            expectedRevision: params.expectedRevision ?? candidate.revision ?? 0,
+            changedBy: user?.id,
+          })
+      : undefined,
+  });
+
+  if (stageChanged) {
+    onCandidateStageChange({
+      candidateId: candidate.id,
+      jobId,
+      fromStageId,
+      toStageId,
+      changedBy: user?.id,
+    });
+  }
+
+  const updated = (await candidateService.findById(candidate.id)) || candidate;
+  return { candidate: updated, stageOrder, stageChanged };
+};
@@ -0,0 +1,277 @@
+/**
+ * Pipeline Migration Service
+ * Moves candidates out of stages that are removed or merged, so editing a
+ * pipeline never leaves candidates in a stage that no longer exists.
+ *
+ * A migration takes the pipeline's new stage list (or, without one, removes
+ * every stage named in the mapping, i.e. merges it into its target) and a
+ * mapping of old stage ID -> new stage ID. Stage automations do not run for
+ * migrated candidates; the move is recorded in their stage history.
+ *
+ * Candidates that could not be moved stay in the removed stage; mapping that
+ * stage again in a second call moves them.
+ */
+
+import { candidateService, pipelineService } from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IPipeline, IPipelineStage } from './firestore/pipeline.service';
+import { applicationJobId } from './stageTransition.service';
+import { BadRequestError, ConflictError } from '../utils/errors';
+import logger from '../utils/logger';
+
+type Candidate = ICandidate & { id: string };
+
+export interface PipelineMigrationPlan {
+  pipelineId: string;
+  revision: number;
+  stages: IPipelineStage[]; // the pipeline's stages after the migration
+  removedStages: Array<{ id: string; name: string; candidateCount: number }>;
+  moves: Array<{
+    fromStageId: string;
+    fromStageName: string;
+    toStageId: string;
+    toStageName: string;
+    candidateCount: number;
+    candidates: Array<{ id: string; name: string }>;
+  }>;
+  totalCandidates: number;
+}
+
+export interface PipelineMigrationResult {
+  revision: number;
+  movedCount: number;
+  failed: Array<{ candidateId: string; error: string }>;
+}
+
+// Candidates listed per move in a preview
+const PREVIEW_CANDIDATES = 50;
+
+/**
+ * Candidates currently in a stage of a pipeline
+ */
+export const findCandidatesInStage = (
+  pipeline: IPipeline,
+  stageId: string
+): Promise<Candidate[]> =>
+  candidateService.find([
+    { field: 'currentPipelineStageId', operator: '==', value: stageId },
+    ...(pipeline.jobId
+      ? [{ field: 'jobIds', operator: 'array-contains' as const, value: pipeline.jobId }]
+      : []),
+  ]);
+
+/**
+ * Removed stages that still hold candidates
+ */
+const findOccupiedRemovedStages = async (
+  pipeline: IPipeline,
+  newStages: Array<Partial<IPipelineStage>>
+): Promise<Array<{ id: string; name: string; candidateCount: number }>> => {
+  const keptIds = new Set(newStages.map((stage) => stage.id).filter(Boolean));
+  const occupied: Array<{ id: string; name: string; candidateCount: number }> = [];
+
+  for (const stage of pipeline.stages || []) {
+    if (keptIds.has(stage.id)) continue;
+    const candidates = await findCandidatesInStage(pipeline, stage.id);
+    if (candidates.length > 0) {
+      occupied.push({ id: stage.id, name: stage.name, candidateCount: candidates.length });
+    }
+  }
+
+  return occupied;
+};
+
+/**
+ * Work out which candidates move where
+ * Throws BadRequestError when the mapping is incomplete or points at unknown stages.
+ */
+export const planPipelineMigration = async (
+  pipeline: IPipeline & { id: string },
+  input: { mapping: Record<string, string>; stages?: IPipelineStage[] }
+): Promise<PipelineMigrationPlan> => {
+  const currentStages = pipeline.stages || [];
+  const currentById = new Map(currentStages.map((stage) => [stage.id, stage]));
+
+  // Stages already removed by an earlier migration may be mapped while
+  // candidates are left in them
+  const leftoverStages: IPipelineStage[] = [];
+  for (const fromStageId of Object.keys(input.mapping)) {
+    if (currentById.has(fromStageId)) continue;
+    if ((await findCandidatesInStage(pipeline, fromStageId)).length === 0) {
+      throw new BadRequestError(`Stage ${fromStageId} is not part of this pipeline`);
+    }
+    leftoverStages.push({ id: fromStageId, name: `Removed stage ${fromStageId}` } as IPipelineStage);
+  }
+
+  const stages = input.stages
+    ? input.stages.map((stage, index) => ({
+        ...stage,
+        id: stage.id || `stage_${Date.now()}_${index}`,
+      }))
+    : currentStages.filter((stage) => !(stage.id in input.mapping));
+  if (stages.length === 0) {
+    throw new BadRequestError('A pipeline needs at least one stage');
+  }
+  const targetById = new Map(stages.map((stage) => [stage.id, stage]));
+
+  Object.entries(input.mapping).forEach(([fromStageId, toStageId]) => {
+    if (!targetById.has(toStageId)) {
+      throw new BadRequestError(
+        `Stage ${fromStageId} is mapped to ${toStageId}, which is not a stage of the migrated pipeline`
+      );
+    }
+    if (fromStageId === toStageId) {
+      throw new BadRequestError(`Stage ${fromStageId} is mapped to itself`);
+    }
+  });
+
+  const removedStages: PipelineMigrationPlan['removedStages'] = [];
+  const moves: PipelineMigrationPlan['moves'] = [];
+  const unmapped: string[] = [];
+
+  for (const stage of [...currentStages, ...leftoverStages]) {
+    const removed = !targetById.has(stage.id);
+    const toStageId = input.mapping[stage.id];
+    if (!removed && !toStageId) continue;
+
+    const candidates = await findCandidatesInStage(pipeline, stage.id);
+    if (removed) {
+      removedStages.push({ id: stage.id, name: stage.name, candidateCount: candidates.length });
+    }
+    if (!toStageId) {
+      if (candidates.length > 0) unmapped.push(`"${stage.name}" (${candidates.length})`);
+      continue;
+    }
+
+    moves.push({
+      fromStageId: stage.id,
+      fromStageName: stage.name,
+      toStageId,
+      toStageName: targetById.get(toStageId)!.name,
+      candidateCount: candidates.length,
+      candidates: candidates.slice(0, PREVIEW_CANDIDATES).map((candidate) => ({
+        id: candidate.id,
+        name: `${candidate.firstName} ${candidate.lastName}`.trim(),
+      })),
+    });
+  }
+
+  if (unmapped.length > 0) {
+    throw new BadRequestError(
+      `Removed stages still have candidates and need a mapping: ${unmapped.join(', ')}`
+    );
+  }
+
+  return {
+    pipelineId: pipeline.id,
+    revision: pipeline.revision ?? 0,
+    stages,
+    removedStages,
+    moves,
+    totalCandidates: moves.reduce((sum, move) => sum + move.candidateCount, 0),
+  };
+};
+
+/**
+ * Save the migrated stages and move the affected candidates
+ * The pipeline write is checked against the revision the plan was made from.
+ * A candidate changed concurrently is re-read and moved again once; those
+ * still failing are returned and can be moved by migrating again.
+ */
+export const applyPipelineMigration = async (
+  pipeline: IPipeline & { id: string },
+  plan: PipelineMigrationPlan,
+  options: { changedBy?: string } = {}
+): Promise<PipelineMigrationResult> => {
+  await pipelineService.update(
+    pipeline.id,
+    { stages: plan.stages, updatedBy: options.changedBy, updatedAt: new Date() },
+    { expectedRevision: plan.revision, changedBy: options.changedBy }
+  );
+
+  let movedCount = 0;
+  const failed: PipelineMigrationResult['failed'] = [];
+
+  for (const move of plan.moves) {
+    // Re-read: the plan only lists the first candidates of each stage
+    const candidates = await findCandidatesInStage(pipeline, move.fromStageId);
+
+    const moveCandidate = async (candidate: Candidate) => {
+      const now = new Date();
+      const jobApplications = (candidate.jobApplications || []).map((application) =>
+        pipeline.jobId && applicationJobId(application) === pipeline.jobId
+          ? {
+              ...application,
+              currentStage: move.toStageId,
+              lastStatusChange: now,
+              stageHistory: [
+                ...(application.stageHistory || []),
+                {
+                  fromStageId: move.fromStageId,
+                  fromStageName: move.fromStageName,
+                  toStageId: move.toStageId,
+                  toStageName: move.toStageName,
+                  changedAt: now,
+                  changedBy: options.changedBy || 'system',
+                  notes: 'Pipeline migration',
+                },
+              ],
+            }
+          : application
+      );
+
+      await candidateService.update(
+        candidate.id,
+        {
+          currentPipelineStageId: move.toStageId,
+          stageEnteredAt: now,
+          jobApplications,
+        },
+        { expectedRevision: candidate.revision ?? 0, changedBy: options.changedBy }
+      );
+    };
+
+    // Retry once against a fresh copy when the candidate changed meanwhile
+    const moveWithRetry = async (candidate: Candidate): Promise<boolean> => {
+      try {
+        await moveCandidate(candidate);
+        return true;
+      } catch (error) {
+        if (!(error instanceof ConflictError)) throw error;
+        const fresh = (await candidateService.findById(candidate.id)) as Candidate | null;
+        if (fresh?.currentPipelineStageId !== move.fromStageId) return false; // moved by someone else
+        await moveCandidate(fresh);
+        return true;
+      }
+    };
+
+    for (const candidate of candidates) {
+      try {
+        if (await moveWithRetry(candidate)) movedCount++;
+      } catch (error: any) {
+        logger.error(`Failed to migrate candidate ${candidate.id}:`, error);
+        failed.push({ candidateId: candidate.id, error: error.message });
+      }
+    }
+  }
+
+  const updated = await pipelineService.findById(pipeline.id);
+  return { revision: updated?.revision ?? plan.revision + 1, movedCount, failed };
+};
+
+/**
+ * Reject a stage edit that would orphan candidates
+ */
+export const assertNoOrphanedCandidates = async (
+  pipeline: IPipeline,
+  newStages: Array<Partial<IPipelineStage>>
+): Promise<void> => {
+  const occupied = await findOccupiedRemovedStages(pipeline, newStages);
+  if (occupied.length > 0) {
+    throw new ConflictError(
+      `Removing stages ${occupied
+        .map((stage) => `"${stage.name}" (${stage.candidateCount} candidates)`)
+        .join(', ')} would orphan candidates. Use POST /api/pipelines/:id/migrate with a stage mapping.`
+    );
+  }
+};
@@ -0,0 +1,348 @@
+/**
+ * Recruiter Metrics Service
+ * Per-user productivity and workload for a date range, each metric next to
+ * the team average: open requisitions, assigned active candidates,
+ * applications reviewed, stage moves, emails sent and replied to, interviews
+ * scheduled and time to first review.
+ *
+ * Workload metrics (open requisitions, active candidates) are current counts;
+ * the others count what the user did within the range.
+ */
+
+import {
+  activityLogService,
+  applicationService,
+  candidateService,
+  emailService,
+  interviewService,
+  jobService,
+  userService,
+} from './firestore';
+import { IActivityLog } from './firestore/activityLog.service';
+import { IUser, UserRole } from './firestore/user.service';
+import { DAY_MS, HOUR_MS, toDate } from '../utils/helpers';
+
+export type RecruiterMetricKey =
+  | 'openRequisitions'
+  | 'activeCandidates'
+  | 'applicationsReviewed'
+  | 'stageMoves'
+  | 'emailsSent'
+  | 'emailsReplied'
+  | 'interviewsScheduled'
+  | 'timeToFirstReviewHours';
+
+export const RECRUITER_METRICS: Array<{
+  key: RecruiterMetricKey;
+  label: string;
+  higherIsBetter: boolean;
+}> = [
+  { key: 'openRequisitions', label: 'Open requisitions', higherIsBetter: true },
+  { key: 'activeCandidates', label: 'Active candidates assigned', higherIsBetter: true },
+  { key: 'applicationsReviewed', label: 'Applications reviewed', higherIsBetter: true },
+  { key: 'stageMoves', label: 'Stage moves', higherIsBetter: true },
+  { key: 'emailsSent', label: 'Emails sent', higherIsBetter: true },
+  { key: 'emailsReplied', label: 'Emails replied to', higherIsBetter: true },
+  { key: 'interviewsScheduled', label: 'Interviews scheduled', higherIsBetter: true },
+  { key: 'timeToFirstReviewHours', label: 'Median hours to first review', higherIsBetter: false },
+];
+
+export type RecruiterMetricValues = Record<RecruiterMetricKey, number | null>;
+
+export interface MetricsRange {
+  from: Date;
+  to: Date;
+}
+
+export interface RecruiterMetrics {
+  userId: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  metrics: RecruiterMetricValues;
+}
+
+export interface TeamMetrics {
+  range: MetricsRange;
+  generatedAt: Date;
+  members: RecruiterMetrics[];
+  teamAverages: RecruiterMetricValues;
+}
+
+export interface LeaderboardEntry extends RecruiterMetrics {
+  rank: number | null;
+}
+
+// Days covered when no range is given
+export const DEFAULT_METRICS_DAYS = 30;
+
+// Roles counted in the team even when idle in the range
+const TEAM_ROLES: UserRole[] = ['recruiter', 'coordinator', 'hiring_manager'];
+
+// Logged actions that record a review decision on an application
+const REVIEW_ACTIONS = [
+  'application_approved',
+  'application_rejected',
+  'application_rejected_and_deleted',
+  'application_status_changed',
+];
+
+const ACTIVE_CANDIDATE_STATUSES = ['active', 'interviewing', 'offered'];
+const UNSENT_EMAIL_STATUSES = ['draft', 'failed'];
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return round(
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+  );
+};
+
+const assigneeId = (record: { assignedTo?: unknown }): string | undefined => {
+  const assignedTo = record.assignedTo as any;
+  return typeof assignedTo === 'string' ? assignedTo : assignedTo?.id || assignedTo?._id;
+};
+
+const emptyMetrics = (): RecruiterMetricValues => ({
+  openRequisitions: 0,
+  activeCandidates: 0,
+  applicationsReviewed: 0,
+  stageMoves: 0,
+  emailsSent: 0,
+  emailsReplied: 0,
+  interviewsScheduled: 0,
+  timeToFirstReviewHours: null,
+});
+
+/**
+ * Range of a metrics request, defaulting to the last 30 days
+ */
+export const resolveMetricsRange = (
+  range: Partial<MetricsRange> = {},
+  now: Date = new Date()
+): MetricsRange => {
+  const to = range.to || now;
+  return { from: range.from || new Date(to.getTime() - DEFAULT_METRICS_DAYS * DAY_MS), to };
+};
+
+/**
+ * Hours from application to its first review decision, for the applications
+ * first reviewed within the range, keyed by the reviewer
+ * Earlier decisions outside the range are looked up so only the first counts.
+ */
+const findFirstReviews = async (
+  reviewLogs: IActivityLog[],
+  range: MetricsRange
+): Promise<Map<string, number[]>> => {
+  const applicationIds = [
+    ...new Set(reviewLogs.map((log) => log.resourceId).filter((id): id is string => !!id)),
+  ];
+  const hoursByUser = new Map<string, number[]>();
+
+  await Promise.all(
+    applicationIds.map(async (applicationId) => {
+      const [history, application] = await Promise.all([
+        activityLogService.findByResource('application', applicationId, { limit: 200 }),
+        applicationService.findById(applicationId, { includeDeleted: true }),
+      ]);
+      const first = history
+        .filter((log) => REVIEW_ACTIONS.includes(log.action))
+        .map((log) => ({ log, at: toDate(log.createdAt) }))
+        .filter((item): item is { log: IActivityLog; at: Date } => item.at !== null)
+        .sort((a, b) => a.at.getTime() - b.at.getTime())[0];
+      const appliedAt = toDate(application?.appliedAt) || toDate(application?.createdAt);
+      if (!first || !appliedAt || first.at < range.from || first.at > range.to) return;
+
+      if (!hoursByUser.has(first.log.userId)) hoursByUser.set(first.log.userId, []);
+      hoursByUser
+        .get(first.log.userId)!
+        .push(Math.max(0, (first.at.getTime() - appliedAt.getTime()) / HOUR_MS));
+    })
+  );
+
+  return hoursByUser;
+};
+
+/**
+ * Metrics of every team member for a range, with team averages
+ * The team is the active users with a recruiting role plus anyone else who
+ * did recruiting work in the range.
+ */
+export const buildTeamMetrics = async (
+  range: MetricsRange,
+  now: Date = new Date()
+): Promise<TeamMetrics> => {
+  const inRange = (value: unknown) => {
+    const date = toDate(value);
+    return !!date && date >= range.from && date <= range.to;
+  };
+
+  const [users, openJobs, candidates, activities, emails, interviews] = await Promise.all([
+    userService.findActive(),
+    jobService.findByStatus('open'),
+    candidateService.find([{ field: 'status', operator: 'in', value: ACTIVE_CANDIDATE_STATUSES }]),
+    activityLogService.findByDateRange(range.from, range.to, { limit: 20000 }),
+    emailService.find([
+      { field: 'direction', operator: '==', value: 'outbound' },
+      { field: 'createdAt', operator: '>=', value: range.from },
+      { field: 'createdAt', operator: '<=', value: range.to },
+    ]),
+    interviewService.find([
+      { field: 'createdAt', operator: '>=', value: range.from },
+      { field: 'createdAt', operator: '<=', value: range.to },
+    ]),
+  ]);
+
+  const metrics = new Map<string, RecruiterMetricValues>();
+  const metricsOf = (userId: string) => {
+    if (!metrics.has(userId)) metrics.set(userId, emptyMetrics());
+    return metrics.get(userId)!;
+  };
+  const add = (userId: string | undefined, key: RecruiterMetricKey) => {
+    if (userId) (metricsOf(userId)[key] as number)++;
+  };
+
+  openJobs.forEach((job) => (job.recruiterIds || []).forEach((id) => add(id, 'openRequisitions')));
+  candidates.forEach((candidate) => add(assigneeId(candidate as any), 'activeCandidates'));
+
+  const reviewLogs = activities.filter((log) => REVIEW_ACTIONS.includes(log.action));
+  const reviewed = new Set<string>();
+  reviewLogs.forEach((log) => {
+    const key = `${log.userId}:${log.resourceId}`;
+    if (!reviewed.has(key)) {
+      reviewed.add(key);
+      add(log.userId, 'applicationsReviewed');
+    }
+  });
+  activities
+    .filter((log) => log.action === 'candidate_stage_changed')
+    .forEach((log) => add(log.userId, 'stageMoves'));
+
+  // Emails to candidates, applicants and clients; system mail such as reports is left out
+  emails
+    .filter(
+      (email) =>
+        !UNSENT_EMAIL_STATUSES.includes(email.status) &&
+        (email.candidateId || email.applicationId || email.clientId) &&
+        inRange(email.sentAt || email.createdAt)
+    )
+    .forEach((email) => {
+      add(email.sentBy, 'emailsSent');
+      if (email.inReplyTo) add(email.sentBy, 'emailsReplied');
+    });
+
+  interviews
+    .filter((interview) => interview.status !== 'draft')
+    .forEach((interview) => add(interview.createdBy || interview.organizerId, 'interviewsScheduled'));
+
+  const firstReviews = await findFirstReviews(reviewLogs, range);
+  firstReviews.forEach((hours, userId) => {
+    metricsOf(userId).timeToFirstReviewHours = median(hours);
+  });
+
+  const members: RecruiterMetrics[] = users
+    .filter(
+      (user): user is IUser & { id: string } =>
+        !!user.id && (TEAM_ROLES.includes(user.role) || metrics.has(user.id))
+    )
+    .map((user) => ({
+      userId: user.id,
+      name: `${user.firstName} ${user.lastName}`.trim(),
+      email: user.email,
+      role: user.role,
+      metrics: metrics.get(user.id) || emptyMetrics(),
+    }));
+
+  const teamAverages = emptyMetrics();
+  RECRUITER_METRICS.forEach(({ key }) => {
+    const values = members
+      .map((member) => member.metrics[key])
+      .filter((value): value is number => value !== null);
+    teamAverages[key] =
+      values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+  });
+
+  return { range, generatedAt: now, members, teamAverages };
+};
+
+/**
+ * One user's metrics compared with the team averages
+ * `vsTeam` is the difference from the average in percent.
+ */
+export const getRecruiterMetrics = async (
+  user: IUser & { id: string },
+  range: MetricsRange
+): Promise<{
+  user: { id: string; name: string; email: string; role: UserRole };
+  range: MetricsRange;
+  teamSize: number;
+  metrics: Array<{
+    key: RecruiterMetricKey;
+    label: string;
+    higherIsBetter: boolean;
+    value: number | null;
+    teamAverage: number | null;
+    vsTeam: number | null;
+  }>;
+}> => {
+  const team = await buildTeamMetrics(range);
+  const values = team.members.find((member) => member.userId === user.id)?.metrics || emptyMetrics();
+
+  return {
+    user: {
+      id: user.id,
+      name: `${user.firstName} ${user.lastName}`.trim(),
+      email: user.email,
+      role: user.role,
+    },
+    range,
+    teamSize: team.members.length,
+    metrics: RECRUITER_METRICS.map((metric) => {
+      const value = values[metric.key];
+      const teamAverage = team.teamAverages[metric.key];
+      return {
+        ...metric,
+        value,
+        teamAverage,
+        vsTeam:
+          value !== null && teamAverage ? Math.round(((value - teamAverage) / teamAverage) * 100) : null,
+      };
+    }),
+  };
+};
+
+/**
+ * Team members ranked by one metric (best first; members without a value last)
+ */
+export const buildLeaderboard = async (
+  range: MetricsRange,
+  sortBy: RecruiterMetricKey
+): Promise<Omit<TeamMetrics, 'members'> & { sortBy: RecruiterMetricKey; members: LeaderboardEntry[] }> => {
+  const team = await buildTeamMetrics(range);
+  const { higherIsBetter } = RECRUITER_METRICS.find((metric) => metric.key === sortBy)!;
+
+  const ranked = team.members
+    .filter((member) => member.metrics[sortBy] !== null)
+    .sort((a, b) =>
+      higherIsBetter
+        ? b.metrics[sortBy]! - a.metrics[sortBy]!
+        : a.metrics[sortBy]! - b.metrics[sortBy]!
+    );
+
+  // Ties share a rank
+  let rank = 0;
+  const members: LeaderboardEntry[] = ranked.map((member, index) => {
+    if (index === 0 || ranked[index - 1].metrics[sortBy] !== member.metrics[sortBy]) {
+      rank = index + 1;
+    }
+    return { ...member, rank };
+  });
+  team.members
+    .filter((member) => member.metrics[sortBy] === null)
+    .forEach((member) => members.push({ ...member, rank: null }));
+
+  return { ...team, sortBy, members };
+};
@@ -0,0 +1,530 @@
+/**
+ * Report Subscriptions Service
+ * Builds subscribed reports (funnel, open jobs by client, recruiter activity,
+ * upcoming interviews), renders them to an HTML email with a CSV attachment,
+ * sends them through the outbound email path and records each delivery.
+ *
+ * Each report covers the subscription's period: the day, week or month
+ * before the delivery, or for upcoming interviews the one after it.
+ */
+
+import { Writable } from 'stream';
+import {
+  activityLogService,
+  candidateService,
+  clientService,
+  interviewService,
+  jobService,
+  reportDeliveryService,
+  reportSubscriptionService,
+  userService,
+} from './firestore';
+import { IReportDelivery } from './firestore/reportDelivery.service';
+import {
+  IReportSubscription,
+  ReportFrequency,
+  ReportType,
+} from './firestore/reportSubscription.service';
+import { IUser } from './firestore/user.service';
+import { buildFunnelReport } from './funnelAnalytics.service';
+import resendService from './resend.service';
+import { config } from '../config';
+import { ExportColumn, ExportValue, createExportWriter } from '../utils/exportWriter';
+import { DAY_MS, escapeHtml, toDate } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type Subscription = IReportSubscription & { id: string };
+
+export interface ReportPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface BuiltReport {
+  title: string;
+  summary: Array<{ label: string; value: string | number }>;
+  columns: ExportColumn[];
+  rows: ExportValue[][];
+}
+
+export const REPORT_TITLES: Record<ReportType, string> = {
+  funnel: 'Recruitment funnel',
+  open_jobs_by_client: 'Open jobs by client',
+  recruiter_activity: 'Recruiter activity',
+  upcoming_interviews: 'Upcoming interviews',
+};
+
+// Reports that need analytics access rather than plain job/interview access
+const ANALYTICS_REPORTS: ReportType[] = ['funnel', 'recruiter_activity'];
+
+// Rows shown in the email body; the attachment has all of them
+const EMAIL_ROWS = 25;
+
+/**
+ * Next delivery time after `from`, in UTC
+ */
+export const nextDeliveryAt = (
+  schedule: Pick<IReportSubscription, 'frequency' | 'hour' | 'dayOfWeek' | 'dayOfMonth'>,
+  from: Date = new Date()
+): Date => {
+  const next = new Date(from);
+  next.setUTCHours(schedule.hour, 0, 0, 0);
+
+  switch (schedule.frequency) {
+    case 'daily':
+      if (next <= from) next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case 'weekly': {
+      const dayOfWeek = schedule.dayOfWeek ?? 1;
+      next.setUTCDate(next.getUTCDate() + ((dayOfWeek - next.getUTCDay() + 7) % 7));
+      if (next <= from) next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    }
+    case 'monthly':
+      next.setUTCDate(schedule.dayOfMonth ?? 1);
+      if (next <= from) next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * Period a delivery reports on
+ */
+export const reportPeriod = (
+  report: ReportType,
+  frequency: ReportFrequency,
+  now: Date = new Date()
+): ReportPeriod => {
+  const other = new Date(now);
+  const step = report === 'upcoming_interviews' ? 1 : -1;
+  if (frequency === 'monthly') {
+    other.setUTCMonth(other.getUTCMonth() + step);
+  } else {
+    other.setTime(now.getTime() + step * (frequency === 'weekly' ? 7 : 1) * DAY_MS);
+  }
+  return step > 0 ? { start: now, end: other } : { start: other, end: now };
+};
+
+const userName = (user: { firstName?: string; lastName?: string; email?: string } | null) =>
+  user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email || '' : '';
+
+const buildFunnel = async (
+  subscription: Subscription,
+  period: ReportPeriod
+): Promise<BuiltReport> => {
+  const funnel = await buildFunnelReport({ ...subscription.filters, from: period.start, to: period.end });
+
+  return {
+    title: REPORT_TITLES.funnel,
+    summary: [
+      { label: 'Applications', value: funnel.totals.applications },
+      { label: 'Hired', value: funnel.totals.hired },
+      { label: 'Rejected', value: funnel.totals.rejected },
+      { label: 'Median days to hire', value: funnel.timeToHire.medianDays ?? '-' },
+    ],
+    columns: [
+      { key: 'stage', label: 'Stage' },
+      { key: 'entered', label: 'Entered' },
+      { key: 'advanced', label: 'Advanced' },
+      { key: 'conversionRate', label: 'Conversion %' },
+      { key: 'dropOff', label: 'Drop-off' },
+      { key: 'inStage', label: 'In stage' },
+      { key: 'medianDaysInStage', label: 'Median days in stage' },
+    ],
+    rows: funnel.stages.map((stage) => [
+      stage.name,
+      stage.entered,
+      stage.advanced,
+      stage.conversionRate,
+      stage.dropOff,
+      stage.inStage,
+      stage.medianDaysInStage,
+    ]),
+  };
+};
+
+const buildOpenJobsByClient = async (subscription: Subscription): Promise<BuiltReport> => {
+  const jobs = (await jobService.findByStatus('open')).filter(
+    (job) =>
+      (!subscription.filters?.clientId || job.clientId === subscription.filters.clientId) &&
+      (!subscription.filters?.recruiterId ||
+        (job.recruiterIds || []).includes(subscription.filters.recruiterId))
+  );
+
+  const clientNames = new Map<string, string>();
+  await Promise.all(
+    [...new Set(jobs.map((job) => job.clientId).filter(Boolean))].map(async (clientId) => {
+      const client = await clientService.findById(clientId).catch(() => null);
+      clientNames.set(clientId, client?.companyName || 'Unknown client');
+    })
+  );
+
+  const rows = await Promise.all(
+    jobs.map(async (job) => {
+      const candidates = await candidateService.count([
+        { field: 'jobIds', operator: 'array-contains', value: job.id },
+      ]);
+      return [
+        clientNames.get(job.clientId) || 'No client',
+        job.title,
+        job.openings ?? null,
+        candidates,
+        toDate(job.createdAt),
+      ] as ExportValue[];
+    })
+  );
+  rows.sort((a, b) => String(a[0]).localeCompare(String(b[0])) || String(a[1]).localeCompare(String(b[1])));
+
+  return {
+    title: REPORT_TITLES.open_jobs_by_client,
+    summary: [
+      { label: 'Open jobs', value: jobs.length },
+      { label: 'Clients', value: new Set(rows.map((row) => row[0])).size },
+    ],
+    columns: [
+      { key: 'client', label: 'Client' },
+      { key: 'job', label: 'Job' },
+      { key: 'openings', label: 'Openings' },
+      { key: 'candidates', label: 'Candidates' },
+      { key: 'openedAt', label: 'Opened' },
+    ],
+    rows,
+  };
+};
+
+const buildRecruiterActivity = async (
+  subscription: Subscription,
+  period: ReportPeriod
+): Promise<BuiltReport> => {
+  const activities = await activityLogService.findByDateRange(period.start, period.end, {
+    limit: 10000,
+    userId: subscription.filters?.recruiterId,
+  });
+
+  const byUser = new Map<string, Map<string, number>>();
+  activities.forEach((activity) => {
+    if (!byUser.has(activity.userId)) byUser.set(activity.userId, new Map());
+    const actions = byUser.get(activity.userId)!;
+    actions.set(activity.action, (actions.get(activity.action) || 0) + 1);
+  });
+
+  const names = new Map<string, string>();
+  await Promise.all(
+    [...byUser.keys()].map(async (userId) => {
+      names.set(userId, userName(await userService.findById(userId).catch(() => null)) || userId);
+    })
+  );
+
+  const rows: ExportValue[][] = [];
+  [...byUser.entries()]
+    .map(([userId, actions]) => ({
+      userId,
+      actions,
+      total: [...actions.values()].reduce((sum, value) => sum + value, 0),
+    }))
+    .sort((a, b) => b.total - a.total)
+    .forEach(({ userId, actions, total }) => {
+      [...actions.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .forEach(([action, count]) => rows.push([names.get(userId)!, action, count, total]));
+    });
+
+  return {
+    title: REPORT_TITLES.recruiter_activity,
+    summary: [
+      { label: 'Actions', value: activities.length },
+      { label: 'Active users', value: byUser.size },
+    ],
+    columns: [
+      { key: 'user', label: 'User' },
+      { key: 'action', label: 'Action' },
+      { key: 'count', label: 'Count' },
+      { key: 'userTotal', label: 'User total' },
+    ],
+    rows,
+  };
+};
+
+const buildUpcomingInterviews = async (
+  subscription: Subscription,
+  period: ReportPeriod
+): Promise<BuiltReport> => {
+  const { jobId, clientId, recruiterId } = subscription.filters || {};
+  const interviews = (await interviewService.findByDateRange(period.start, period.end)).filter(
+    (interview) =>
+      ['scheduled', 'confirmed'].includes(interview.status) &&
+      (!jobId || interview.jobId === jobId) &&
+      (!clientId || interview.clientId === clientId) &&
+      (!recruiterId ||
+        interview.organizerId === recruiterId ||
+        (interview.interviewerIds || []).includes(recruiterId))
+  );
+
+  const [candidates, jobs, users] = [new Map(), new Map(), new Map()] as Array<Map<string, string>>;
+  await Promise.all(
+    interviews.map(async (interview) => {
+      if (!candidates.has(interview.candidateId)) {
+        const candidate = await candidateService.findById(interview.candidateId).catch(() => null);
+        candidates.set(interview.candidateId, userName(candidate));
+      }
+      if (!jobs.has(interview.jobId)) {
+        jobs.set(interview.jobId, (await jobService.findById(interview.jobId).catch(() => null))?.title || '');
+      }
+      for (const id of interview.interviewerIds || []) {
+        if (!users.has(id)) users.set(id, userName(await userService.findById(id).catch(() => null)));
+      }
+    })
+  );
+
+  return {
+    title: REPORT_TITLES.upcoming_interviews,
+    summary: [{ label: 'Interviews', value: interviews.length }],
+    columns: [
+      { key: 'scheduledAt', label: 'Scheduled (UTC)' },
+      { key: 'candidate', label: 'Candidate' },
+      { key: 'job', label: 'Job' },
+      { key: 'title', label: 'Interview' },
+      { key: 'type', label: 'Type' },
+      { key: 'duration', label: 'Minutes' },
+      { key: 'interviewers', label: 'Interviewers' },
+    ],
+    rows: interviews.map((interview) => [
+      toDate(interview.scheduledAt),
+      candidates.get(interview.candidateId),
+      jobs.get(interview.jobId),
+      interview.title,
+      interview.type,
+      interview.duration,
+      (interview.interviewerIds || []).map((id) => users.get(id) || id).join(', '),
+    ]),
+  };
+};
+
+/**
+ * Build the data of a subscribed report for a period
+ */
+export const buildSubscribedReport = (
+  subscription: Subscription,
+  period: ReportPeriod
+): Promise<BuiltReport> => {
+  switch (subscription.report) {
+    case 'funnel':
+      return buildFunnel(subscription, period);
+    case 'open_jobs_by_client':
+      return buildOpenJobsByClient(subscription);
+    case 'recruiter_activity':
+      return buildRecruiterActivity(subscription, period);
+    case 'upcoming_interviews':
+      return buildUpcomingInterviews(subscription, period);
+  }
+};
+
+/**
+ * Render report rows to a CSV file through the export writer
+ */
+export const renderReportCsv = async (report: BuiltReport): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  const out = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+
+  const writer = await createExportWriter('csv', out, report.columns);
+  for (const row of report.rows) {
+    await writer.writeRow(row);
+  }
+  await writer.end();
+
+  return Buffer.concat(chunks);
+};
+
+const formatValue = (value: ExportValue): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (value instanceof Date) return value.toISOString().replace('T', ' ').slice(0, 16);
+  return String(value);
+};
+
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Render a report to the HTML and text bodies of its email
+ */
+export const renderReportEmail = (
+  subscription: Subscription,
+  report: BuiltReport,
+  period: ReportPeriod
+): { subject: string; html: string; text: string } => {
+  const periodLabel = `${formatDay(period.start)} to ${formatDay(period.end)}`;
+  const shown = report.rows.slice(0, EMAIL_ROWS);
+  const more = report.rows.length - shown.length;
+  const manageUrl = `${config.frontendUrl}/settings/report-subscriptions`;
+
+  const cell = 'padding:6px 10px;border-bottom:1px solid #e5e7eb;text-align:left;font-size:13px;';
+  const html = `<!DOCTYPE html>
+<html>
+<body style="font-family:Arial,Helvetica,sans-serif;color:#111827;margin:0;padding:24px;background:#f9fafb;">
+  <div style="max-width:720px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <h2 style="margin:0 0 4px;">${escapeHtml(subscription.name)}</h2>
+    <p style="margin:0 0 16px;color:#6b7280;font-size:13px;">${escapeHtml(report.title)} &middot; ${periodLabel}</p>
+    <table style="border-collapse:collapse;margin-bottom:20px;"><tr>
+      ${report.summary
+        .map(
+          (item) =>
+            `<td style="padding:8px 16px 8px 0;"><div style="font-size:20px;font-weight:bold;">${escapeHtml(formatValue(item.value))}</div><div style="font-size:12px;color:#6b7280;">${escapeHtml(item.label)}</div></td>`
+        )
+        .join('')}
+    </tr></table>
+    ${
+      shown.length > 0
+        ? `<table style="border-collapse:collapse;width:100%;">
+      <tr>${report.columns.map((column) => `<th style="${cell}background:#f3f4f6;">${escapeHtml(column.label)}</th>`).join('')}</tr>
+      ${shown
+        .map((row) => `<tr>${row.map((value) => `<td style="${cell}">${escapeHtml(formatValue(value))}</td>`).join('')}</tr>`)
+        .join('\n      ')}
+    </table>`
+        : '<p style="color:#6b7280;">Nothing to report for this period.</p>'
+    }
+    ${more > 0 ? `<p style="font-size:13px;color:#6b7280;">${more} more rows in the attached CSV.</p>` : ''}
+    <p style="font-size:12px;color:#9ca3af;margin-top:24px;">You receive this ${subscription.frequency} report because of a subscription. <a href="${manageUrl}">Manage subscriptions</a></p>
+  </div>
+</body>
+</html>`;
+
+  const text = [
+    `${subscription.name}`,
+    `${report.title} - ${periodLabel}`,
+    '',
+    ...report.summary.map((item) => `${item.label}: ${formatValue(item.value)}`),
+    '',
+    ...shown.map((row) => row.map(formatValue).join(' | ')),
+    ...(more > 0 ? [`${more} more rows in the attached CSV.`] : []),
+  ].join('\n');
+
+  return {
+    subject: `${subscription.name} - ${periodLabel}`,
+    html,
+    text,
+  };
+};
+
+/**
+ * Recipients a subscription owner may not send reports to
+ * Reports carry candidate and interview data, so they only go to active
+ * users of the org; admins may add outside addresses.
+ */
+export const findDisallowedRecipients = async (
+  recipients: string[],
+  owner: Pick<IUser, 'role'> | null
+): Promise<string[]> => {
+  if (owner?.role === 'admin') return [];
+
+  const users = await Promise.all(recipients.map((email) => userService.findByEmail(email)));
+  return recipients.filter((_, index) => !users[index] || users[index]!.isActive === false);
+};
+
+/**
+ * Build, render and email a subscription's report, and record the delivery
+ * Failed sends are recorded too; the schedule moves on either way.
+ */
+export const deliverReportSubscription = async (
+  subscription: Subscription,
+  options: { trigger?: IReportDelivery['trigger']; now?: Date } = {}
+): Promise<IReportDelivery & { id: string }> => {
+  const now = options.now || new Date();
+  const trigger = options.trigger || 'schedule';
+  const owner = await userService.findById(subscription.ownerId);
+
+  const canReceive =
+    !!owner &&
+    owner.isActive !== false &&
+    (!ANALYTICS_REPORTS.includes(subscription.report) ||
+      owner.role === 'admin' ||
+      owner.permissions?.canAccessAnalytics === true);
+
+  const period = reportPeriod(subscription.report, subscription.frequency, now);
+  // Recipients who left the org (or were added before recipients were restricted) are dropped
+  const disallowed = await findDisallowedRecipients(subscription.recipients, owner);
+  const allowed = subscription.recipients.filter((email) => !disallowed.includes(email));
+  const recipients = allowed.length > 0 ? allowed : owner ? [owner.email] : [];
+  const attachmentName = `${subscription.report}-${formatDay(period.end)}.csv`;
+
+  const delivery: Omit<IReportDelivery, 'id'> = {
+    subscriptionId: subscription.id,
+    ownerId: subscription.ownerId,
+    report: subscription.report,
+    recipients,
+    periodStart: period.start,
+    periodEnd: period.end,
+    trigger,
+    status: 'failed',
+    rowCount: 0,
+    attachmentName,
+  };
+
+  if (!canReceive) {
+    // Stop scheduling reports for users who are gone or lost access
+    await reportSubscriptionService.update(subscription.id, {
+      isActive: false,
+      nextRunAt: null,
+      lastStatus: 'failed',
+    });
+    logger.warn(`Report subscription ${subscription.id} paused: owner can no longer receive it`);
+    delivery.error = 'Owner is inactive or no longer has access to this report';
+  } else {
+    try {
+      const report = await buildSubscribedReport(subscription, period);
+      const email = renderReportEmail(subscription, report, period);
+      const sent = await resendService.sendEmail({
+        to: recipients,
+        subject: email.subject,
+        body: email.text,
+        bodyHtml: email.html,
+        attachments: [
+          {
+            filename: attachmentName,
+            content: await renderReportCsv(report),
+            contentType: 'text/csv',
+          },
+        ],
+        sentBy: subscription.ownerId,
+      });
+      Object.assign(delivery, {
+        status: 'sent',
+        rowCount: report.rows.length,
+        emailId: sent.emailId,
+        messageId: sent.id,
+      });
+    } catch (error: any) {
+      logger.error(`Failed to deliver report subscription ${subscription.id}:`, error);
+      delivery.error = error.message;
+    }
+
+    await reportSubscriptionService.update(subscription.id, {
+      lastSentAt: delivery.status === 'sent' ? now : subscription.lastSentAt ?? null,
+      lastStatus: delivery.status,
+      // A manual send does not shift the schedule
+      ...(trigger === 'schedule' && { nextRunAt: nextDeliveryAt(subscription, now) }),
+    });
+  }
+
+  const deliveryId = await reportDeliveryService.create(delivery);
+  return { ...delivery, id: deliveryId };
+};
+
+/**
+ * Deliver every subscription whose next delivery has come
+ * Returns the number of deliveries attempted.
+ */
+export const runDueReportSubscriptions = async (now: Date = new Date()): Promise<number> => {
+  const due = await reportSubscriptionService.findDue(now);
+
+  for (const subscription of due) {
+    await deliverReportSubscription(subscription as Subscription, { now });
+  }
+
+  return due.length;
+};
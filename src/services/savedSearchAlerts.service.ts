@@ -0,0 +1,101 @@
+/**
+ * Saved Search Alerts Service
+ * Re-runs saved candidate searches and notifies owners about new matches
+ */
+
+import { notificationService, savedSearchService, userService } from './firestore';
+import { ISavedSearch, SavedSearchFrequency } from './firestore/savedSearch.service';
+import { findMatchingCandidateIds } from './candidateSearch.service';
+import logger from '../utils/logger';
+
+export interface SavedSearchRunResult {
+  matchCount: number;
+  newCandidateIds: string[];
+}
+
+const FREQUENCY_MS: Record<Exclude<SavedSearchFrequency, 'never'>, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * When a search with this frequency should next run, or null if it is not scheduled
+ */
+export const nextRunAt = (frequency: SavedSearchFrequency, from: Date = new Date()): Date | null =>
+  frequency === 'never' ? null : new Date(from.getTime() + FREQUENCY_MS[frequency]);
+
+/**
+ * Run a saved search and record its matches
+ * The owner only sees what they could see through search (RBAC), and is
+ * notified about matches that no earlier run reported.
+ */
+export const runSavedSearch = async (
+  search: ISavedSearch & { id: string },
+  options: { notify?: boolean } = {}
+): Promise<SavedSearchRunResult> => {
+  const owner = await userService.findById(search.ownerId);
+  if (!owner || owner.isActive === false) {
+    // Stop scheduling searches of users who are gone
+    await savedSearchService.update(search.id, { nextRunAt: null });
+    logger.warn(`Saved search ${search.id} unscheduled: owner ${search.ownerId} is inactive`);
+    return { matchCount: 0, newCandidateIds: [] };
+  }
+
+  const canManageAllCandidates =
+    owner.role === 'admin' || owner.permissions?.canManageCandidates === true;
+
+  const matchingIds = await findMatchingCandidateIds(search.query, {
+    assignedTo: canManageAllCandidates ? undefined : search.ownerId,
+  });
+
+  const known = new Set(search.knownCandidateIds || []);
+  const newCandidateIds = [...matchingIds].filter((id) => !known.has(id));
+  const now = new Date();
+
+  await savedSearchService.update(search.id, {
+    knownCandidateIds: [...known, ...newCandidateIds],
+    lastRunAt: now,
+    nextRunAt: nextRunAt(search.frequency, now),
+    lastMatchCount: matchingIds.size,
+    lastNewMatchCount: newCandidateIds.length,
+  });
+
+  if ((options.notify ?? search.notify) && newCandidateIds.length > 0) {
+    await notificationService.createWithEntity({
+      userId: search.ownerId,
+      type: 'system',
+      title: `New matches for "${search.name}"`,
+      message: `${newCandidateIds.length} new candidate${newCandidateIds.length === 1 ? '' : 's'} match your saved search`,
+      read: false,
+      isImportant: false,
+      priority: 'medium',
+      relatedEntity: { type: 'saved_search', id: search.id, name: search.name },
+    });
+  }
+
+  return { matchCount: matchingIds.size, newCandidateIds };
+};
+
+/**
+ * Run every saved search whose next run is due
+ */
+export const runDueSavedSearches = async (): Promise<number> => {
+  const due = await savedSearchService.findDue();
+  let ran = 0;
+
+  for (const search of due) {
+    try {
+      await runSavedSearch(search as ISavedSearch & { id: string });
+      ran++;
+    } catch (error) {
+      // A query that no longer parses should not block the other searches
+      logger.error(`Saved search ${search.id} failed:`, error);
+      await savedSearchService
+        .update(search.id!, { nextRunAt: nextRunAt(search.frequency) })
+        .catch(() => undefined);
+    }
+  }
+
+  return ran;
+};
@@ -0,0 +1,417 @@
+/**
+ * Source Attribution Service
+ * Resolves the channel an applicant came from (career page, job board,
+ * referral, agency, sourced, email inbox...) and reports how each channel
+ * converts: applications, approvals, interviews, offers and hires.
+ * Candidates added to a job without applying (imported or sourced) are
+ * reported in a separate bucket, since they never went through approval.
+ *
+ * Records created before attribution was captured get one derived from their
+ * intake `source`, so older data still shows up under a channel.
+ */
+
+import {
+  applicationService,
+  candidateService,
+  emailAccountService,
+  interviewService,
+  jobService,
+} from './firestore';
+import { IApplication, ISourceAttribution, SourceChannel } from './firestore/application.service';
+import { ICandidate } from './firestore/candidate.service';
+import { toDate } from '../utils/helpers';
+
+type Candidate = ICandidate & { id: string };
+
+export const SOURCE_CHANNELS: SourceChannel[] = [
+  'career_page',
+  'job_board',
+  'referral',
+  'agency',
+  'sourced',
+  'email',
+  'manual',
+  'import',
+  'other',
+];
+
+// utm_source values that identify a job board
+const JOB_BOARDS = [
+  'linkedin',
+  'indeed',
+  'glassdoor',
+  'ziprecruiter',
+  'monster',
+  'careerbuilder',
+  'dice',
+  'stackoverflow',
+  'wellfound',
+  'angellist',
+  'otta',
+  'builtin',
+  'welcometothejungle',
+];
+
+const UTM_KEYS = ['source', 'medium', 'campaign', 'term', 'content'] as const;
+
+export interface SourceReportFilters {
+  from?: Date;
+  to?: Date;
+  jobId?: string;
+  clientId?: string;
+}
+
+export interface SourceReportRow {
+  applications: number;
+  approved: number;
+  interviewed: number;
+  offered: number;
+  hired: number;
+  approvalRate: number | null;
+  interviewRate: number | null;
+  offerRate: number | null;
+  hireRate: number | null;
+}
+
+export interface DirectSourceReportRow {
+  candidates: number;
+  interviewed: number;
+  offered: number;
+  hired: number;
+  interviewRate: number | null;
+  offerRate: number | null;
+  hireRate: number | null;
+}
+
+export interface SourceReportBucket<Row> {
+  totals: Row;
+  channels: Array<
+    Row & {
+      channel: SourceChannel;
+      details: Array<Row & { detail: string }>;
+    }
+  >;
+}
+
+export interface SourceReport extends SourceReportBucket<SourceReportRow> {
+  filters: SourceReportFilters;
+  generatedAt: Date;
+  // Candidates added to a job without an application record
+  direct: SourceReportBucket<DirectSourceReportRow>;
+}
+
+/**
+ * UTM parameters from a query string or form body (utm_source, utm_medium...)
+ */
+export const extractUtm = (
+  input: Record<string, unknown> | undefined
+): ISourceAttribution['utm'] | undefined => {
+  if (!input) return undefined;
+  const utm: NonNullable<ISourceAttribution['utm']> = {};
+  UTM_KEYS.forEach((key) => {
+    const value = input[`utm_${key}`];
+    if (typeof value === 'string' && value.trim()) {
+      utm[key] = value.trim().slice(0, 200);
+    }
+  });
+  return Object.keys(utm).length > 0 ? utm : undefined;
+};
+
+/**
+ * Attribution carried by a public apply request: UTM parameters of the job
+ * page (forwarded as query or form fields) and the page itself (Referer)
+ */
+export const captureAttribution = (input: {
+  query?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  referer?: string;
+}): Partial<ISourceAttribution> | undefined => {
+  const utm = extractUtm({ ...input.query, ...input.body });
+  const landingUrl = input.referer && /^https?:\/\//.test(input.referer)
+    ? input.referer.slice(0, 2000)
+    : undefined;
+  if (!utm && !landingUrl) return undefined;
+  return { ...(utm && { utm }), ...(landingUrl && { landingUrl }) };
+};
+
+/**
+ * Channel implied by UTM parameters, if any
+ */
+const channelFromUtm = (utm: ISourceAttribution['utm']): SourceChannel | undefined => {
+  const source = utm?.source?.toLowerCase().replace(/[^a-z]/g, '');
+  const medium = utm?.medium?.toLowerCase();
+  if (medium === 'referral' || medium === 'employee_referral') return 'referral';
+  if (medium === 'agency') return 'agency';
+  if (
+    medium === 'job_board' ||
+    medium === 'jobboard' ||
+    (source && JOB_BOARDS.some((board) => source.startsWith(board)))
+  ) {
+    return 'job_board';
+  }
+  return undefined;
+};
+
+/**
+ * Channel of a record that has no attribution, from its intake source
+ * A recruiter adding a candidate by hand counts as sourced; an application
+ * entered by hand stays "manual".
+ */
+const defaultChannel = (
+  source: string | undefined,
+  kind: 'application' | 'candidate'
+): SourceChannel => {
+  switch (source) {
+    case 'direct_apply':
+      return 'career_page';
+    case 'email':
+    case 'email_automation':
+      return 'email';
+    case 'import':
+      return 'import';
+    case 'manual':
+      return kind === 'candidate' ? 'sourced' : 'manual';
+    default:
+      return 'other';
+  }
+};
+
+/**
+ * Attribution for a new application or candidate
+ * Explicit attribution wins; otherwise UTMs and the intake source decide.
+ */
+export const resolveAttribution = (input: {
+  source?: string;
+  sourceEmailAccountId?: string;
+  attribution?: Partial<ISourceAttribution>;
+  utm?: ISourceAttribution['utm'];
+}): ISourceAttribution => {
+  const utm = input.attribution?.utm || input.utm;
+  const channel =
+    input.attribution?.channel ||
+    channelFromUtm(utm) ||
+    defaultChannel(input.source, 'application');
+
+  const attribution: ISourceAttribution = {
+    ...input.attribution,
+    channel,
+    ...(utm && { utm }),
+    capturedAt: new Date(),
+  };
+  if (!attribution.detail && channel === 'job_board' && utm?.source) {
+    attribution.detail = utm.source;
+  }
+  if (!attribution.emailAccountId && input.sourceEmailAccountId) {
+    attribution.emailAccountId = input.sourceEmailAccountId;
+  }
+  return attribution;
+};
+
+/**
+ * Stored attribution of an application or candidate, or one derived from its source
+ */
+export const getAttribution = (
+  record: Pick<IApplication, 'source' | 'sourceEmailAccountId' | 'attribution'> | Candidate,
+  kind: 'application' | 'candidate'
+): ISourceAttribution => {
+  if (record.attribution?.channel) return record.attribution;
+  const emailAccountId = (record as IApplication).sourceEmailAccountId;
+  return {
+    channel: defaultChannel(record.source, kind),
+    ...(emailAccountId && { emailAccountId }),
+  };
+};
+
+const percent = (part: number, total: number): number | null =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : null;
+
+const emptyRow = () => ({ applications: 0, approved: 0, interviewed: 0, offered: 0, hired: 0 });
+
+type Tally = ReturnType<typeof emptyRow>;
+
+const withRates = (row: Tally): SourceReportRow => ({
+  ...row,
+  approvalRate: percent(row.approved, row.applications),
+  interviewRate: percent(row.interviewed, row.applications),
+  offerRate: percent(row.offered, row.applications),
+  hireRate: percent(row.hired, row.applications),
+});
+
+const withDirectRates = ({ applications, interviewed, offered, hired }: Tally): DirectSourceReportRow => ({
+  candidates: applications,
+  interviewed,
+  offered,
+  hired,
+  interviewRate: percent(interviewed, applications),
+  offerRate: percent(offered, applications),
+  hireRate: percent(hired, applications),
+});
+
+/**
+ * Running counts per channel and per channel detail
+ */
+const createTallies = () => ({
+  totals: emptyRow(),
+  rows: new Map<SourceChannel, Tally>(),
+  details: new Map<SourceChannel, Map<string, Tally>>(),
+});
+
+const summarise = <Row>(
+  tallies: ReturnType<typeof createTallies>,
+  format: (row: Tally) => Row,
+  detailNames: Map<string, string>
+): SourceReportBucket<Row> => ({
+  totals: format(tallies.totals),
+  channels: [...tallies.rows.entries()]
+    .sort((a, b) => b[1].applications - a[1].applications)
+    .map(([channel, row]) => ({
+      channel,
+      ...format(row),
+      details: [...tallies.details.get(channel)!.entries()]
+        .sort((a, b) => b[1].applications - a[1].applications)
+        .map(([detail, detailRow]) => ({
+          detail: detailNames.get(detail) || detail,
+          ...format(detailRow),
+        })),
+    })),
+});
+
+const OFFER_STATUSES = ['offered', 'hired'];
+
+/**
+ * Applications, approvals, interviews, offers and hires per source channel
+ * Application records count as approved only once their status is
+ * "approved"; candidates added to a job directly (imported or sourced) are
+ * counted in `direct`. The date range applies to when the application was made.
+ */
+export const buildSourceReport = async (
+  filters: SourceReportFilters,
+  now: Date = new Date()
+): Promise<SourceReport> => {
+  const [applications, candidates, interviews] = await Promise.all([
+    applicationService.find(
+      filters.jobId ? [{ field: 'jobId', operator: '==', value: filters.jobId }] : []
+    ),
+    candidateService.find(
+      filters.jobId ? [{ field: 'jobIds', operator: 'array-contains', value: filters.jobId }] : []
+    ),
+    interviewService.find(
+      filters.jobId ? [{ field: 'jobId', operator: '==', value: filters.jobId }] : []
+    ),
+  ]);
+
+  const candidatesById = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+  const interviewed = new Set(
+    interviews
+      .filter((interview) => interview.status !== 'cancelled')
+      .map((interview) => `${interview.candidateId}:${interview.jobId || ''}`)
+  );
+  const jobClients = new Map<string, string | undefined>();
+  const getClientId = async (jobId: string) => {
+    if (!jobClients.has(jobId)) jobClients.set(jobId, (await jobService.findById(jobId))?.clientId);
+    return jobClients.get(jobId);
+  };
+
+  const inRange = (date: Date | null) =>
+    !!date && (!filters.from || date >= filters.from) && (!filters.to || date <= filters.to);
+
+  const applied = createTallies();
+  const direct = createTallies();
+  const emailAccountIds = new Set<string>();
+
+  const count = (
+    tallies: ReturnType<typeof createTallies>,
+    attribution: ISourceAttribution,
+    outcome: { approved: boolean; interviewed: boolean; offered: boolean; hired: boolean }
+  ) => {
+    const detail =
+      attribution.detail ||
+      attribution.agencyName ||
+      attribution.referrerName ||
+      attribution.emailAccountId ||
+      attribution.utm?.source ||
+      'unspecified';
+    if (attribution.emailAccountId && detail === attribution.emailAccountId) {
+      emailAccountIds.add(detail);
+    }
+
+    if (!tallies.rows.has(attribution.channel)) {
+      tallies.rows.set(attribution.channel, emptyRow());
+      tallies.details.set(attribution.channel, new Map());
+    }
+    const details = tallies.details.get(attribution.channel)!;
+    if (!details.has(detail)) details.set(detail, emptyRow());
+
+    [tallies.totals, tallies.rows.get(attribution.channel)!, details.get(detail)!].forEach((row) => {
+      row.applications++;
+      if (outcome.approved) row.approved++;
+      if (outcome.interviewed) row.interviewed++;
+      if (outcome.offered) row.offered++;
+      if (outcome.hired) row.hired++;
+    });
+  };
+
+  const candidateOutcome = (candidate: Candidate | undefined, jobId: string | undefined) => {
+    const application = (candidate?.jobApplications || []).find((item) => item.jobId === jobId);
+    const singleJob = (candidate?.jobApplications || []).length <= 1;
+    const hired =
+      application?.status === 'hired' || (singleJob && candidate?.status === 'hired');
+    return {
+      interviewed: !!candidate && interviewed.has(`${candidate.id}:${jobId || ''}`),
+      offered:
+        hired ||
+        OFFER_STATUSES.includes(application?.status || '') ||
+        (singleJob && OFFER_STATUSES.includes(candidate?.status || '')),
+      hired,
+    };
+  };
+
+  for (const application of applications) {
+    if (!inRange(toDate(application.appliedAt) || toDate(application.createdAt))) continue;
+    const clientId =
+      application.clientId || (application.jobId ? await getClientId(application.jobId) : undefined);
+    if (filters.clientId && clientId !== filters.clientId) continue;
+
+    const candidate = application.candidateId
+      ? candidatesById.get(application.candidateId) ||
+        ((await candidateService.findById(application.candidateId)) as Candidate | null) ||
+        undefined
+      : undefined;
+
+    count(applied, getAttribution(application, 'application'), {
+      approved: application.status === 'approved',
+      ...candidateOutcome(candidate, application.jobId),
+    });
+  }
+
+  // Jobs candidates were added to without an application record
+  for (const candidate of candidates) {
+    for (const jobApplication of candidate.jobApplications || []) {
+      if (jobApplication.applicationId) continue;
+      if (filters.jobId && jobApplication.jobId !== filters.jobId) continue;
+      if (!inRange(toDate(jobApplication.appliedAt) || toDate(candidate.createdAt))) continue;
+      if (filters.clientId && (await getClientId(jobApplication.jobId)) !== filters.clientId) continue;
+
+      count(direct, getAttribution(candidate, 'candidate'), {
+        approved: false,
+        ...candidateOutcome(candidate, jobApplication.jobId),
+      });
+    }
+  }
+
+  // Show inbox addresses rather than account IDs
+  const accountNames = new Map<string, string>();
+  await Promise.all(
+    [...emailAccountIds].map(async (id) => {
+      const account = await emailAccountService.findById(id).catch(() => null);
+      if (account) accountNames.set(id, account.email);
+    })
+  );
+
+  return {
+    filters,
+    generatedAt: now,
+    ...summarise(applied, withRates, accountNames),
+    direct: summarise(direct, withDirectRates, accountNames),
+  };
+};
@@ -0,0 +1,499 @@
+/**
+ * Stage Automation Service
+ * Runs the automation rules of pipeline stages when candidates enter or leave
+ * a stage, or after they have spent a number of days in it.
+ *
+ * Every action is logged in stageAutomationRuns. Actions with a delay are
+ * stored as "pending" and executed by the stage automation job; they are
+ * cancelled when the candidate leaves the stage first. A run is claimed
+ * (optimistic revision check) before its action executes and is not retried
+ * once claimed, so no email goes out twice.
+ */
+
+import {
+  candidateService,
+  clientService,
+  emailTemplateService,
+  interviewService,
+  jobService,
+  notificationService,
+  pipelineService,
+  stageAutomationRunService,
+} from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IJob } from './firestore/job.service';
+import {
+  IPipeline,
+  IPipelineStage,
+  IStageAutomationRule,
+  StageAutomationAction,
+  StageAutomationTrigger,
+} from './firestore/pipeline.service';
+import { IStageAutomationRun } from './firestore/stageAutomationRun.service';
+import resendService from './resend.service';
+import { getCandidateOwnerId, getStageEnteredAt } from './stageSla.service';
+import { findStagePipeline } from './stageTransition.service';
+import { evaluateCondition } from '../utils/automationCondition';
+import { ConflictError } from '../utils/errors';
+import { DAY_MS, MINUTE_MS } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type Candidate = ICandidate & { id: string };
+type Job = IJob & { id: string };
+type Run = IStageAutomationRun & { id: string };
+
+export interface StageAutomationPreview {
+  ruleId: string;
+  ruleName: string;
+  trigger: StageAutomationTrigger;
+  days?: number;
+  conditionMet: boolean;
+  error?: string;
+  actions: Array<{
+    type: StageAutomationAction['type'];
+    description: string;
+    scheduledFor: Date;
+    warning?: string;
+  }>;
+}
+
+// Claimed runs not finished by then are given up on
+const STALE_CLAIM_MS = 15 * MINUTE_MS;
+
+const activeRules = (stage: IPipelineStage, trigger?: StageAutomationTrigger) =>
+  (stage.automations || []).filter(
+    (rule) => rule.isActive !== false && (!trigger || rule.trigger === trigger)
+  );
+
+const buildVariables = async (
+  candidate: Candidate,
+  job: Job | null,
+  stage: IPipelineStage
+): Promise<Record<string, string>> => {
+  const client = job?.clientId ? await clientService.findById(job.clientId).catch(() => null) : null;
+  return {
+    candidateName: `${candidate.firstName} ${candidate.lastName}`.trim(),
+    firstName: candidate.firstName,
+    lastName: candidate.lastName,
+    jobTitle: job?.title || '',
+    companyName: client?.companyName || '',
+    stageName: stage.name,
+  };
+};
+
+const describeAction = (action: StageAutomationAction): string => {
+  switch (action.type) {
+    case 'send_email':
+      return `Send email template ${action.templateId}`;
+    case 'create_interview_draft':
+      return `Create a ${action.interviewType} interview draft`;
+    case 'notify_owner':
+      return 'Notify the candidate owner';
+    case 'set_status':
+      return `Set candidate status to ${action.status}`;
+  }
+};
+
+/**
+ * Carry out one action, returning a short description of what was done
+ */
+const executeAction = async (
+  run: IStageAutomationRun,
+  candidate: Candidate,
+  job: Job | null,
+  stage: IPipelineStage
+): Promise<string> => {
+  const { action } = run;
+
+  switch (action.type) {
+    case 'send_email': {
+      const template = await emailTemplateService.findById(action.templateId);
+      if (!template) throw new Error(`Email template ${action.templateId} not found`);
+      if (!candidate.email) throw new Error('Candidate has no email address');
+
+      const variables = await buildVariables(candidate, job, stage);
+      const { emailId } = await resendService.sendEmail({
+        to: candidate.email,
+        subject: emailTemplateService.replaceVariables(template.subject, variables),
+        body: emailTemplateService.replaceVariables(template.body, variables),
+        candidateId: candidate.id,
+        jobId: job?.id,
+        sentBy: run.triggeredBy,
+      });
+      return `Sent "${template.name}" (email ${emailId})`;
+    }
+
+    case 'create_interview_draft': {
+      if (!job) throw new Error('An interview draft needs a job');
+      const existing = await interviewService.find([
+        { field: 'candidateId', operator: '==', value: candidate.id },
+        { field: 'jobId', operator: '==', value: job.id },
+      ]);
+      const organizerId = getCandidateOwnerId(candidate, job) || run.triggeredBy || 'system';
+      const interviewId = await interviewService.create({
+        candidateId: candidate.id,
+        jobId: job.id,
+        clientId: job.clientId,
+        type: action.interviewType,
+        round: existing.length + 1,
+        title: action.title || `${stage.name} - ${job.title}`,
+        scheduledAt: null,
+        duration: action.duration || 60,
+        timezone: 'UTC',
+        interviewerIds: [],
+        organizerId,
+        status: 'draft',
+        createdBy: run.triggeredBy || 'system',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      return `Created interview draft ${interviewId}`;
+    }
+
+    case 'notify_owner': {
+      const ownerId = getCandidateOwnerId(candidate, job);
+      if (!ownerId) throw new Error('Candidate has no owner to notify');
+      const variables = await buildVariables(candidate, job, stage);
+      const candidateName = variables.candidateName;
+      await notificationService.createWithEntity({
+        userId: ownerId,
+        type: 'reminder',
+        title: `${run.ruleName}: ${candidateName}`,
+        message: emailTemplateService.replaceVariables(action.message, variables),
+        read: false,
+        isImportant: false,
+        priority: 'medium',
+        relatedEntity: { type: 'candidate', id: candidate.id, name: candidateName },
+      });
+      return `Notified user ${ownerId}`;
+    }
+
+    case 'set_status': {
+      const jobApplications = (candidate.jobApplications || []).map((application) =>
+        application.jobId === job?.id
+          ? { ...application, status: action.status, lastStatusChange: new Date() }
+          : application
+      );
+      await candidateService.update(
+        candidate.id,
+        { status: action.status, jobApplications },
+        { expectedRevision: candidate.revision ?? 0, changedBy: run.triggeredBy }
+      );
+      return `Status set to ${action.status}`;
+    }
+  }
+};
+
+/**
+ * Claim a logged run, execute it and record its outcome
+ * Actions for a stage the candidate has since left are cancelled instead,
+ * except those of on_exit rules. Returns false when another worker claimed it.
+ */
+const executeRun = async (run: Run): Promise<boolean> => {
+  try {
+    await stageAutomationRunService.update(
+      run.id,
+      { status: 'running', claimedAt: new Date() },
+      { expectedRevision: run.revision ?? 1 }
+    );
+  } catch (error) {
+    if (error instanceof ConflictError) return false; // another run got it first
+    throw error;
+  }
+
+  const finish = (data: Partial<IStageAutomationRun>) =>
+    stageAutomationRunService.update(run.id, { ...data, executedAt: new Date() });
+
+  try {
+    const candidate = await candidateService.findById(run.candidateId);
+    if (!candidate) {
+      await finish({ status: 'cancelled', result: 'Candidate no longer exists' });
+      return true;
+    }
+    if (run.trigger !== 'on_exit' && candidate.currentPipelineStageId !== run.stageId) {
+      await finish({ status: 'cancelled', result: 'Candidate left the stage' });
+      return true;
+    }
+
+    const [pipeline, job] = await Promise.all([
+      pipelineService.findById(run.pipelineId),
+      run.jobId ? jobService.findById(run.jobId) : Promise.resolve(null),
+    ]);
+    const stage = pipeline?.stages?.find((item) => item.id === run.stageId) || {
+      id: run.stageId,
+      name: run.stageName,
+      order: 0,
+      isActive: true,
+    };
+
+    const result = await executeAction(run, candidate, job, stage);
+    await finish({ status: 'completed', result });
+  } catch (error: any) {
+    logger.error(`Stage automation "${run.ruleName}" (${run.action.type}) failed:`, error);
+    await finish({ status: 'failed', error: error.message }).catch((err) =>
+      logger.error('Failed to record stage automation failure:', err)
+    );
+  }
+  return true;
+};
+
+/**
+ * Log the actions of a rule for a candidate and run those without a delay
+ * `runIdPrefix` gives the runs deterministic IDs so a rule fires only once.
+ */
+const fireRule = async (params: {
+  rule: IStageAutomationRule;
+  candidate: Candidate;
+  job: Job | null;
+  pipeline: IPipeline & { id: string };
+  stage: IPipelineStage;
+  triggeredBy?: string;
+  runIdPrefix?: string;
+}): Promise<void> => {
+  const { rule, candidate, job, pipeline, stage, triggeredBy, runIdPrefix } = params;
+  const now = new Date();
+
+  let conditionMet: boolean;
+  let conditionError: string | undefined;
+  try {
+    conditionMet = evaluateCondition(rule.condition, { candidate, job, stage });
+  } catch (error: any) {
+    conditionMet = false;
+    conditionError = `Invalid condition: ${error.message}`;
+  }
+
+  for (const [index, action] of rule.actions.entries()) {
+    const run: Omit<IStageAutomationRun, 'id'> = {
+      candidateId: candidate.id,
+      ...(job && { jobId: job.id }),
+      pipelineId: pipeline.id,
+      stageId: stage.id,
+      stageName: stage.name,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      trigger: rule.trigger,
+      action,
+      status: conditionMet ? 'pending' : 'skipped',
+      scheduledFor: new Date(now.getTime() + (action.delayMinutes || 0) * MINUTE_MS),
+      ...(!conditionMet && { result: conditionError || 'Condition not met' }),
+      ...(triggeredBy && { triggeredBy }),
+    };
+
+    let runId: string;
+    if (runIdPrefix) {
+      runId = `${runIdPrefix}_${index}`;
+      // Another sweep logged it first
+      if (!(await stageAutomationRunService.createIfAbsent(runId, run))) continue;
+    } else {
+      runId = await stageAutomationRunService.create(run);
+    }
+
+    if (conditionMet && !action.delayMinutes) {
+      await executeRun({ ...run, id: runId, revision: 1 });
+    }
+  }
+};
+
+/**
+ * Run stage automations for a candidate who moved between stages
+ * Cancels pending actions of the stage left, then fires its on_exit rules
+ * and the on_enter rules of the new stage. Errors are logged, not thrown.
+ */
+export const onCandidateStageChange = async (params: {
+  candidateId: string;
+  jobId?: string;
+  fromStageId?: string | null;
+  toStageId: string;
+  changedBy?: string;
+}): Promise<void> => {
+  const { candidateId, fromStageId, toStageId, changedBy } = params;
+  if (fromStageId === toStageId) return;
+
+  try {
+    const candidate = await candidateService.findById(candidateId);
+    if (!candidate) return;
+
+    if (fromStageId) {
+      const pending = await stageAutomationRunService.findPendingForStage(candidateId, fromStageId);
+      await Promise.all(
+        pending.map((run) =>
+          stageAutomationRunService
+            .update(
+              run.id!,
+              { status: 'cancelled', result: 'Candidate left the stage', executedAt: new Date() },
+              { expectedRevision: run.revision ?? 1 }
+            )
+            .catch((error) => {
+              // Claimed by the job in the meantime; it re-checks the stage before acting
+              if (!(error instanceof ConflictError)) throw error;
+            })
+        )
+      );
+    }
+
+    const resolved = await findStagePipeline(candidate, toStageId, params.jobId);
+    if (!resolved) return;
+    const { pipeline, jobId } = resolved;
+    const job = jobId ? await jobService.findById(jobId) : null;
+
+    const fromStage = pipeline.stages.find((stage) => stage.id === fromStageId);
+    const toStage = pipeline.stages.find((stage) => stage.id === toStageId)!;
+
+    if (fromStage) {
+      for (const rule of activeRules(fromStage, 'on_exit')) {
+        await fireRule({ rule, candidate, job, pipeline, stage: fromStage, triggeredBy: changedBy });
+      }
+    }
+    for (const rule of activeRules(toStage, 'on_enter')) {
+      await fireRule({ rule, candidate, job, pipeline, stage: toStage, triggeredBy: changedBy });
+    }
+  } catch (error) {
+    logger.error(`Stage automations for candidate ${candidateId} failed:`, error);
+  }
+};
+
+/**
+ * Fire after_days rules for candidates who have been in a stage long enough
+ * Each rule fires once per stay in the stage.
+ */
+const fireDueAfterDaysRules = async (now: Date): Promise<number> => {
+  let fired = 0;
+  const pipelines = await pipelineService.findActive();
+
+  for (const pipeline of pipelines) {
+    if (!pipeline.jobId) continue;
+
+    for (const stage of pipeline.stages || []) {
+      const rules = activeRules(stage, 'after_days');
+      if (rules.length === 0) continue;
+
+      const candidates = await candidateService.find([
+        { field: 'currentPipelineStageId', operator: '==', value: stage.id },
+        { field: 'jobIds', operator: 'array-contains', value: pipeline.jobId },
+      ]);
+      if (candidates.length === 0) continue;
+      const job = await jobService.findById(pipeline.jobId);
+
+      for (const candidate of candidates) {
+        const enteredAt = getStageEnteredAt(candidate, stage.id, pipeline.jobId);
+        if (!enteredAt) continue;
+
+        for (const rule of rules) {
+          if (now.getTime() - enteredAt.getTime() < (rule.days || 0) * DAY_MS) continue;
+
+          const runIdPrefix = `${rule.id}_${candidate.id}_${enteredAt.getTime()}`;
+          if (await stageAutomationRunService.exists(`${runIdPrefix}_0`)) continue;
+
+          await fireRule({
+            rule,
+            candidate,
+            job,
+            pipeline: pipeline as IPipeline & { id: string },
+            stage,
+            runIdPrefix,
+          });
+          fired++;
+        }
+      }
+    }
+  }
+
+  return fired;
+};
+
+/**
+ * Run delayed actions that are due and fire due after_days rules
+ */
+export const runDueStageAutomations = async (
+  now: Date = new Date()
+): Promise<{ executed: number; fired: number }> => {
+  // Claimed but never finished (crash mid-action): give up rather than risk a duplicate email
+  const stale = await stageAutomationRunService.findStaleClaims(new Date(now.getTime() - STALE_CLAIM_MS));
+  for (const run of stale) {
+    await stageAutomationRunService.update(run.id!, {
+      status: 'failed',
+      error: 'Interrupted while running; not retried to avoid running it twice',
+      executedAt: now,
+    });
+  }
+
+  let executed = 0;
+  const due = await stageAutomationRunService.findDue(now);
+  for (const run of due) {
+    if (await executeRun(run as Run)) executed++;
+  }
+
+  const fired = await fireDueAfterDaysRules(now);
+  return { executed, fired };
+};
+
+/**
+ * Show what a stage's rules would do for a candidate, without side effects
+ */
+export const previewStageAutomations = async (params: {
+  pipeline: IPipeline;
+  stage: IPipelineStage;
+  candidate: Candidate;
+  job: Job | null;
+  trigger?: StageAutomationTrigger;
+}): Promise<StageAutomationPreview[]> => {
+  const { stage, candidate, job, trigger } = params;
+  const now = new Date();
+  const ownerId = getCandidateOwnerId(candidate, job);
+
+  return Promise.all(
+    activeRules(stage, trigger).map(async (rule) => {
+      let conditionMet = false;
+      let error: string | undefined;
+      try {
+        conditionMet = evaluateCondition(rule.condition, { candidate, job, stage });
+      } catch (err: any) {
+        error = `Invalid condition: ${err.message}`;
+      }
+
+      const start =
+        rule.trigger === 'after_days'
+          ? new Date(
+              (getStageEnteredAt(candidate, stage.id, job?.id) || now).getTime() + (rule.days || 0) * DAY_MS
+            )
+          : now;
+
+      const actions = await Promise.all(
+        rule.actions.map(async (action) => {
+          let warning: string | undefined;
+          let description = describeAction(action);
+
+          if (action.type === 'send_email') {
+            const template = await emailTemplateService.findById(action.templateId);
+            if (template) description = `Send "${template.name}" to ${candidate.email}`;
+            else warning = 'Email template not found';
+          } else if (action.type === 'create_interview_draft' && !job) {
+            warning = 'No job: the interview draft would fail';
+          } else if (action.type === 'notify_owner') {
+            if (ownerId) description = `Notify user ${ownerId}`;
+            else warning = 'Candidate has no owner to notify';
+          }
+
+          return {
+            type: action.type,
+            description,
+            scheduledFor: new Date(
+              Math.max(start.getTime(), now.getTime()) + (action.delayMinutes || 0) * MINUTE_MS
+            ),
+            ...(warning && { warning }),
+          };
+        })
+      );
+
+      return {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        trigger: rule.trigger,
+        ...(rule.days !== undefined && { days: rule.days }),
+        conditionMet,
+        ...(error && { error }),
+        actions,
+      };
+    })
+  );
+};
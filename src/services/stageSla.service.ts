@@ -0,0 +1,323 @@
+/**
+ * Stage SLA Service
+ * Time-in-stage of candidates, overdue reports against the target duration
+ * (slaDays) of pipeline stages, and reminders when a candidate breaches it
+ */
+
+import {
+  candidateService,
+  jobService,
+  notificationService,
+  pipelineService,
+  stageSlaBreachService,
+  userService,
+} from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IJob } from './firestore/job.service';
+import { IPipeline, IPipelineStage } from './firestore/pipeline.service';
+import { DAY_MS, toDate } from '../utils/helpers';
+import logger from '../utils/logger';
+
+type Candidate = ICandidate & { id: string };
+
+export interface StageTiming {
+  stageId: string;
+  enteredAt: Date | null;
+  daysInStage: number | null;
+  slaDays?: number;
+  dueAt?: Date;
+  overdue: boolean;
+  daysOverdue?: number;
+}
+
+export interface OverdueCandidate {
+  candidateId: string;
+  name: string;
+  email: string;
+  ownerId?: string;
+  enteredAt: Date;
+  dueAt: Date;
+  daysInStage: number;
+  daysOverdue: number;
+  notifiedAt?: Date;
+}
+
+export interface PipelineSlaReport {
+  pipelineId: string;
+  pipelineName: string;
+  jobId?: string;
+  generatedAt: Date;
+  totalOverdue: number;
+  stages: Array<{
+    stageId: string;
+    stageName: string;
+    slaDays?: number;
+    candidateCount: number;
+    overdueCount: number;
+    averageDaysInStage: number | null;
+    overdue: OverdueCandidate[];
+  }>;
+  owners: Array<{
+    ownerId: string | null;
+    ownerName?: string;
+    overdueCount: number;
+    candidates: Array<OverdueCandidate & { stageId: string; stageName: string }>;
+  }>;
+}
+
+const roundDays = (ms: number): number => Math.round((ms / DAY_MS) * 10) / 10;
+
+/**
+ * When a candidate entered a stage
+ * Uses the latest of the job application's stage history and the candidate's
+ * stageEnteredAt, falling back to when the application last changed.
+ */
+export const getStageEnteredAt = (
+  candidate: Candidate,
+  stageId: string,
+  jobId?: string
+): Date | null => {
+  const application = (candidate.jobApplications || []).find((item) =>
+    jobId ? item.jobId === jobId : item.currentStage === stageId
+  );
+
+  const fromHistory = [...(application?.stageHistory || [])]
+    .reverse()
+    .find((entry) => entry.toStageId === stageId);
+
+  const entries = [
+    toDate(fromHistory?.changedAt),
+    candidate.currentPipelineStageId === stageId ? toDate(candidate.stageEnteredAt) : null,
+  ].filter((date): date is Date => date !== null);
+
+  if (entries.length > 0) {
+    return new Date(Math.max(...entries.map((date) => date.getTime())));
+  }
+
+  return (
+    toDate(application?.lastStatusChange) ||
+    toDate(application?.appliedAt) ||
+    toDate(candidate.createdAt)
+  );
+};
+
+/**
+ * Who owns a candidate: the assignee, else the job's recruiter or creator
+ */
+export const getCandidateOwnerId = (
+  candidate: Candidate,
+  job: (IJob & { id: string }) | null
+): string | undefined => {
+  const assignedTo = (candidate as any).assignedTo;
+  return (
+    (typeof assignedTo === 'string' ? assignedTo : assignedTo?.id || assignedTo?._id) ||
+    job?.recruiterIds?.[0] ||
+    job?.createdBy
+  );
+};
+
+/**
+ * Time a candidate has spent in a stage, measured against the stage's SLA
+ */
+export const getStageTiming = (
+  candidate: Candidate,
+  stage: IPipelineStage,
+  jobId?: string,
+  now: Date = new Date()
+): StageTiming => {
+  const enteredAt = getStageEnteredAt(candidate, stage.id, jobId);
+  const timing: StageTiming = {
+    stageId: stage.id,
+    enteredAt,
+    daysInStage: enteredAt ? roundDays(now.getTime() - enteredAt.getTime()) : null,
+    overdue: false,
+  };
+
+  if (stage.slaDays && enteredAt) {
+    const dueAt = new Date(enteredAt.getTime() + stage.slaDays * DAY_MS);
+    timing.slaDays = stage.slaDays;
+    timing.dueAt = dueAt;
+    timing.overdue = now > dueAt;
+    if (timing.overdue) {
+      timing.daysOverdue = roundDays(now.getTime() - dueAt.getTime());
+    }
+  } else if (stage.slaDays) {
+    timing.slaDays = stage.slaDays;
+  }
+
+  return timing;
+};
+
+/**
+ * Candidates currently in a stage of a pipeline
+ */
+const findStageCandidates = (pipeline: IPipeline, stage: IPipelineStage) =>
+  candidateService.find([
+    { field: 'currentPipelineStageId', operator: '==', value: stage.id },
+    ...(pipeline.jobId
+      ? [{ field: 'jobIds', operator: 'array-contains' as const, value: pipeline.jobId }]
+      : []),
+  ]);
+
+/**
+ * Overdue candidates of a pipeline, per stage and per owner
+ */
+export const buildPipelineSlaReport = async (
+  pipeline: IPipeline & { id: string },
+  options: { ownerId?: string; now?: Date } = {}
+): Promise<PipelineSlaReport> => {
+  const now = options.now || new Date();
+  const job = pipeline.jobId ? await jobService.findById(pipeline.jobId) : null;
+  const notified = new Map(
+    (await stageSlaBreachService.findByPipelineId(pipeline.id)).map((breach) => [
+      breach.id,
+      breach.notifiedAt,
+    ])
+  );
+
+  const stages: PipelineSlaReport['stages'] = [];
+  const byOwner = new Map<string | null, PipelineSlaReport['owners'][number]>();
+
+  const sortedStages = [...(pipeline.stages || [])].sort((a, b) => a.order - b.order);
+  for (const stage of sortedStages) {
+    const candidates = await findStageCandidates(pipeline, stage);
+    const overdue: OverdueCandidate[] = [];
+    const days: number[] = [];
+
+    for (const candidate of candidates) {
+      const timing = getStageTiming(candidate, stage, pipeline.jobId, now);
+      if (timing.daysInStage !== null) days.push(timing.daysInStage);
+      if (!timing.overdue) continue;
+
+      const ownerId = getCandidateOwnerId(candidate, job);
+      if (options.ownerId && ownerId !== options.ownerId) continue;
+
+      const entry: OverdueCandidate = {
+        candidateId: candidate.id,
+        name: `${candidate.firstName} ${candidate.lastName}`.trim(),
+        email: candidate.email,
+        ...(ownerId && { ownerId }),
+        enteredAt: timing.enteredAt!,
+        dueAt: timing.dueAt!,
+        daysInStage: timing.daysInStage!,
+        daysOverdue: timing.daysOverdue!,
+      };
+      const notifiedAt = notified.get(
+        stageSlaBreachService.breachId(pipeline.id, candidate.id, stage.id, timing.enteredAt!)
+      );
+      if (notifiedAt) entry.notifiedAt = notifiedAt;
+      overdue.push(entry);
+
+      const ownerKey = ownerId || null;
+      if (!byOwner.has(ownerKey)) {
+        byOwner.set(ownerKey, { ownerId: ownerKey, overdueCount: 0, candidates: [] });
+      }
+      const owner = byOwner.get(ownerKey)!;
+      owner.overdueCount++;
+      owner.candidates.push({ ...entry, stageId: stage.id, stageName: stage.name });
+    }
+
+    overdue.sort((a, b) => b.daysOverdue - a.daysOverdue);
+    stages.push({
+      stageId: stage.id,
+      stageName: stage.name,
+      ...(stage.slaDays && { slaDays: stage.slaDays }),
+      candidateCount: candidates.length,
+      overdueCount: overdue.length,
+      averageDaysInStage:
+        days.length > 0
+          ? Math.round((days.reduce((sum, value) => sum + value, 0) / days.length) * 10) / 10
+          : null,
+      overdue,
+    });
+  }
+
+  const owners = [...byOwner.values()].sort((a, b) => b.overdueCount - a.overdueCount);
+  await Promise.all(
+    owners
+      .filter((owner) => owner.ownerId)
+      .map(async (owner) => {
+        const user = await userService.findById(owner.ownerId!).catch(() => null);
+        if (user) owner.ownerName = `${user.firstName} ${user.lastName}`.trim();
+      })
+  );
+
+  return {
+    pipelineId: pipeline.id,
+    pipelineName: pipeline.name,
+    ...(pipeline.jobId && { jobId: pipeline.jobId }),
+    generatedAt: now,
+    totalOverdue: stages.reduce((sum, stage) => sum + stage.overdueCount, 0),
+    stages,
+    owners,
+  };
+};
+
+/**
+ * Notify owners about candidates that breached their stage's SLA
+ * Each stay in a stage is reported once: the breach record is created first
+ * and only the run that created it notifies. Returns the number of new breaches.
+ */
+export const sendSlaBreachReminders = async (now: Date = new Date()): Promise<number> => {
+  let breaches = 0;
+  const pipelines = await pipelineService.findActive();
+
+  for (const pipeline of pipelines) {
+    const slaStages = (pipeline.stages || []).filter((stage) => stage.slaDays);
+    if (slaStages.length === 0) continue;
+    const job = pipeline.jobId ? await jobService.findById(pipeline.jobId) : null;
+
+    for (const stage of slaStages) {
+      for (const candidate of await findStageCandidates(pipeline, stage)) {
+        const timing = getStageTiming(candidate, stage, pipeline.jobId, now);
+        if (!timing.overdue) continue;
+
+        const breachId = stageSlaBreachService.breachId(
+          pipeline.id!,
+          candidate.id,
+          stage.id,
+          timing.enteredAt!
+        );
+
+        const ownerId = getCandidateOwnerId(candidate, job);
+        const name = `${candidate.firstName} ${candidate.lastName}`.trim();
+
+        const created = await stageSlaBreachService.createIfAbsent(breachId, {
+          candidateId: candidate.id,
+          pipelineId: pipeline.id!,
+          ...(pipeline.jobId && { jobId: pipeline.jobId }),
+          stageId: stage.id,
+          stageName: stage.name,
+          ...(ownerId && { ownerId, notifiedAt: now }),
+          enteredAt: timing.enteredAt!,
+          dueAt: timing.dueAt!,
+        });
+        if (!created) continue; // reported before, or by a concurrent run
+
+        if (ownerId) {
+          try {
+            await notificationService.createWithEntity({
+              userId: ownerId,
+              type: 'reminder',
+              title: `${name} is overdue in ${stage.name}`,
+              message: `${name} has been in "${stage.name}" for ${Math.floor(timing.daysInStage!)} days (target ${stage.slaDays})${job ? ` for ${job.title}` : ''}`,
+              read: false,
+              isImportant: true,
+              priority: 'high',
+              relatedEntity: { type: 'candidate', id: candidate.id, name },
+            });
+          } catch (error) {
+            logger.error(`Failed to send SLA reminder for candidate ${candidate.id}:`, error);
+            // Drop the record so the next run tries again
+            await stageSlaBreachService.delete(breachId);
+            continue;
+          }
+        }
+
+        breaches++;
+      }
+    }
+  }
+
+  return breaches;
+};
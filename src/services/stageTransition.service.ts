@@ -0,0 +1,216 @@
+/**
+ * Stage Transition Service
+ * Enforces the transition rules of pipeline stages when candidates move:
+ * - allowedNextStageIds: stages a candidate may move to from this stage
+ * - requiredRoles: roles allowed to move candidates into this stage
+ * - entryRequirements: data a candidate needs before entering this stage
+ */
+
+import { interviewService, jobService, pipelineService } from './firestore';
+import { ICandidate } from './firestore/candidate.service';
+import { IPipeline, IPipelineStage, StageEntryRequirement } from './firestore/pipeline.service';
+import { UserRole } from './firestore/user.service';
+import { evaluateCondition } from '../utils/automationCondition';
+import { BadRequestError } from '../utils/errors';
+
+type Candidate = ICandidate & { id: string };
+
+export type StageTransitionViolationCode = 'transition_not_allowed' | 'role_required' | 'requirement_not_met';
+
+export interface StageTransitionViolation {
+  code: StageTransitionViolationCode;
+  message: string;
+}
+
+/**
+ * The pipeline a stage belongs to, through the job or the candidate's jobs
+ */
+export const findStagePipeline = async (
+  candidate: Candidate,
+  stageId: string,
+  jobId?: string
+): Promise<{ pipeline: IPipeline & { id: string }; jobId?: string } | null> => {
+  const jobIds = jobId ? [jobId] : candidate.jobIds || [];
+  for (const id of jobIds) {
+    const pipeline = await pipelineService.findByJobId(id);
+    if (pipeline?.stages?.some((stage) => stage.id === stageId)) {
+      return { pipeline: pipeline as IPipeline & { id: string }, jobId: id };
+    }
+  }
+  return null;
+};
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const checkRequirement = async (
+  requirement: StageEntryRequirement,
+  candidate: Candidate,
+  stage: IPipelineStage,
+  jobId?: string
+): Promise<string | null> => {
+  switch (requirement.type) {
+    case 'completed_interview': {
+      const interviews = await interviewService.find([
+        { field: 'candidateId', operator: '==', value: candidate.id },
+        ...(jobId ? [{ field: 'jobId', operator: '==' as const, value: jobId }] : []),
+        { field: 'status', operator: '==', value: 'completed' },
+      ]);
+      const withFeedback = requirement.withFeedback !== false;
+      const met = interviews.some(
+        (interview) => !withFeedback || (interview.feedback || []).length > 0
+      );
+      return met
+        ? null
+        : requirement.message ||
+            `At least one completed interview${withFeedback ? ' with feedback' : ''} is required before entering "${stage.name}"`;
+    }
+
+    case 'field': {
+      const value = requirement.field
+        .split('.')
+        .reduce<any>((current, key) => (current == null ? undefined : current[key]), candidate);
+      return isBlank(value)
+        ? requirement.message ||
+            `${requirement.label || requirement.field} is required before entering "${stage.name}"`
+        : null;
+    }
+
+    case 'condition': {
+      const job = jobId ? await jobService.findById(jobId) : null;
+      return evaluateCondition(requirement.condition, { candidate, job, stage })
+        ? null
+        : requirement.message;
+    }
+  }
+};
+
+/**
+ * Check whether a candidate may move between two stages of a pipeline
+ * Returns every rule the move breaks; an empty list means the move is allowed.
+ */
+export const checkStageTransition = async (params: {
+  candidate: Candidate;
+  pipeline: IPipeline;
+  fromStageId?: string | null;
+  toStageId: string;
+  jobId?: string;
+  userRole?: UserRole;
+}): Promise<StageTransitionViolation[]> => {
+  const { candidate, pipeline, fromStageId, toStageId, jobId, userRole } = params;
+  if (fromStageId === toStageId) return [];
+
+  const toStage = pipeline.stages.find((stage) => stage.id === toStageId);
+  if (!toStage) {
+    return [
+      {
+        code: 'transition_not_allowed',
+        message: `Stage ${toStageId} is not part of pipeline "${pipeline.name}"`,
+      },
+    ];
+  }
+
+  const violations: StageTransitionViolation[] = [];
+  const fromStage = pipeline.stages.find((stage) => stage.id === fromStageId);
+
+  if (fromStage?.allowedNextStageIds?.length && !fromStage.allowedNextStageIds.includes(toStageId)) {
+    const allowed = pipeline.stages
+      .filter((stage) => fromStage.allowedNextStageIds!.includes(stage.id))
+      .map((stage) => `"${stage.name}"`);
+    violations.push({
+      code: 'transition_not_allowed',
+      message: `Cannot move from "${fromStage.name}" to "${toStage.name}". Allowed next stages: ${allowed.join(', ') || 'none'}`,
+    });
+  }
+
+  if (toStage.requiredRoles?.length && userRole !== 'admin' && (!userRole || !toStage.requiredRoles.includes(userRole))) {
+    violations.push({
+      code: 'role_required',
+      message: `Only ${toStage.requiredRoles.join(', ')} users can move candidates to "${toStage.name}"`,
+    });
+  }
+
+  for (const requirement of toStage.entryRequirements || []) {
+    const message = await checkRequirement(requirement, candidate, toStage, jobId);
+    if (message) {
+      violations.push({ code: 'requirement_not_met', message });
+    }
+  }
+
+  return violations;
+};
+
+/**
+ * Job ID of an application entry; older entries hold a populated job object
+ */
+export const applicationJobId = (application: { jobId?: unknown }): string | undefined => {
+  const jobId = application.jobId as any;
+  return jobId?.id || jobId?._id || jobId;
+};
+
+/**
+ * Job applications of a candidate with the move to a new stage recorded on
+ * the application for the job: current stage and a stage history entry
+ * Returns null when the stage is not part of the pipeline.
+ */
+export const buildStageHistoryUpdate = (
+  candidate: Candidate,
+  pipeline: IPipeline,
+  jobId: string,
+  toStageId: string,
+  options: { changedBy: string; notes?: string }
+): {
+  jobApplications: NonNullable<ICandidate['jobApplications']>;
+  fromStageName?: string;
+  toStageName: string;
+} | null => {
+  const toStage = pipeline.stages?.find((stage) => stage.id === toStageId);
+  if (!toStage) return null;
+
+  let fromStageName: string | undefined;
+  const jobApplications = (candidate.jobApplications || []).map((app: any) => {
+    if (applicationJobId(app) !== jobId) return app;
+
+    const oldStageId = app.currentStage || null;
+    const oldStage = oldStageId ? pipeline.stages.find((stage) => stage.id === oldStageId) : null;
+    fromStageName = oldStage?.name || (oldStageId ? 'Unknown Stage' : 'None');
+    return {
+      ...app,
+      currentStage: toStageId,
+      lastStatusChange: new Date(),
+      stageHistory: [
+        ...(app.stageHistory || []),
+        {
+          fromStageId: oldStageId,
+          fromStageName,
+          toStageId,
+          toStageName: toStage.name,
+          changedAt: new Date(),
+          changedBy: options.changedBy,
+          notes: options.notes || undefined,
+        },
+      ],
+    };
+  });
+
+  return { jobApplications, fromStageName, toStageName: toStage.name };
+};
+
+/**
+ * Reject transition rules that point at stages the pipeline does not have
+ */
+export const assertValidTransitionRules = (stages: IPipelineStage[]): void => {
+  const stageIds = new Set(stages.map((stage) => stage.id).filter(Boolean));
+
+  for (const stage of stages) {
+    const unknown = (stage.allowedNextStageIds || []).filter((id) => !stageIds.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Stage "${stage.name}" allows moves to unknown stages: ${unknown.join(', ')}`
+      );
+    }
+  }
+};
@@ -0,0 +1,278 @@
+/**
+ * Talent Pool Service
+ * Pool membership, re-engagement campaigns and reply tracking
+ */
+
+import {
+  candidateService,
+  emailTemplateService,
+  jobService,
+  talentPoolCampaignService,
+  talentPoolMemberService,
+  talentPoolService,
+  userService,
+} from './firestore';
+import { ITalentPool } from './firestore/talentPool.service';
+import { ITalentPoolCampaign } from './firestore/talentPoolCampaign.service';
+import resendService from './resend.service';
+import { FieldValue } from 'firebase-admin/firestore';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface AddMembersResult {
+  added: string[];
+  alreadyInPool: string[];
+  notFound: string[];
+}
+
+export interface ReEngageOptions {
+  templateId: string;
+  candidateIds?: string[];
+  variables?: Record<string, string>;
+  sentBy?: string;
+}
+
+/**
+ * Keep the candidate's pool list and legacy inTalentPool flag in line with its memberships
+ */
+const syncCandidatePools = async (candidateId: string): Promise<void> => {
+  const memberships = await talentPoolMemberService.findByCandidateId(candidateId);
+  const poolIds = memberships.map((member) => member.poolId);
+
+  await candidateService.update(candidateId, {
+    talentPoolIds: poolIds,
+    inTalentPool: poolIds.length > 0,
+  });
+};
+
+const refreshMemberCount = async (poolId: string): Promise<void> => {
+  const memberCount = await talentPoolMemberService.countByPoolId(poolId);
+  await talentPoolService.update(poolId, { memberCount });
+};
+
+/**
+ * Add candidates to a pool; candidates already in it keep their original reason
+ */
+export const addCandidatesToPool = async (
+  pool: ITalentPool & { id: string },
+  candidateIds: string[],
+  options: { reason?: string; sourceJobId?: string; addedBy?: string } = {}
+): Promise<AddMembersResult> => {
+  if (options.sourceJobId && !(await jobService.findById(options.sourceJobId))) {
+    throw new NotFoundError('Source job not found');
+  }
+
+  const result: AddMembersResult = { added: [], alreadyInPool: [], notFound: [] };
+
+  for (const candidateId of new Set(candidateIds)) {
+    const candidate = await candidateService.findById(candidateId);
+    if (!candidate) {
+      result.notFound.push(candidateId);
+      continue;
+    }
+
+    const memberId = talentPoolMemberService.memberId(pool.id, candidateId);
+    if (await talentPoolMemberService.exists(memberId)) {
+      result.alreadyInPool.push(candidateId);
+      continue;
+    }
+
+    await talentPoolMemberService.createWithId(memberId, {
+      poolId: pool.id,
+      candidateId,
+      reason: options.reason,
+      sourceJobId: options.sourceJobId,
+      addedBy: options.addedBy,
+      addedAt: new Date(),
+      outreachStatus: 'none',
+    });
+    await syncCandidatePools(candidateId);
+    result.added.push(candidateId);
+  }
+
+  if (result.added.length > 0) {
+    await refreshMemberCount(pool.id);
+  }
+
+  return result;
+};
+
+/**
+ * Remove a candidate from a pool
+ */
+export const removeCandidateFromPool = async (
+  poolId: string,
+  candidateId: string
+): Promise<void> => {
+  const memberId = talentPoolMemberService.memberId(poolId, candidateId);
+  if (!(await talentPoolMemberService.exists(memberId))) {
+    throw new NotFoundError('Candidate is not in this talent pool');
+  }
+
+  await talentPoolMemberService.delete(memberId);
+  await refreshMemberCount(poolId);
+
+  // The candidate may have been deleted since it was added
+  if (await candidateService.findById(candidateId)) {
+    await syncCandidatePools(candidateId);
+  }
+};
+
+/**
+ * Delete a pool and its memberships (campaign records are kept for reporting)
+ */
+export const deleteTalentPool = async (poolId: string): Promise<number> => {
+  const members = await talentPoolMemberService.findByPoolId(poolId);
+
+  for (const member of members) {
+    await talentPoolMemberService.delete(member.id!);
+    if (await candidateService.findById(member.candidateId)) {
+      await syncCandidatePools(member.candidateId);
+    }
+  }
+
+  await talentPoolService.delete(poolId);
+  return members.length;
+};
+
+/**
+ * Send an email template to the members of a pool
+ * Each member's outreach state is tracked so replies can be attributed to the campaign.
+ */
+export const reEngagePool = async (
+  pool: ITalentPool & { id: string },
+  options: ReEngageOptions
+): Promise<ITalentPoolCampaign & { id: string }> => {
+  const template = await emailTemplateService.findById(options.templateId);
+  if (!template) {
+    throw new NotFoundError('Email template not found');
+  }
+  if (!template.isActive) {
+    throw new BadRequestError('Email template is not active');
+  }
+
+  let members = await talentPoolMemberService.findByPoolId(pool.id);
+  if (options.candidateIds?.length) {
+    const selected = new Set(options.candidateIds);
+    members = members.filter((member) => selected.has(member.candidateId));
+  }
+  if (members.length === 0) {
+    throw new BadRequestError('No pool members to re-engage');
+  }
+
+  const sender = options.sentBy ? await userService.findById(options.sentBy) : null;
+  const recruiterName = sender ? `${sender.firstName} ${sender.lastName}`.trim() : '';
+
+  const campaignId = await talentPoolCampaignService.create({
+    poolId: pool.id,
+    templateId: template.id!,
+    templateName: template.name,
+    subject: template.subject,
+    sentBy: options.sentBy,
+    sentAt: new Date(),
+    recipientCount: members.length,
+    sentCount: 0,
+    failedCount: 0,
+    skippedCount: 0,
+    replyCount: 0,
+  });
+
+  const jobTitles = new Map<string, string>();
+  let sentCount = 0;
+  let failedCount = 0;
+  let skippedCount = 0;
+
+  for (const member of members) {
+    const candidate = await candidateService.findById(member.candidateId);
+    if (!candidate?.email) {
+      skippedCount++;
+      continue;
+    }
+
+    if (member.sourceJobId && !jobTitles.has(member.sourceJobId)) {
+      const job = await jobService.findById(member.sourceJobId).catch(() => null);
+      jobTitles.set(member.sourceJobId, job?.title || '');
+    }
+
+    const variables: Record<string, string> = {
+      candidateName: `${candidate.firstName} ${candidate.lastName}`.trim(),
+      firstName: candidate.firstName,
+      lastName: candidate.lastName,
+      jobTitle: (member.sourceJobId && jobTitles.get(member.sourceJobId)) || '',
+      recruiterName,
+      talentPoolName: pool.name,
+      ...options.variables,
+    };
+
+    try {
+      const { emailId } = await resendService.sendEmail({
+        to: candidate.email,
+        subject: emailTemplateService.replaceVariables(template.subject, variables),
+        body: emailTemplateService.replaceVariables(template.body, variables),
+        candidateId: candidate.id,
+        jobId: member.sourceJobId,
+        sentBy: options.sentBy,
+      });
+
+      await talentPoolMemberService.update(member.id!, {
+        outreachStatus: 'sent',
+        lastCampaignId: campaignId,
+        lastEmailId: emailId,
+        lastContactedAt: new Date(),
+        repliedAt: FieldValue.delete() as any,
+        outreachError: FieldValue.delete() as any,
+      });
+      sentCount++;
+    } catch (error: any) {
+      logger.error(`Re-engagement email to ${candidate.email} failed:`, error);
+      await talentPoolMemberService.update(member.id!, {
+        outreachStatus: 'failed',
+        lastCampaignId: campaignId,
+        outreachError: error.message,
+      });
+      failedCount++;
+    }
+  }
+
+  await talentPoolCampaignService.update(campaignId, {
+    sentCount,
+    failedCount,
+    skippedCount,
+  });
+
+  logger.info(
+    `Re-engagement campaign ${campaignId} for pool "${pool.name}": ${sentCount} sent, ${failedCount} failed, ${skippedCount} skipped`
+  );
+
+  return (await talentPoolCampaignService.findById(campaignId))!;
+};
+
+/**
+ * Mark outstanding re-engagement emails to a candidate as replied
+ * Called when an inbound email from the candidate is received.
+ */
+export const recordCandidateReply = async (
+  candidateId: string,
+  receivedAt: Date = new Date()
+): Promise<void> => {
+  try {
+    const awaiting = (await talentPoolMemberService.findByCandidateId(candidateId)).filter(
+      (member) => member.outreachStatus === 'sent'
+    );
+
+    for (const member of awaiting) {
+      await talentPoolMemberService.update(member.id!, {
+        outreachStatus: 'replied',
+        repliedAt: receivedAt,
+      });
+      if (member.lastCampaignId) {
+        await talentPoolCampaignService.update(member.lastCampaignId, {
+          replyCount: FieldValue.increment(1) as any,
+        });
+      }
+    }
+  } catch (error) {
+    // Reply tracking must never break inbound email processing
+    logger.error(`Failed to record talent pool reply for candidate ${candidateId}:`, error);
+  }
+};
@@ -0,0 +1,200 @@
+/**
+ * Trash Service
+ * Soft-delete cascades, restore and retention purge for core entities
+ */
+
+import {
+  applicationService,
+  candidateService,
+  clientService,
+  emailService,
+  interviewService,
+  jobService,
+} from './firestore';
+import { FirestoreBaseService } from './firestore/base.service';
+import { ICandidate } from './firestore/candidate.service';
+import { IJob } from './firestore/job.service';
+import { IApplication } from './firestore/application.service';
+import cloudinaryService from './cloudinary.service';
+import { FieldValue } from 'firebase-admin/firestore';
+import logger from '../utils/logger';
+
+export interface CascadeResult {
+  applications: number;
+  interviews: number;
+  emails: number;
+}
+
+// Collections that hold records belonging to a candidate
+const candidateDependents: FirestoreBaseService<any>[] = [
+  applicationService,
+  interviewService,
+  emailService,
+];
+
+/**
+ * Move a candidate to the trash along with their applications, interviews and emails
+ * Dependents are tagged with `deletedWith` so restoring the candidate brings back
+ * exactly what this deletion removed.
+ */
+export const softDeleteCandidateCascade = async (
+  candidate: ICandidate & { id: string },
+  deletedBy?: string
+): Promise<CascadeResult> => {
+  const deletedWith = `${candidateService.collectionName}/${candidate.id}`;
+
+  const [linkedApplications, interviews, emails] = await Promise.all([
+    applicationService.find([
+      { field: 'candidateId', operator: '==', value: candidate.id },
+    ]),
+    interviewService.findByCandidateId(candidate.id),
+    emailService.findByCandidateId(candidate.id),
+  ]);
+
+  // Applications link back via candidateId once approved; older candidates only
+  // list them in applicationIds. findById skips ones already in the trash.
+  const applicationIds = new Set<string>(linkedApplications.map((app) => app.id));
+  for (const id of candidate.applicationIds || []) {
+    if (!applicationIds.has(id) && (await applicationService.findById(id))) {
+      applicationIds.add(id);
+    }
+  }
+
+  await candidateService.softDelete(candidate.id, deletedBy);
+
+  for (const id of applicationIds) {
+    await applicationService.softDelete(id, deletedBy, { deletedWith });
+  }
+  for (const interview of interviews) {
+    await interviewService.softDelete(interview.id!, deletedBy, { deletedWith });
+  }
+  for (const email of emails) {
+    await emailService.softDelete(email.id!, deletedBy, { deletedWith });
+  }
+
+  return {
+    applications: applicationIds.size,
+    interviews: interviews.length,
+    emails: emails.length,
+  };
+};
+
+/**
+ * Restore a trashed candidate and every record its deletion cascaded to
+ */
+export const restoreCandidateCascade = async (
+  candidateId: string,
+  restoredBy?: string
+): Promise<CascadeResult> => {
+  const deletedWith = `${candidateService.collectionName}/${candidateId}`;
+
+  await candidateService.restore(candidateId, restoredBy);
+
+  const [applications, interviews, emails] = await Promise.all(
+    candidateDependents.map(async (service) => {
+      const docs = await service.findDeleted([
+        { field: 'deletedWith', operator: '==', value: deletedWith },
+      ]);
+      for (const doc of docs) {
+        await service.restore(doc.id, restoredBy);
+      }
+      return docs.length;
+    })
+  );
+
+  return { applications, interviews, emails };
+};
+
+/**
+ * Move a job to the trash and detach it from its client
+ */
+export const softDeleteJob = async (
+  job: IJob & { id: string },
+  deletedBy?: string
+): Promise<void> => {
+  await jobService.softDelete(job.id, deletedBy);
+
+  if (job.clientId) {
+    const client = await clientService.findById(job.clientId);
+    if (client && client.jobIds) {
+      await clientService.update(job.clientId, {
+        jobIds: client.jobIds.filter((jId: string) => jId !== job.id),
+      } as any);
+    }
+  }
+};
+
+/**
+ * Restore a trashed job and re-attach it to its client
+ */
+export const restoreSoftDeletedJob = async (
+  job: IJob & { id: string },
+  restoredBy?: string
+): Promise<void> => {
+  await jobService.restore(job.id, restoredBy);
+
+  if (job.clientId && (await clientService.findById(job.clientId))) {
+    await clientService.update(job.clientId, {
+      jobIds: FieldValue.arrayUnion(job.id),
+    } as any);
+  }
+};
+
+/**
+ * Delete the Cloudinary files of an application that is being purged
+ */
+const deleteApplicationFiles = async (application: IApplication): Promise<void> => {
+  const urls = [
+    application.resumeUrl,
+    ...((application as any).additionalDocuments || []).map((doc: any) => doc.url),
+  ].filter(Boolean) as string[];
+
+  for (const url of urls) {
+    try {
+      await cloudinaryService.deleteFileByUrl(url, 'raw');
+    } catch (error) {
+      logger.error(`Failed to delete file for application ${application.id}:`, error);
+    }
+  }
+};
+
+/**
+ * Permanently delete everything that has been in the trash longer than the retention window
+ * Returns the number of purged documents per collection
+ */
+export const purgeExpiredTrash = async (
+  retentionDays: number
+): Promise<Record<string, number>> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const purged: Record<string, number> = {};
+
+  // Dependents go first so cascaded records never outlive the candidate they point at
+  const services: FirestoreBaseService<any>[] = [
+    emailService,
+    interviewService,
+    applicationService,
+    candidateService,
+    jobService,
+    clientService,
+  ];
+
+  for (const service of services) {
+    let count = 0;
+    let batch = await service.findDeleted([], { deletedBefore: cutoff, limit: 200 });
+
+    while (batch.length > 0) {
+      for (const doc of batch) {
+        if (service === applicationService) {
+          await deleteApplicationFiles(doc);
+        }
+        await service.purge(doc.id);
+        count++;
+      }
+      batch = await service.findDeleted([], { deletedBefore: cutoff, limit: 200 });
+    }
+
+    purged[service.collectionName] = count;
+  }
+
+  return purged;
+};
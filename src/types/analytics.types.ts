@@ -0,0 +1,113 @@
+import { z } from 'zod';
+
+/**
+ * Analytics Validation Schemas
+ */
+
+// Funnel Analytics Schema
+export const funnelAnalyticsSchema = z.object({
+  query: z
+    .object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      jobId: z.string().optional(),
+      clientId: z.string().optional(),
+      recruiterId: z.string().optional(),
+      source: z.string().optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    }),
+});
+
+// Source Report Schema
+export const sourceReportSchema = z.object({
+  query: z
+    .object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      jobId: z.string().optional(),
+      clientId: z.string().optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    }),
+});
+
+// Dashboard Analytics Query Schema (validateQuery: the parsed query, with the default, replaces req.query)
+export const dashboardAnalyticsQuerySchema = z.object({
+  days: z.coerce
+    .number({ invalid_type_error: 'days must be a number' })
+    .int()
+    .min(1)
+    .max(365)
+    .default(90),
+});
+
+const metricKey = z.enum([
+  'openRequisitions',
+  'activeCandidates',
+  'applicationsReviewed',
+  'stageMoves',
+  'emailsSent',
+  'emailsReplied',
+  'interviewsScheduled',
+  'timeToFirstReviewHours',
+]);
+
+// User Metrics Schema
+export const userMetricsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+  query: z
+    .object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    }),
+});
+
+// Recruiter Leaderboard Schema
+export const leaderboardSchema = z.object({
+  query: z
+    .object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      sortBy: metricKey.optional(),
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    }),
+});
+
+// Metric Trend Schema
+export const metricTrendSchema = z.object({
+  query: z
+    .object({
+      scope: z.enum(['all', 'job', 'client', 'stage']).optional(),
+      scopeId: z.string().optional(), // job ID, client ID or "pipelineId:stageId"
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    })
+    .refine((query) => !query.scope || query.scope === 'all' || !!query.scopeId, {
+      message: 'scopeId is required for job, client and stage trends',
+      path: ['scopeId'],
+    })
+    .refine((query) => !query.from || !query.to || query.from <= query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    }),
+});
+
+// Export Types
+export type FunnelAnalyticsQuery = z.infer<typeof funnelAnalyticsSchema>['query'];
+export type SourceReportQuery = z.infer<typeof sourceReportSchema>['query'];
+export type DashboardAnalyticsQuery = z.infer<typeof dashboardAnalyticsQuerySchema>;
+export type LeaderboardQuery = z.infer<typeof leaderboardSchema>['query'];
@@ -4,6 +4,37 @@ import { z } from 'zod';
  * Application Validation Schemas
  */
 
+const utmSchema = z.object({
+  source: z.string().max(200).optional(),
+  medium: z.string().max(200).optional(),
+  campaign: z.string().max(200).optional(),
+  term: z.string().max(200).optional(),
+  content: z.string().max(200).optional(),
+});
+
+// Channel an applicant came from (see services/sourceAttribution.service)
+export const sourceAttributionSchema = z.object({
+  channel: z.enum([
+    'career_page',
+    'job_board',
+    'referral',
+    'agency',
+    'sourced',
+    'email',
+    'manual',
+    'import',
+    'other',
+  ]).optional(),
+  detail: z.string().max(200).optional(),
+  referrerId: z.string().min(1).optional(),
+  referrerName: z.string().max(200).optional(),
+  agencyName: z.string().max(200).optional(),
+  emailAccountId: z.string().min(1).optional(),
+  utm: utmSchema.optional(),
+  referrerUrl: z.string().url('Invalid referrer URL').max(2000).optional(),
+  landingUrl: z.string().url('Invalid landing URL').max(2000).optional(),
+});
+
 export const createApplicationSchema = z.object({
   body: z.object({
     jobId: z.string().min(1, 'Invalid job ID format').optional(),
@@ -13,6 +44,7 @@ export const createApplicationSchema = z.object({
     }),
     sourceEmail: z.string().email('Invalid source email').optional(),
     sourceEmailAccountId: z.string().min(1, 'Invalid email account ID').optional(),
+    attribution: sourceAttributionSchema.optional(),
     firstName: z.string().min(1, 'First name is required'),
     lastName: z.string().min(1, 'Last name is required'),
     email: z.string().email('Invalid email address'),
@@ -56,6 +88,7 @@ export const updateApplicationSchema = z.object({
     status: z.enum(['pending', 'reviewing', 'shortlisted', 'rejected', 'approved']).optional(),
     notes: z.string().optional(),
     internalNotes: z.string().optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
   }),
   params: z.object({
     id: z.string().min(1, 'Invalid ID format'),
@@ -72,6 +105,7 @@ export const listApplicationsSchema = z.object({
   query: z.object({
     page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
     limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 10),
+    cursor: z.string().min(1).optional(),
     jobId: z.string().min(1).optional(),
     clientId: z.string().min(1).optional(),
     status: z.enum(['pending', 'reviewing', 'shortlisted', 'rejected', 'approved']).optional(),
@@ -82,6 +116,13 @@ export const listApplicationsSchema = z.object({
   }),
 });
 
+export const exportApplicationsSchema = z.object({
+  query: listApplicationsSchema.shape.query.extend({
+    format: z.enum(['csv', 'xlsx', 'ndjson']).optional(),
+    columns: z.string().optional(),
+  }),
+});
+
 export const approveApplicationSchema = z.object({
   body: z.object({
     jobId: z.string().min(1, 'Job ID is required'),
@@ -106,5 +147,6 @@ export const bulkUpdateStatusSchema = z.object({
 export type CreateApplicationInput = z.infer<typeof createApplicationSchema>['body'];
 export type UpdateApplicationInput = z.infer<typeof updateApplicationSchema>['body'];
 export type ListApplicationsQuery = z.infer<typeof listApplicationsSchema>['query'];
+export type ExportApplicationsQuery = z.infer<typeof exportApplicationsSchema>['query'];
 export type ApproveApplicationInput = z.infer<typeof approveApplicationSchema>['body'];
 export type BulkUpdateStatusInput = z.infer<typeof bulkUpdateStatusSchema>['body'];
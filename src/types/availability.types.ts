@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { isValidTimezone } from '../services/interviewAvailability.service';
+
+/**
+ * Availability Validation Schemas
+ */
+
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+
+const timezone = z.string().refine(isValidTimezone, 'Unknown timezone');
+
+const workingHours = z
+  .object({
+    day: z.number().int().min(0).max(6), // 0 = Sunday
+    start: time,
+    end: time,
+  })
+  .refine((hours) => hours.start < hours.end, {
+    message: 'Working hours must end after they start',
+    path: ['end'],
+  });
+
+const timeOff = z
+  .object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+    reason: z.string().trim().max(200).optional(),
+  })
+  .refine((item) => item.start < item.end, {
+    message: 'Time off must end after it starts',
+    path: ['end'],
+  });
+
+// Update Availability Schema
+export const updateAvailabilitySchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+  body: z.object({
+    timezone,
+    workingHours: z.array(workingHours).max(21),
+  }),
+});
+
+// Add Time Off Schema
+export const addTimeOffSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+  }),
+  body: timeOff,
+});
+
+// Time Off ID Schema
+export const timeOffIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'User ID is required'),
+    timeOffId: z.string().min(1, 'Time off ID is required'),
+  }),
+});
+
+// Interview Availability Schema
+export const interviewAvailabilitySchema = z.object({
+  query: z
+    .object({
+      interviewerIds: z.string().min(1, 'interviewerIds is required'), // comma-separated
+      candidateId: z.string().optional(),
+      duration: z.coerce.number().int().min(5).max(480),
+      from: z.coerce.date(),
+      to: z.coerce.date(),
+      step: z.coerce.number().int().min(5).max(240).optional(),
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+      timezone: timezone.optional(),
+    })
+    .refine((query) => query.from < query.to, {
+      message: '"from" must be before "to"',
+      path: ['from'],
+    })
+    .refine((query) => query.to.getTime() - query.from.getTime() <= 31 * 24 * 60 * 60 * 1000, {
+      message: 'Availability can be searched at most 31 days at a time',
+      path: ['to'],
+    }),
+});
+
+// Export Types
+export type UpdateAvailabilityInput = z.infer<typeof updateAvailabilitySchema>['body'];
+export type AddTimeOffInput = z.infer<typeof addTimeOffSchema>['body'];
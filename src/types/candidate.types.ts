@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { sourceAttributionSchema } from './application.types'
 
 /**
  * Candidate Validation Schemas
@@ -21,8 +22,10 @@ export const createCandidateSchema = z.object({
       .default('active'),
     notes: z.string().optional(),
     source: z.enum(['manual', 'direct_apply', 'email_automation']).optional(),
+    attribution: sourceAttributionSchema.optional(),
     rawEmailBody: z.string().optional(),
     rawEmailBodyHtml: z.string().optional(),
+    customFields: z.record(z.unknown()).optional(),
   }),
 })
 
@@ -38,6 +41,8 @@ export const updateCandidateSchema = z.object({
     notes: z.string().optional(),
     tags: z.array(z.string()).optional(),
     inTalentPool: z.boolean().optional(),
+    customFields: z.record(z.unknown()).optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
   }),
   params: z.object({
     id: z.string().min(1, 'Invalid ID format'),
@@ -60,6 +65,7 @@ export const listCandidatesSchema = z.object({
       .string()
       .optional()
       .transform(val => (val ? parseInt(val, 10) : 10)),
+    cursor: z.string().min(1).optional(),
     jobId: z.string().min(1).optional(),
     clientId: z.string().min(1).optional(),
     pipelineId: z.string().min(1).optional(),
@@ -76,6 +82,43 @@ export const listCandidatesSchema = z.object({
     search: z.string().optional(),
     sortBy: z.string().optional(),
     sortOrder: z.enum(['asc', 'desc']).optional(),
+    cf: z.record(z.unknown()).optional(),
+  }),
+})
+
+export const exportCandidatesSchema = z.object({
+  query: listCandidatesSchema.shape.query.extend({
+    format: z.enum(['csv', 'xlsx', 'ndjson']).optional(),
+    columns: z.string().optional(),
+  }),
+})
+
+export const searchCandidatesSchema = z.object({
+  query: z.object({
+    q: z.string().trim().min(1, 'Search query is required').max(500),
+    page: z.string().optional(),
+    limit: z.string().optional(),
+  }),
+})
+
+export const listDuplicateCandidatesSchema = z.object({
+  query: z.object({
+    page: z.string().optional(),
+    limit: z.string().optional(),
+    minScore: z
+      .string()
+      .regex(/^(0(\.\d+)?|1(\.0+)?)$/, 'minScore must be between 0 and 1')
+      .optional(),
+  }),
+})
+
+export const mergeCandidatesSchema = z.object({
+  body: z.object({
+    duplicateId: z.string().min(1, 'Duplicate candidate ID is required'),
+    expectedRevision: z.number().int().nonnegative().optional(),
+  }),
+  params: z.object({
+    id: z.string().min(1, 'Invalid ID format'),
   }),
 })
 
@@ -84,6 +127,7 @@ export const moveCandidateStageSchema = z.object({
     newStage: z.string().min(1, 'New stage is required'),
     notes: z.string().optional(),
     jobId: z.string().optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
   }),
   params: z.object({
     id: z.string().min(1, 'Invalid ID format'),
@@ -109,9 +153,52 @@ export const bulkMoveCandidatesSchema = z.object({
   }),
 })
 
+/**
+ * One spreadsheet row of a candidate import, checked like a manual create.
+ * Spreadsheets rarely carry resumes, so resumeUrl is optional here.
+ */
+export const importCandidateRowSchema = createCandidateSchema.shape.body
+  .omit({
+    applicationId: true,
+    source: true,
+    attribution: true,
+    rawEmailBody: true,
+    rawEmailBodyHtml: true,
+  })
+  .extend({
+    resumeUrl: z.string().url('Invalid resume URL').optional(),
+    location: z.string().optional(),
+    currentTitle: z.string().optional(),
+    currentCompany: z.string().optional(),
+    linkedinUrl: z.string().url('Invalid LinkedIn URL').optional(),
+    tags: z.array(z.string().min(1)).optional(),
+    skills: z.array(z.string().min(1)).optional(),
+  })
+
+// Multipart form fields arrive as strings; mapping is a JSON object
+export const importCandidatesSchema = z.object({
+  body: z.object({
+    mode: z.enum(['preview', 'dry_run', 'import']).optional(),
+    jobId: z.string().min(1, 'Invalid job ID format').optional(),
+    pipelineId: z.string().min(1, 'Invalid pipeline ID').optional(),
+    stageId: z.string().min(1, 'Invalid stage ID').optional(),
+    mapping: z.string().optional(),
+  }),
+})
+
+export const candidateImportIdSchema = z.object({
+  params: z.object({
+    importId: z.string().min(1, 'Invalid import ID'),
+  }),
+})
+
 export type CreateCandidateInput = z.infer<typeof createCandidateSchema>['body']
 export type UpdateCandidateInput = z.infer<typeof updateCandidateSchema>['body']
 export type ListCandidatesQuery = z.infer<typeof listCandidatesSchema>['query']
+export type ExportCandidatesQuery = z.infer<
+  typeof exportCandidatesSchema
+>['query']
+export type MergeCandidatesInput = z.infer<typeof mergeCandidatesSchema>['body']
 export type MoveCandidateStageInput = z.infer<
   typeof moveCandidateStageSchema
 >['body']
@@ -121,3 +208,7 @@ export type RescoreCandidateInput = z.infer<
 export type BulkMoveCandidatesInput = z.infer<
   typeof bulkMoveCandidatesSchema
 >['body']
+export type ImportCandidateRow = z.infer<typeof importCandidateRowSchema>
+export type ImportCandidatesInput = z.infer<
+  typeof importCandidatesSchema
+>['body']
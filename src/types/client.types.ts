@@ -57,6 +57,7 @@ export const createClientSchema = z.object({
       })
     ),
     tags: z.array(z.string()).optional(),
+    customFields: z.record(z.unknown()).optional(),
   }),
 });
 
@@ -110,6 +111,7 @@ export const updateClientSchema = z.object({
       .optional(),
     tags: z.array(z.string()).optional(),
     assignedTo: z.string().optional(),
+    customFields: z.record(z.unknown()).optional(),
   }),
 });
 
@@ -123,6 +125,7 @@ export const listClientsSchema = z.object({
     search: z.string().optional(),
     sortBy: z.string().default("createdAt"),
     sortOrder: z.enum(["asc", "desc"]).default("desc"),
+    cf: z.record(z.unknown()).optional(),
   }),
 });
 
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+/**
+ * Custom Field Validation Schemas
+ */
+
+const entityType = z.enum(['candidate', 'job', 'client']);
+
+const fieldType = z.enum([
+  'text',
+  'number',
+  'date',
+  'select',
+  'multi_select',
+  'boolean',
+  'url',
+]);
+
+const options = z.array(z.string().trim().min(1)).min(1).max(200);
+
+// Create Custom Field Schema
+export const createCustomFieldSchema = z.object({
+  body: z
+    .object({
+      entityType,
+      key: z
+        .string()
+        .regex(
+          /^[a-z][a-z0-9_]{0,49}$/,
+          'Key must start with a letter and contain only lowercase letters, numbers and underscores'
+        ),
+      label: z.string().trim().min(1, 'Label is required').max(100),
+      type: fieldType,
+      description: z.string().max(500).optional(),
+      options: options.optional(),
+      required: z.boolean().default(false),
+      clientId: z.string().min(1).nullable().optional(),
+      order: z.number().int().optional(),
+    })
+    .refine(
+      (data) =>
+        (data.type === 'select' || data.type === 'multi_select') === !!data.options,
+      { message: 'Options are required for select fields and only allowed there', path: ['options'] }
+    ),
+});
+
+// Update Custom Field Schema (entity type, key and type are fixed once created)
+export const updateCustomFieldSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Custom field ID is required'),
+  }),
+  body: z.object({
+    label: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(500).optional(),
+    options: options.optional(),
+    required: z.boolean().optional(),
+    clientId: z.string().min(1).nullable().optional(),
+    order: z.number().int().optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+// List Custom Fields Schema
+export const listCustomFieldsSchema = z.object({
+  query: z.object({
+    entityType: entityType.optional(),
+    clientId: z.string().min(1).optional(),
+    includeInactive: z.enum(['true', 'false']).optional(),
+  }),
+});
+
+// Custom Field ID Schema
+export const customFieldIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Custom field ID is required'),
+  }),
+});
+
+// Export Types
+export type CreateCustomFieldInput = z.infer<typeof createCustomFieldSchema>['body'];
+export type UpdateCustomFieldInput = z.infer<typeof updateCustomFieldSchema>['body'];
+export type ListCustomFieldsQuery = z.infer<typeof listCustomFieldsSchema>['query'];
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * Interview Validation Schemas
+ * Used with validateBody: the parsed body replaces req.body, so
+ * `scheduledAt` reaches Firestore as a Date (stored as a Timestamp) and the
+ * availability, feed and reminder range queries match it.
+ */
+
+const scheduledAt = z.coerce.date({ errorMap: () => ({ message: 'scheduledAt must be a valid date' }) });
+
+// Create Interview Schema
+export const createInterviewSchema = z
+  .object({
+    candidateId: z.string().min(1, 'Candidate ID is required'),
+    jobId: z.string().min(1, 'Job ID is required'),
+    scheduledAt,
+    duration: z.coerce.number().int().min(5).max(480).optional(),
+    allowConflicts: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Update Interview Schema
+export const updateInterviewSchema = z
+  .object({
+    scheduledAt: scheduledAt.nullable().optional(),
+    duration: z.coerce.number().int().min(5).max(480).optional(),
+    allowConflicts: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Export Types
+export type CreateInterviewInput = z.infer<typeof createInterviewSchema>;
+export type UpdateInterviewInput = z.infer<typeof updateInterviewSchema>;
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+
+/**
+ * Interview Kit & Scorecard Validation Schemas
+ */
+
+const attribute = z.object({
+  id: z.string().trim().min(1).max(60).optional(), // generated from the name when missing
+  name: z.string().trim().min(1, 'Attribute name is required').max(100),
+  description: z.string().max(1000).optional(),
+});
+
+const question = z.object({
+  id: z.string().trim().min(1).max(60).optional(),
+  text: z.string().trim().min(1, 'Question text is required').max(2000),
+  attributeId: z.string().optional(),
+  guidance: z.string().max(2000).optional(),
+});
+
+const round = z.object({
+  round: z.number().int().min(1),
+  title: z.string().trim().max(200).optional(),
+  focusAttributeIds: z.array(z.string()).default([]),
+  questions: z.array(question).max(50).default([]),
+});
+
+const rubricLevel = z.object({
+  score: z.number().int().min(1).max(5),
+  label: z.string().trim().min(1, 'Rubric label is required').max(100),
+  description: z.string().max(1000).optional(),
+});
+
+// Job Interview Kit Schema
+export const upsertInterviewKitSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Job ID is required'),
+  }),
+  body: z
+    .object({
+      attributes: z.array(attribute).min(1, 'At least one attribute is required').max(30),
+      rounds: z.array(round).max(20).default([]),
+      rubric: z.array(rubricLevel).max(5).optional(),
+    })
+    .refine((body) => new Set(body.rounds.map((item) => item.round)).size === body.rounds.length, {
+      message: 'Each round can only be planned once',
+      path: ['rounds'],
+    })
+    .refine((body) => !body.rubric || new Set(body.rubric.map((level) => level.score)).size === body.rubric.length, {
+      message: 'Rubric scores must be unique',
+      path: ['rubric'],
+    }),
+});
+
+// Job ID Schema
+export const interviewKitJobIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Job ID is required'),
+  }),
+});
+
+// Submit Feedback Schema
+export const submitFeedbackSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Interview ID is required'),
+  }),
+  body: z.object({
+    rating: z.number().min(1).max(5).optional(),
+    attributeRatings: z
+      .array(
+        z.object({
+          attributeId: z.string().min(1),
+          rating: z.number().int().min(1).max(5),
+          notes: z.string().max(2000).optional(),
+        })
+      )
+      .max(30)
+      .optional(),
+    strengths: z.array(z.string()).optional(),
+    weaknesses: z.array(z.string()).optional(),
+    comments: z.string().max(10000).optional(),
+    recommendation: z.enum(['strong_yes', 'yes', 'maybe', 'no', 'strong_no']).optional(),
+  }),
+});
+
+// Interview Scorecard Schema
+export const interviewScorecardSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Interview ID is required'),
+  }),
+});
+
+// Candidate Scorecard Schema
+export const candidateScorecardSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Candidate ID is required'),
+  }),
+  query: z.object({
+    jobId: z.string().optional(),
+  }),
+});
+
+// Export Types
+export type UpsertInterviewKitInput = z.infer<typeof upsertInterviewKitSchema>['body'];
+export type SubmitFeedbackInput = z.infer<typeof submitFeedbackSchema>['body'];
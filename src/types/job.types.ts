@@ -34,6 +34,7 @@ export const createJobSchema = z.object({
     priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
     hiringManagerId: z.string().optional(),
     recruiterIds: z.array(z.string()).default([]),
+    customFields: z.record(z.unknown()).optional(),
   }),
 });
 
@@ -69,6 +70,8 @@ export const updateJobSchema = z.object({
     categoryIds: z.array(z.string()).optional(),
     tagIds: z.array(z.string()).optional(),
     status: z.enum(['draft', 'open', 'closed', 'on_hold']).optional(),
+    customFields: z.record(z.unknown()).optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
   }),
 });
 
@@ -77,6 +80,7 @@ export const listJobsSchema = z.object({
   query: z.object({
     page: z.coerce.number().positive().default(1),
     limit: z.coerce.number().positive().max(100).default(10),
+    cursor: z.string().min(1).optional(),
     clientId: z.string().optional(),
     status: z.enum(['draft', 'open', 'closed', 'on_hold']).optional(),
     jobType: z.enum(['full_time', 'part_time', 'contract', 'internship']).optional(),
@@ -85,6 +89,15 @@ export const listJobsSchema = z.object({
     search: z.string().optional(),
     sortBy: z.string().default('createdAt'),
     sortOrder: z.enum(['asc', 'desc']).default('desc'),
+    cf: z.record(z.unknown()).optional(),
+  }),
+});
+
+// Export Jobs Schema
+export const exportJobsSchema = z.object({
+  query: listJobsSchema.shape.query.extend({
+    format: z.enum(['csv', 'xlsx', 'ndjson']).optional(),
+    columns: z.string().optional(),
   }),
 });
 
@@ -107,4 +120,5 @@ export const bulkUpdateJobStatusSchema = z.object({
 export type CreateJobInput = z.infer<typeof createJobSchema>['body'];
 export type UpdateJobInput = z.infer<typeof updateJobSchema>['body'];
 export type ListJobsQuery = z.infer<typeof listJobsSchema>['query'];
+export type ExportJobsQuery = z.infer<typeof exportJobsSchema>['query'];
 export type BulkUpdateJobStatusInput = z.infer<typeof bulkUpdateJobStatusSchema>['body'];
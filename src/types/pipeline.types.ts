@@ -1,9 +1,86 @@
 import { z } from 'zod';
+import { parseCondition } from '../utils/automationCondition';
 
 /**
  * Pipeline Validation Schemas
  */
 
+// Reports syntax errors of automation conditions
+const conditionSyntax = (condition: string | undefined, ctx: z.RefinementCtx) => {
+  if (!condition?.trim()) return;
+  try {
+    parseCondition(condition);
+  } catch (error: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error.message });
+  }
+};
+
+const delayMinutes = z.number().int().min(0).max(60 * 24 * 30).optional();
+
+// Stage Automation Action Schema
+const automationActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('send_email'),
+    templateId: z.string().min(1, 'Email template ID is required'),
+    delayMinutes,
+  }),
+  z.object({
+    type: z.literal('create_interview_draft'),
+    interviewType: z.enum(['phone', 'video', 'in-person', 'technical', 'hr', 'final']),
+    title: z.string().max(200).optional(),
+    duration: z.number().int().min(15).max(480).optional(),
+    delayMinutes,
+  }),
+  z.object({
+    type: z.literal('notify_owner'),
+    message: z.string().min(1, 'Notification message is required').max(500),
+    delayMinutes,
+  }),
+  z.object({
+    type: z.literal('set_status'),
+    status: z.enum(['active', 'interviewing', 'offered', 'hired', 'rejected', 'withdrawn']),
+    delayMinutes,
+  }),
+]);
+
+// Stage Automation Rule Schema
+const automationRuleSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().min(1, 'Rule name is required').max(100),
+    trigger: z.enum(['on_enter', 'on_exit', 'after_days']),
+    days: z.number().int().positive().max(365).optional(),
+    condition: z.string().max(1000).optional().superRefine(conditionSyntax),
+    actions: z.array(automationActionSchema).min(1, 'At least one action is required').max(10),
+    isActive: z.boolean().default(true),
+  })
+  .refine((rule) => rule.trigger !== 'after_days' || rule.days !== undefined, {
+    message: 'days is required for after_days rules',
+    path: ['days'],
+  });
+
+// Stage Entry Requirement Schema
+const entryRequirementSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('completed_interview'),
+    withFeedback: z.boolean().optional(),
+    message: z.string().max(300).optional(),
+  }),
+  z.object({
+    type: z.literal('field'),
+    field: z
+      .string()
+      .regex(/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/, 'Field must be a candidate field path, e.g. customFields.salary_expectation'),
+    label: z.string().max(100).optional(),
+    message: z.string().max(300).optional(),
+  }),
+  z.object({
+    type: z.literal('condition'),
+    condition: z.string().min(1).max(1000).superRefine(conditionSyntax),
+    message: z.string().min(1, 'A message is required for condition requirements').max(300),
+  }),
+]);
+
 // Pipeline Stage Schema
 const stageSchema = z.object({
   name: z.string().min(1, 'Stage name is required'),
@@ -11,6 +88,13 @@ const stageSchema = z.object({
   order: z.number().int().positive(),
   isDefault: z.boolean().default(false),
   color: z.string().optional(),
+  slaDays: z.number().positive().max(365).optional(),
+  allowedNextStageIds: z.array(z.string().min(1)).optional(),
+  requiredRoles: z
+    .array(z.enum(['admin', 'recruiter', 'hiring_manager', 'interviewer', 'coordinator', 'viewer']))
+    .optional(),
+  entryRequirements: z.array(entryRequirementSchema).max(10).optional(),
+  automations: z.array(automationRuleSchema).max(20).optional(),
 });
 
 // Create Pipeline Schema
@@ -33,6 +117,7 @@ export const updatePipelineSchema = z.object({
     description: z.string().optional(),
     stages: z.array(stageSchema).optional(),
     isDefault: z.boolean().optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
   }),
 });
 
@@ -54,8 +139,89 @@ export const pipelineIdSchema = z.object({
   }),
 });
 
+// Preview Stage Automations Schema
+export const previewStageAutomationsSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+    stageId: z.string().min(1, 'Stage ID is required'),
+  }),
+  body: z.object({
+    candidateId: z.string().min(1, 'Candidate ID is required'),
+    jobId: z.string().optional(),
+    trigger: z.enum(['on_enter', 'on_exit', 'after_days']).optional(),
+  }),
+});
+
+// Pipeline SLA Report Schema
+export const pipelineSlaSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+  }),
+  query: z.object({
+    ownerId: z.string().optional(),
+  }),
+});
+
+// Migrate Pipeline Schema
+export const migratePipelineSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+  }),
+  body: z.object({
+    // old stage ID -> stage ID candidates move to
+    mapping: z.record(z.string().min(1)),
+    // New stage list; without it, mapped stages are merged into their targets
+    stages: z.array(stageSchema.extend({ id: z.string().optional() })).min(1).optional(),
+    dryRun: z.boolean().optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
+  }),
+});
+
+// Pipeline History Schema
+export const pipelineHistorySchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+  }),
+  query: z.object({
+    limit: z.coerce.number().positive().max(100).optional(),
+  }),
+});
+
+// Pipeline Board Schema
+export const pipelineBoardSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+  }),
+  query: z.object({
+    jobId: z.string().optional(),
+    // Load cards of this stage only, to page through one column
+    stageId: z.string().optional(),
+    page: z.coerce.number().int().positive().optional(),
+    limit: z.coerce.number().int().positive().max(100).optional(),
+  }),
+});
+
+// Move Board Card Schema
+export const moveBoardCardSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Pipeline ID is required'),
+  }),
+  body: z.object({
+    candidateId: z.string().min(1, 'Candidate ID is required'),
+    toStageId: z.string().min(1, 'Target stage ID is required'),
+    // Card the moved card is dropped above; null or omitted drops it at the end
+    beforeCandidateId: z.string().min(1).nullable().optional(),
+    jobId: z.string().optional(),
+    expectedRevision: z.number().int().nonnegative().optional(),
+  }),
+});
+
 // Export Types
 export type PipelineStage = z.infer<typeof stageSchema>;
 export type CreatePipelineInput = z.infer<typeof createPipelineSchema>['body'];
 export type UpdatePipelineInput = z.infer<typeof updatePipelineSchema>['body'];
+export type StageAutomationRuleInput = z.infer<typeof automationRuleSchema>;
+export type PreviewStageAutomationsInput = z.infer<typeof previewStageAutomationsSchema>['body'];
+export type MigratePipelineInput = z.infer<typeof migratePipelineSchema>['body'];
+export type MoveBoardCardInput = z.infer<typeof moveBoardCardSchema>['body'];
 export type ListPipelinesQuery = z.infer<typeof listPipelinesSchema>['query'];
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+/**
+ * Report Subscription Validation Schemas
+ */
+
+const report = z.enum(['funnel', 'open_jobs_by_client', 'recruiter_activity', 'upcoming_interviews']);
+const frequency = z.enum(['daily', 'weekly', 'monthly']);
+
+const filters = z.object({
+  jobId: z.string().min(1).optional(),
+  clientId: z.string().min(1).optional(),
+  recruiterId: z.string().min(1).optional(),
+  source: z.string().min(1).optional(),
+});
+
+const schedule = {
+  hour: z.number().int().min(0).max(23).optional(), // UTC
+  dayOfWeek: z.number().int().min(0).max(6).optional(), // weekly, 0 = Sunday
+  dayOfMonth: z.number().int().min(1).max(28).optional(), // monthly
+};
+
+// Create Report Subscription Schema
+export const createReportSubscriptionSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Subscription name is required').max(100),
+    report,
+    filters: filters.optional(),
+    frequency: frequency.default('weekly'),
+    ...schedule,
+    recipients: z.array(z.string().email('Invalid recipient email')).max(20).optional(), // active users; admins may add any address
+  }),
+});
+
+// Update Report Subscription Schema
+export const updateReportSubscriptionSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Subscription ID is required'),
+  }),
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    filters: filters.optional(),
+    frequency: frequency.optional(),
+    ...schedule,
+    recipients: z.array(z.string().email('Invalid recipient email')).max(20).optional(), // active users; admins may add any address
+    isActive: z.boolean().optional(),
+  }),
+});
+
+// Report Subscription ID Schema
+export const reportSubscriptionIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Subscription ID is required'),
+  }),
+});
+
+// Export Types
+export type CreateReportSubscriptionInput = z.infer<typeof createReportSubscriptionSchema>['body'];
+export type UpdateReportSubscriptionInput = z.infer<typeof updateReportSubscriptionSchema>['body'];
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+/**
+ * Saved Search Validation Schemas
+ */
+
+const frequency = z.enum(['hourly', 'daily', 'weekly', 'never']);
+
+// Create Saved Search Schema
+export const createSavedSearchSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Saved search name is required').max(100),
+    query: z.string().trim().min(1, 'Search query is required').max(500),
+    frequency: frequency.default('daily'),
+    notify: z.boolean().default(true),
+  }),
+});
+
+// Update Saved Search Schema
+export const updateSavedSearchSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Saved search ID is required'),
+  }),
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    query: z.string().trim().min(1).max(500).optional(),
+    frequency: frequency.optional(),
+    notify: z.boolean().optional(),
+  }),
+});
+
+// Saved Search ID Schema
+export const savedSearchIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Saved search ID is required'),
+  }),
+});
+
+// Export Types
+export type CreateSavedSearchInput = z.infer<typeof createSavedSearchSchema>['body'];
+export type UpdateSavedSearchInput = z.infer<typeof updateSavedSearchSchema>['body'];
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { isValidTimezone } from '../services/interviewAvailability.service';
+
+/**
+ * Scheduling Link Validation Schemas
+ */
+
+const token = z.string().regex(/^[a-f0-9]{64}$/, 'Invalid scheduling link');
+
+// Create Scheduling Link Schema
+export const createSchedulingLinkSchema = z.object({
+  body: z
+    .object({
+      candidateId: z.string().min(1, 'Candidate ID is required'),
+      jobId: z.string().min(1, 'Job ID is required'),
+      applicationId: z.string().optional(),
+      interviewerIds: z.array(z.string().min(1)).min(1, 'At least one interviewer is required').max(10),
+      type: z.enum(['phone', 'video', 'in-person', 'technical', 'hr', 'final']),
+      round: z.number().int().min(1).optional(),
+      title: z.string().trim().min(1, 'Title is required').max(200),
+      description: z.string().max(2000).optional(),
+      location: z.string().max(500).optional(),
+      duration: z.number().int().min(5).max(480),
+      timezone: z.string().refine(isValidTimezone, 'Unknown timezone').optional(),
+      createMeetingLink: z.boolean().optional(),
+      windowStart: z.coerce.date().optional(),
+      windowEnd: z.coerce.date().optional(),
+      step: z.number().int().min(5).max(240).optional(),
+      expiresAt: z.coerce.date().optional(),
+      sendEmail: z.boolean().optional(),
+    })
+    .refine((body) => !body.windowStart || !body.windowEnd || body.windowStart < body.windowEnd, {
+      message: 'windowStart must be before windowEnd',
+      path: ['windowStart'],
+    })
+    .refine(
+      (body) =>
+        !body.windowEnd ||
+        body.windowEnd.getTime() - (body.windowStart || new Date()).getTime() <= 62 * 24 * 60 * 60 * 1000,
+      {
+        message: 'Slots can be offered at most 62 days ahead',
+        path: ['windowEnd'],
+      }
+    ),
+});
+
+// Scheduling Link ID Schema
+export const schedulingLinkIdSchema = z.object({
+  params: z.object({
+    id: z.string().min(1, 'Scheduling link ID is required'),
+  }),
+});
+
+// Public Scheduling Link Schema
+export const publicSchedulingLinkSchema = z.object({
+  params: z.object({
+    token,
+  }),
+});
+
+// Book / Reschedule Slot Schema
+export const bookSlotSchema = z.object({
+  params: z.object({
+    token,
+  }),
+  body: z.object({
+    start: z.coerce.date(),
+  }),
+});
+
+// Cancel Booking Schema
+export const cancelBookingSchema = z.object({
+  params: z.object({
+    token,
+  }),
+  body: z
+    .object({
+      reason: z.string().trim().max(500).optional(),
+    })
+    .optional(),
+});
+
+// Export Types
+export type CreateSchedulingLinkInput = z.infer<typeof createSchedulingLinkSchema>['body'];
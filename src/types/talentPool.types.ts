@@ -0,0 +1,79 @@
+import { z } from 'zod';
+
+/**
+ * Talent Pool Validation Schemas
+ */
+
+const poolParams = z.object({
+  id: z.string().min(1, 'Talent pool ID is required'),
+});
+
+// Create Talent Pool Schema
+export const createTalentPoolSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'Talent pool name is required').max(100),
+    description: z.string().max(1000).optional(),
+    color: z.string().optional(),
+  }),
+});
+
+// Update Talent Pool Schema
+export const updateTalentPoolSchema = z.object({
+  params: poolParams,
+  body: z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().max(1000).optional(),
+    color: z.string().optional(),
+  }),
+});
+
+// Talent Pool ID Schema
+export const talentPoolIdSchema = z.object({
+  params: poolParams,
+});
+
+// List Pool Members Schema
+export const listTalentPoolMembersSchema = z.object({
+  params: poolParams,
+  query: z.object({
+    page: z.string().optional(),
+    limit: z.string().optional(),
+    outreachStatus: z.enum(['none', 'sent', 'failed', 'replied']).optional(),
+  }),
+});
+
+// Add Pool Members Schema
+export const addTalentPoolMembersSchema = z.object({
+  params: poolParams,
+  body: z.object({
+    candidateIds: z
+      .array(z.string().min(1))
+      .min(1, 'At least one candidate ID required')
+      .max(500),
+    reason: z.string().max(500).optional(),
+    sourceJobId: z.string().min(1).optional(),
+  }),
+});
+
+// Remove Pool Member Schema
+export const removeTalentPoolMemberSchema = z.object({
+  params: poolParams.extend({
+    candidateId: z.string().min(1, 'Candidate ID is required'),
+  }),
+});
+
+// Re-engage Pool Schema
+export const reEngageTalentPoolSchema = z.object({
+  params: poolParams,
+  body: z.object({
+    templateId: z.string().min(1, 'Email template ID is required'),
+    candidateIds: z.array(z.string().min(1)).optional(),
+    variables: z.record(z.string()).optional(),
+  }),
+});
+
+// Export Types
+export type CreateTalentPoolInput = z.infer<typeof createTalentPoolSchema>['body'];
+export type UpdateTalentPoolInput = z.infer<typeof updateTalentPoolSchema>['body'];
+export type AddTalentPoolMembersInput = z.infer<typeof addTalentPoolMembersSchema>['body'];
+export type ReEngageTalentPoolInput = z.infer<typeof reEngageTalentPoolSchema>['body'];
@@ -0,0 +1,306 @@
+import { BadRequestError } from './errors';
+
+/**
+ * Automation Condition Utility
+ * Parser and evaluator for the conditions of pipeline stage automation rules.
+ *
+ * Supported syntax:
+ * - Comparisons:        candidate.yearsOfExperience >= 5, job.type == "full-time"
+ * - Operators:          == != > >= < <=
+ * - Membership:         candidate.skills contains "react", job.status in ["open", "on_hold"]
+ * - Presence:           candidate.linkedinUrl (true when set and not empty)
+ * - Boolean logic:      and, or, not, parentheses
+ * - Values:             "strings" or 'strings', numbers, true, false, null
+ *
+ * Paths start with candidate., job. or stage. and may reach nested fields
+ * (candidate.customFields.visa_status). String comparisons ignore case.
+ */
+
+export const CONDITION_ROOTS = ['candidate', 'job', 'stage'] as const;
+
+export type ConditionRoot = (typeof CONDITION_ROOTS)[number];
+
+export type ConditionValue = string | number | boolean | null;
+
+export type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'in';
+
+export type ConditionNode =
+  | { type: 'compare'; path: string[]; operator: ComparisonOperator; value: ConditionValue | ConditionValue[] }
+  | { type: 'present'; path: string[] }
+  | { type: 'and'; children: ConditionNode[] }
+  | { type: 'or'; children: ConditionNode[] }
+  | { type: 'not'; child: ConditionNode };
+
+export type ConditionContext = Partial<Record<ConditionRoot, Record<string, any> | null>>;
+
+type LexToken =
+  | { kind: 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma' | 'and' | 'or' | 'not' }
+  | { kind: 'operator'; value: ComparisonOperator }
+  | { kind: 'path'; value: string[] }
+  | { kind: 'value'; value: ConditionValue };
+
+const PUNCTUATION: Record<string, LexToken> = {
+  '(': { kind: 'lparen' },
+  ')': { kind: 'rparen' },
+  '[': { kind: 'lbracket' },
+  ']': { kind: 'rbracket' },
+  ',': { kind: 'comma' },
+};
+
+function lex(condition: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < condition.length) {
+    const char = condition[i];
+    const rest = condition.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (PUNCTUATION[char]) {
+      tokens.push(PUNCTUATION[char]);
+      i++;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      let end = i + 1;
+      while (end < condition.length && condition[end] !== char) {
+        if (condition[end] === '\\' && end + 1 < condition.length) end++;
+        value += condition[end];
+        end++;
+      }
+      if (end >= condition.length) {
+        throw new BadRequestError('Unterminated string in automation condition');
+      }
+      tokens.push({ kind: 'value', value });
+      i = end + 1;
+    } else if (/^(==|!=|>=|<=|>|<)/.test(rest)) {
+      const operator = /^(==|!=|>=|<=|>|<)/.exec(rest)![0] as ComparisonOperator;
+      tokens.push({ kind: 'operator', value: operator });
+      i += operator.length;
+    } else if (/^-?\d/.test(rest)) {
+      const number = /^-?\d+(\.\d+)?/.exec(rest)![0];
+      tokens.push({ kind: 'value', value: Number(number) });
+      i += number.length;
+    } else {
+      const match = /^[A-Za-z_][\w.]*/.exec(rest);
+      if (!match) {
+        throw new BadRequestError(`Unexpected "${char}" in automation condition`);
+      }
+      const word = match[0];
+      i += word.length;
+
+      const keyword = word.toLowerCase();
+      if (keyword === 'and' || keyword === 'or' || keyword === 'not') {
+        tokens.push({ kind: keyword });
+      } else if (keyword === 'contains' || keyword === 'in') {
+        tokens.push({ kind: 'operator', value: keyword });
+      } else if (keyword === 'true' || keyword === 'false') {
+        tokens.push({ kind: 'value', value: keyword === 'true' });
+      } else if (keyword === 'null') {
+        tokens.push({ kind: 'value', value: null });
+      } else {
+        const path = word.split('.');
+        if (!CONDITION_ROOTS.includes(path[0] as ConditionRoot) || path.length < 2 || path.includes('')) {
+          throw new BadRequestError(
+            `Unknown field "${word}" in automation condition. Fields start with ${CONDITION_ROOTS.map((root) => `${root}.`).join(', ')}`
+          );
+        }
+        tokens.push({ kind: 'path', value: path });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an automation condition into an expression tree
+ * Throws BadRequestError for malformed conditions and unknown fields
+ */
+export function parseCondition(condition: string): ConditionNode {
+  const tokens = lex(condition);
+  if (tokens.length === 0) {
+    throw new BadRequestError('Automation condition is empty');
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const expect = <K extends LexToken['kind']>(kind: K, what: string) => {
+    const token = tokens[position];
+    if (token?.kind !== kind) {
+      throw new BadRequestError(`Expected ${what} in automation condition`);
+    }
+    position++;
+    return token as Extract<LexToken, { kind: K }>;
+  };
+
+  const parseOr = (): ConditionNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): ConditionNode => {
+    const children = [parseUnary()];
+    while (peek()?.kind === 'and') {
+      position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): ConditionNode => {
+    if (peek()?.kind === 'not') {
+      position++;
+      return { type: 'not', child: parseUnary() };
+    }
+    if (peek()?.kind === 'lparen') {
+      position++;
+      const node = parseOr();
+      expect('rparen', '")"');
+      return node;
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): ConditionNode => {
+    const path = expect('path', 'a field').value;
+    const next = peek();
+    if (next?.kind !== 'operator') {
+      return { type: 'present', path };
+    }
+    position++;
+
+    if (next.value === 'in') {
+      expect('lbracket', '"[" after "in"');
+      const values: ConditionValue[] = [];
+      while (peek()?.kind !== 'rbracket') {
+        values.push(expect('value', 'a value in the list').value);
+        if (peek()?.kind === 'comma') position++;
+        else break;
+      }
+      expect('rbracket', '"]"');
+      return { type: 'compare', path, operator: 'in', value: values };
+    }
+
+    return { type: 'compare', path, operator: next.value, value: expect('value', 'a value').value };
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new BadRequestError('Unexpected input at the end of automation condition');
+  }
+  return node;
+}
+
+/**
+ * Check that a condition parses, naming the rule in the error
+ */
+export function validateCondition(condition: string, ruleName: string): void {
+  try {
+    parseCondition(condition);
+  } catch (error: any) {
+    throw new BadRequestError(`Automation rule "${ruleName}": ${error.message}`);
+  }
+}
+
+const toComparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (value && typeof value === 'object' && typeof (value as any).toDate === 'function') {
+    return (value as any).toDate().getTime();
+  }
+  if (typeof value === 'string') return value.toLowerCase();
+  return value;
+};
+
+const resolvePath = (context: ConditionContext, path: string[]): unknown =>
+  path.reduce<any>((value, key) => (value == null ? undefined : value[key]), context);
+
+const equals = (left: unknown, right: ConditionValue): boolean => {
+  if (right === null) return left === null || left === undefined;
+  const a = toComparable(left);
+  // Dates compare against ISO strings
+  if (typeof a === 'number' && typeof right === 'string' && !isNaN(Date.parse(right))) {
+    return a === Date.parse(right);
+  }
+  return a === toComparable(right);
+};
+
+const compareOrder = (left: unknown, right: ConditionValue): number | null => {
+  let a = toComparable(left);
+  let b = toComparable(right);
+  if (typeof a === 'number' && typeof right === 'string' && !isNaN(Date.parse(right))) {
+    b = Date.parse(right);
+  }
+  if (typeof a === 'string' && typeof b === 'number' && a.trim() !== '' && !isNaN(Number(a))) {
+    a = Number(a);
+  }
+  if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) return null;
+  const [x, y] = [a, b] as [number | string, number | string];
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+const evaluateNode = (node: ConditionNode, context: ConditionContext): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => evaluateNode(child, context));
+    case 'or':
+      return node.children.some((child) => evaluateNode(child, context));
+    case 'not':
+      return !evaluateNode(node.child, context);
+    case 'present': {
+      const value = resolvePath(context, node.path);
+      return !(
+        value === undefined ||
+        value === null ||
+        value === false ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0)
+      );
+    }
+    case 'compare': {
+      const value = resolvePath(context, node.path);
+      const expected = node.value;
+
+      switch (node.operator) {
+        case '==':
+          return equals(value, expected as ConditionValue);
+        case '!=':
+          return !equals(value, expected as ConditionValue);
+        case 'contains':
+          if (Array.isArray(value)) {
+            return value.some((item) => equals(item, expected as ConditionValue));
+          }
+          return (
+            typeof value === 'string' &&
+            expected !== null &&
+            value.toLowerCase().includes(String(expected).toLowerCase())
+          );
+        case 'in':
+          return (expected as ConditionValue[]).some((option) => equals(value, option));
+        default: {
+          const order = compareOrder(value, expected as ConditionValue);
+          if (order === null) return false;
+          if (node.operator === '>') return order > 0;
+          if (node.operator === '>=') return order >= 0;
+          if (node.operator === '<') return order < 0;
+          return order <= 0;
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Evaluate a condition against a candidate, job and stage
+ * An empty condition always matches; fields that are not set never compare
+ * as greater or smaller than anything.
+ */
+export function evaluateCondition(condition: string | undefined, context: ConditionContext): boolean {
+  if (!condition || condition.trim() === '') return true;
+  return evaluateNode(parseCondition(condition), context);
+}
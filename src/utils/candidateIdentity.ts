@@ -0,0 +1,89 @@
+/**
+ * Candidate Identity Utility
+ * Normalization of the fields that identify a person (email, phone, name,
+ * LinkedIn URL), shared by duplicate scoring and the duplicate blocking index.
+ */
+
+import { tokenize } from './searchQuery';
+
+// Providers where dots in the local part are ignored
+const DOT_INSENSITIVE_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+/**
+ * Lowercase an address and drop +tags (and dots for Gmail) so aliases compare equal
+ */
+export const normalizeEmail = (email?: string | null): string | null => {
+  if (!email) return null;
+  const [local, domain] = email.trim().toLowerCase().split('@');
+  if (!local || !domain) return null;
+
+  let normalizedLocal = local.split('+')[0];
+  let normalizedDomain = domain;
+  if (DOT_INSENSITIVE_DOMAINS.has(domain)) {
+    normalizedLocal = normalizedLocal.replace(/\./g, '');
+    normalizedDomain = 'gmail.com';
+  }
+  return normalizedLocal ? `${normalizedLocal}@${normalizedDomain}` : null;
+};
+
+/**
+ * Reduce a phone number to its last 10 digits, ignoring formatting and country code
+ */
+export const normalizePhone = (phone?: string | null): string | null => {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  return digits.slice(-10);
+};
+
+/**
+ * Order-insensitive, accent-insensitive full name ("Doe, José" == "jose doe")
+ */
+export const normalizeName = (
+  firstName?: string | null,
+  lastName?: string | null
+): string | null => {
+  const tokens = tokenize(`${firstName || ''} ${lastName || ''}`);
+  if (tokens.length < 2) return null;
+  return tokens.sort().join(' ');
+};
+
+/**
+ * Extract the profile slug from a LinkedIn URL
+ */
+export const normalizeLinkedinUrl = (url?: string | null): string | null => {
+  if (!url) return null;
+  const match = /linkedin\.com\/in\/([^/?#\s]+)/i.exec(url);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]).toLowerCase();
+  } catch {
+    return match[1].toLowerCase();
+  }
+};
+
+/**
+ * Exact identity keys ("email:…", "phone:…", "linkedin:…") under which a
+ * candidate is filed for duplicate blocking; names are too common to block on
+ */
+export const blockingKeys = (candidate: {
+  email?: string | null;
+  alternateEmails?: string[];
+  phone?: string | null;
+  linkedinUrl?: string | null;
+}): string[] => {
+  const emails = [candidate.email, ...(candidate.alternateEmails || [])]
+    .map(normalizeEmail)
+    .filter((email): email is string => email !== null)
+    .map((email) => `email:${email}`);
+  const phone = normalizePhone(candidate.phone);
+  const linkedin = normalizeLinkedinUrl(candidate.linkedinUrl);
+
+  return [
+    ...new Set([
+      ...emails,
+      ...(phone ? [`phone:${phone}`] : []),
+      ...(linkedin ? [`linkedin:${linkedin}`] : []),
+    ]),
+  ];
+};
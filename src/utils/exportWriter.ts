@@ -0,0 +1,350 @@
+import { Writable } from 'stream';
+import zlib from 'zlib';
+
+/**
+ * Export Writers
+ * Stream rows to CSV, NDJSON or XLSX as they are produced, so exports never
+ * hold the whole result set in memory. Writes wait for the output to drain.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx' | 'ndjson';
+
+export type ExportValue = string | number | boolean | Date | null | undefined;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+export interface ExportWriter {
+  writeRow(values: ExportValue[]): Promise<void>;
+  end(): Promise<void>;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  ndjson: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+};
+
+/**
+ * Write to a stream, waiting for 'drain' when its buffer is full
+ */
+const writeChunk = (out: Writable, chunk: string | Buffer): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (out.destroyed) {
+      reject(new Error('Export stream closed'));
+      return;
+    }
+    if (out.write(chunk)) {
+      resolve();
+    } else {
+      out.once('drain', resolve);
+    }
+  });
+
+const toText = (value: ExportValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+// Spreadsheet apps run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: ExportValue): string => {
+  let text = toText(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createCsvWriter = async (out: Writable, columns: ExportColumn[]): Promise<ExportWriter> => {
+  // BOM so Excel opens UTF-8 files with the right encoding
+  await writeChunk(out, `\uFEFF${columns.map((column) => escapeCsv(column.label)).join(',')}\r\n`);
+  return {
+    writeRow: (values) => writeChunk(out, `${values.map(escapeCsv).join(',')}\r\n`),
+    end: async () => undefined,
+  };
+};
+
+const createNdjsonWriter = (out: Writable, columns: ExportColumn[]): ExportWriter => ({
+  writeRow: (values) => {
+    const record: Record<string, ExportValue> = {};
+    columns.forEach((column, index) => {
+      record[column.key] = values[index] ?? null;
+    });
+    return writeChunk(out, `${JSON.stringify(record)}\n`);
+  },
+  end: async () => undefined,
+});
+
+// --- XLSX -----------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (data: Buffer, previous = 0): number => {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface ZipEntry {
+  name: Buffer;
+  method: number;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+/**
+ * Minimal streaming ZIP writer: small parts are stored, the worksheet is
+ * deflated on the fly with sizes in a trailing data descriptor.
+ */
+class ZipStream {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private readonly time: number;
+  private readonly date: number;
+
+  constructor(private out: Writable) {
+    const now = new Date();
+    this.time = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+    this.date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  }
+
+  private async push(chunk: Buffer): Promise<void> {
+    this.offset += chunk.length;
+    await writeChunk(this.out, chunk);
+  }
+
+  private localHeader(entry: ZipEntry): Buffer {
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(entry.flags, 6);
+    header.writeUInt16LE(entry.method, 8);
+    header.writeUInt16LE(this.time, 10);
+    header.writeUInt16LE(this.date, 12);
+    header.writeUInt32LE(entry.crc, 14);
+    header.writeUInt32LE(entry.compressedSize, 18);
+    header.writeUInt32LE(entry.size, 22);
+    header.writeUInt16LE(entry.name.length, 26);
+    header.writeUInt16LE(0, 28);
+    return Buffer.concat([header, entry.name]);
+  }
+
+  async addFile(name: string, content: string): Promise<void> {
+    const data = Buffer.from(content, 'utf8');
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      method: 0,
+      flags: 0x0800,
+      crc: crc32(data),
+      compressedSize: data.length,
+      size: data.length,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    await this.push(this.localHeader(entry));
+    await this.push(data);
+  }
+
+  async beginFile(name: string): Promise<{ write(text: string): Promise<void>; end(): Promise<void> }> {
+    const entry: ZipEntry = {
+      name: Buffer.from(name, 'utf8'),
+      method: 8,
+      flags: 0x0808, // UTF-8 names, sizes in data descriptor
+      crc: 0,
+      compressedSize: 0,
+      size: 0,
+      offset: this.offset,
+    };
+    this.entries.push(entry);
+    await this.push(this.localHeader(entry));
+
+    const deflate = zlib.createDeflateRaw();
+    const output = new Promise<void>((resolve, reject) => {
+      deflate.on('data', (chunk: Buffer) => {
+        entry.compressedSize += chunk.length;
+        this.offset += chunk.length;
+        if (!this.out.write(chunk)) {
+          deflate.pause();
+          this.out.once('drain', () => deflate.resume());
+        }
+      });
+      deflate.on('end', resolve);
+      deflate.on('error', reject);
+    });
+
+    return {
+      write: async (text: string) => {
+        const data = Buffer.from(text, 'utf8');
+        entry.crc = crc32(data, entry.crc);
+        entry.size += data.length;
+        if (!deflate.write(data)) {
+          await new Promise((resolve) => deflate.once('drain', resolve));
+        }
+      },
+      end: async () => {
+        deflate.end();
+        await output;
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(entry.crc, 4);
+        descriptor.writeUInt32LE(entry.compressedSize, 8);
+        descriptor.writeUInt32LE(entry.size, 12);
+        await this.push(descriptor);
+      },
+    };
+  }
+
+  async finish(): Promise<void> {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(entry.flags, 8);
+      header.writeUInt16LE(entry.method, 10);
+      header.writeUInt16LE(this.time, 12);
+      header.writeUInt16LE(this.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.push(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.push(end);
+  }
+}
+
+const escapeXml = (text: string): string =>
+  text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const xlsxRow = (rowNumber: number, values: ExportValue[]): string =>
+  `<row r="${rowNumber}">${values
+    .map((value, index) => {
+      const reference = `${columnName(index)}${rowNumber}`;
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      }
+      const text = toText(value);
+      return text === ''
+        ? ''
+        : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    })
+    .join('')}</row>`;
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const createXlsxWriter = async (
+  out: Writable,
+  columns: ExportColumn[],
+  sheetName: string
+): Promise<ExportWriter> => {
+  const zip = new ZipStream(out);
+
+  await zip.addFile(
+    '[Content_Types].xml',
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+  );
+  await zip.addFile(
+    '_rels/.rels',
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  );
+  await zip.addFile(
+    'xl/workbook.xml',
+    `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+  );
+  await zip.addFile(
+    'xl/_rels/workbook.xml.rels',
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+  );
+
+  const sheet = await zip.beginFile('xl/worksheets/sheet1.xml');
+  await sheet.write(
+    `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>` +
+      xlsxRow(1, columns.map((column) => column.label))
+  );
+
+  let rowNumber = 1;
+  return {
+    writeRow: (values) => sheet.write(xlsxRow(++rowNumber, values)),
+    end: async () => {
+      await sheet.write('</sheetData></worksheet>');
+      await sheet.end();
+      await zip.finish();
+    },
+  };
+};
+
+/**
+ * Start an export in the given format; the header row is written immediately
+ */
+export const createExportWriter = (
+  format: ExportFormat,
+  out: Writable,
+  columns: ExportColumn[],
+  sheetName = 'Export'
+): Promise<ExportWriter> => {
+  switch (format) {
+    case 'csv':
+      return createCsvWriter(out, columns);
+    case 'xlsx':
+      return createXlsxWriter(out, columns, sheetName);
+    case 'ndjson':
+      return Promise.resolve(createNdjsonWriter(out, columns));
+  }
+};
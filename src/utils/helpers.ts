@@ -49,7 +49,11 @@ export function getPaginationParams(query: any): PaginationParams {
   return { page, limit, sort, order };
 }
 
-export function paginateResults(totalCount: number, params: PaginationParams) {
+export function paginateResults(
+  totalCount: number,
+  params: PaginationParams,
+  nextCursor: string | null = null
+) {
   const { page, limit } = params;
   const totalPages = Math.ceil(totalCount / limit);
 
@@ -58,5 +62,31 @@ export function paginateResults(totalCount: number, params: PaginationParams) {
     limit,
     total: totalCount,
     totalPages,
+    nextCursor,
   };
 }
+
+/**
+ * Durations in milliseconds
+ */
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Date of a stored value: a Date, a Firestore Timestamp, or an ISO string or
+ * epoch milliseconds; null when missing or unparsable
+ */
+export const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  if (value instanceof Date) return value;
+  if (typeof (value as any).toDate === 'function') return (value as any).toDate();
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Escape text for HTML content and double-quoted attribute values
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
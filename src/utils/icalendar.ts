@@ -0,0 +1,131 @@
+/**
+ * iCalendar Utility
+ * Writes RFC 5545 calendars: VEVENTs with UTC times, escaped text and lines
+ * folded at 75 octets. Only what interview invites and feeds need is covered.
+ */
+
+export type CalendarMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export interface CalendarPerson {
+  email: string;
+  name?: string;
+}
+
+export interface CalendarEvent {
+  uid: string; // stable across updates, so clients replace the event
+  sequence: number; // bumped on every change of the event
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  organizer?: CalendarPerson;
+  attendees?: CalendarPerson[];
+  lastModified?: Date;
+}
+
+const PRODID = '-//ATS//Interviews//EN';
+
+/**
+ * Format a date as a UTC DATE-TIME (20260102T030405Z)
+ */
+export const formatCalendarDate = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * Escape a TEXT value
+ */
+export const escapeCalendarText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Quote a parameter value (such as CN) when it contains separators
+ */
+const paramValue = (value: string): string => {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+/**
+ * Fold a content line at 75 octets, without splitting UTF-8 characters
+ */
+export const foldCalendarLine = (line: string): string => {
+  if (Buffer.byteLength(line, 'utf8') <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char, 'utf8');
+    // Continuation lines start with a space, which counts towards the 75
+    const max = parts.length === 0 ? 75 : 74;
+    if (size + charSize > max) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const person = (property: string, value: CalendarPerson, params: string[] = []): string =>
+  [property, ...(value.name ? [`CN=${paramValue(value.name)}`] : []), ...params].join(';') +
+  `:mailto:${value.email}`;
+
+const eventLines = (event: CalendarEvent, stamp: Date): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${event.uid}`,
+  `SEQUENCE:${event.sequence}`,
+  `DTSTAMP:${formatCalendarDate(stamp)}`,
+  `DTSTART:${formatCalendarDate(event.start)}`,
+  `DTEND:${formatCalendarDate(event.end)}`,
+  `SUMMARY:${escapeCalendarText(event.summary)}`,
+  ...(event.description ? [`DESCRIPTION:${escapeCalendarText(event.description)}`] : []),
+  ...(event.location ? [`LOCATION:${escapeCalendarText(event.location)}`] : []),
+  ...(event.url ? [`URL:${event.url}`] : []),
+  `STATUS:${event.status}`,
+  ...(event.lastModified ? [`LAST-MODIFIED:${formatCalendarDate(event.lastModified)}`] : []),
+  ...(event.organizer ? [person('ORGANIZER', event.organizer)] : []),
+  ...(event.attendees || []).map((attendee) =>
+    person('ATTENDEE', attendee, [
+      'CUTYPE=INDIVIDUAL',
+      'ROLE=REQ-PARTICIPANT',
+      'PARTSTAT=NEEDS-ACTION',
+      `RSVP=${event.status === 'CANCELLED' ? 'FALSE' : 'TRUE'}`,
+    ])
+  ),
+  'END:VEVENT',
+];
+
+/**
+ * Build a VCALENDAR document
+ * `method` is set for emailed invites (iTIP) and left out of subscription feeds.
+ */
+export const buildCalendar = (
+  events: CalendarEvent[],
+  options: { method?: CalendarMethod; name?: string; now?: Date } = {}
+): string => {
+  const stamp = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    ...(options.method ? [`METHOD:${options.method}`] : []),
+    ...(options.name ? [`X-WR-CALNAME:${escapeCalendarText(options.name)}`] : []),
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldCalendarLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,241 @@
+import { BadRequestError } from './errors';
+
+/**
+ * Search Query Utility
+ * Tokenizer and query parser shared by the candidate search index and the search engine.
+ *
+ * Supported syntax:
+ * - Terms (implicit AND):        react typescript
+ * - Boolean operators:           react OR vue, react AND NOT angular, -angular
+ * - Grouping:                    (react OR vue) senior
+ * - Phrases:                     "staff engineer"
+ * - Field prefixes:              skill:react title:"staff engineer" company:acme
+ * - Prefix match:                java*
+ */
+
+export const SEARCH_FIELDS = [
+  'name',
+  'email',
+  'title',
+  'company',
+  'skill',
+  'experience',
+  'education',
+  'resume',
+] as const;
+
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  name: 'name',
+  email: 'email',
+  title: 'title',
+  company: 'company',
+  skill: 'skill',
+  skills: 'skill',
+  experience: 'experience',
+  exp: 'experience',
+  education: 'education',
+  edu: 'education',
+  resume: 'resume',
+};
+
+export type SearchNode =
+  | { type: 'term'; field?: SearchField; value: string; prefix?: boolean }
+  | { type: 'phrase'; field?: SearchField; tokens: string[] }
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode };
+
+/**
+ * Split text into normalized search tokens
+ * Keeps technology names like c++, c#, node.js and .net intact
+ */
+export function tokenize(text: string): string[] {
+  if (!text) return [];
+
+  const normalized = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+  return (normalized.match(/\.?[a-z0-9][a-z0-9+#.]*/g) || [])
+    .map((token) => token.replace(/\.+$/, ''))
+    .filter((token) => token.length > 0);
+}
+
+// Fields whose words list searches also match by their start ("joh" finds John)
+export const PREFIX_FIELDS: SearchField[] = ['name', 'email'];
+
+// Longest prefix kept in the index; longer words are narrowed by their start
+const MAX_PREFIX_LENGTH = 20;
+
+/**
+ * Words of a token that a prefix match may start: the token itself and, for
+ * dotted tokens like jane.doe, each part
+ */
+export function prefixWords(token: string): string[] {
+  const parts = token.split('.').filter(Boolean);
+  return parts.length > 1 ? [token, ...parts] : [token];
+}
+
+/**
+ * Index key of a prefix; the ^ keeps it apart from whole-word terms, which never contain one
+ */
+export function prefixKey(prefix: string): string {
+  return `^${prefix.slice(0, MAX_PREFIX_LENGTH)}`;
+}
+
+/**
+ * Index keys of every prefix of the words in a text
+ */
+export function prefixKeys(text: string): string[] {
+  const keys = new Set<string>();
+  tokenize(text)
+    .flatMap(prefixWords)
+    .forEach((word) => {
+      for (let length = 1; length <= Math.min(word.length, MAX_PREFIX_LENGTH); length++) {
+        keys.add(prefixKey(word.slice(0, length)));
+      }
+    });
+  return [...keys];
+}
+
+type LexToken =
+  | { kind: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { kind: 'word'; field?: string; value: string; quoted: boolean };
+
+function lex(query: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen' });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ kind: 'not' });
+      i++;
+    } else {
+      // Optional field prefix
+      let field: string | undefined;
+      const fieldMatch = /^([a-zA-Z]+):(?=\S)/.exec(query.slice(i));
+      if (fieldMatch) {
+        field = fieldMatch[1].toLowerCase();
+        i += fieldMatch[0].length;
+      }
+
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end === -1) {
+          throw new BadRequestError('Unterminated phrase in search query');
+        }
+        tokens.push({ kind: 'word', field, value: query.slice(i + 1, end), quoted: true });
+        i = end + 1;
+      } else {
+        const match = /^[^\s()"]+/.exec(query.slice(i));
+        const value = match ? match[0] : '';
+        i += value.length;
+
+        if (!field && value === 'AND') tokens.push({ kind: 'and' });
+        else if (!field && value === 'OR') tokens.push({ kind: 'or' });
+        else if (!field && value === 'NOT') tokens.push({ kind: 'not' });
+        else if (value) tokens.push({ kind: 'word', field, value, quoted: false });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a search query into a boolean expression tree
+ * Throws BadRequestError for malformed queries and unknown field prefixes
+ */
+export function parseSearchQuery(query: string): SearchNode {
+  const tokens = lex(query);
+  let position = 0;
+
+  const peek = () => tokens[position];
+
+  const parseOr = (): SearchNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): SearchNode => {
+    const children = [parseUnary()];
+    while (peek() && peek().kind !== 'or' && peek().kind !== 'rparen') {
+      if (peek().kind === 'and') position++;
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): SearchNode => {
+    if (peek()?.kind === 'not') {
+      position++;
+      return { type: 'not', child: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): SearchNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new BadRequestError('Incomplete search query');
+    }
+
+    if (token.kind === 'lparen') {
+      const node = parseOr();
+      if (tokens[position++]?.kind !== 'rparen') {
+        throw new BadRequestError('Missing closing parenthesis in search query');
+      }
+      return node;
+    }
+
+    if (token.kind !== 'word') {
+      throw new BadRequestError(`Unexpected "${token.kind.toUpperCase()}" in search query`);
+    }
+
+    let field: SearchField | undefined;
+    if (token.field) {
+      field = FIELD_ALIASES[token.field];
+      if (!field) {
+        throw new BadRequestError(
+          `Unknown search field "${token.field}". Use one of: ${SEARCH_FIELDS.join(', ')}`
+        );
+      }
+    }
+
+    const prefix = !token.quoted && token.value.endsWith('*');
+    const words = tokenize(prefix ? token.value.slice(0, -1) : token.value);
+
+    if (words.length === 0) {
+      throw new BadRequestError(`Search term "${token.value}" has no searchable characters`);
+    }
+    if (words.length === 1) {
+      return { type: 'term', field, value: words[0], ...(prefix && { prefix }) };
+    }
+    // "front-end" or a quoted phrase: all words, adjacent and in order
+    return { type: 'phrase', field, tokens: words };
+  };
+
+  if (tokens.length === 0) {
+    throw new BadRequestError('Search query is empty');
+  }
+
+  const root = parseOr();
+  if (position < tokens.length) {
+    throw new BadRequestError('Unexpected ")" in search query');
+  }
+  return root;
+}
@@ -0,0 +1,231 @@
+import AdmZip from 'adm-zip';
+import path from 'path';
+import { BadRequestError } from './errors';
+
+/**
+ * Spreadsheet Utility
+ * Reads the first sheet of a CSV or XLSX file into header-keyed rows.
+ * XLSX files are read straight from their XML parts: cell values only, formulas
+ * give their cached result and dates come through as serial numbers.
+ */
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface SpreadsheetData {
+  format: SpreadsheetFormat;
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export const SPREADSHEET_EXTENSIONS: Record<string, SpreadsheetFormat> = {
+  '.csv': 'csv',
+  '.xlsx': 'xlsx',
+};
+
+/**
+ * Guess the CSV delimiter from the header line
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const [best] = [',', ';', '\t']
+    .map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count);
+  return best.count > 0 ? best.delimiter : ',';
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, line breaks inside quotes)
+ */
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new BadRequestError('Invalid CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Concatenate the text runs of a shared or inline string
+ */
+const readRichText = (xml: string): string =>
+  decodeXml(
+    [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((match) => match[1]).join('')
+  );
+
+/**
+ * Column letters of a cell reference to a zero-based index (B7 -> 1)
+ */
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+$/, '').toUpperCase();
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Read the cell values of the first worksheet of an XLSX workbook
+ */
+export const parseXlsx = (buffer: Buffer): string[][] => {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(buffer);
+  } catch {
+    throw new BadRequestError('Invalid XLSX file');
+  }
+  const readPart = (name: string): string | null =>
+    zip.getEntry(name)?.getData().toString('utf8') ?? null;
+
+  // Resolve the first sheet through the workbook relationships
+  const workbook = readPart('xl/workbook.xml');
+  const relationships = readPart('xl/_rels/workbook.xml.rels');
+  if (!workbook) {
+    throw new BadRequestError('Invalid XLSX file: workbook not found');
+  }
+  const firstSheetRelId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target =
+    firstSheetRelId && relationships
+      ? relationships.match(
+          new RegExp(`<Relationship\\b[^>]*Id="${firstSheetRelId}"[^>]*Target="([^"]+)"`)
+        )?.[1] ??
+        relationships.match(
+          new RegExp(`<Relationship\\b[^>]*Target="([^"]+)"[^>]*Id="${firstSheetRelId}"`)
+        )?.[1]
+      : undefined;
+  const sheetPath = target
+    ? target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml';
+
+  const sheet = readPart(sheetPath);
+  if (!sheet) {
+    throw new BadRequestError('Invalid XLSX file: worksheet not found');
+  }
+
+  const sharedStringsXml = readPart('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => readRichText(match[1]))
+    : [];
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const values: string[] = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[1] || '').matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] || '';
+      const reference = attributes.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1];
+      const index = reference ? columnIndex(reference) : nextColumn;
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 's' && raw !== undefined) {
+        value = sharedStrings[parseInt(raw, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = readRichText(content);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'true' : 'false';
+      } else if (raw !== undefined) {
+        value = decodeXml(raw);
+      }
+
+      while (values.length < index) values.push('');
+      values[index] = value;
+      nextColumn = index + 1;
+    }
+
+    rows.push(values);
+  }
+
+  return rows;
+};
+
+/**
+ * Read an uploaded spreadsheet into header-keyed rows
+ * Blank rows are dropped; duplicate or empty headers are made unique.
+ */
+export const readSpreadsheet = (buffer: Buffer, fileName: string): SpreadsheetData => {
+  const format = SPREADSHEET_EXTENSIONS[path.extname(fileName).toLowerCase()];
+  if (!format) {
+    throw new BadRequestError('Unsupported file type. Only CSV and XLSX files are allowed.');
+  }
+
+  const table = (format === 'csv' ? parseCsv(buffer.toString('utf8')) : parseXlsx(buffer)).filter(
+    (row) => row.some((cell) => cell.trim() !== '')
+  );
+  if (table.length === 0) {
+    throw new BadRequestError('The file is empty');
+  }
+
+  const seen = new Map<string, number>();
+  const headers = table[0].map((cell, index) => {
+    const header = cell.trim() || `Column ${index + 1}`;
+    const occurrences = (seen.get(header) || 0) + 1;
+    seen.set(header, occurrences);
+    return occurrences > 1 ? `${header} (${occurrences})` : header;
+  });
+
+  const rows = table.slice(1).map((cells) => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (cells[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { format, headers, rows };
+};
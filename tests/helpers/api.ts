@@ -0,0 +1,28 @@
+import request from 'supertest';
+import app from '../../src/app';
+import { userService } from '../../src/services/firestore';
+import { UserRole } from '../../src/services/firestore/user.service';
+import { generateAccessToken } from '../../src/utils/auth';
+
+export const api = request(app);
+
+let nextUser = 0;
+
+/**
+ * Create an active user and a bearer token for it
+ */
+export const createUser = async (role: UserRole = 'admin', fields: Record<string, unknown> = {}) => {
+  const email = `user${++nextUser}@example.com`;
+  const id = await userService.create({
+    email,
+    firstName: 'Test',
+    lastName: `User ${nextUser}`,
+    passwordHash: 'unused',
+    role,
+    isActive: true,
+    emailVerified: true,
+    ...fields,
+  } as any);
+
+  return { id, email, auth: `Bearer ${generateAccessToken({ userId: id, email, role })}` };
+};
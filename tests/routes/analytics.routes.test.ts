@@ -0,0 +1,69 @@
+import { activityLogService, candidateService, jobService } from '../../src/services/firestore';
+import { api, createUser } from '../helpers/api';
+
+describe('recruiter metrics routes', () => {
+  let admin: Awaited<ReturnType<typeof createUser>>;
+  let ann: Awaited<ReturnType<typeof createUser>>;
+  let ben: Awaited<ReturnType<typeof createUser>>;
+
+  beforeAll(async () => {
+    admin = await createUser('admin', { permissions: { canAccessAnalytics: true } });
+    ann = await createUser('recruiter', { permissions: { canManageCandidates: true } });
+    ben = await createUser('recruiter', { permissions: { canManageCandidates: true } });
+
+    await jobService.create({ title: 'Engineer', status: 'open', recruiterIds: [ann.id] } as any);
+    await jobService.create({ title: 'Designer', status: 'closed', recruiterIds: [ben.id] } as any);
+    for (const [status, assignedTo] of [
+      ['active', ann.id],
+      ['interviewing', ben.id],
+      ['rejected', ben.id],
+    ]) {
+      await candidateService.create({ firstName: 'Jo', lastName: 'Doe', status, assignedTo } as any);
+    }
+    for (const userId of [ann.id, ben.id, ben.id]) {
+      await activityLogService.create({
+        userId,
+        action: 'candidate_stage_changed',
+        resourceType: 'candidate',
+      } as any);
+    }
+  });
+
+  it('ranks the team by the chosen metric', async () => {
+    const res = await api
+      .get('/api/analytics/leaderboard')
+      .query({ sortBy: 'stageMoves' })
+      .set('Authorization', admin.auth);
+
+    expect(res.status).toBe(200);
+    expect(
+      res.body.data.members.map((member: any) => [member.userId, member.rank, member.metrics.stageMoves])
+    ).toEqual([
+      [ben.id, 1, 2],
+      [ann.id, 2, 1],
+    ]);
+    expect(res.body.data.teamAverages).toMatchObject({ stageMoves: 1.5, activeCandidates: 1 });
+  });
+
+  it('compares a user’s workload with the team average', async () => {
+    const res = await api.get(`/api/users/${ann.id}/metrics`).set('Authorization', admin.auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.teamSize).toBe(2);
+    expect(res.body.data.metrics.find((metric: any) => metric.key === 'openRequisitions')).toMatchObject({
+      value: 1,
+      teamAverage: 0.5,
+      vsTeam: 100,
+    });
+    expect(res.body.data.metrics.find((metric: any) => metric.key === 'activeCandidates')).toMatchObject({
+      value: 1,
+      vsTeam: 0,
+    });
+  });
+
+  it('requires analytics access', async () => {
+    const res = await api.get('/api/analytics/leaderboard').set('Authorization', ann.auth);
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,210 @@
+import { candidateService, jobService, pipelineService } from '../../src/services/firestore';
+import { api, createUser } from '../helpers/api';
+
+describe('candidate stage moves', () => {
+  let recruiter: Awaited<ReturnType<typeof createUser>>;
+  let jobId: string;
+
+  const newCandidate = () =>
+    candidateService.create({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: `jane${Math.random()}@example.com`,
+      status: 'active',
+      jobIds: [jobId],
+      currentPipelineStageId: 'applied',
+      jobApplications: [{ jobId, status: 'active', currentStage: 'applied', stageHistory: [] }],
+    } as any);
+
+  beforeAll(async () => {
+    recruiter = await createUser('recruiter', { permissions: { canManageCandidates: true } });
+    jobId = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+    await pipelineService.create({
+      name: 'Engineering',
+      type: 'candidate',
+      jobId,
+      isDefault: false,
+      isActive: true,
+      createdBy: recruiter.id,
+      stages: [
+        { id: 'applied', name: 'Applied', order: 0, isActive: true, allowedNextStageIds: ['screen', 'offer'] },
+        { id: 'screen', name: 'Screen', order: 1, isActive: true },
+        { id: 'offer', name: 'Offer', order: 2, isActive: true, requiredRoles: ['hiring_manager'] },
+      ],
+    } as any);
+  });
+
+  describe('PUT /api/candidates/:id', () => {
+    it('enforces the same role rules as move-stage', async () => {
+      const id = await newCandidate();
+
+      const moved = await api
+        .post(`/api/candidates/${id}/move-stage`)
+        .set('Authorization', recruiter.auth)
+        .send({ newStage: 'offer', jobId });
+      const updated = await api
+        .put(`/api/candidates/${id}`)
+        .set('Authorization', recruiter.auth)
+        .send({ currentPipelineStageId: 'offer', jobId });
+
+      expect(moved.status).toBe(403);
+      expect(updated.status).toBe(403);
+      expect((await candidateService.findById(id))!.currentPipelineStageId).toBe('applied');
+    });
+
+    it('records stage entry and history like move-stage', async () => {
+      const id = await newCandidate();
+
+      const res = await api
+        .put(`/api/candidates/${id}`)
+        .set('Authorization', recruiter.auth)
+        .send({ currentPipelineStageId: 'screen', jobId, notes: 'Looks good' });
+
+      expect(res.status).toBe(200);
+      const candidate = (await candidateService.findById(id)) as any;
+      expect(candidate.currentPipelineStageId).toBe('screen');
+      expect(candidate.stageEnteredAt).toBeInstanceOf(Date);
+      expect(candidate.notes).toBe('Looks good');
+      expect(candidate.jobApplications[0]).toMatchObject({
+        currentStage: 'screen',
+        stageHistory: [{ fromStageId: 'applied', toStageId: 'screen', changedBy: recruiter.id }],
+      });
+    });
+  });
+
+  describe('POST /api/candidates/bulk/move-stage', () => {
+    it('moves the candidates the rules allow and reports the rest as failed', async () => {
+      const first = await newCandidate();
+      const second = await newCandidate();
+
+      const screened = await api
+        .post('/api/candidates/bulk/move-stage')
+        .set('Authorization', recruiter.auth)
+        .send({ candidateIds: [first], newStage: 'screen' });
+      const offered = await api
+        .post('/api/candidates/bulk/move-stage')
+        .set('Authorization', recruiter.auth)
+        .send({ candidateIds: [second], newStage: 'offer' });
+
+      expect(screened.status).toBe(200);
+      expect(screened.body.data).toMatchObject({ modifiedCount: 1, failed: [] });
+      expect((await candidateService.findById(first))!.currentPipelineStageId).toBe('screen');
+
+      expect(offered.status).toBe(200);
+      expect(offered.body.data.modifiedCount).toBe(0);
+      expect(offered.body.data.failed).toEqual([
+        { candidateId: second, errors: ['Only hiring_manager users can move candidates to "Offer"'] },
+      ]);
+    });
+  });
+});
+
+describe('candidate list search', () => {
+  let admin: Awaited<ReturnType<typeof createUser>>;
+
+  const search = async (term: string) => {
+    const res = await api.get('/api/candidates').query({ search: term }).set('Authorization', admin.auth);
+    expect(res.status).toBe(200);
+    return res.body.data.candidates.map((candidate: any) => candidate.firstName).sort();
+  };
+
+  beforeAll(async () => {
+    admin = await createUser('admin');
+    await candidateService.create({ firstName: 'Johnathan', lastName: 'Smith', email: 'jsmith@acme.io' } as any);
+    await candidateService.create({ firstName: 'Joanna', lastName: 'Ng', email: 'joanna.ng@example.com' } as any);
+  });
+
+  it('matches the start of names and email words', async () => {
+    expect(await search('joh')).toEqual(['Johnathan']);
+    expect(await search('jo')).toEqual(['Joanna', 'Johnathan']);
+    expect(await search('ng')).toEqual(['Joanna']);
+    expect(await search('acme')).toEqual(['Johnathan']);
+  });
+
+  it('requires every word to match', async () => {
+    expect(await search('jo smi')).toEqual(['Johnathan']);
+    expect(await search('joh ng')).toEqual([]);
+  });
+});
+
+describe('GET /api/candidates/analytics/dashboard', () => {
+  let user: Awaited<ReturnType<typeof createUser>>;
+
+  const dashboard = (query: Record<string, string>) =>
+    api.get('/api/candidates/analytics/dashboard').query(query).set('Authorization', user.auth);
+
+  beforeAll(async () => {
+    user = await createUser('recruiter');
+  });
+
+  it('defaults to the last 90 days', async () => {
+    const id = await candidateService.create({ firstName: 'Old', lastName: 'Intake', email: 'old@example.com' } as any);
+    const createdAt = new Date(Date.now() - 20 * 24 * 60 * 60 * 1000);
+    await candidateService.update(id, { createdAt } as any);
+    const dates = async (query: Record<string, string>) => {
+      const res = await dashboard(query);
+      expect(res.status).toBe(200);
+      return res.body.data.map((day: any) => day.date);
+    };
+
+    expect(await dates({})).toContain(createdAt.toISOString().slice(0, 10));
+    expect(await dates({ days: '7' })).not.toContain(createdAt.toISOString().slice(0, 10));
+  });
+
+  it('rejects a days value that is not a whole number of days in range', async () => {
+    for (const days of ['abc', '0', '1.5', '5000']) {
+      const res = await dashboard({ days });
+      expect(res.status).toBe(400);
+      expect(res.body.errors[0].field).toBe('days');
+    }
+  });
+});
+
+describe('candidate duplicates', () => {
+  let recruiter: Awaited<ReturnType<typeof createUser>>;
+
+  beforeAll(async () => {
+    recruiter = await createUser('recruiter', { permissions: { canManageCandidates: true } });
+  });
+
+  it('queues likely duplicates and merges one into the other', async () => {
+    const survivorId = await candidateService.create({
+      firstName: 'Priya',
+      lastName: 'Raman',
+      email: 'priya.raman@gmail.com',
+      tags: ['python'],
+    } as any);
+    const duplicateId = await candidateService.create({
+      firstName: 'Priya',
+      lastName: 'Raman',
+      email: 'priyaraman+jobs@gmail.com',
+      phone: '+1 (555) 010-2030',
+      tags: ['go'],
+      currentPipelineStageId: 'screen',
+    } as any);
+
+    const queue = await api.get('/api/candidates/duplicates').set('Authorization', recruiter.auth);
+    expect(queue.status).toBe(200);
+    const pair = queue.body.data.duplicates.find((item: any) =>
+      item.candidates.some((candidate: any) => candidate.id === duplicateId)
+    );
+    expect(pair.reasons.map((reason: any) => reason.signal).sort()).toEqual(['email', 'name']);
+
+    const merged = await api
+      .post(`/api/candidates/${survivorId}/merge`)
+      .set('Authorization', recruiter.auth)
+      .send({ duplicateId });
+
+    expect(merged.status).toBe(200);
+    expect(await candidateService.findById(duplicateId)).toBeNull();
+    const survivor = (await candidateService.findById(survivorId)) as any;
+    expect(survivor).toMatchObject({
+      alternateEmails: ['priyaraman+jobs@gmail.com'],
+      phone: '+1 (555) 010-2030',
+      tags: ['python', 'go'],
+      mergedCandidateIds: [duplicateId],
+      currentPipelineStageId: 'screen',
+    });
+    expect(survivor.stageEnteredAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  calendarFeedService,
+  candidateService,
+  interviewService,
+  jobService,
+  schedulingLinkService,
+} from '../../src/services/firestore';
+import { api, createUser } from '../helpers/api';
+
+// Monday 2 March 2026, inside the default 09:00-17:00 UTC working hours
+const SLOT = '2026-03-02T10:00:00.000Z';
+
+describe('interview routes', () => {
+  let recruiter: Awaited<ReturnType<typeof createUser>>;
+  let interviewer: Awaited<ReturnType<typeof createUser>>;
+  let jobId: string;
+
+  const newCandidate = () =>
+    candidateService.create({ firstName: 'Jane', lastName: 'Doe', email: `jane${Date.now()}@example.com` } as any);
+
+  const schedule = async (body: Record<string, unknown>) =>
+    api
+      .post('/api/interviews')
+      .set('Authorization', recruiter.auth)
+      .send({
+        candidateId: await newCandidate(),
+        jobId,
+        title: 'Phone screen',
+        type: 'phone',
+        duration: 60,
+        timezone: 'UTC',
+        interviewerIds: [interviewer.id],
+        ...body,
+      });
+
+  beforeAll(async () => {
+    recruiter = await createUser('recruiter');
+    interviewer = await createUser('interviewer');
+    jobId = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+  });
+
+  describe('POST /api/interviews', () => {
+    it('stores scheduledAt sent as a JSON string as a date', async () => {
+      const res = await schedule({ scheduledAt: SLOT });
+
+      expect(res.status).toBe(201);
+      const interview = await interviewService.findById(res.body.data.id);
+      expect(interview!.scheduledAt).toBeInstanceOf(Date);
+      expect(interview!.scheduledAt!.toISOString()).toBe(SLOT);
+    });
+
+    it('rejects a second interview overlapping the interviewer’s booking', async () => {
+      const res = await schedule({ scheduledAt: '2026-03-02T10:30:00Z' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.error.message).toContain('Scheduling conflict');
+    });
+
+    it('books over a conflict when allowConflicts is set and returns the conflicts', async () => {
+      const res = await schedule({ scheduledAt: SLOT, allowConflicts: true });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data.conflicts.map((conflict: any) => conflict.type)).toContain('interviewer_busy');
+    });
+
+    it('rejects a missing or unparsable scheduledAt', async () => {
+      expect((await schedule({ scheduledAt: undefined })).status).toBe(400);
+      expect((await schedule({ scheduledAt: 'next tuesday' })).status).toBe(400);
+    });
+  });
+
+  describe('PUT /api/interviews/:id', () => {
+    it('stores a moved scheduledAt as a date and checks the new slot', async () => {
+      const created = await schedule({ scheduledAt: '2026-03-03T09:00:00Z' });
+      const id = created.body.data.id;
+
+      const moved = await api
+        .put(`/api/interviews/${id}`)
+        .set('Authorization', recruiter.auth)
+        .send({ scheduledAt: '2026-03-03T13:00:00Z' });
+      expect(moved.status).toBe(200);
+      expect((await interviewService.findById(id))!.scheduledAt).toEqual(new Date('2026-03-03T13:00:00Z'));
+
+      const clash = await api
+        .put(`/api/interviews/${id}`)
+        .set('Authorization', recruiter.auth)
+        .send({ scheduledAt: SLOT });
+      expect(clash.status).toBe(409);
+    });
+  });
+
+  describe('GET /api/interviews/feed/:token.ics', () => {
+    it('lists interviews created through the API and records access at most hourly', async () => {
+      const created = await schedule({ scheduledAt: '2099-01-05T15:00:00Z' });
+      expect(created.status).toBe(201);
+
+      const feed = await api.get('/api/interviews/feed').set('Authorization', interviewer.auth);
+      const path = new URL(feed.body.data.url).pathname;
+
+      const first = await api.get(path);
+      expect(first.status).toBe(200);
+      expect(first.text).toContain(`UID:interview-${created.body.data.id}@`);
+      expect(first.text).toContain('DTSTART:20990105T150000Z');
+
+      const accessedAt = (await calendarFeedService.findById(interviewer.id))!.lastAccessedAt;
+      expect(accessedAt).toBeInstanceOf(Date);
+
+      await api.get(path);
+      expect((await calendarFeedService.findById(interviewer.id))!.lastAccessedAt).toEqual(accessedAt);
+    });
+  });
+
+  describe('POST /api/interviews/:id/feedback', () => {
+    it('rejects feedback built on a stale read instead of dropping the other panel member’s', async () => {
+      const second = await createUser('interviewer');
+      const created = await schedule({ scheduledAt: '2026-03-04T09:00:00Z', interviewerIds: [interviewer.id, second.id] });
+      const id = created.body.data.id;
+      const submit = (user: typeof interviewer) =>
+        api
+          .post(`/api/interviews/${id}/feedback`)
+          .set('Authorization', user.auth)
+          .send({ rating: 4, recommendation: 'yes' });
+
+      const stale = await interviewService.findById(id);
+      expect((await submit(interviewer)).status).toBe(200);
+
+      jest.spyOn(interviewService, 'findById').mockResolvedValueOnce(stale);
+      expect((await submit(second)).status).toBe(409);
+      expect((await interviewService.findById(id))!.feedback!.map((item) => item.interviewerId)).toEqual([interviewer.id]);
+
+      expect((await submit(second)).status).toBe(200);
+      const interview = await interviewService.findById(id);
+      expect(interview!.feedback!.map((item) => item.interviewerId)).toEqual([interviewer.id, second.id]);
+      expect(interview!.status).toBe('completed');
+    });
+  });
+
+  describe('DELETE /api/interviews/scheduling-links/:id', () => {
+    const newLink = async () =>
+      schedulingLinkService.create({
+        token: `token-${Math.random()}`,
+        candidateId: await newCandidate(),
+        jobId,
+        clientId: 'client',
+        interviewerIds: [interviewer.id],
+        type: 'video',
+        round: 1,
+        title: 'Phone screen',
+        duration: 30,
+        timezone: 'UTC',
+        createMeetingLink: false,
+        windowStart: new Date('2099-01-01T00:00:00Z'),
+        windowEnd: new Date('2099-01-14T00:00:00Z'),
+        step: 30,
+        expiresAt: new Date('2099-01-14T00:00:00Z'),
+        status: 'active',
+        createdBy: recruiter.id,
+      });
+    const revoke = (id: string) =>
+      api.delete(`/api/interviews/scheduling-links/${id}`).set('Authorization', recruiter.auth);
+
+    it('revokes an active link once', async () => {
+      const id = await newLink();
+
+      expect((await revoke(id)).status).toBe(200);
+      expect((await schedulingLinkService.findById(id))!.status).toBe('revoked');
+      expect((await revoke(id)).status).toBe(409);
+    });
+
+    it('never revokes a link booked after it was read', async () => {
+      const id = await newLink();
+      const stale = await schedulingLinkService.findById(id);
+      await schedulingLinkService.update(id, { status: 'booked', bookedAt: new Date() });
+
+      jest.spyOn(schedulingLinkService, 'findById').mockResolvedValueOnce(stale);
+      expect((await revoke(id)).status).toBe(409);
+      expect((await schedulingLinkService.findById(id))!.status).toBe('booked');
+    });
+  });
+});
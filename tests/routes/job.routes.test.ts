@@ -0,0 +1,71 @@
+import { jobService } from '../../src/services/firestore';
+import { api, createUser } from '../helpers/api';
+
+describe('GET /api/jobs', () => {
+  beforeAll(async () => {
+    for (const [index, status] of ['open', 'closed', 'open', 'open', 'draft', 'open'].entries()) {
+      await jobService.create({ title: `Job ${index}`, status, salaryMin: index * 10000 } as any);
+    }
+  });
+
+  const list = (query: Record<string, string | number>) => api.get('/api/jobs').query(query);
+
+  it('pages through the filtered jobs with cursors', async () => {
+    const query = { status: 'open', sortBy: 'salaryMin', sortOrder: 'asc', limit: 3 };
+
+    const first = await list(query);
+    expect(first.status).toBe(200);
+    expect(first.body.data.jobs.map((job: any) => job.title)).toEqual(['Job 0', 'Job 2', 'Job 3']);
+    expect(first.body.data.pagination).toMatchObject({ total: 4, totalPages: 2 });
+
+    const second = await list({ ...query, cursor: first.body.data.pagination.nextCursor });
+    expect(second.body.data.jobs.map((job: any) => job.title)).toEqual(['Job 5']);
+    expect(second.body.data.pagination.nextCursor).toBeNull();
+  });
+
+  it('falls back to page numbers without a cursor', async () => {
+    const res = await list({ status: 'open', sortBy: 'salaryMin', sortOrder: 'asc', limit: 3, page: 2 });
+
+    expect(res.body.data.jobs.map((job: any) => job.title)).toEqual(['Job 5']);
+  });
+
+  it('rejects a cursor it did not issue', async () => {
+    const res = await list({ cursor: 'not-a-cursor' });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PUT /api/jobs/:id', () => {
+  let admin: Awaited<ReturnType<typeof createUser>>;
+
+  beforeAll(async () => {
+    admin = await createUser('admin');
+  });
+
+  const update = (id: string, body: Record<string, unknown>) =>
+    api.put(`/api/jobs/${id}`).set('Authorization', admin.auth).send(body);
+
+  it('rejects an edit based on an old revision and keeps the newer one', async () => {
+    const id = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+
+    expect((await update(id, { title: 'Senior Engineer', expectedRevision: 1 })).status).toBe(200);
+    const stale = await update(id, { title: 'Staff Engineer', expectedRevision: 1 });
+
+    expect(stale.status).toBe(409);
+    expect(await jobService.findById(id)).toMatchObject({ title: 'Senior Engineer', revision: 2 });
+  });
+
+  it('keeps each replaced version in the job history', async () => {
+    const id = await jobService.create({ title: 'Designer', status: 'open' } as any);
+    await update(id, { title: 'Product Designer', expectedRevision: 1 });
+    await update(id, { status: 'closed', expectedRevision: 2 });
+
+    const res = await api.get(`/api/jobs/${id}/history`).set('Authorization', admin.auth);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.revision).toBe(3);
+    expect(res.body.data.versions.map((version: any) => version.revision)).toEqual([2, 1]);
+    expect(res.body.data.versions[1].changedBy).toBe(admin.id);
+  });
+});
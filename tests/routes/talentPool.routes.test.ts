@@ -0,0 +1,94 @@
+import {
+  candidateService,
+  emailTemplateService,
+  talentPoolCampaignService,
+  talentPoolMemberService,
+} from '../../src/services/firestore';
+import resendService from '../../src/services/resend.service';
+import { recordCandidateReply } from '../../src/services/talentPool.service';
+import { api, createUser } from '../helpers/api';
+
+describe('talent pool routes', () => {
+  let recruiter: Awaited<ReturnType<typeof createUser>>;
+  let poolId: string;
+  let candidateIds: string[];
+
+  beforeAll(async () => {
+    recruiter = await createUser('recruiter', {
+      permissions: { canManageCandidates: true, canSendEmails: true },
+    });
+    candidateIds = await Promise.all(
+      ['Ann', 'Ben'].map((firstName) =>
+        candidateService.create({
+          firstName,
+          lastName: 'Doe',
+          email: `${firstName.toLowerCase()}@example.com`,
+        } as any)
+      )
+    );
+
+    const created = await api
+      .post('/api/talent-pools')
+      .set('Authorization', recruiter.auth)
+      .send({ name: 'Silver medalists' });
+    expect(created.status).toBe(201);
+    poolId = created.body.data.id;
+  });
+
+  describe('POST /api/talent-pools/:id/members', () => {
+    it('adds candidates once and reports the ones it cannot add', async () => {
+      const add = (ids: string[]) =>
+        api
+          .post(`/api/talent-pools/${poolId}/members`)
+          .set('Authorization', recruiter.auth)
+          .send({ candidateIds: ids, reason: 'Strong final round' });
+
+      expect((await add([candidateIds[0], 'missing'])).body.data).toEqual({
+        added: [candidateIds[0]],
+        alreadyInPool: [],
+        notFound: ['missing'],
+      });
+      expect((await add(candidateIds)).body.data).toMatchObject({
+        added: [candidateIds[1]],
+        alreadyInPool: [candidateIds[0]],
+      });
+
+      const pool = await api.get(`/api/talent-pools/${poolId}`).set('Authorization', recruiter.auth);
+      expect(pool.body.data.pool.memberCount).toBe(2);
+      expect(await candidateService.findById(candidateIds[0])).toMatchObject({
+        talentPoolIds: [poolId],
+        inTalentPool: true,
+      });
+    });
+  });
+
+  describe('POST /api/talent-pools/:id/re-engage', () => {
+    it('emails the members and counts their replies against the campaign', async () => {
+      const sendEmail = jest.spyOn(resendService, 'sendEmail').mockResolvedValue({ emailId: 'email-1' } as any);
+      const templateId = await emailTemplateService.create({
+        name: 'Checking in',
+        subject: 'New roles for {{firstName}}',
+        body: 'Hi {{candidateName}}, from {{talentPoolName}}',
+        isActive: true,
+      } as any);
+
+      const res = await api
+        .post(`/api/talent-pools/${poolId}/re-engage`)
+        .set('Authorization', recruiter.auth)
+        .send({ templateId });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toMatchObject({ recipientCount: 2, sentCount: 2, failedCount: 0 });
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'ann@example.com', subject: 'New roles for Ann' })
+      );
+
+      await recordCandidateReply(candidateIds[0]);
+
+      expect((await talentPoolCampaignService.findById(res.body.data.id))!.replyCount).toBe(1);
+      expect(
+        (await talentPoolMemberService.findByPoolId(poolId)).map((member) => member.outreachStatus).sort()
+      ).toEqual(['replied', 'sent']);
+    });
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * Test environment: in-memory Firestore and placeholder keys for clients
+ * that refuse to construct without one
+ */
+process.env.FIRESTORE_DRIVER = 'memory';
+process.env.RESEND_API_KEY = process.env.RESEND_API_KEY || 're_test';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'sk-test';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+// Emails never leave the test run; every send reports success
+jest.mock('resend', () => ({
+  Resend: jest.fn().mockImplementation(() => ({
+    emails: { send: jest.fn().mockResolvedValue({ data: { id: 'test-email' }, error: null }) },
+  })),
+}));
@@ -0,0 +1,142 @@
+import {
+  ConditionContext,
+  evaluateCondition,
+  parseCondition,
+  validateCondition,
+} from '../../src/utils/automationCondition';
+import { BadRequestError } from '../../src/utils/errors';
+
+const context: ConditionContext = {
+  candidate: {
+    firstName: 'Jane',
+    yearsOfExperience: 6,
+    expectedSalary: '120000',
+    skills: ['React', 'TypeScript'],
+    tags: [],
+    linkedinUrl: 'https://linkedin.com/in/jane',
+    portfolioUrl: '',
+    summary: 'Senior Frontend Engineer',
+    appliedAt: new Date('2024-03-01T00:00:00Z'),
+    lastContactedAt: { toDate: () => new Date('2024-02-01T00:00:00Z') },
+    customFields: { visa_status: 'Citizen' },
+    referrer: null,
+  },
+  job: { type: 'full-time', status: 'open' },
+  stage: { name: 'Interview' },
+};
+
+const matches = (condition: string) => evaluateCondition(condition, context);
+
+describe('parseCondition', () => {
+  it('parses comparisons with and binding tighter than or', () => {
+    expect(parseCondition('candidate.a == 1 or candidate.b and not job.c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'compare', path: ['candidate', 'a'], operator: '==', value: 1 },
+        {
+          type: 'and',
+          children: [
+            { type: 'present', path: ['candidate', 'b'] },
+            { type: 'not', child: { type: 'present', path: ['job', 'c'] } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('parses lists, quoted strings with escapes and literals', () => {
+    expect(parseCondition(`job.status in ["open", 'on\\'hold', -1.5, true, null]`)).toEqual({
+      type: 'compare',
+      path: ['job', 'status'],
+      operator: 'in',
+      value: ['open', "on'hold", -1.5, true, null],
+    });
+  });
+
+  it.each([
+    ['', 'Automation condition is empty'],
+    ['candidate.name == "Jane', 'Unterminated string'],
+    ['applicant.name == 1', 'Unknown field "applicant.name"'],
+    ['candidate == 1', 'Unknown field "candidate"'],
+    ['candidate.score >', 'Expected a value'],
+    ['(candidate.score > 1', 'Expected ")"'],
+    ['job.status in "open"', 'Expected "[" after "in"'],
+    ['candidate.score > 1 candidate.age', 'Unexpected input at the end'],
+    ['candidate.score > 1 & job.open', 'Unexpected "&"'],
+  ])('rejects %p', (condition, message) => {
+    expect(() => parseCondition(condition)).toThrow(BadRequestError);
+    expect(() => parseCondition(condition)).toThrow(message);
+  });
+});
+
+describe('validateCondition', () => {
+  it('names the rule in the error', () => {
+    expect(() => validateCondition('candidate.', 'Auto reject')).toThrow(
+      /^Automation rule "Auto reject": Unknown field/
+    );
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('matches an empty condition', () => {
+    expect(evaluateCondition(undefined, context)).toBe(true);
+    expect(evaluateCondition('   ', context)).toBe(true);
+  });
+
+  it('compares strings without case', () => {
+    expect(matches('job.type == "FULL-TIME"')).toBe(true);
+    expect(matches('stage.name != "interview"')).toBe(false);
+  });
+
+  it('compares numbers and numeric strings', () => {
+    expect(matches('candidate.yearsOfExperience >= 5')).toBe(true);
+    expect(matches('candidate.yearsOfExperience < 6')).toBe(false);
+    expect(matches('candidate.expectedSalary > 100000')).toBe(true);
+  });
+
+  it('compares dates and timestamps against ISO strings', () => {
+    expect(matches('candidate.appliedAt == "2024-03-01T00:00:00Z"')).toBe(true);
+    expect(matches('candidate.appliedAt > "2024-02-15"')).toBe(true);
+    expect(matches('candidate.lastContactedAt < "2024-01-15"')).toBe(false);
+  });
+
+  it('checks membership in arrays, substrings and lists', () => {
+    expect(matches('candidate.skills contains "react"')).toBe(true);
+    expect(matches('candidate.skills contains "vue"')).toBe(false);
+    expect(matches('candidate.summary contains "frontend"')).toBe(true);
+    expect(matches('job.status in ["open", "on_hold"]')).toBe(true);
+    expect(matches('job.status in []')).toBe(false);
+  });
+
+  it('treats set, non-empty values as present', () => {
+    expect(matches('candidate.linkedinUrl')).toBe(true);
+    expect(matches('candidate.portfolioUrl')).toBe(false);
+    expect(matches('candidate.tags')).toBe(false);
+    expect(matches('candidate.missing')).toBe(false);
+  });
+
+  it('matches null against missing and null fields', () => {
+    expect(matches('candidate.referrer == null')).toBe(true);
+    expect(matches('candidate.missing == null')).toBe(true);
+    expect(matches('candidate.firstName != null')).toBe(true);
+  });
+
+  it('never orders missing fields', () => {
+    expect(matches('candidate.missing > 1')).toBe(false);
+    expect(matches('candidate.missing <= 1')).toBe(false);
+  });
+
+  it('reaches nested fields and tolerates missing roots', () => {
+    expect(matches('candidate.customFields.visa_status == "citizen"')).toBe(true);
+    expect(evaluateCondition('job.type == "full-time"', { candidate: {} })).toBe(false);
+  });
+
+  it('combines with and, or, not and parentheses', () => {
+    expect(
+      matches('(candidate.skills contains "vue" or candidate.skills contains "react") and not job.status == "closed"')
+    ).toBe(true);
+    expect(matches('candidate.skills contains "vue" or candidate.yearsOfExperience > 10')).toBe(
+      false
+    );
+  });
+});
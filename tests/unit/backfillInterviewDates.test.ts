@@ -0,0 +1,24 @@
+import { getFirestoreDB } from '../../src/config/firebase';
+import { backfillInterviewDates } from '../../src/scripts/backfill-interview-dates';
+
+describe('backfillInterviewDates', () => {
+  it('converts string scheduledAt values and leaves the rest alone', async () => {
+    const interviews = getFirestoreDB().collection('interviews');
+    await interviews.doc('string').set({ scheduledAt: '2026-03-02T10:00:00.000Z' });
+    await interviews.doc('date').set({ scheduledAt: new Date('2026-03-03T10:00:00Z') });
+    await interviews.doc('draft').set({ scheduledAt: null });
+    await interviews.doc('garbage').set({ scheduledAt: 'soon' });
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await backfillInterviewDates()).toBe(1);
+    expect((await interviews.doc('string').get()).get('scheduledAt').toDate().toISOString()).toBe(
+      '2026-03-02T10:00:00.000Z'
+    );
+    expect((await interviews.doc('draft').get()).get('scheduledAt')).toBeNull();
+    expect((await interviews.doc('garbage').get()).get('scheduledAt')).toBe('soon');
+
+    expect(await backfillInterviewDates()).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+import { getFirestoreDB } from '../../src/config/firebase';
+import { backfillStageEnteredAt } from '../../src/scripts/backfill-stage-entered-at';
+
+describe('backfillStageEnteredAt', () => {
+  it('stamps candidates in a stage with their creation time', async () => {
+    const candidates = getFirestoreDB().collection('candidates');
+    const createdAt = new Date('2026-01-05T09:00:00Z');
+    const enteredAt = new Date('2026-02-01T09:00:00Z');
+    await candidates.doc('unstamped').set({ currentPipelineStageId: 'applied', createdAt });
+    await candidates.doc('stamped').set({ currentPipelineStageId: 'applied', createdAt, stageEnteredAt: enteredAt });
+    await candidates.doc('unstaged').set({ createdAt });
+
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect(await backfillStageEnteredAt()).toBe(1);
+    expect((await candidates.doc('unstamped').get()).get('stageEnteredAt').toDate()).toEqual(createdAt);
+    expect((await candidates.doc('stamped').get()).get('stageEnteredAt').toDate()).toEqual(enteredAt);
+    expect((await candidates.doc('unstaged').get()).get('stageEnteredAt')).toBeUndefined();
+
+    expect(await backfillStageEnteredAt()).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { candidateImportService, candidateService, jobService, pipelineService } from '../../src/services/firestore';
+import { resolveImportTarget, startCandidateImport } from '../../src/services/candidateImport.service';
+
+describe('startCandidateImport', () => {
+  let jobId: string;
+
+  const runImport = async (rows: Record<string, string>[]) => {
+    const { id } = await startCandidateImport({
+      fileName: 'candidates.csv',
+      data: { format: 'csv', headers: ['Name', 'Email'], rows },
+      mapping: { Name: 'fullName', Email: 'email' },
+      target: await resolveImportTarget({ jobId }),
+    });
+    for (;;) {
+      const record = await candidateImportService.findById(id!);
+      if (record!.status === 'completed' || record!.status === 'failed') return record!;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+  const withEmail = (email: string) =>
+    candidateService.find([{ field: 'email', operator: '==', value: email }]);
+
+  beforeAll(async () => {
+    jobId = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+    await pipelineService.create({
+      name: 'Engineering',
+      type: 'candidate',
+      jobId,
+      isDefault: false,
+      isActive: true,
+      stages: [
+        { id: 'sourced', name: 'Sourced', order: 0, isActive: true },
+        { id: 'screen', name: 'Screen', order: 1, isActive: true },
+      ],
+    } as any);
+  });
+
+  it('puts existing candidates attached to the job in its first stage', async () => {
+    const id = await candidateService.create({
+      firstName: 'Ann',
+      lastName: 'Lee',
+      email: 'ann@example.com',
+      jobIds: ['other-job'],
+      currentPipelineStageId: 'elsewhere',
+    } as any);
+
+    const record = await runImport([{ Name: 'Ann Lee', Email: 'ann@example.com' }]);
+
+    expect(record).toMatchObject({ attachedCount: 1, errorCount: 0 });
+    const candidate = await candidateService.findById(id);
+    expect(candidate).toMatchObject({ jobIds: ['other-job', jobId], currentPipelineStageId: 'sourced' });
+    expect(candidate!.stageEnteredAt).toBeInstanceOf(Date);
+  });
+
+  it('creates a candidate once when imports of the same email overlap', async () => {
+    const rows = [{ Name: 'Ben Roe', Email: 'ben@example.com' }];
+
+    const records = await Promise.all([runImport(rows), runImport(rows)]);
+
+    expect(records.reduce((sum, record) => sum + record.createdCount, 0)).toBe(1);
+    const [ben, ...others] = await withEmail('ben@example.com');
+    expect(others).toHaveLength(0);
+    expect(ben).toMatchObject({ jobIds: [jobId], currentPipelineStageId: 'sourced' });
+  });
+
+  it('attaches to the candidate holding the email when the lookup missed it', async () => {
+    await runImport([{ Name: 'Cat Poe', Email: 'cat@example.com' }]);
+    jest.spyOn(candidateService, 'findByEmail').mockResolvedValueOnce(null);
+
+    const record = await runImport([{ Name: 'Cat Poe', Email: 'cat@example.com' }]);
+
+    expect(record).toMatchObject({ createdCount: 0, skippedCount: 1, errorCount: 0 });
+    expect(await withEmail('cat@example.com')).toHaveLength(1);
+  });
+});
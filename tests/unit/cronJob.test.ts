@@ -0,0 +1,52 @@
+import cron from 'node-cron';
+import { createCronJob } from '../../src/jobs/cronJob';
+import logger from '../../src/utils/logger';
+
+describe('createCronJob', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('skips a run while the previous one is still in progress', async () => {
+    let finish!: () => void;
+    const task = jest.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const job = createCronJob('Test job', '* * * * *', task, { scheduleSetting: 'TEST_SCHEDULE' });
+
+    const first = job.run();
+    await job.run();
+    finish();
+    await first;
+    const third = job.run();
+    finish();
+    await third;
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs task errors instead of throwing them', async () => {
+    const error = jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const job = createCronJob('Test job', '* * * * *', () => Promise.reject(new Error('boom')), {
+      scheduleSetting: 'TEST_SCHEDULE',
+    });
+
+    await expect(job.run()).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalledWith('Test job failed:', expect.any(Error));
+  });
+
+  it('schedules valid schedules only, unless disabled', () => {
+    const stop = jest.fn();
+    const schedule = jest.spyOn(cron, 'schedule').mockReturnValue({ stop } as any);
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+    const task = () => Promise.resolve();
+
+    createCronJob('Invalid', 'every day', task, { scheduleSetting: 'TEST_SCHEDULE' }).start();
+    createCronJob('Disabled', '* * * * *', task, { scheduleSetting: 'TEST_SCHEDULE', disabledReason: 'off' }).start();
+    expect(schedule).not.toHaveBeenCalled();
+
+    const job = createCronJob('Valid', '0 2 * * *', task, { scheduleSetting: 'TEST_SCHEDULE', timezone: 'UTC' });
+    job.start();
+    expect(schedule).toHaveBeenCalledWith('0 2 * * *', job.run, { timezone: 'UTC' });
+    job.stop();
+    expect(stop).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { customFieldDefinitionService, jobService } from '../../src/services/firestore';
+import { buildCustomFieldFilters, resolveCustomFields } from '../../src/services/customFields.service';
+
+describe('custom fields', () => {
+  const define = (fields: Record<string, unknown>) =>
+    customFieldDefinitionService.create({
+      entityType: 'job',
+      required: false,
+      order: 0,
+      isActive: true,
+      ...fields,
+    } as any);
+
+  beforeAll(async () => {
+    await define({ key: 'notice_days', label: 'Notice period', type: 'number' });
+    await define({ key: 'remote', label: 'Remote', type: 'boolean' });
+    await define({ key: 'visa', label: 'Visa', type: 'select', options: ['H1B', 'None'] });
+    await define({ key: 'stack', label: 'Stack', type: 'multi_select', options: ['go', 'ts'] });
+    await define({ key: 'cost_center', label: 'Cost center', type: 'text', required: true, clientId: 'acme' });
+    await define({ key: 'legacy', label: 'Legacy', type: 'text', isActive: false });
+  });
+
+  describe('resolveCustomFields', () => {
+    it('converts values to their field type and merges them into the stored ones', async () => {
+      const values = await resolveCustomFields(
+        'job',
+        { notice_days: '30', remote: 'true', stack: ['go', 'go', 'ts'], visa: null },
+        { existing: { visa: 'H1B', notice_days: 60 } }
+      );
+
+      expect(values).toEqual({ notice_days: 30, remote: true, stack: ['go', 'ts'] });
+    });
+
+    it('rejects unknown keys, inactive fields and values outside the options', async () => {
+      await expect(
+        resolveCustomFields('job', { legacy: 'x', visa: 'L1', notice_days: 'soon' })
+      ).rejects.toThrow(
+        'Invalid custom fields: Unknown custom field "legacy" for job; Visa must be one of: H1B, None; Notice period must be a number'
+      );
+    });
+
+    it('only requires a client’s fields on that client’s records', async () => {
+      expect(await resolveCustomFields('job', {}, { clientIds: ['globex'], isCreate: true })).toEqual({});
+      await expect(resolveCustomFields('job', {}, { clientIds: ['acme'], isCreate: true })).rejects.toThrow(
+        'Cost center is required'
+      );
+    });
+  });
+
+  describe('buildCustomFieldFilters', () => {
+    it('filters records on their custom field values', async () => {
+      await jobService.create({ title: 'Short notice', customFields: { notice_days: 14, stack: ['go'] } } as any);
+      await jobService.create({ title: 'Long notice', customFields: { notice_days: 90, stack: ['go', 'ts'] } } as any);
+
+      const filters = await buildCustomFieldFilters('job', { notice_days: { lte: '30' }, stack: 'go' });
+      expect(filters).toEqual([
+        { field: 'customFields.notice_days', operator: '<=', value: 30 },
+        { field: 'customFields.stack', operator: 'array-contains', value: 'go' },
+      ]);
+      expect((await jobService.find(filters)).map((job) => job.title)).toEqual(['Short notice']);
+    });
+
+    it('rejects range filters on fields without an order', async () => {
+      await expect(buildCustomFieldFilters('job', { visa: { gt: 'H1B' } })).rejects.toThrow(
+        'Range filters are only supported on number and date fields'
+      );
+    });
+  });
+});
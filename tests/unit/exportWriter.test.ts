@@ -0,0 +1,135 @@
+import AdmZip from 'adm-zip';
+import { PassThrough, Writable } from 'stream';
+import { createExportWriter, ExportFormat, ExportValue } from '../../src/utils/exportWriter';
+import { parseXlsx } from '../../src/utils/spreadsheet';
+
+const COLUMNS = [
+  { key: 'name', label: 'Name' },
+  { key: 'score', label: 'Score' },
+  { key: 'active', label: 'Active' },
+];
+
+/**
+ * Run an export into memory and return the bytes written
+ */
+const runExport = async (
+  format: ExportFormat,
+  rows: ExportValue[][],
+  out: Writable = new PassThrough()
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  if (out instanceof PassThrough) {
+    out.on('data', (chunk: Buffer) => chunks.push(chunk));
+  }
+
+  const writer = await createExportWriter(format, out, COLUMNS, 'Candidates');
+  for (const row of rows) {
+    await writer.writeRow(row);
+  }
+  await writer.end();
+  return Buffer.concat(chunks);
+};
+
+describe('createExportWriter', () => {
+  describe('csv', () => {
+    it('writes a BOM, a header and CRLF-terminated rows', async () => {
+      const output = await runExport('csv', [['Jane', 7, true]]);
+      expect(output.toString('utf8')).toBe('﻿Name,Score,Active\r\nJane,7,true\r\n');
+    });
+
+    it('quotes delimiters, quotes and line breaks', async () => {
+      const output = await runExport('csv', [['Doe, "JJ"\nJane', null, undefined]]);
+      expect(output.toString('utf8')).toContain('"Doe, ""JJ""\nJane",,\r\n');
+    });
+
+    it('neutralizes text that spreadsheet apps would run as a formula', async () => {
+      const output = await runExport('csv', [['=HYPERLINK("x")', -3, '@sum']]);
+      expect(output.toString('utf8')).toContain(`"'=HYPERLINK(""x"")",-3,'@sum\r\n`);
+    });
+
+    it('writes dates as ISO timestamps', async () => {
+      const output = await runExport('csv', [['Jane', new Date('2024-03-01T10:00:00Z'), false]]);
+      expect(output.toString('utf8')).toContain('Jane,2024-03-01T10:00:00.000Z,false\r\n');
+    });
+  });
+
+  describe('ndjson', () => {
+    it('writes one object per row keyed by column, with null for missing values', async () => {
+      const output = await runExport('ndjson', [
+        ['Jane', 7, true],
+        ['John', undefined],
+      ]);
+      expect(output.toString('utf8').trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+        { name: 'Jane', score: 7, active: true },
+        { name: 'John', score: null, active: null },
+      ]);
+    });
+  });
+
+  describe('xlsx', () => {
+    it('writes a ZIP whose entries pass their CRC checks', async () => {
+      const output = await runExport('xlsx', [['Jane', 7, true]]);
+      const zip = new AdmZip(output);
+
+      expect(zip.getEntries().map((entry) => entry.entryName)).toEqual([
+        '[Content_Types].xml',
+        '_rels/.rels',
+        'xl/workbook.xml',
+        'xl/_rels/workbook.xml.rels',
+        'xl/worksheets/sheet1.xml',
+      ]);
+      zip.getEntries().forEach((entry) => {
+        // getData inflates the entry and throws on a CRC or size mismatch
+        expect(entry.getData().length).toBe(entry.header.size);
+      });
+      expect(zip.readAsText('xl/workbook.xml')).toContain('<sheet name="Candidates"');
+    });
+
+    it('stores the standard CRC-32 of a part', async () => {
+      const zip = new AdmZip(await runExport('xlsx', []));
+      const entry = zip.getEntry('_rels/.rels')!;
+      const data = entry.getData();
+
+      // Reference CRC-32 (IEEE 802.3, reflected 0xEDB88320)
+      let crc = 0xffffffff;
+      for (const byte of data) {
+        crc ^= byte;
+        for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+      }
+      expect(entry.header.crc).toBe((crc ^ 0xffffffff) >>> 0);
+    });
+
+    it('round-trips typed cells through the spreadsheet reader', async () => {
+      const output = await runExport('xlsx', [
+        ['Jane <Doe> & Co', 42.5, true],
+        ['', null, false],
+        ['Tab\u0001Char', Number.NaN, undefined],
+      ]);
+
+      expect(parseXlsx(output)).toEqual([
+        ['Name', 'Score', 'Active'],
+        ['Jane <Doe> & Co', '42.5', 'true'],
+        ['', '', 'false'],
+        ['TabChar', 'NaN'],
+      ]);
+    });
+
+    it('waits for a slow output to drain', async () => {
+      const chunks: Buffer[] = [];
+      const slow = new Writable({
+        highWaterMark: 16,
+        write(chunk, _encoding, callback) {
+          chunks.push(chunk);
+          setImmediate(callback);
+        },
+      });
+      const rows = Array.from({ length: 200 }, (_, index) => [`Candidate ${index}`, index, index % 2 === 0]);
+
+      await runExport('xlsx', rows, slow);
+
+      const sheet = parseXlsx(Buffer.concat(chunks));
+      expect(sheet).toHaveLength(201);
+      expect(sheet[200]).toEqual(['Candidate 199', '199', 'false']);
+    });
+  });
+});
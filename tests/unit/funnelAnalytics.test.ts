@@ -0,0 +1,84 @@
+import { getFirestoreDB } from '../../src/config/firebase';
+import { candidateService, pipelineService } from '../../src/services/firestore';
+import { buildFunnelReport } from '../../src/services/funnelAnalytics.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+describe('buildFunnelReport', () => {
+  let oldId: string;
+
+  const apply = (name: string, appliedDaysAgo: number, history: Array<[string, string, number]>, status = 'active') =>
+    candidateService.create({
+      firstName: name,
+      lastName: 'Doe',
+      email: `${name.toLowerCase()}@example.com`,
+      jobIds: ['job'],
+      jobApplications: [
+        {
+          jobId: 'job',
+          status,
+          appliedAt: daysAgo(appliedDaysAgo),
+          currentStage: history.length ? history[history.length - 1][1] : 'applied',
+          stageHistory: history.map(([fromStageId, toStageId, changedDaysAgo]) => ({
+            fromStageId,
+            toStageId,
+            changedAt: daysAgo(changedDaysAgo),
+          })),
+        },
+      ],
+    } as any);
+
+  beforeAll(async () => {
+    await pipelineService.create({
+      name: 'Engineering',
+      type: 'candidate',
+      jobId: 'job',
+      isDefault: false,
+      isActive: true,
+      stages: [
+        { id: 'applied', name: 'Applied', order: 0 },
+        { id: 'screen', name: 'Screen', order: 1 },
+        { id: 'offer', name: 'Offer', order: 2 },
+      ],
+    } as any);
+
+    await apply('Ann', 20, [['applied', 'screen', 16], ['screen', 'offer', 10]], 'hired');
+    await apply('Ben', 10, [['applied', 'screen', 8]]);
+    await apply('Cat', 5, []);
+    oldId = await apply('Old', 200, [['applied', 'screen', 190]]);
+    // Untouched since long before the range
+    await getFirestoreDB().collection('candidates').doc(oldId).update({ updatedAt: daysAgo(190) });
+  });
+
+  it('measures conversion and time in stage per stage', async () => {
+    const report = await buildFunnelReport({ jobId: 'job', from: daysAgo(30) });
+
+    expect(report.totals).toMatchObject({ applications: 3, hired: 1, active: 2 });
+    expect(report.stages.map((stage) => [stage.name, stage.entered, stage.advanced])).toEqual([
+      ['Applied', 3, 2],
+      ['Screen', 2, 1],
+      ['Offer', 1, 1],
+    ]);
+    expect(report.stages[1].medianDaysInStage).toBe(6);
+  });
+
+  it('only reads candidates updated since the start of the range', async () => {
+    const findPage = jest.spyOn(candidateService, 'findPage');
+
+    await buildFunnelReport({ from: daysAgo(30) });
+
+    const read = (await Promise.all(findPage.mock.results.map((result) => result.value))).flatMap(
+      (page) => page.items.map((candidate: { id: string }) => candidate.id)
+    );
+    expect(read).toHaveLength(3);
+    expect(read).not.toContain(oldId);
+    findPage.mockRestore();
+  });
+
+  it('reads every candidate without a start date', async () => {
+    const report = await buildFunnelReport({ jobId: 'job' });
+
+    expect(report.totals.applications).toBe(4);
+  });
+});
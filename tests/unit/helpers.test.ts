@@ -0,0 +1,26 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { escapeHtml, toDate } from '../../src/utils/helpers';
+
+describe('toDate', () => {
+  it('reads dates, timestamps, strings and epoch milliseconds', () => {
+    const date = new Date('2026-03-02T10:00:00Z');
+
+    expect(toDate(date)).toBe(date);
+    expect(toDate(Timestamp.fromDate(date))).toEqual(date);
+    expect(toDate('2026-03-02T10:00:00Z')).toEqual(date);
+    expect(toDate(date.getTime())).toEqual(date);
+  });
+
+  it('returns null for missing or unparsable values', () => {
+    expect(toDate(undefined)).toBeNull();
+    expect(toDate(null)).toBeNull();
+    expect(toDate('')).toBeNull();
+    expect(toDate('next tuesday')).toBeNull();
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes markup and double quotes', () => {
+    expect(escapeHtml('<a href="x">Tom & Jerry</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&lt;/a&gt;');
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  buildCalendar,
+  CalendarEvent,
+  escapeCalendarText,
+  foldCalendarLine,
+  formatCalendarDate,
+} from '../../src/utils/icalendar';
+
+const event: CalendarEvent = {
+  uid: 'interview-123@ats',
+  sequence: 2,
+  start: new Date('2026-01-02T03:04:05.678Z'),
+  end: new Date('2026-01-02T04:04:05Z'),
+  summary: 'Interview: Jane Doe',
+  status: 'CONFIRMED',
+  organizer: { email: 'recruiter@example.com', name: 'Doe, Recruiter' },
+  attendees: [{ email: 'jane@example.com', name: 'Jane "JD" Doe' }, { email: 'panel@example.com' }],
+};
+
+/**
+ * Undo line folding (RFC 5545 3.1) and split into content lines
+ */
+const unfold = (calendar: string): string[] =>
+  calendar.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+describe('formatCalendarDate', () => {
+  it('formats a UTC DATE-TIME without milliseconds', () => {
+    expect(formatCalendarDate(new Date('2026-01-02T03:04:05.678Z'))).toBe('20260102T030405Z');
+  });
+});
+
+describe('escapeCalendarText', () => {
+  it('escapes backslashes, separators and line breaks', () => {
+    expect(escapeCalendarText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldCalendarLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = 'x'.repeat(75);
+    expect(foldCalendarLine(line)).toBe(line);
+  });
+
+  it('folds at 75 octets with continuation lines of 74 plus a space', () => {
+    const folded = foldCalendarLine('x'.repeat(200));
+    const lines = folded.split('\r\n');
+
+    expect(lines.map((line) => line.length)).toEqual([75, 75, 52]);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(folded.replace(/\r\n /g, '')).toBe('x'.repeat(200));
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const lines = foldCalendarLine(line).split('\r\n');
+
+    lines.forEach((part) => {
+      expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75);
+      expect(part).not.toContain('�');
+    });
+    expect(lines.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
+
+describe('buildCalendar', () => {
+  const now = new Date('2025-12-01T09:00:00Z');
+
+  it('wraps events in a VCALENDAR with CRLF line endings', () => {
+    const calendar = buildCalendar([event], { method: 'REQUEST', name: 'Interviews, Team A', now });
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(unfold(calendar)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//ATS//Interviews//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+      'X-WR-CALNAME:Interviews\\, Team A',
+      'BEGIN:VEVENT',
+      'UID:interview-123@ats',
+      'SEQUENCE:2',
+      'DTSTAMP:20251201T090000Z',
+      'DTSTART:20260102T030405Z',
+      'DTEND:20260102T040405Z',
+      'SUMMARY:Interview: Jane Doe',
+      'STATUS:CONFIRMED',
+      'ORGANIZER;CN="Doe, Recruiter":mailto:recruiter@example.com',
+      "ATTENDEE;CN=Jane 'JD' Doe;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:jane@example.com",
+      'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:panel@example.com',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]);
+  });
+
+  it('folds long lines in the output', () => {
+    const calendar = buildCalendar([{ ...event, description: 'Bring a laptop. '.repeat(20) }], { now });
+
+    calendar
+      .split('\r\n')
+      .forEach((line) => expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75));
+    expect(unfold(calendar)).toContain(`DESCRIPTION:${'Bring a laptop. '.repeat(20)}`);
+  });
+
+  it('leaves out METHOD for feeds and asks no RSVP for cancellations', () => {
+    const lines = unfold(
+      buildCalendar([{ ...event, status: 'CANCELLED', lastModified: now, location: 'Room 1; HQ' }], {
+        now,
+      })
+    );
+
+    expect(lines.some((line) => line.startsWith('METHOD'))).toBe(false);
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('LAST-MODIFIED:20251201T090000Z');
+    expect(lines).toContain('LOCATION:Room 1\\; HQ');
+    expect(lines.filter((line) => line.startsWith('ATTENDEE')).every((line) => line.includes('RSVP=FALSE'))).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,272 @@
+import { interviewService, userAvailabilityService } from '../../src/services/firestore';
+import {
+  findCommonFreeSlots,
+  findSchedulingConflicts,
+  isBlockingConflict,
+} from '../../src/services/interviewAvailability.service';
+
+// Monday 2 March 2026; New York is on EST (UTC-5) until 8 March
+const MONDAY = '2026-03-02';
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+let nextId = 0;
+const uniqueId = (prefix: string) => `${prefix}-${++nextId}`;
+
+const at = (time: string) => new Date(`${time}Z`);
+const starts = (slots: Array<{ start: Date }>) => slots.map((slot) => slot.start.toISOString());
+
+const setAvailability = (
+  userId: string,
+  timezone: string,
+  options: { hours?: [string, string]; days?: number[]; timeOff?: Array<[string, string]> } = {}
+) =>
+  userAvailabilityService.createWithId(userId, {
+    userId,
+    timezone,
+    workingHours: (options.days || [1, 2, 3, 4, 5]).map((day) => ({
+      day,
+      start: options.hours?.[0] || '09:00',
+      end: options.hours?.[1] || '17:00',
+    })),
+    timeOff: (options.timeOff || []).map(([start, end], index) => ({
+      id: `off-${index}`,
+      start: at(start),
+      end: at(end),
+      reason: 'Vacation',
+    })),
+  });
+
+const bookInterview = async (fields: {
+  interviewerIds: string[];
+  candidateId?: string;
+  scheduledAt: string;
+  duration: number;
+  status?: string;
+}) =>
+  interviewService.create({
+    title: 'Phone screen',
+    candidateId: fields.candidateId || uniqueId('candidate'),
+    interviewerIds: fields.interviewerIds,
+    scheduledAt: at(fields.scheduledAt),
+    duration: fields.duration,
+    status: fields.status || 'scheduled',
+  } as any);
+
+describe('findCommonFreeSlots', () => {
+  it('uses Monday to Friday 09:00-17:00 for users without availability', async () => {
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [uniqueId('user')],
+      duration: 60,
+      from: at(`${MONDAY}T08:00:00`),
+      to: at(`${MONDAY}T12:00:00`),
+      now: NOW,
+    });
+
+    expect(starts(slots)).toEqual([
+      `${MONDAY}T09:00:00.000Z`,
+      `${MONDAY}T09:30:00.000Z`,
+      `${MONDAY}T10:00:00.000Z`,
+      `${MONDAY}T10:30:00.000Z`,
+      `${MONDAY}T11:00:00.000Z`,
+    ]);
+    expect(slots[0].end.toISOString()).toBe(`${MONDAY}T10:00:00.000Z`);
+  });
+
+  it('finds no slots on a weekend', async () => {
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [uniqueId('user')],
+      duration: 30,
+      from: at('2026-03-07T00:00:00'),
+      to: at('2026-03-09T00:00:00'),
+      now: NOW,
+    });
+
+    expect(slots).toEqual([]);
+  });
+
+  it('intersects working hours across timezones', async () => {
+    const newYork = uniqueId('user');
+    const london = uniqueId('user');
+    await setAvailability(newYork, 'America/New_York');
+    await setAvailability(london, 'Europe/London');
+
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [newYork, london],
+      duration: 60,
+      step: 60,
+      from: at(`${MONDAY}T00:00:00`),
+      to: at(`${MONDAY}T23:59:00`),
+      now: NOW,
+    });
+
+    // New York 09:00 EST is 14:00 UTC; London closes at 17:00 UTC
+    expect(starts(slots)).toEqual([
+      `${MONDAY}T14:00:00.000Z`,
+      `${MONDAY}T15:00:00.000Z`,
+      `${MONDAY}T16:00:00.000Z`,
+    ]);
+  });
+
+  it('follows daylight saving time changes', async () => {
+    const newYork = uniqueId('user');
+    await setAvailability(newYork, 'America/New_York', { hours: ['09:00', '10:00'] });
+
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [newYork],
+      duration: 60,
+      from: at(`${MONDAY}T00:00:00`),
+      to: at('2026-03-10T00:00:00'),
+      now: NOW,
+    });
+
+    // 09:00 is 14:00 UTC on EST and 13:00 UTC on EDT (from Sunday 8 March)
+    expect(starts(slots)).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-03T14:00:00.000Z',
+      '2026-03-04T14:00:00.000Z',
+      '2026-03-05T14:00:00.000Z',
+      '2026-03-06T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+    ]);
+  });
+
+  it('skips booked interviews, time off and the candidate’s interviews', async () => {
+    const interviewer = uniqueId('user');
+    const candidateId = uniqueId('candidate');
+    await setAvailability(interviewer, 'UTC', {
+      hours: ['09:00', '14:00'],
+      timeOff: [[`${MONDAY}T12:00:00`, `${MONDAY}T13:00:00`]],
+    });
+    await bookInterview({ interviewerIds: [interviewer], scheduledAt: `${MONDAY}T09:30:00`, duration: 45 });
+    await bookInterview({
+      interviewerIds: [interviewer],
+      scheduledAt: `${MONDAY}T11:00:00`,
+      duration: 60,
+      status: 'cancelled',
+    });
+    await bookInterview({
+      interviewerIds: [uniqueId('user')],
+      candidateId,
+      scheduledAt: `${MONDAY}T13:00:00`,
+      duration: 30,
+    });
+
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [interviewer],
+      candidateId,
+      duration: 30,
+      from: at(`${MONDAY}T09:00:00`),
+      to: at(`${MONDAY}T14:00:00`),
+      now: NOW,
+    });
+
+    expect(starts(slots)).toEqual([
+      `${MONDAY}T09:00:00.000Z`,
+      `${MONDAY}T10:30:00.000Z`,
+      `${MONDAY}T11:00:00.000Z`,
+      `${MONDAY}T11:30:00.000Z`,
+      `${MONDAY}T13:30:00.000Z`,
+    ]);
+  });
+
+  it('ignores the interview being rescheduled', async () => {
+    const interviewer = uniqueId('user');
+    const interviewId = await bookInterview({
+      interviewerIds: [interviewer],
+      scheduledAt: `${MONDAY}T09:00:00`,
+      duration: 60,
+    });
+
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [interviewer],
+      duration: 60,
+      step: 60,
+      from: at(`${MONDAY}T09:00:00`),
+      to: at(`${MONDAY}T10:00:00`),
+      excludeInterviewId: interviewId,
+      now: NOW,
+    });
+
+    expect(starts(slots)).toEqual([`${MONDAY}T09:00:00.000Z`]);
+  });
+
+  it('starts slots on step boundaries after now and stops at the limit', async () => {
+    const slots = await findCommonFreeSlots({
+      interviewerIds: [uniqueId('user')],
+      duration: 30,
+      step: 15,
+      limit: 3,
+      from: at(`${MONDAY}T00:00:00`),
+      to: at(`${MONDAY}T17:00:00`),
+      now: at(`${MONDAY}T10:05:00`),
+    });
+
+    expect(starts(slots)).toEqual([
+      `${MONDAY}T10:15:00.000Z`,
+      `${MONDAY}T10:30:00.000Z`,
+      `${MONDAY}T10:45:00.000Z`,
+    ]);
+  });
+});
+
+describe('findSchedulingConflicts', () => {
+  it('reports busy interviewers, candidates and time off as blocking', async () => {
+    const interviewer = uniqueId('user');
+    const candidateId = uniqueId('candidate');
+    await setAvailability(interviewer, 'UTC', {
+      timeOff: [[`${MONDAY}T10:30:00`, `${MONDAY}T18:00:00`]],
+    });
+    const interviewId = await bookInterview({
+      interviewerIds: [interviewer],
+      candidateId,
+      scheduledAt: `${MONDAY}T09:30:00`,
+      duration: 60,
+    });
+
+    const conflicts = await findSchedulingConflicts({
+      interviewerIds: [interviewer, interviewer],
+      candidateId,
+      scheduledAt: at(`${MONDAY}T10:00:00`),
+      duration: 60,
+    });
+
+    expect(conflicts.map((conflict) => [conflict.type, conflict.interviewId])).toEqual([
+      ['interviewer_busy', interviewId],
+      ['time_off', undefined],
+      ['candidate_busy', interviewId],
+    ]);
+    expect(conflicts.every(isBlockingConflict)).toBe(true);
+    expect(conflicts[1].message).toContain('(Vacation)');
+  });
+
+  it('warns about slots outside set working hours without blocking', async () => {
+    const withHours = uniqueId('user');
+    const withoutHours = uniqueId('user');
+    await setAvailability(withHours, 'America/New_York');
+
+    const conflicts = await findSchedulingConflicts({
+      interviewerIds: [withHours, withoutHours],
+      // 09:00 in London is 04:00 in New York
+      scheduledAt: at(`${MONDAY}T09:00:00`),
+      duration: 30,
+      timezone: 'Europe/London',
+    });
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ type: 'outside_working_hours', userId: withHours });
+    expect(isBlockingConflict(conflicts[0])).toBe(false);
+  });
+
+  it('does not count back-to-back interviews as overlapping', async () => {
+    const interviewer = uniqueId('user');
+    await bookInterview({ interviewerIds: [interviewer], scheduledAt: `${MONDAY}T09:00:00`, duration: 60 });
+
+    const conflicts = await findSchedulingConflicts({
+      interviewerIds: [interviewer],
+      scheduledAt: at(`${MONDAY}T10:00:00`),
+      duration: 60,
+    });
+
+    expect(conflicts).toEqual([]);
+  });
+});
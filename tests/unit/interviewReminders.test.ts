@@ -0,0 +1,77 @@
+import {
+  candidateService,
+  interviewReminderService,
+  interviewService,
+  jobService,
+  userService,
+} from '../../src/services/firestore';
+import {
+  sendDueInterviewReminders,
+  syncInterviewReminders,
+  syncUpcomingInterviewReminders,
+} from '../../src/services/interviewReminders.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SCHEDULED_AT = new Date('2026-03-02T10:00:00Z');
+const hoursBefore = (hours: number) => new Date(SCHEDULED_AT.getTime() - hours * HOUR_MS);
+
+describe('interview reminders', () => {
+  let interviewId: string;
+
+  const remindersOf = async (recipientType: string) =>
+    (await interviewReminderService.findByInterviewId(interviewId))
+      .filter((reminder) => reminder.recipientType === recipientType)
+      .sort((a, b) => a.offsetMinutes - b.offsetMinutes);
+
+  beforeAll(async () => {
+    const interviewerId = await userService.create({
+      email: 'interviewer@example.com',
+      firstName: 'Ivy',
+      lastName: 'Interviewer',
+      role: 'interviewer',
+      isActive: true,
+    } as any);
+    const candidateId = await candidateService.create({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+    } as any);
+    const jobId = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+    interviewId = await interviewService.create({
+      candidateId,
+      jobId,
+      title: 'Phone screen',
+      type: 'phone',
+      status: 'scheduled',
+      scheduledAt: SCHEDULED_AT,
+      duration: 60,
+      timezone: 'UTC',
+      interviewerIds: [interviewerId],
+    } as any);
+  });
+
+  it('plans reminders for interviews stored with date scheduledAt values', async () => {
+    // Outside the longest (24 hour) offset the sweep leaves the interview alone
+    expect(await syncUpcomingInterviewReminders(hoursBefore(25))).toBe(0);
+
+    expect(await syncUpcomingInterviewReminders(hoursBefore(23))).toBe(2);
+    expect((await remindersOf('candidate')).map((reminder) => reminder.offsetMinutes)).toEqual([60]);
+  });
+
+  it('skips superseded reminders unless they changed since they were read', async () => {
+    expect((await syncInterviewReminders(await interviewService.findById(interviewId), hoursBefore(25))).created).toBe(2);
+
+    // Both reminders per recipient are due at once, as after downtime
+    const sendAt = hoursBefore(0.5);
+    const due = await interviewReminderService.findDue(sendAt);
+    const [, interviewerDayBefore] = await remindersOf('interviewer');
+    await interviewReminderService.update(interviewerDayBefore.id!, { status: 'cancelled', reason: 'Manual' });
+    jest.spyOn(interviewReminderService, 'findDue').mockResolvedValueOnce(due);
+
+    const result = await sendDueInterviewReminders(sendAt);
+
+    expect(result).toEqual({ sent: 2, skipped: 1, failed: 0 });
+    expect((await remindersOf('candidate')).map((reminder) => reminder.status)).toEqual(['sent', 'skipped']);
+    expect((await remindersOf('interviewer')).map((reminder) => reminder.status)).toEqual(['sent', 'cancelled']);
+  });
+});
@@ -0,0 +1,219 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FieldPath, FieldValue, Filter, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { createMemoryFirestore } from '../../src/config/memoryFirestore';
+
+const ids = (snapshot: { docs: Array<{ id: string }> }) => snapshot.docs.map((doc) => doc.id);
+
+describe('memory Firestore driver', () => {
+  let db: Firestore;
+
+  beforeEach(async () => {
+    db = createMemoryFirestore();
+    const candidates = db.collection('candidates');
+    await candidates.doc('a').set({ name: 'Ann', score: 90, tags: ['react'], city: 'Berlin', owner: { id: 'u1' } });
+    await candidates.doc('b').set({ name: 'Bob', score: 70, tags: ['vue', 'react'], city: 'Paris', owner: 'u2' });
+    await candidates.doc('c').set({ name: 'Cid', score: 70, tags: [], city: null });
+    await candidates.doc('d').set({ name: 'Dee', tags: ['go'] });
+  });
+
+  describe('queries', () => {
+    it('applies field filters', async () => {
+      const candidates = db.collection('candidates');
+
+      expect(ids(await candidates.where('score', '==', 70).get())).toEqual(['b', 'c']);
+      expect(ids(await candidates.where('score', '>', 70).get())).toEqual(['a']);
+      expect(ids(await candidates.where('tags', 'array-contains', 'react').get())).toEqual(['a', 'b']);
+      expect(ids(await candidates.where('tags', 'array-contains-any', ['go', 'vue']).get())).toEqual([
+        'b',
+        'd',
+      ]);
+      expect(ids(await candidates.where('city', 'in', ['Paris', null]).get())).toEqual(['b', 'c']);
+      expect(ids(await candidates.where('owner.id', '==', 'u1').get())).toEqual(['a']);
+      expect(ids(await candidates.where(FieldPath.documentId(), 'in', ['c', 'z']).get())).toEqual(['c']);
+    });
+
+    it('never matches missing fields, and != and not-in skip nulls', async () => {
+      const candidates = db.collection('candidates');
+
+      expect(ids(await candidates.where('score', '<', 100).get())).toEqual(['a', 'b', 'c']);
+      expect(ids(await candidates.where('city', '!=', 'Paris').get())).toEqual(['a']);
+      expect(ids(await candidates.where('city', 'not-in', ['Berlin']).get())).toEqual(['b']);
+      expect(ids(await candidates.where('city', '==', null).get())).toEqual(['c']);
+    });
+
+    it('evaluates composite or/and filters', async () => {
+      const snapshot = await db
+        .collection('candidates')
+        .where(
+          Filter.or(
+            Filter.where('owner', '==', 'u2'),
+            Filter.where('owner.id', '==', 'u1'),
+            Filter.and(Filter.where('score', '==', 70), Filter.where('name', '==', 'Cid'))
+          )
+        )
+        .get();
+
+      expect(ids(snapshot)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('orders with document ID tiebreaks and drops documents missing the field', async () => {
+      const snapshot = await db.collection('candidates').orderBy('score', 'desc').get();
+      expect(ids(snapshot)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('pages with cursors, offset and limit', async () => {
+      const ordered = db.collection('candidates').orderBy('score').orderBy(FieldPath.documentId());
+      const first = await ordered.limit(2).get();
+      expect(ids(first)).toEqual(['b', 'c']);
+
+      expect(ids(await ordered.startAfter(first.docs[1]).get())).toEqual(['a']);
+      expect(ids(await ordered.startAfter(70, 'b').get())).toEqual(['c', 'a']);
+      expect(ids(await ordered.startAt(70, 'c').get())).toEqual(['c', 'a']);
+      expect(ids(await ordered.offset(1).limit(1).get())).toEqual(['c']);
+    });
+
+    it('counts matches ignoring limit and offset', async () => {
+      const count = await db.collection('candidates').where('score', '>=', 70).limit(1).count().get();
+      expect(count.data().count).toBe(3);
+    });
+  });
+
+  describe('writes', () => {
+    it('stores dates as timestamps and drops undefined fields', async () => {
+      const ref = db.collection('events').doc('e1');
+      await ref.set({ at: new Date('2024-01-01T00:00:00Z'), note: undefined, nested: { skip: undefined } });
+
+      const data = (await ref.get()).data()!;
+      expect(data.at).toBeInstanceOf(Timestamp);
+      expect(data.at.toDate().toISOString()).toBe('2024-01-01T00:00:00.000Z');
+      expect(data).toEqual({ at: data.at, nested: {} });
+    });
+
+    it('applies field value sentinels and dotted update paths', async () => {
+      const ref = db.collection('candidates').doc('a');
+      await ref.update({
+        score: FieldValue.increment(5),
+        tags: FieldValue.arrayUnion('react', 'node'),
+        city: FieldValue.delete(),
+        'owner.name': 'Uma',
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      const data = (await ref.get()).data()!;
+      expect(data).toMatchObject({ score: 95, tags: ['react', 'node'], owner: { id: 'u1', name: 'Uma' } });
+      expect(data).not.toHaveProperty('city');
+      expect(data.updatedAt).toBeInstanceOf(Timestamp);
+
+      await ref.update({ tags: FieldValue.arrayRemove('react') });
+      expect((await ref.get()).get('tags')).toEqual(['node']);
+    });
+
+    it('merges nested objects on set with merge', async () => {
+      const ref = db.collection('candidates').doc('a');
+      await ref.set({ owner: { name: 'Uma' }, score: 1 }, { merge: true });
+
+      expect((await ref.get()).data()).toMatchObject({ name: 'Ann', score: 1, owner: { id: 'u1', name: 'Uma' } });
+    });
+
+    it('rejects creating an existing document and updating a missing one', async () => {
+      await expect(db.collection('candidates').doc('a').create({ name: 'Again' })).rejects.toMatchObject({
+        code: 6,
+      });
+      await expect(db.collection('candidates').doc('zz').update({ name: 'Nobody' })).rejects.toMatchObject({
+        code: 5,
+      });
+    });
+
+    it('commits batches atomically', async () => {
+      const batch = db.batch();
+      batch.update(db.collection('candidates').doc('a'), { score: 1 });
+      batch.create(db.collection('candidates').doc('b'), { name: 'Duplicate' });
+
+      await expect(batch.commit()).rejects.toMatchObject({ code: 6 });
+      expect((await db.collection('candidates').doc('a').get()).get('score')).toBe(90);
+    });
+
+    it('keeps returned data independent of the store', async () => {
+      const snapshot = await db.collection('candidates').doc('a').get();
+      snapshot.data()!.tags.push('mutated');
+
+      expect((await db.collection('candidates').doc('a').get()).get('tags')).toEqual(['react']);
+    });
+  });
+
+  describe('transactions', () => {
+    it('retries when a document read by the transaction changes before commit', async () => {
+      const ref = db.collection('counters').doc('c');
+      await ref.set({ value: 0 });
+
+      let attempts = 0;
+      await db.runTransaction(async (transaction) => {
+        attempts++;
+        const value = (await transaction.get(ref)).get('value');
+        if (attempts === 1) {
+          await ref.update({ value: 10 });
+        }
+        transaction.update(ref, { value: value + 1 });
+      });
+
+      expect(attempts).toBe(2);
+      expect((await ref.get()).get('value')).toBe(11);
+    });
+
+    it('requires reads before writes', async () => {
+      const ref = db.collection('counters').doc('c');
+      await expect(
+        db.runTransaction(async (transaction) => {
+          transaction.set(ref, { value: 1 });
+          await transaction.get(ref);
+        })
+      ).rejects.toThrow('reads to be executed before all writes');
+    });
+
+    it('writes nothing when the update function throws', async () => {
+      const ref = db.collection('candidates').doc('a');
+      await expect(
+        db.runTransaction(async (transaction) => {
+          await transaction.get(ref);
+          transaction.update(ref, { score: 0 });
+          throw new Error('abort');
+        })
+      ).rejects.toThrow('abort');
+
+      expect((await ref.get()).get('score')).toBe(90);
+    });
+  });
+
+  it('notifies snapshot listeners of writes to the collection', async () => {
+    const sizes: number[] = [];
+    const unsubscribe = db
+      .collection('candidates')
+      .where('score', '==', 70)
+      .onSnapshot((snapshot) => sizes.push(snapshot.size));
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await db.collection('candidates').doc('d').update({ score: 70 });
+    await new Promise((resolve) => setImmediate(resolve));
+    unsubscribe();
+
+    expect(sizes).toEqual([2, 3]);
+  });
+
+  it('persists to a data file and loads it back', async () => {
+    const dataFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'memory-firestore-')), 'data.json');
+    try {
+      const first = createMemoryFirestore({ dataFile });
+      await first.collection('jobs').doc('j1').set({ title: 'Engineer', openedAt: new Date('2024-05-01T00:00:00Z') });
+      await first.terminate();
+
+      const second = createMemoryFirestore({ dataFile });
+      const data = (await second.collection('jobs').doc('j1').get()).data()!;
+      expect(data.title).toBe('Engineer');
+      expect(data.openedAt.toDate().toISOString()).toBe('2024-05-01T00:00:00.000Z');
+    } finally {
+      fs.rmSync(path.dirname(dataFile), { recursive: true, force: true });
+    }
+  });
+});
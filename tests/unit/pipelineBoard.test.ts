@@ -0,0 +1,111 @@
+import {
+  candidateService,
+  interviewService,
+  pipelineBoardOrderService,
+} from '../../src/services/firestore';
+import { buildPipelineBoard } from '../../src/services/pipelineBoard.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('buildPipelineBoard', () => {
+  const pipeline = {
+    id: 'pipeline',
+    name: 'Engineering',
+    type: 'candidate',
+    stages: [
+      { id: 'applied', name: 'Applied', order: 0, isActive: true },
+      { id: 'screen', name: 'Screen', order: 1, isActive: true },
+    ],
+  } as any;
+  const ids: Record<string, string> = {};
+
+  const addCandidate = async (name: string, stageId: string, daysAgo: number, fields: Record<string, unknown> = {}) => {
+    ids[name] = await candidateService.create({
+      firstName: name,
+      lastName: 'Doe',
+      email: `${name.toLowerCase()}@example.com`,
+      currentPipelineStageId: stageId,
+      stageEnteredAt: new Date(Date.now() - daysAgo * DAY_MS),
+      ...fields,
+    } as any);
+  };
+  const names = (column: { cards: Array<{ name: string }> }) =>
+    column.cards.map((card) => card.name.split(' ')[0]);
+
+  beforeAll(async () => {
+    await addCandidate('Ann', 'applied', 5);
+    await addCandidate('Ben', 'applied', 4, { assignedTo: { _id: 'recruiter-1' } });
+    await addCandidate('Cat', 'applied', 3);
+    await addCandidate('Dan', 'applied', 2, { assignedTo: 'recruiter-1' });
+    await addCandidate('Eve', 'applied', 1);
+    await addCandidate('Fay', 'screen', 1);
+
+    // Cat and Ann were sorted by hand; Fay has since moved on
+    await pipelineBoardOrderService.createWithId(pipelineBoardOrderService.orderId('pipeline', 'applied'), {
+      pipelineId: 'pipeline',
+      stageId: 'applied',
+      candidateIds: [ids.Cat, ids.Fay, ids.Ann],
+    });
+  });
+
+  it('pages a column in saved order, then newest arrivals first', async () => {
+    const first = await buildPipelineBoard(pipeline, { page: 1, limit: 3 });
+    const second = await buildPipelineBoard(pipeline, { page: 2, limit: 3 });
+
+    expect(names(first.stages[0])).toEqual(['Cat', 'Ann', 'Eve']);
+    expect(names(second.stages[0])).toEqual(['Dan', 'Ben']);
+    expect(first.stages[0].pagination).toEqual({ page: 1, limit: 3, total: 5, pages: 2, hasMore: true });
+    expect(names(first.stages[1])).toEqual(['Fay']);
+  });
+
+  it('counts the other columns without loading them when paging one stage', async () => {
+    const find = jest.spyOn(candidateService, 'find');
+
+    const board = await buildPipelineBoard(pipeline, { page: 1, limit: 2, stageId: 'screen' });
+
+    expect(board.stages.map((stage) => [stage.count, names(stage)])).toEqual([
+      [5, []],
+      [1, ['Fay']],
+    ]);
+    find.mock.calls.forEach(([filters]) =>
+      expect(filters).toContainEqual({ field: 'currentPipelineStageId', operator: '==', value: 'screen' })
+    );
+    find.mockRestore();
+  });
+
+  it('filters by assignee, including legacy { _id } assignments', async () => {
+    const board = await buildPipelineBoard(pipeline, { page: 1, limit: 10, assignedTo: 'recruiter-1' });
+
+    expect(board.stages[0].count).toBe(2);
+    expect(names(board.stages[0])).toEqual(['Dan', 'Ben']);
+  });
+
+  it('looks up the next interviews of all cards in batches', async () => {
+    const interview = (candidateId: string, daysAhead: number, status = 'scheduled') =>
+      interviewService.create({
+        candidateId,
+        jobId: 'job',
+        title: `In ${daysAhead} days`,
+        type: 'video',
+        status,
+        scheduledAt: new Date(Date.now() + daysAhead * DAY_MS),
+        duration: 60,
+      } as any);
+    await interview(ids.Ann, -1);
+    await interview(ids.Ann, 3);
+    await interview(ids.Ann, 2, 'cancelled');
+    const next = await interview(ids.Ann, 7 / 24);
+    await interview(ids.Fay, 1, 'confirmed');
+    const find = jest.spyOn(interviewService, 'find');
+
+    const board = await buildPipelineBoard(pipeline, { page: 1, limit: 10 });
+
+    const card = (name: string) =>
+      board.stages.flatMap((stage) => stage.cards).find((item) => item.name.startsWith(name))!;
+    expect(card('Ann').nextInterview!.id).toBe(next);
+    expect(card('Fay').nextInterview!.title).toBe('In 1 days');
+    expect(card('Ben').nextInterview).toBeNull();
+    expect(find).toHaveBeenCalledTimes(1);
+    find.mockRestore();
+  });
+});
@@ -0,0 +1,43 @@
+import { candidateService, pipelineService } from '../../src/services/firestore';
+import { applyPipelineMigration, planPipelineMigration } from '../../src/services/pipelineMigration.service';
+
+describe('applyPipelineMigration', () => {
+  it('records the move on applications whose job was stored as a populated object', async () => {
+    const pipelineId = await pipelineService.create({
+      name: 'Engineering',
+      type: 'candidate',
+      jobId: 'job',
+      isDefault: false,
+      isActive: true,
+      stages: [
+        { id: 'applied', name: 'Applied', order: 0, isActive: true },
+        { id: 'phone', name: 'Phone', order: 1, isActive: true },
+        { id: 'screen', name: 'Screen', order: 2, isActive: true },
+      ],
+    } as any);
+    const candidateId = await candidateService.create({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      jobIds: ['job'],
+      currentPipelineStageId: 'phone',
+      jobApplications: [
+        { jobId: { _id: 'job', title: 'Engineer' }, status: 'active', currentStage: 'phone', stageHistory: [] },
+        { jobId: 'other-job', status: 'active', currentStage: 'phone', stageHistory: [] },
+      ],
+    } as any);
+    const pipeline = (await pipelineService.findById(pipelineId))!;
+
+    const plan = await planPipelineMigration(pipeline, { mapping: { phone: 'screen' } });
+    const result = await applyPipelineMigration(pipeline, plan, { changedBy: 'admin' });
+
+    expect(result).toMatchObject({ movedCount: 1, failed: [] });
+    const candidate = (await candidateService.findById(candidateId)) as any;
+    expect(candidate.currentPipelineStageId).toBe('screen');
+    expect(candidate.jobApplications[0]).toMatchObject({
+      currentStage: 'screen',
+      stageHistory: [{ fromStageId: 'phone', toStageId: 'screen', changedBy: 'admin' }],
+    });
+    expect(candidate.jobApplications[1]).toMatchObject({ currentStage: 'phone', stageHistory: [] });
+  });
+});
@@ -0,0 +1,47 @@
+import { getFirestoreDB } from '../../src/config/firebase';
+import { findDuplicatePairs } from '../../src/services/candidateDedupe.service';
+import { findMatchingCandidateIds } from '../../src/services/candidateSearch.service';
+import { rebuildCandidateSearchIndex } from '../../src/scripts/rebuild-candidate-search-index';
+
+describe('rebuildCandidateSearchIndex', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('indexes candidates written before the search index existed', async () => {
+    // Written straight to Firestore, as older releases did, so never indexed
+    await getFirestoreDB()
+      .collection('candidates')
+      .doc('legacy')
+      .set({ id: 'legacy', firstName: 'Priya', lastName: 'Raman', email: 'priya@example.com', deletedAt: null });
+
+    expect(await findMatchingCandidateIds('priya')).toEqual(new Set());
+
+    await rebuildCandidateSearchIndex();
+
+    expect(await findMatchingCandidateIds('priya')).toEqual(new Set(['legacy']));
+    expect(await findMatchingCandidateIds('pri', { lenient: true })).toEqual(new Set(['legacy']));
+  });
+
+  it('fills the duplicate blocking index, and refills lost key documents', async () => {
+    const db = getFirestoreDB();
+    const legacy = (id: string, email: string) =>
+      db.collection('candidates').doc(id).set({ id, firstName: 'Sam', lastName: 'Lee', email, deletedAt: null });
+    await legacy('sam-1', 'Sam.Lee@example.com');
+    await legacy('sam-2', 'sam.lee@example.com');
+
+    const pairIds = async () =>
+      (await findDuplicatePairs()).map((pair) => pair.candidates.map((candidate) => candidate.id).sort());
+
+    expect(await pairIds()).toEqual([]);
+    await rebuildCandidateSearchIndex();
+    expect(await pairIds()).toEqual([['sam-1', 'sam-2']]);
+
+    const keys = await db.collection('candidateIdentityKeys').get();
+    await Promise.all(keys.docs.map((doc) => doc.ref.delete()));
+    expect(await pairIds()).toEqual([]);
+
+    await rebuildCandidateSearchIndex();
+    expect(await pairIds()).toEqual([['sam-1', 'sam-2']]);
+  });
+});
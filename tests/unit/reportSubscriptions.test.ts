@@ -0,0 +1,92 @@
+import {
+  clientService,
+  jobService,
+  reportDeliveryService,
+  reportSubscriptionService,
+  userService,
+} from '../../src/services/firestore';
+import resendService from '../../src/services/resend.service';
+import { nextDeliveryAt, runDueReportSubscriptions } from '../../src/services/reportSubscriptions.service';
+
+// Wednesday 4 March 2026
+const NOW = new Date('2026-03-04T10:30:00Z');
+
+describe('nextDeliveryAt', () => {
+  it('moves to the next matching hour, weekday or day of the month', () => {
+    expect(nextDeliveryAt({ frequency: 'daily', hour: 11 }, NOW)).toEqual(new Date('2026-03-04T11:00:00Z'));
+    expect(nextDeliveryAt({ frequency: 'daily', hour: 9 }, NOW)).toEqual(new Date('2026-03-05T09:00:00Z'));
+    expect(nextDeliveryAt({ frequency: 'weekly', hour: 9, dayOfWeek: 1 }, NOW)).toEqual(
+      new Date('2026-03-09T09:00:00Z')
+    );
+    expect(nextDeliveryAt({ frequency: 'weekly', hour: 11, dayOfWeek: 3 }, NOW)).toEqual(
+      new Date('2026-03-04T11:00:00Z')
+    );
+    expect(nextDeliveryAt({ frequency: 'monthly', hour: 9, dayOfMonth: 4 }, NOW)).toEqual(
+      new Date('2026-04-04T09:00:00Z')
+    );
+  });
+});
+
+describe('runDueReportSubscriptions', () => {
+  let ownerId: string;
+
+  const subscribe = (fields: Record<string, unknown> = {}) =>
+    reportSubscriptionService.create({
+      name: 'Monday jobs',
+      ownerId,
+      report: 'open_jobs_by_client',
+      frequency: 'weekly',
+      hour: 9,
+      dayOfWeek: 1,
+      recipients: [],
+      isActive: true,
+      nextRunAt: new Date('2026-03-04T09:00:00Z'),
+      ...fields,
+    } as any);
+
+  beforeAll(async () => {
+    ownerId = await userService.create({
+      email: 'owner@example.com',
+      firstName: 'Olive',
+      lastName: 'Owner',
+      role: 'recruiter',
+      isActive: true,
+    } as any);
+    const clientId = await clientService.create({ companyName: 'Acme' } as any);
+    await jobService.create({ title: 'Engineer', status: 'open', clientId } as any);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('emails due reports as CSV and schedules the next delivery', async () => {
+    const sendEmail = jest.spyOn(resendService, 'sendEmail').mockResolvedValue({ emailId: 'email-1' } as any);
+    const id = await subscribe();
+
+    expect(await runDueReportSubscriptions(NOW)).toBe(1);
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: ['owner@example.com'],
+        attachments: [expect.objectContaining({ filename: 'open_jobs_by_client-2026-03-04.csv' })],
+      })
+    );
+    expect(await reportSubscriptionService.findById(id)).toMatchObject({
+      lastStatus: 'sent',
+      nextRunAt: new Date('2026-03-09T09:00:00Z'),
+    });
+    const [delivery] = await reportDeliveryService.find([{ field: 'subscriptionId', operator: '==', value: id }]);
+    expect(delivery).toMatchObject({ status: 'sent', rowCount: 1, emailId: 'email-1' });
+  });
+
+  it('pauses analytics reports of owners without analytics access', async () => {
+    const sendEmail = jest.spyOn(resendService, 'sendEmail');
+    const id = await subscribe({ report: 'funnel' });
+
+    await runDueReportSubscriptions(NOW);
+
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(await reportSubscriptionService.findById(id)).toMatchObject({ isActive: false, nextRunAt: null });
+  });
+});
@@ -0,0 +1,147 @@
+import { parseSearchQuery, prefixKeys, tokenize } from '../../src/utils/searchQuery';
+import { BadRequestError } from '../../src/utils/errors';
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and splits on punctuation', () => {
+    expect(tokenize('José García, Senior-Engineer')).toEqual([
+      'jose',
+      'garcia',
+      'senior',
+      'engineer',
+    ]);
+  });
+
+  it('keeps technology names intact', () => {
+    expect(tokenize('C++ C# Node.js .NET')).toEqual(['c++', 'c#', 'node.js', '.net']);
+  });
+
+  it('drops trailing dots', () => {
+    expect(tokenize('Worked at Acme Inc.')).toEqual(['worked', 'at', 'acme', 'inc']);
+  });
+
+  it('returns nothing for empty text', () => {
+    expect(tokenize('')).toEqual([]);
+    expect(tokenize('  -- ')).toEqual([]);
+  });
+});
+
+describe('prefixKeys', () => {
+  it('keys every prefix of every word, and of the parts of dotted words', () => {
+    expect(prefixKeys('Jo Li')).toEqual(['^j', '^jo', '^l', '^li']);
+    expect(prefixKeys('jd.x@ab.io')).toEqual(
+      expect.arrayContaining(['^jd.', '^jd.x', '^x', '^ab.i', '^io'])
+    );
+  });
+
+  it('stops at 20 characters', () => {
+    const keys = prefixKeys('a'.repeat(30));
+    expect(keys).toHaveLength(20);
+    expect(keys[19]).toBe(`^${'a'.repeat(20)}`);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('parses a single term', () => {
+    expect(parseSearchQuery('React')).toEqual({ type: 'term', value: 'react' });
+  });
+
+  it('joins bare terms with an implicit AND', () => {
+    expect(parseSearchQuery('react typescript')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'react' },
+        { type: 'term', value: 'typescript' },
+      ],
+    });
+  });
+
+  it('binds AND tighter than OR', () => {
+    expect(parseSearchQuery('react AND redux OR vue')).toEqual({
+      type: 'or',
+      children: [
+        {
+          type: 'and',
+          children: [
+            { type: 'term', value: 'react' },
+            { type: 'term', value: 'redux' },
+          ],
+        },
+        { type: 'term', value: 'vue' },
+      ],
+    });
+  });
+
+  it('groups with parentheses', () => {
+    expect(parseSearchQuery('(react OR vue) senior')).toEqual({
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', value: 'react' },
+            { type: 'term', value: 'vue' },
+          ],
+        },
+        { type: 'term', value: 'senior' },
+      ],
+    });
+  });
+
+  it('negates with NOT and a leading dash', () => {
+    const expected = {
+      type: 'and',
+      children: [
+        { type: 'term', value: 'react' },
+        { type: 'not', child: { type: 'term', value: 'angular' } },
+      ],
+    };
+    expect(parseSearchQuery('react NOT angular')).toEqual(expected);
+    expect(parseSearchQuery('react -angular')).toEqual(expected);
+  });
+
+  it('parses quoted phrases and hyphenated words as phrases', () => {
+    expect(parseSearchQuery('"staff engineer"')).toEqual({
+      type: 'phrase',
+      tokens: ['staff', 'engineer'],
+    });
+    expect(parseSearchQuery('front-end')).toEqual({
+      type: 'phrase',
+      tokens: ['front', 'end'],
+    });
+  });
+
+  it('resolves field prefixes and their aliases', () => {
+    expect(parseSearchQuery('skills:react')).toEqual({
+      type: 'term',
+      field: 'skill',
+      value: 'react',
+    });
+    expect(parseSearchQuery('title:"staff engineer"')).toEqual({
+      type: 'phrase',
+      field: 'title',
+      tokens: ['staff', 'engineer'],
+    });
+  });
+
+  it('marks a trailing * as a prefix match, except inside quotes', () => {
+    expect(parseSearchQuery('java*')).toEqual({ type: 'term', value: 'java', prefix: true });
+    expect(parseSearchQuery('"java*"')).toEqual({ type: 'term', value: 'java' });
+  });
+
+  it.each([
+    ['', 'Search query is empty'],
+    ['"staff engineer', 'Unterminated phrase in search query'],
+    ['(react OR vue', 'Missing closing parenthesis in search query'],
+    ['react)', 'Unexpected ")" in search query'],
+    ['react AND', 'Incomplete search query'],
+    ['OR react', 'Unexpected "OR" in search query'],
+    ['*', 'Search term "*" has no searchable characters'],
+  ])('rejects %p', (query, message) => {
+    expect(() => parseSearchQuery(query)).toThrow(BadRequestError);
+    expect(() => parseSearchQuery(query)).toThrow(message);
+  });
+
+  it('rejects unknown field prefixes', () => {
+    expect(() => parseSearchQuery('salary:100')).toThrow('Unknown search field "salary"');
+  });
+});
@@ -0,0 +1,51 @@
+import { applicationService, candidateService, jobService } from '../../src/services/firestore';
+import { buildSourceReport } from '../../src/services/sourceAttribution.service';
+
+describe('buildSourceReport', () => {
+  it('counts approvals from the application status and reports direct adds separately', async () => {
+    const jobId = await jobService.create({ title: 'Engineer', status: 'open' } as any);
+    const approvedCandidateId = await candidateService.create({
+      firstName: 'Ann',
+      lastName: 'Approved',
+      email: 'ann@example.com',
+      status: 'active',
+      jobIds: [jobId],
+    } as any);
+    const applicationId = await applicationService.create({
+      jobId,
+      candidateId: approvedCandidateId,
+      source: 'direct_apply',
+      status: 'approved',
+      appliedAt: new Date(),
+    } as any);
+    await candidateService.update(approvedCandidateId, {
+      jobApplications: [{ jobId, applicationId, status: 'active' }],
+    } as any);
+    // Linked to a candidate but never approved
+    await applicationService.create({
+      jobId,
+      candidateId: 'someone',
+      source: 'direct_apply',
+      status: 'rejected',
+      appliedAt: new Date(),
+    } as any);
+    await candidateService.create({
+      firstName: 'Sam',
+      lastName: 'Sourced',
+      email: 'sam@example.com',
+      source: 'manual',
+      status: 'hired',
+      jobIds: [jobId],
+      jobApplications: [{ jobId, status: 'hired', appliedAt: new Date() }],
+    } as any);
+
+    const report = await buildSourceReport({ jobId });
+
+    expect(report.totals).toMatchObject({ applications: 2, approved: 1, approvalRate: 50, hired: 0 });
+    expect(report.channels.map((row) => row.channel)).toEqual(['career_page']);
+    expect(report.direct.totals).toMatchObject({ candidates: 1, hired: 1, hireRate: 100 });
+    expect(report.direct.channels).toEqual([
+      expect.objectContaining({ channel: 'sourced', candidates: 1, details: [expect.objectContaining({ detail: 'unspecified' })] }),
+    ]);
+  });
+});
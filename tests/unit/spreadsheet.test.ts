@@ -0,0 +1,125 @@
+import AdmZip from 'adm-zip';
+import { parseCsv, parseXlsx, readSpreadsheet } from '../../src/utils/spreadsheet';
+import { BadRequestError } from '../../src/utils/errors';
+
+/**
+ * Minimal workbook with the given worksheet XML and shared strings
+ */
+const buildXlsx = (sheetXml: string, sharedStrings: string[] = []): Buffer => {
+  const zip = new AdmZip();
+  zip.addFile(
+    'xl/workbook.xml',
+    Buffer.from(
+      '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets><sheet name="Candidates" sheetId="1" r:id="rId7"/></sheets></workbook>'
+    )
+  );
+  zip.addFile(
+    'xl/_rels/workbook.xml.rels',
+    Buffer.from(
+      '<Relationships><Relationship Id="rId7" Type="worksheet" Target="worksheets/data.xml"/></Relationships>'
+    )
+  );
+  zip.addFile('xl/worksheets/data.xml', Buffer.from(`<worksheet><sheetData>${sheetXml}</sheetData></worksheet>`));
+  if (sharedStrings.length > 0) {
+    zip.addFile(
+      'xl/sharedStrings.xml',
+      Buffer.from(`<sst>${sharedStrings.map((text) => `<si>${text}</si>`).join('')}</sst>`)
+    );
+  }
+  return zip.toBuffer();
+};
+
+describe('parseCsv', () => {
+  it('reads quoted fields, escaped quotes and line breaks inside quotes', () => {
+    expect(parseCsv('name,notes\r\n"Doe, Jane","said ""hi""\nthen left"\r\n')).toEqual([
+      ['name', 'notes'],
+      ['Doe, Jane', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters from the header line', () => {
+    expect(parseCsv('a;b\n1;2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+    expect(parseCsv('a\tb\n1,5\t2')).toEqual([
+      ['a', 'b'],
+      ['1,5', '2'],
+    ]);
+  });
+
+  it('strips a byte order mark and keeps a last line without newline', () => {
+    expect(parseCsv('﻿email\njane@example.com')).toEqual([['email'], ['jane@example.com']]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseCsv('a,b,c\n1,,\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', '', ''],
+    ]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a\n"open')).toThrow(BadRequestError);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads shared, inline, boolean and numeric cells of the first sheet', () => {
+    const buffer = buildXlsx(
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>Active</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2"><v>42.5</v></c><c r="C2" t="b"><v>1</v></c></row>',
+      ['<t>Name</t>', '<t>Score</t>', '<r><t>Jane </t></r><r><t>&amp; Co</t></r>']
+    );
+
+    expect(parseXlsx(buffer)).toEqual([
+      ['Name', 'Score', 'Active'],
+      ['Jane & Co', '42.5', 'true'],
+    ]);
+  });
+
+  it('places cells by their reference, filling skipped columns', () => {
+    const buffer = buildXlsx('<row r="1"><c r="A1"><v>1</v></c><c r="D1"><v>4</v></c></row>');
+    expect(parseXlsx(buffer)).toEqual([['1', '', '', '4']]);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => parseXlsx(Buffer.from('not a zip'))).toThrow(BadRequestError);
+    expect(() => parseXlsx(new AdmZip().toBuffer())).toThrow('workbook not found');
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('keys rows by header, trims values and drops blank rows', () => {
+    const data = readSpreadsheet(
+      Buffer.from('Email, Name ,Email,\n a@example.com ,Ann,b@example.com,x\n,,,\n'),
+      'people.CSV'
+    );
+
+    expect(data.format).toBe('csv');
+    expect(data.headers).toEqual(['Email', 'Name', 'Email (2)', 'Column 4']);
+    expect(data.rows).toEqual([
+      { Email: 'a@example.com', Name: 'Ann', 'Email (2)': 'b@example.com', 'Column 4': 'x' },
+    ]);
+  });
+
+  it('reads xlsx files by extension', () => {
+    const buffer = buildXlsx(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>email</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>a@example.com</t></is></c></row>'
+    );
+    expect(readSpreadsheet(buffer, 'import.xlsx')).toEqual({
+      format: 'xlsx',
+      headers: ['email'],
+      rows: [{ email: 'a@example.com' }],
+    });
+  });
+
+  it('rejects unsupported and empty files', () => {
+    expect(() => readSpreadsheet(Buffer.from('a,b'), 'people.xls')).toThrow(
+      'Unsupported file type'
+    );
+    expect(() => readSpreadsheet(Buffer.from('\n,,\n'), 'people.csv')).toThrow('The file is empty');
+  });
+});
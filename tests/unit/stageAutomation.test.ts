@@ -0,0 +1,68 @@
+import {
+  candidateService,
+  emailTemplateService,
+  stageAutomationRunService,
+} from '../../src/services/firestore';
+import resendService from '../../src/services/resend.service';
+import { runDueStageAutomations } from '../../src/services/stageAutomation.service';
+
+describe('runDueStageAutomations', () => {
+  let candidateId: string;
+  let templateId: string;
+
+  const logRun = (fields: Record<string, unknown> = {}) =>
+    stageAutomationRunService.create({
+      candidateId,
+      pipelineId: 'pipeline',
+      stageId: 'screen',
+      stageName: 'Screen',
+      ruleId: 'rule',
+      ruleName: 'Welcome',
+      trigger: 'on_enter',
+      action: { type: 'send_email', templateId, delayMinutes: 30 },
+      status: 'pending',
+      scheduledFor: new Date(Date.now() - 60 * 1000),
+      ...fields,
+    } as any);
+
+  beforeAll(async () => {
+    candidateId = await candidateService.create({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      currentPipelineStageId: 'screen',
+    } as any);
+    templateId = await emailTemplateService.create({
+      name: 'Welcome',
+      subject: 'Hi {{firstName}}',
+      body: 'Welcome to {{stageName}}',
+    } as any);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(resendService, 'sendEmail').mockResolvedValue({ emailId: 'email-1' } as any);
+  });
+
+  it('executes a due run once even when two workers read it as pending', async () => {
+    const runId = await logRun();
+    const due = await stageAutomationRunService.findDue(new Date());
+
+    expect(await runDueStageAutomations()).toMatchObject({ executed: 1 });
+
+    jest.spyOn(stageAutomationRunService, 'findDue').mockResolvedValueOnce(due);
+    expect(await runDueStageAutomations()).toMatchObject({ executed: 0 });
+
+    expect(resendService.sendEmail).toHaveBeenCalledTimes(1);
+    expect(await stageAutomationRunService.findById(runId)).toMatchObject({ status: 'completed' });
+  });
+
+  it('gives up on runs claimed long ago instead of running them again', async () => {
+    const runId = await logRun({ status: 'running', claimedAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    await runDueStageAutomations();
+
+    expect(resendService.sendEmail).not.toHaveBeenCalled();
+    expect(await stageAutomationRunService.findById(runId)).toMatchObject({ status: 'failed' });
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  candidateService,
+  jobService,
+  notificationService,
+  pipelineService,
+  stageSlaBreachService,
+} from '../../src/services/firestore';
+import { sendSlaBreachReminders } from '../../src/services/stageSla.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('sendSlaBreachReminders', () => {
+  it('reports a breach once to the legacy assignee, even from concurrent runs', async () => {
+    const now = new Date();
+    const jobId = await jobService.create({ title: 'Engineer', status: 'open', createdBy: 'creator' } as any);
+    await pipelineService.create({
+      name: 'Engineering',
+      type: 'candidate',
+      jobId,
+      isDefault: false,
+      isActive: true,
+      createdBy: 'creator',
+      stages: [{ id: 'screen', name: 'Screen', order: 0, isActive: true, slaDays: 3 }],
+    } as any);
+    await candidateService.create({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      email: 'jane@example.com',
+      jobIds: [jobId],
+      currentPipelineStageId: 'screen',
+      stageEnteredAt: new Date(now.getTime() - 5 * DAY_MS),
+      assignedTo: { _id: 'legacy-owner', name: 'Lee' },
+    } as any);
+
+    const counts = await Promise.all([sendSlaBreachReminders(now), sendSlaBreachReminders(now)]);
+
+    expect(counts[0] + counts[1]).toBe(1);
+    expect(await stageSlaBreachService.find([])).toEqual([expect.objectContaining({ ownerId: 'legacy-owner' })]);
+    expect(await notificationService.findByUserId('legacy-owner')).toHaveLength(1);
+    expect(await sendSlaBreachReminders(now)).toBe(0);
+  });
+});